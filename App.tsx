@@ -10,20 +10,30 @@ import type { RootStackParamList } from './lib/navigation/types';
 
 // Auth
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { GoalsProvider } from './contexts/GoalsContext';
 
 // Screens
 import SignInScreen from './screens/auth/SignInScreen';
 import SignUpScreen from './screens/auth/SignUpScreen';
 import DailyLogScreen from './screens/main/DailyLogScreen';
+import WorkoutLogScreen from './screens/main/WorkoutLogScreen';
+import CustomMetricsScreen from './screens/main/CustomMetricsScreen';
 import DashboardScreen from './screens/main/DashboardScreen';
 import WhatIfScreen from './screens/main/WhatIfScreen';
 import FutureYouScreen from './screens/main/FutureYouScreen';
 import AchievementsScreen from './screens/main/AchievementsScreen';
+import StreaksScreen from './screens/main/StreaksScreen';
+import FriendsScreen from './screens/main/FriendsScreen';
 import WeeklySummaryScreen from './screens/main/WeeklySummaryScreen';
 import AIWeeklyAnalysisScreen from './screens/main/AIWeeklyAnalysisScreen';
 import AnalyticsScreen from './screens/main/AnalyticsScreen';
 import SettingsScreen from './screens/profile/SettingsScreen';
+import GoalsScreen from './screens/profile/GoalsScreen';
 import AvatarSetupScreen from './screens/profile/AvatarSetupScreen';
+import DataImportScreen from './screens/profile/DataImportScreen';
+import ShareLinksScreen from './screens/profile/ShareLinksScreen';
+import TrashScreen from './screens/profile/TrashScreen';
+import SessionsScreen from './screens/profile/SessionsScreen';
 import DatabaseViewerScreen from './screens/dev/DatabaseViewerScreen';
 import { ToastProvider } from './components/ui/Toast';
 import { ActivityIndicator, View, Text, TextInput, Platform, TextStyle } from 'react-native';
@@ -89,14 +99,23 @@ function AppNavigator() {
       <Stack.Screen name="DailyLog" component={DailyLogScreen} />
       {/* Backward-compatible alias while keeping one canonical daily logging flow */}
       <Stack.Screen name="DataEntry" component={DailyLogScreen} />
+      <Stack.Screen name="WorkoutLog" component={WorkoutLogScreen} />
+      <Stack.Screen name="CustomMetrics" component={CustomMetricsScreen} />
       <Stack.Screen name="FutureYou" component={FutureYouScreen} />
       <Stack.Screen name="WhatIf" component={WhatIfScreen} />
       <Stack.Screen name="Achievements" component={AchievementsScreen} />
+      <Stack.Screen name="Streaks" component={StreaksScreen} />
+      <Stack.Screen name="Friends" component={FriendsScreen} />
       <Stack.Screen name="WeeklySummary" component={WeeklySummaryScreen} />
       <Stack.Screen name="AIWeeklyAnalysis" component={AIWeeklyAnalysisScreen} />
       <Stack.Screen name="Analytics" component={AnalyticsScreen} />
       <Stack.Screen name="Settings" component={SettingsScreen} />
+      <Stack.Screen name="Goals" component={GoalsScreen} />
       <Stack.Screen name="AvatarSetup" component={AvatarSetupScreen} />
+      <Stack.Screen name="DataImport" component={DataImportScreen} />
+      <Stack.Screen name="ShareLinks" component={ShareLinksScreen} />
+      <Stack.Screen name="Trash" component={TrashScreen} />
+      <Stack.Screen name="Sessions" component={SessionsScreen} />
       <Stack.Screen name="DatabaseViewer" component={DatabaseViewerScreen} />
     </Stack.Navigator>
   );
@@ -128,7 +147,9 @@ export default function App() {
     <SafeAreaProvider>
       <ToastProvider>
         <AuthProvider>
-          <RootNavigator />
+          <GoalsProvider>
+            <RootNavigator />
+          </GoalsProvider>
         </AuthProvider>
         <StatusBar style="light" />
       </ToastProvider>
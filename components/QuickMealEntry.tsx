@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { Trash2, Utensils } from "lucide-react-native";
+import { AppButton } from "./ui/AppButton";
+import { useToast } from "./ui/Toast";
+import { deleteMeal, getMealTags, getMeals, logMeal, type Meal } from "../lib/api/auth";
+import type { MealMacrosDto, MealType } from "../lib/api/contracts";
+
+const MEAL_TYPES: Array<{ id: MealType; label: string; icon: string }> = [
+    { id: 'breakfast', label: 'Breakfast', icon: '🥣' },
+    { id: 'lunch', label: 'Lunch', icon: '🥗' },
+    { id: 'dinner', label: 'Dinner', icon: '🍝' },
+    { id: 'snack', label: 'Snack', icon: '🍎' },
+    { id: 'drink', label: 'Drink', icon: '🥤' },
+];
+
+// Eaten-at shortcuts, in minutes before now.
+const WHEN_OPTIONS = [
+    { label: 'Now', minutesAgo: 0 },
+    { label: '1h ago', minutesAgo: 60 },
+    { label: '3h ago', minutesAgo: 180 },
+];
+
+const MACRO_FIELDS: Array<{ key: keyof MealMacrosDto; label: string }> = [
+    { key: 'calories', label: 'kcal' },
+    { key: 'proteinG', label: 'Protein g' },
+    { key: 'carbsG', label: 'Carbs g' },
+    { key: 'fatG', label: 'Fat g' },
+    { key: 'sugarG', label: 'Sugar g' },
+];
+
+const MAX_TAG_CHIPS = 10;
+
+function tagLabel(tag: string): string {
+    return tag.replace(/_/g, ' ');
+}
+
+// Breakfast before 11:00, lunch until 16:00, dinner until 21:00, snack otherwise.
+function defaultMealType(now = new Date()): MealType {
+    const hour = now.getHours();
+    if (hour >= 5 && hour < 11) return 'breakfast';
+    if (hour >= 11 && hour < 16) return 'lunch';
+    if (hour >= 16 && hour < 21) return 'dinner';
+    return 'snack';
+}
+
+/**
+ * Quick meal entry shown alongside the Daily Log. Saves each meal immediately, separate
+ * from the daily vitals, and lists today's meals underneath.
+ */
+export function QuickMealEntry() {
+    const { showToast } = useToast();
+    const [mealType, setMealType] = useState<MealType>(() => defaultMealType());
+    const [description, setDescription] = useState("");
+    const [minutesAgo, setMinutesAgo] = useState(0);
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
+    const [availableTags, setAvailableTags] = useState<string[]>([]);
+    const [showMacros, setShowMacros] = useState(false);
+    const [macros, setMacros] = useState<Partial<Record<keyof MealMacrosDto, string>>>({});
+    const [isSaving, setIsSaving] = useState(false);
+    const [todayMeals, setTodayMeals] = useState<Meal[]>([]);
+
+    const loadMeals = useCallback(async () => {
+        try {
+            const [meals, tags] = await Promise.all([getMeals(1), getMealTags()]);
+            setTodayMeals(meals);
+            setAvailableTags(tags.slice(0, MAX_TAG_CHIPS).map((item) => item.tag));
+        } catch (e) { console.warn('Meal load error:', e); }
+    }, []);
+
+    useEffect(() => { void loadMeals(); }, [loadMeals]);
+
+    const toggleTag = (tag: string) => {
+        setSelectedTags((current) => current.includes(tag) ? current.filter((item) => item !== tag) : [...current, tag]);
+    };
+
+    const handleAdd = async () => {
+        if (isSaving) return;
+        if (description.trim().length === 0) {
+            showToast('Describe what you ate', 'error');
+            return;
+        }
+
+        const parsedMacros: MealMacrosDto = {};
+        MACRO_FIELDS.forEach(({ key }) => {
+            const value = Number((macros[key] ?? '').replace(',', '.'));
+            if ((macros[key] ?? '').trim().length > 0 && Number.isFinite(value) && value >= 0) parsedMacros[key] = value;
+        });
+
+        const eatenAt = new Date(Date.now() - minutesAgo * 60000);
+        setIsSaving(true);
+        try {
+            const saved = await logMeal({
+                mealType,
+                eatenAt: eatenAt.toISOString(),
+                utcOffsetMinutes: -eatenAt.getTimezoneOffset(),
+                description: description.trim(),
+                macros: Object.keys(parsedMacros).length > 0 ? parsedMacros : undefined,
+                tags: selectedTags,
+            });
+            if (!saved) {
+                showToast('❌ Could not save meal', 'error');
+                return;
+            }
+            showToast('🍽️ Meal logged', 'success');
+            setDescription("");
+            setSelectedTags([]);
+            setMacros({});
+            setMinutesAgo(0);
+            await loadMeals();
+        } catch {
+            showToast('❌ Network error', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (meal: Meal) => {
+        const ok = await deleteMeal(meal._id);
+        if (!ok) {
+            showToast('❌ Could not delete meal', 'error');
+            return;
+        }
+        setTodayMeals((current) => current.filter((item) => item._id !== meal._id));
+    };
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.chipWrap}>
+                {MEAL_TYPES.map((item) => (
+                    <TouchableOpacity
+                        key={item.id}
+                        style={[styles.chip, mealType === item.id && styles.chipActive]}
+                        onPress={() => setMealType(item.id)}
+                        activeOpacity={0.7}
+                    >
+                        <Text style={[styles.chipText, mealType === item.id && styles.chipTextActive]}>
+                            {item.icon} {item.label}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+
+            <TextInput
+                style={styles.input}
+                value={description}
+                onChangeText={setDescription}
+                placeholder="What did you eat? e.g. Pasta with pesto"
+                placeholderTextColor="#94a3b8"
+                maxLength={500}
+            />
+
+            <View style={styles.chipWrap}>
+                {WHEN_OPTIONS.map((option) => (
+                    <TouchableOpacity
+                        key={option.label}
+                        style={[styles.chipSmall, minutesAgo === option.minutesAgo && styles.chipActive]}
+                        onPress={() => setMinutesAgo(option.minutesAgo)}
+                        activeOpacity={0.7}
+                    >
+                        <Text style={[styles.chipText, minutesAgo === option.minutesAgo && styles.chipTextActive]}>{option.label}</Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+
+            {availableTags.length > 0 && (
+                <View>
+                    <Text style={styles.label}>Tags</Text>
+                    <View style={styles.chipWrap}>
+                        {availableTags.map((tag) => (
+                            <TouchableOpacity
+                                key={tag}
+                                style={[styles.chipSmall, selectedTags.includes(tag) && styles.tagActive]}
+                                onPress={() => toggleTag(tag)}
+                                activeOpacity={0.7}
+                            >
+                                <Text style={[styles.chipText, selectedTags.includes(tag) && styles.chipTextActive]}>{tagLabel(tag)}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                </View>
+            )}
+
+            <TouchableOpacity onPress={() => setShowMacros((value) => !value)} activeOpacity={0.7}>
+                <Text style={styles.link}>{showMacros ? 'Hide macros' : '+ Add macros (optional)'}</Text>
+            </TouchableOpacity>
+            {showMacros && (
+                <View style={styles.macroRow}>
+                    {MACRO_FIELDS.map(({ key, label }) => (
+                        <View key={key} style={styles.macroCell}>
+                            <Text style={styles.macroLabel}>{label}</Text>
+                            <TextInput
+                                style={styles.macroInput}
+                                value={macros[key] ?? ''}
+                                onChangeText={(text) => setMacros((current) => ({ ...current, [key]: text }))}
+                                keyboardType="decimal-pad"
+                                placeholder="—"
+                                placeholderTextColor="#94a3b8"
+                            />
+                        </View>
+                    ))}
+                </View>
+            )}
+
+            <AppButton
+                label="Add meal"
+                onPress={handleAdd}
+                loading={isSaving}
+                variant="secondary"
+                icon={<Utensils size={16} color="#7c3aed" />}
+            />
+
+            {todayMeals.length > 0 && (
+                <View style={styles.list}>
+                    <Text style={styles.label}>Today</Text>
+                    {todayMeals.map((meal) => (
+                        <View key={meal._id} style={styles.mealRow}>
+                            <Text style={styles.mealIcon}>{MEAL_TYPES.find((item) => item.id === meal.mealType)?.icon ?? '🍽️'}</Text>
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.mealText} numberOfLines={1}>{meal.description}</Text>
+                                {meal.tags.length > 0 && (
+                                    <Text style={styles.mealTags} numberOfLines={1}>{meal.tags.map(tagLabel).join(' · ')}</Text>
+                                )}
+                            </View>
+                            <TouchableOpacity onPress={() => handleDelete(meal)} style={styles.deleteBtn} activeOpacity={0.7}>
+                                <Trash2 size={14} color="#ef4444" />
+                            </TouchableOpacity>
+                        </View>
+                    ))}
+                </View>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: { gap: 12 },
+    label: { fontSize: 13, fontWeight: '600', color: '#334155', marginBottom: 6 },
+    chipWrap: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 16, backgroundColor: '#fff', borderWidth: 1, borderColor: '#e2e8f0' },
+    chipSmall: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 14, backgroundColor: '#fff', borderWidth: 1, borderColor: '#e2e8f0' },
+    chipActive: { backgroundColor: '#7c3aed', borderColor: '#7c3aed' },
+    tagActive: { backgroundColor: '#f97316', borderColor: '#f97316' },
+    chipText: { fontSize: 12, fontWeight: '600', color: '#475569' },
+    chipTextActive: { color: '#fff' },
+    input: { height: 48, borderRadius: 12, borderWidth: 1, borderColor: '#e2e8f0', backgroundColor: '#fff', paddingHorizontal: 12, fontSize: 15, color: '#0f172a' },
+    link: { fontSize: 13, fontWeight: '600', color: '#7c3aed' },
+    macroRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    macroCell: { width: '30%' },
+    macroLabel: { fontSize: 11, color: '#64748b', marginBottom: 4 },
+    macroInput: { height: 40, borderRadius: 10, borderWidth: 1, borderColor: '#e2e8f0', backgroundColor: '#fff', paddingHorizontal: 10, fontSize: 14, color: '#0f172a' },
+    list: { marginTop: 4 },
+    mealRow: { flexDirection: 'row', alignItems: 'center', gap: 10, paddingVertical: 8, borderTopWidth: 1, borderTopColor: '#f1f5f9' },
+    mealIcon: { fontSize: 18 },
+    mealText: { fontSize: 14, fontWeight: '600', color: '#1e1b4b' },
+    mealTags: { fontSize: 11, color: '#f97316', marginTop: 2 },
+    deleteBtn: { padding: 6 },
+});
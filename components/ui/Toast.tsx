@@ -1,18 +1,24 @@
 import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react';
-import { View, Text, Animated, Platform } from 'react-native';
+import { View, Text, Animated, Platform, TouchableOpacity } from 'react-native';
 import { Check, X, Bell, Info, AlertTriangle } from 'lucide-react-native';
 import { cn } from '../../lib/utils';
 
 type ToastType = 'success' | 'error' | 'info' | 'warning';
 
+interface ToastAction {
+    label: string;
+    onPress: () => void;
+}
+
 interface ToastConfig {
     id: string;
     message: string;
     type: ToastType;
+    action?: ToastAction;
 }
 
 interface ToastContextType {
-    showToast: (message: string, type?: ToastType) => void;
+    showToast: (message: string, type?: ToastType, action?: ToastAction) => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -29,8 +35,8 @@ export const ToastProvider = ({ children }: { children: React.ReactNode }) => {
     const slideAnim = useRef(new Animated.Value(-100)).current;
 
     // Function to show toast
-    const showToast = useCallback((message: string, type: ToastType = 'info') => {
-        setToast({ id: Date.now().toString(), message, type });
+    const showToast = useCallback((message: string, type: ToastType = 'info', action?: ToastAction) => {
+        setToast({ id: Date.now().toString(), message, type, action });
     }, []);
 
     // Function to hide toast
@@ -58,8 +64,8 @@ export const ToastProvider = ({ children }: { children: React.ReactNode }) => {
                 }),
             ]).start();
 
-            // Auto hide after 3 seconds
-            const timer = setTimeout(hideToast, 3000);
+            // Auto hide after 3 seconds, or 6 when there is an action to tap
+            const timer = setTimeout(hideToast, toast.action ? 6000 : 3000);
             return () => clearTimeout(timer);
         }
     }, [toast, hideToast, fadeAnim, slideAnim]);
@@ -89,7 +95,7 @@ export const ToastProvider = ({ children }: { children: React.ReactNode }) => {
                         opacity: fadeAnim,
                         transform: [{ translateY: slideAnim }]
                     }}
-                    pointerEvents="none"
+                    pointerEvents={toast.action ? 'box-none' : 'none'}
                 >
                     <View
                         className={cn(
@@ -108,6 +114,19 @@ export const ToastProvider = ({ children }: { children: React.ReactNode }) => {
                         <Text className="text-white dark:text-slate-900 font-medium text-base">
                             {toast.message}
                         </Text>
+                        {toast.action && (
+                            <TouchableOpacity
+                                onPress={() => {
+                                    toast.action?.onPress();
+                                    hideToast();
+                                }}
+                                activeOpacity={0.7}
+                            >
+                                <Text className="text-purple-300 dark:text-purple-700 font-bold text-base">
+                                    {toast.action.label}
+                                </Text>
+                            </TouchableOpacity>
+                        )}
                     </View>
                 </Animated.View>
             )}
@@ -1,8 +1,16 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { getToken, removeToken, setToken } from '../lib/api/client';
+import {
+    getSessionDevice,
+    getToken,
+    refreshAccessToken,
+    removeToken,
+    setSessionExpiredHandler,
+    setSessionTokens,
+} from '../lib/api/client';
 import { apiFetch } from '../lib/api/client';
-import type { AuthSessionDto, AuthUserDto } from '../lib/api/contracts';
+import type { AuthSessionDto, AuthTokensDto, AuthUserDto, TwoFactorChallengeDto } from '../lib/api/contracts';
+import { getDeviceTimeZone } from '../lib/date/localDay';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 export type AuthUser = AuthUserDto;
@@ -12,7 +20,14 @@ interface AuthContextValue {
     token: string | null;
     isLoading: boolean;
     isAuthenticated: boolean;
+    /** Set after signing in to an account that is scheduled for deletion, until the user decides. */
+    pendingDeletion: AuthUser | null;
+    /** True between a correct password and the authenticator code on 2FA accounts. */
+    twoFactorPending: boolean;
+    /** Resolves to null when the account needs a second factor; finish with completeTwoFactor. */
     login: (email: string, password: string) => Promise<AuthUser | null>;
+    completeTwoFactor: (code: string) => Promise<AuthUser | null>;
+    cancelTwoFactor: () => void;
     register: (
         name: string,
         email: string,
@@ -20,6 +35,9 @@ interface AuthContextValue {
         profile?: { age?: number; heightCm?: number; weightKg?: number; profileImage?: string }
     ) => Promise<AuthUser | null>;
     logout: () => Promise<void>;
+    cancelAccountDeletion: () => Promise<AuthUser | null>;
+    /** Confirms the email with the emailed code; resolves to an error message or null. */
+    verifyEmail: (code: string) => Promise<string | null>;
 }
 
 
@@ -40,30 +58,63 @@ export function AuthProvider({ children }: AuthProviderProps) {
     const [user, setUser] = useState<AuthUser | null>(null);
     const [token, setTokenState] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
+    const [pendingDeletion, setPendingDeletion] = useState<AuthUser | null>(null);
+    const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallengeDto | null>(null);
+
+    // ─── Forced sign-out ────────────────────────────────────────────────────────
+    // apiFetch calls this when the refresh token is rejected (revoked from another
+    // device, expired, or replayed). Tokens are already cleared by then.
+    useEffect(() => {
+        setSessionExpiredHandler(() => {
+            console.log('[Auth] Session ended by the server, signing out');
+            void AsyncStorage.multiRemove(['USER_ID', 'USER_NAME', 'USER_EMAIL', 'USER_PROFILE_IMAGE']);
+            setUser(null);
+            setTokenState(null);
+            setPendingDeletion(null);
+        });
+        return () => setSessionExpiredHandler(null);
+    }, []);
 
     // ─── Auto-login on app start ────────────────────────────────────────────────
     useEffect(() => {
         async function restoreSession() {
             try {
-                const storedToken = await getToken();
+                let storedToken = await getToken();
                 if (!storedToken) return;
 
-                // Validate token hasn't expired locally first
+                // Access tokens are short-lived: swap an expired one before calling /me
                 const payload = decodeJwt(storedToken);
                 if (!payload || isExpired(payload)) {
-                    console.log('[Auth] Token expired, clearing session');
-                    await removeToken();
-                    await AsyncStorage.multiRemove(['USER_ID', 'USER_NAME', 'USER_EMAIL']);
-                    return;
+                    const refreshed = await refreshAccessToken();
+                    storedToken = refreshed ? await getToken() : null;
+                    if (!storedToken) {
+                        console.log('[Auth] Session expired, clearing session');
+                        await removeToken();
+                        await AsyncStorage.multiRemove(['USER_ID', 'USER_NAME', 'USER_EMAIL']);
+                        return;
+                    }
                 }
 
                 // Always fetch fresh user profile from server (avoids AsyncStorage
                 // failing silently on large base64 profileImage strings)
                 const res = await apiFetch<{ user: AuthUser }>('/api/auth/me');
-                if (res.success && res.data?.user) {
-                    const freshUser = res.data.user;
+                if (res.success && res.data?.user?.deletionScheduledFor) {
+                    // Account deletion is pending: sign in again to keep the account
+                    await removeToken();
+                    await AsyncStorage.multiRemove(['USER_ID', 'USER_NAME', 'USER_EMAIL']);
+                } else if (res.success && res.data?.user) {
+                    let freshUser = res.data.user;
+                    // Travelled since the last launch? Move day boundaries to the new zone.
+                    const deviceTimeZone = getDeviceTimeZone();
+                    if (freshUser.timeZone !== deviceTimeZone) {
+                        const zoned = await apiFetch<{ user: AuthUser }>('/api/auth/time-zone', {
+                            method: 'PUT',
+                            body: JSON.stringify({ timeZone: deviceTimeZone }),
+                        });
+                        if (zoned.success && zoned.data?.user) freshUser = zoned.data.user;
+                    }
                     setUser(freshUser);
-                    setTokenState(storedToken);
+                    setTokenState(await getToken());
                     // Cache lightweight fields only (not the large profileImage)
                     await AsyncStorage.multiSet([
                         ['USER_ID', freshUser.id],
@@ -94,13 +145,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
     ): Promise<AuthUser | null> => {
         const res = await apiFetch<AuthSessionDto>('/api/auth/register', {
             method: 'POST',
-            body: JSON.stringify({ name, email, password, ...profile }),
+            body: JSON.stringify({ name, email, password, ...profile, timeZone: getDeviceTimeZone(), device: getSessionDevice() }),
         });
 
-        console.log('[AuthContext] Raw Register Response:', JSON.stringify(res));
-
         if (res.success && res.data) {
-            return completeRegistration(res.data.token, res.data.user, !!profile?.profileImage);
+            return completeRegistration(res.data, res.data.user, !!profile?.profileImage);
         }
 
         const registerError = res.success ? 'Unknown register error' : res.error;
@@ -112,16 +161,18 @@ export function AuthProvider({ children }: AuthProviderProps) {
     // ─── Login ──────────────────────────────────────────────────────────────────
     const login = async (email: string, password: string): Promise<AuthUser | null> => {
         console.log(`[AuthContext] Sending Login... Email: '${email}'`);
-        const res = await apiFetch<AuthSessionDto>('/api/auth/login', {
+        const res = await apiFetch<AuthSessionDto | TwoFactorChallengeDto>('/api/auth/login', {
             method: 'POST',
-            body: JSON.stringify({ email, password }),
+            body: JSON.stringify({ email, password, timeZone: getDeviceTimeZone(), device: getSessionDevice() }),
         });
 
-        console.log('[AuthContext] Raw Login Response:', JSON.stringify(res));
-
+        if (res.success && res.data && 'twoFactorRequired' in res.data) {
+            // Password was right; the sign-in screen now asks for the authenticator code
+            setTwoFactorChallenge(res.data);
+            return null;
+        }
         if (res.success && res.data) {
-            await persistSession(res.data.token, res.data.user);
-            return res.data.user;
+            return acceptSession(res.data);
         }
 
         const loginError = res.success ? 'Unknown login error' : res.error;
@@ -129,18 +180,88 @@ export function AuthProvider({ children }: AuthProviderProps) {
         throw new Error(loginError || 'Login failed');
     };
 
+    // ─── Two-Factor Sign-In ─────────────────────────────────────────────────────
+    const completeTwoFactor = async (code: string): Promise<AuthUser | null> => {
+        if (!twoFactorChallenge) return null;
+        const res = await apiFetch<AuthSessionDto>('/api/auth/login/2fa', {
+            method: 'POST',
+            body: JSON.stringify({
+                challengeToken: twoFactorChallenge.challengeToken,
+                code: code.trim(),
+                timeZone: getDeviceTimeZone(),
+                device: getSessionDevice(),
+            }),
+        });
+
+        if (res.success && res.data) {
+            setTwoFactorChallenge(null);
+            return acceptSession(res.data);
+        }
+
+        const twoFactorError = res.success ? 'Unknown sign-in error' : res.error;
+        if (new Date(twoFactorChallenge.expiresAt).getTime() <= Date.now()) {
+            // The challenge lapsed; start over from the password
+            setTwoFactorChallenge(null);
+        }
+        throw new Error(twoFactorError || 'Verification failed');
+    };
+
+    const cancelTwoFactor = (): void => {
+        setTwoFactorChallenge(null);
+    };
+
     // ─── Logout ─────────────────────────────────────────────────────────────────
     const logout = async (): Promise<void> => {
+        // Revoke this device's session server-side; sign out locally even if that fails
+        const signOut = await apiFetch('/api/auth/logout', { method: 'POST' });
+        if (!signOut.success) console.warn('[Auth] Server sign-out failed:', signOut.error);
         await removeToken();
         await AsyncStorage.multiRemove(['USER_ID', 'USER_NAME', 'USER_EMAIL', 'USER_PROFILE_IMAGE']);
         setUser(null);
         setTokenState(null);
+        setPendingDeletion(null);
+        setTwoFactorChallenge(null);
         console.log('[Auth] Logged out');
     };
 
+    // ─── Cancel Account Deletion ────────────────────────────────────────────────
+    const cancelAccountDeletion = async (): Promise<AuthUser | null> => {
+        const res = await apiFetch<{ user: AuthUser }>('/api/auth/me/cancel-deletion', { method: 'POST' });
+        const storedToken = await getToken();
+        if (!res.success || !res.data?.user || !storedToken) {
+            console.error('[AuthContext] Cancel deletion failed:', res.success ? 'No user returned' : res.error);
+            return null;
+        }
+        setPendingDeletion(null);
+        await persistUser(storedToken, res.data.user);
+        return res.data.user;
+    };
+
+    // ─── Verify Email ───────────────────────────────────────────────────────────
+    const verifyEmail = async (code: string): Promise<string | null> => {
+        const res = await apiFetch<{ user: AuthUser }>('/api/auth/verify-email', {
+            method: 'POST',
+            body: JSON.stringify({ token: code.trim() }),
+        });
+        if (!res.success) return res.error || 'Could not verify email';
+        if (res.data?.user && user) setUser(res.data.user);
+        return null;
+    };
+
     // ─── Helpers ─────────────────────────────────────────────────────────────────
-    async function completeRegistration(jwtToken: string, authUser: AuthUser, hasProfileImage: boolean): Promise<AuthUser> {
-        await setToken(jwtToken);
+    async function acceptSession(session: AuthSessionDto): Promise<AuthUser> {
+        if (session.user.deletionScheduledFor) {
+            // Keep the tokens so the deletion can be cancelled, but stay on the sign-in screen
+            await setSessionTokens(session);
+            setPendingDeletion(session.user);
+            return session.user;
+        }
+        await persistSession(session, session.user);
+        return session.user;
+    }
+
+    async function completeRegistration(tokens: AuthTokensDto, authUser: AuthUser, hasProfileImage: boolean): Promise<AuthUser> {
+        await setSessionTokens(tokens);
 
         let finalUser = authUser;
         if (hasProfileImage) {
@@ -159,12 +280,17 @@ export function AuthProvider({ children }: AuthProviderProps) {
             }
         }
 
-        await persistSession(jwtToken, finalUser);
+        // Avatar setup can outlast the access token; keep whatever pair apiFetch holds now
+        await persistUser((await getToken()) ?? tokens.token, finalUser);
         return finalUser;
     }
 
-    async function persistSession(jwtToken: string, authUser: AuthUser) {
-        await setToken(jwtToken);
+    async function persistSession(tokens: AuthTokensDto, authUser: AuthUser) {
+        await setSessionTokens(tokens);
+        await persistUser(tokens.token, authUser);
+    }
+
+    async function persistUser(jwtToken: string, authUser: AuthUser) {
         // Only cache lightweight fields — profileImage (base64) is too large for
         // AsyncStorage and will silently fail. It is fetched fresh via /api/auth/me.
         await AsyncStorage.multiSet([
@@ -183,9 +309,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
             token,
             isLoading,
             isAuthenticated: !!user,
+            pendingDeletion,
+            twoFactorPending: !!twoFactorChallenge,
             login,
+            completeTwoFactor,
+            cancelTwoFactor,
             register,
             logout,
+            cancelAccountDeletion,
+            verifyEmail,
         }}>
             {children}
         </AuthContext.Provider>
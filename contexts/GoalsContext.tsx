@@ -0,0 +1,80 @@
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { getGoals, resetGoals as resetGoalsRequest, updateGoals, type DailyGoals } from '../lib/api/auth';
+import { DEFAULT_GOALS } from '../lib/goals';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+interface GoalsContextValue {
+    goals: DailyGoals;
+    customized: Array<keyof DailyGoals>;
+    isLoaded: boolean;
+    saveGoals: (changes: Partial<Record<keyof DailyGoals, number | null>>) => Promise<string | null>;
+    resetGoals: () => Promise<boolean>;
+}
+
+// ─── Context ──────────────────────────────────────────────────────────────────
+const GoalsContext = createContext<GoalsContextValue | null>(null);
+
+// ─── Hook ─────────────────────────────────────────────────────────────────────
+export function useGoals(): GoalsContextValue {
+    const ctx = useContext(GoalsContext);
+    if (!ctx) throw new Error('useGoals must be used within <GoalsProvider>');
+    return ctx;
+}
+
+// ─── Provider ─────────────────────────────────────────────────────────────────
+interface GoalsProviderProps { children: ReactNode; }
+
+/**
+ * Loads the signed-in user's daily goals once and shares them with every screen that
+ * scores or charts against a target. Falls back to the defaults while loading or offline.
+ */
+export function GoalsProvider({ children }: GoalsProviderProps) {
+    const { user } = useAuth();
+    const [goals, setGoals] = useState<DailyGoals>(DEFAULT_GOALS);
+    const [customized, setCustomized] = useState<Array<keyof DailyGoals>>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setGoals(DEFAULT_GOALS);
+        setCustomized([]);
+        setIsLoaded(false);
+        if (!user) return;
+
+        getGoals()
+            .then((result) => {
+                if (cancelled || !result) return;
+                setGoals(result.goals);
+                setCustomized(result.customized);
+            })
+            .catch((e) => console.warn('[Goals] Load error:', e))
+            .finally(() => {
+                if (!cancelled) setIsLoaded(true);
+            });
+        return () => { cancelled = true; };
+    }, [user?.id]);
+
+    // Returns an error message, or null on success.
+    const saveGoals = useCallback(async (changes: Partial<Record<keyof DailyGoals, number | null>>): Promise<string | null> => {
+        const { goals: saved, error } = await updateGoals(changes);
+        if (!saved) return error ?? 'Could not save goals';
+        setGoals(saved.goals);
+        setCustomized(saved.customized);
+        return null;
+    }, []);
+
+    const resetGoals = useCallback(async (): Promise<boolean> => {
+        const saved = await resetGoalsRequest();
+        if (!saved) return false;
+        setGoals(saved.goals);
+        setCustomized(saved.customized);
+        return true;
+    }, []);
+
+    return (
+        <GoalsContext.Provider value={{ goals, customized, isLoaded, saveGoals, resetGoals }}>
+            {children}
+        </GoalsContext.Provider>
+    );
+}
@@ -3,34 +3,80 @@
  * All data goes through MongoDB Atlas via the Express backend.
  * Works on iOS, Android (Expo Go), and Web.
  */
-import { apiFetch } from './client';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+    apiDownload,
+    apiFetch,
+    getSessionDevice,
+    getToken,
+    removeToken,
+    setSessionTokens,
+    setToken,
+} from './client';
 import type {
+    AccountDeletionDto,
     AuthSessionDto,
     AuthUserDto,
     DailyLogSaveDto,
+    DailyLogUndoDto,
+    EntryRevisionDto,
+    RevisionEntryTypeDto,
     FutureInsightDto,
     HealthEntryDto,
+    HealthSampleMetric,
+    IntradayDayDto,
     MoodEntryDto,
     MoodType,
+    SleepQuality,
+    SleepSessionDto,
+    SleepStagesDto,
+    SleepTimingSummaryDto,
     ClearSeedDemoResultDto,
+    DataExportDto,
+    DeviceSessionDto,
+    DeviceImportProvider,
+    DeviceImportResultDto,
     StreakDataDto,
+    StreakHistoryDto,
+    StreakKindDto,
+    AchievementDto,
+    AchievementsDto,
+    AchievementTierDto,
+    ChallengeDto,
+    ChallengeHistoryDto,
+    WeeklyChallengesDto,
+    FriendFeedDto,
+    FriendInviteDto,
+    FriendsDto,
+    FriendWeekSummaryDto,
+    SharingSettingsDto,
+    CreatedShareLinkDto,
+    ShareLinkDto,
+    ShareScopeDto,
+    WorkoutDto,
+    WorkoutSummaryDto,
+    WorkoutType,
+    MealDto,
+    MealEnergyImpactDto,
+    MealMacrosDto,
+    MealType,
+    CustomMetricAggregation,
+    CustomMetricDayValueDto,
+    CustomMetricDto,
+    CustomMetricValueType,
+    DailyGoalsDto,
+    UserGoalsDto,
+    TrashItemDto,
+    TrashKindDto,
+    TwoFactorChallengeDto,
+    TwoFactorRecoveryCodesDto,
+    TwoFactorSetupDto,
+    TwoFactorStatusDto,
 } from './contracts';
-import { getLocalDateYmd } from '../date/localDay';
-
-// Use the same key as client.ts — keeping them in sync prevents session loss
-const TOKEN_KEY = 'auth_token';
+import { getDeviceTimeZone, getLocalDateYmd } from '../date/localDay';
 
 // ─── Token Helpers (re-exported for AuthContext) ──────────────────────────────
-export async function getToken(): Promise<string | null> {
-    return AsyncStorage.getItem(TOKEN_KEY);
-}
-export async function setToken(token: string): Promise<void> {
-    await AsyncStorage.setItem(TOKEN_KEY, token);
-}
-export async function removeToken(): Promise<void> {
-    await AsyncStorage.removeItem(TOKEN_KEY);
-}
+// client.ts owns the storage keys, so access and refresh tokens always change together
+export { getToken, removeToken, setToken };
 
 // ─── Auth Types ───────────────────────────────────────────────────────────────
 export type AuthUser = AuthUserDto;
@@ -39,37 +85,63 @@ export type AuthUser = AuthUserDto;
 export async function register(name: string, email: string, password: string): Promise<AuthUser | null> {
     const res = await apiFetch<AuthSessionDto>('/api/auth/register', {
         method: 'POST',
-        body: JSON.stringify({ name, email, password }),
+        body: JSON.stringify({ name, email, password, timeZone: getDeviceTimeZone(), device: getSessionDevice() }),
     });
     if (res.success && res.data) {
-        await setToken(res.data.token);
+        await setSessionTokens(res.data);
         return res.data.user;
     }
     return null;
 }
 
+/** Null for 2FA accounts too; AuthContext handles the code step. */
 export async function login(email: string, password: string): Promise<AuthUser | null> {
-    const res = await apiFetch<AuthSessionDto>('/api/auth/login', {
+    const res = await apiFetch<AuthSessionDto | TwoFactorChallengeDto>('/api/auth/login', {
         method: 'POST',
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({ email, password, timeZone: getDeviceTimeZone(), device: getSessionDevice() }),
     });
-    if (res.success && res.data) {
-        await setToken(res.data.token);
+    if (res.success && res.data && !('twoFactorRequired' in res.data)) {
+        await setSessionTokens(res.data);
         return res.data.user;
     }
     return null;
 }
 
 export async function logout(): Promise<void> {
+    await apiFetch('/api/auth/logout', { method: 'POST' });
     await removeToken();
 }
 
-export async function deleteMyAccount(): Promise<boolean> {
-    const res = await apiFetch('/api/auth/me', { method: 'DELETE' });
+/** Schedules the deletion; signing in again before `deletionScheduledFor` can cancel it. */
+export async function deleteMyAccount(): Promise<AccountDeletionDto | null> {
+    const res = await apiFetch<AccountDeletionDto>('/api/auth/me', { method: 'DELETE' });
     if (res.success) {
         await removeToken();
     }
-    return res.success;
+    return res.success ? (res.data ?? null) : null;
+}
+
+/** Always reports success so the response does not reveal which emails have accounts. */
+export async function requestPasswordReset(email: string): Promise<{ message: string | null; error?: string }> {
+    const res = await apiFetch<{ message: string }>('/api/auth/forgot-password', {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+    });
+    return res.success ? { message: res.data?.message ?? null } : { message: null, error: res.error };
+}
+
+/** `token` is the code from the reset email; every signed-in device is signed out. */
+export async function resetPassword(token: string, newPassword: string): Promise<{ message: string | null; error?: string }> {
+    const res = await apiFetch<{ message: string }>('/api/auth/reset-password', {
+        method: 'POST',
+        body: JSON.stringify({ token, newPassword }),
+    });
+    return res.success ? { message: res.data?.message ?? null } : { message: null, error: res.error };
+}
+
+export async function resendVerificationEmail(): Promise<{ message: string | null; error?: string }> {
+    const res = await apiFetch<{ message: string }>('/api/auth/verify-email/resend', { method: 'POST' });
+    return res.success ? { message: res.data?.message ?? null } : { message: null, error: res.error };
 }
 
 export async function isAuthenticated(): Promise<boolean> {
@@ -77,6 +149,131 @@ export async function isAuthenticated(): Promise<boolean> {
     return !!token;
 }
 
+// ─── Sessions ─────────────────────────────────────────────────────────────────
+export type DeviceSession = DeviceSessionDto;
+
+export async function getSessions(): Promise<DeviceSession[]> {
+    const res = await apiFetch<DeviceSession[]>('/api/auth/sessions');
+    return res.success ? (res.data ?? []) : [];
+}
+
+/** The device loses access once its current access token lapses (at most 15 minutes). */
+export async function revokeSession(id: string): Promise<boolean> {
+    const res = await apiFetch(`/api/auth/sessions/${id}`, { method: 'DELETE' });
+    return res.success;
+}
+
+export async function revokeOtherSessions(): Promise<number | null> {
+    const res = await apiFetch<{ revoked: number }>('/api/auth/sessions', { method: 'DELETE' });
+    return res.success ? (res.data?.revoked ?? 0) : null;
+}
+
+// ─── Two-Factor Authentication ────────────────────────────────────────────────
+export type TwoFactorStatus = TwoFactorStatusDto;
+
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus | null> {
+    const res = await apiFetch<TwoFactorStatus>('/api/auth/2fa');
+    return res.success ? (res.data ?? null) : null;
+}
+
+export async function startTwoFactorSetup(): Promise<{ setup: TwoFactorSetupDto | null; error?: string }> {
+    const res = await apiFetch<TwoFactorSetupDto>('/api/auth/2fa/setup', { method: 'POST' });
+    return res.success ? { setup: res.data ?? null } : { setup: null, error: res.error };
+}
+
+/** Turns 2FA on; the recovery codes in the answer are never shown again. */
+export async function enableTwoFactor(code: string): Promise<{ recoveryCodes: string[] | null; error?: string }> {
+    const res = await apiFetch<TwoFactorRecoveryCodesDto>('/api/auth/2fa/enable', {
+        method: 'POST',
+        body: JSON.stringify({ code: code.trim() }),
+    });
+    return res.success ? { recoveryCodes: res.data?.recoveryCodes ?? [] } : { recoveryCodes: null, error: res.error };
+}
+
+export async function disableTwoFactor(password: string, code: string): Promise<{ message: string | null; error?: string }> {
+    const res = await apiFetch<{ message: string }>('/api/auth/2fa/disable', {
+        method: 'POST',
+        body: JSON.stringify({ password, code: code.trim() }),
+    });
+    return res.success ? { message: res.data?.message ?? null } : { message: null, error: res.error };
+}
+
+export async function regenerateRecoveryCodes(code: string): Promise<{ recoveryCodes: string[] | null; error?: string }> {
+    const res = await apiFetch<TwoFactorRecoveryCodesDto>('/api/auth/2fa/recovery-codes', {
+        method: 'POST',
+        body: JSON.stringify({ code: code.trim() }),
+    });
+    return res.success ? { recoveryCodes: res.data?.recoveryCodes ?? [] } : { recoveryCodes: null, error: res.error };
+}
+
+// ─── Data Export ──────────────────────────────────────────────────────────────
+export type DataExport = DataExportDto;
+
+export async function downloadDataExportArchive(): Promise<Blob | null> {
+    const res = await apiDownload('/api/export?format=zip', { timeoutMs: 60000 });
+    return res.success ? res.data : null;
+}
+
+export async function getDataExport(): Promise<DataExport | null> {
+    const res = await apiFetch<DataExport>('/api/export?format=json', { timeoutMs: 60000 });
+    return res.success ? (res.data ?? null) : null;
+}
+
+// ─── Device Imports ───────────────────────────────────────────────────────────
+export type DeviceImportResult = DeviceImportResultDto;
+
+export interface ImportFile {
+    uri: string;
+    name: string;
+    mimeType?: string;
+    file?: Blob; // Present on web (DocumentPicker returns a File)
+}
+
+async function readImportFileBlob(file: ImportFile): Promise<Blob> {
+    if (file.file) return file.file;
+    const response = await fetch(file.uri);
+    return response.blob();
+}
+
+export async function importDeviceExport(
+    provider: DeviceImportProvider,
+    files: ImportFile[],
+    dryRun: boolean
+): Promise<DeviceImportResult | null> {
+    const query = `dryRun=${dryRun ? 'true' : 'false'}`;
+
+    if (provider === 'apple_health') {
+        // export.xml is streamed by the server, so it is sent as the raw body.
+        const body = await readImportFileBlob(files[0]);
+        const res = await apiFetch<DeviceImportResult>(`/api/health/import/apple-health?${query}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/xml' },
+            body,
+            timeoutMs: 120000,
+        });
+        return res.success ? (res.data ?? null) : null;
+    }
+
+    const formData = new FormData();
+    for (const file of files) {
+        if (file.file) {
+            formData.append('files', file.file, file.name);
+        } else {
+            formData.append('files', {
+                uri: file.uri,
+                name: file.name,
+                type: file.mimeType ?? 'text/csv',
+            } as unknown as Blob);
+        }
+    }
+    const res = await apiFetch<DeviceImportResult>(`/api/health/import/google-fit?${query}`, {
+        method: 'POST',
+        body: formData,
+        timeoutMs: 120000,
+    });
+    return res.success ? (res.data ?? null) : null;
+}
+
 // ─── Health Entries ───────────────────────────────────────────────────────────
 export interface HealthEntryData {
     date?: string;        // YYYY-MM-DD, defaults to today
@@ -121,6 +318,16 @@ export async function clearSeedDemoWeek(): Promise<ClearSeedDemoResultDto | null
     return res.success ? (res.data ?? null) : null;
 }
 
+// ─── Intraday Samples ─────────────────────────────────────────────────────────
+export type IntradayDay = IntradayDayDto;
+
+export async function getIntradayDay(date: string, metric?: HealthSampleMetric): Promise<IntradayDay | null> {
+    const params = new URLSearchParams({ date });
+    if (metric) params.set('metric', metric);
+    const res = await apiFetch<IntradayDay>(`/api/health/samples?${params.toString()}`);
+    return res.success ? (res.data ?? null) : null;
+}
+
 // ─── Mood Entries ─────────────────────────────────────────────────────────────
 export interface MoodEntryData {
     date?: string;
@@ -156,6 +363,7 @@ export interface DailyLogSaveData {
     energyScore?: number;
     weight?: number;
     healthNotes?: string;
+    sleep?: SleepSessionData;
     mood: MoodType;
     energyLevel: number;
     stressLevel: number;
@@ -170,17 +378,380 @@ export async function saveDailyLog(data: DailyLogSaveData): Promise<DailyLogSave
     return res.success ? (res.data ?? null) : null;
 }
 
+/** Reverts the save that returned `batchId`, as long as the day has not been changed since. */
+export async function undoDailyLog(batchId: string): Promise<{ undone: DailyLogUndoDto | null; error?: string }> {
+    const res = await apiFetch<DailyLogUndoDto>('/api/daily-log/undo', {
+        method: 'POST',
+        body: JSON.stringify({ batchId }),
+    });
+    return res.success ? { undone: res.data ?? null } : { undone: null, error: res.error };
+}
+
+// ─── Revisions ────────────────────────────────────────────────────────────────
+export type EntryRevision = EntryRevisionDto;
+
+export async function getEntryRevisions(type: RevisionEntryTypeDto, id: string, limit = 50): Promise<EntryRevision[]> {
+    const res = await apiFetch<EntryRevision[]>(`/api/${type}/${id}/revisions?limit=${limit}`);
+    return res.success ? (res.data ?? []) : [];
+}
+
+/** Puts the entry back the way it was before `revisionId`; the restore is itself a revision. */
+export async function restoreEntryRevision(
+    type: RevisionEntryTypeDto,
+    id: string,
+    revisionId: string
+): Promise<{ restored: boolean; error?: string }> {
+    const res = await apiFetch(`/api/${type}/${id}/revisions/${revisionId}/restore`, { method: 'POST' });
+    return res.success ? { restored: true } : { restored: false, error: res.error };
+}
+
 export async function getMoodHistory(limit = 30): Promise<MoodEntry[]> {
     const res = await apiFetch<MoodEntry[]>(`/api/mood/history?limit=${limit}`);
     return res.success ? res.data! : [];
 }
 
+// ─── Trash ────────────────────────────────────────────────────────────────────
+export type TrashItem = TrashItemDto;
+export type TrashKind = TrashKindDto;
+
+export async function getTrash(kind?: TrashKind): Promise<TrashItem[]> {
+    const res = await apiFetch<TrashItem[]>(kind ? `/api/trash?kind=${kind}` : '/api/trash');
+    return res.success ? (res.data ?? []) : [];
+}
+
+/** Fails when the day already has a newer entry of the same kind. */
+export async function restoreTrashItem(id: string): Promise<{ restored: boolean; error?: string }> {
+    const res = await apiFetch(`/api/trash/${id}/restore`, { method: 'POST' });
+    return res.success ? { restored: true } : { restored: false, error: res.error };
+}
+
+export async function purgeTrashItem(id: string): Promise<boolean> {
+    const res = await apiFetch(`/api/trash/${id}`, { method: 'DELETE' });
+    return res.success;
+}
+
+export async function emptyTrash(): Promise<boolean> {
+    const res = await apiFetch('/api/trash', { method: 'DELETE' });
+    return res.success;
+}
+
+// ─── Sleep ────────────────────────────────────────────────────────────────────
+export type SleepSession = SleepSessionDto;
+
+export interface SleepSessionData {
+    bedtime: string;           // ISO timestamp
+    wakeTime: string;          // ISO timestamp
+    utcOffsetMinutes?: number; // Minutes east of UTC at wake time
+    awakenings?: number;
+    quality?: SleepQuality;
+    stages?: SleepStagesDto;
+}
+
+export async function logSleepSession(data: SleepSessionData): Promise<SleepSession | null> {
+    const res = await apiFetch<SleepSession>('/api/sleep', {
+        method: 'POST',
+        body: JSON.stringify(data),
+    });
+    return res.success ? (res.data ?? null) : null;
+}
+
+export async function getSleepSessions(days = 30): Promise<{ sessions: SleepSession[]; summary: SleepTimingSummaryDto } | null> {
+    const res = await apiFetch<{ sessions: SleepSession[]; summary: SleepTimingSummaryDto }>(`/api/sleep?days=${days}`);
+    return res.success ? (res.data ?? null) : null;
+}
+
+// ─── Workouts ─────────────────────────────────────────────────────────────────
+export type Workout = WorkoutDto;
+export type WorkoutSummary = WorkoutSummaryDto;
+
+export interface WorkoutData {
+    type: WorkoutType;
+    startTime: string;          // ISO timestamp
+    utcOffsetMinutes?: number;  // Minutes east of UTC at start time
+    durationMinutes: number;
+    perceivedExertion?: number; // RPE 1–10
+    distanceKm?: number;
+    avgHeartRate?: number;
+    notes?: string;
+}
+
+export async function logWorkout(data: WorkoutData): Promise<Workout | null> {
+    const res = await apiFetch<Workout>('/api/workouts', {
+        method: 'POST',
+        body: JSON.stringify(data),
+    });
+    return res.success ? (res.data ?? null) : null;
+}
+
+export async function updateWorkout(id: string, data: Partial<WorkoutData>): Promise<Workout | null> {
+    const res = await apiFetch<Workout>(`/api/workouts/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+    });
+    return res.success ? (res.data ?? null) : null;
+}
+
+export async function deleteWorkout(id: string): Promise<boolean> {
+    const res = await apiFetch(`/api/workouts/${id}`, { method: 'DELETE' });
+    return res.success;
+}
+
+export async function getWorkouts(days = 30): Promise<Workout[]> {
+    const res = await apiFetch<Workout[]>(`/api/workouts?days=${days}`);
+    return res.success ? (res.data ?? []) : [];
+}
+
+export async function getWorkoutSummary(days = 30): Promise<WorkoutSummary | null> {
+    const res = await apiFetch<WorkoutSummary>(`/api/workouts/summary?days=${days}`);
+    return res.success ? (res.data ?? null) : null;
+}
+
+// ─── Meals ────────────────────────────────────────────────────────────────────
+export type Meal = MealDto;
+export type MealEnergyImpact = MealEnergyImpactDto;
+
+export interface MealData {
+    mealType: MealType;
+    eatenAt: string;           // ISO timestamp
+    utcOffsetMinutes?: number; // Minutes east of UTC at eatenAt
+    description: string;
+    macros?: MealMacrosDto;
+    tags?: string[];
+}
+
+export async function logMeal(data: MealData): Promise<Meal | null> {
+    const res = await apiFetch<Meal>('/api/meals', {
+        method: 'POST',
+        body: JSON.stringify(data),
+    });
+    return res.success ? (res.data ?? null) : null;
+}
+
+export async function deleteMeal(id: string): Promise<boolean> {
+    const res = await apiFetch(`/api/meals/${id}`, { method: 'DELETE' });
+    return res.success;
+}
+
+export async function getMeals(days = 1): Promise<Meal[]> {
+    const res = await apiFetch<Meal[]>(`/api/meals?days=${days}`);
+    return res.success ? (res.data ?? []) : [];
+}
+
+export async function getMealTags(): Promise<Array<{ tag: string; count: number }>> {
+    const res = await apiFetch<Array<{ tag: string; count: number }>>('/api/meals/tags');
+    return res.success ? (res.data ?? []) : [];
+}
+
+export async function getMealEnergyImpact(days = 60): Promise<MealEnergyImpact | null> {
+    const res = await apiFetch<MealEnergyImpact>(`/api/analytics/meal-energy?days=${days}`);
+    return res.success ? (res.data ?? null) : null;
+}
+
+// ─── Custom Metrics ───────────────────────────────────────────────────────────
+export type CustomMetric = CustomMetricDto;
+export type CustomMetricDayValue = CustomMetricDayValueDto;
+
+export interface CustomMetricData {
+    name: string;
+    unit?: string;
+    valueType: CustomMetricValueType;
+    aggregation?: CustomMetricAggregation; // Server picks a default per type
+    scaleMin?: number;
+    scaleMax?: number;
+}
+
+export async function getCustomMetrics(includeArchived = false): Promise<CustomMetric[]> {
+    const res = await apiFetch<CustomMetric[]>(`/api/custom-metrics${includeArchived ? '?includeArchived=true' : ''}`);
+    return res.success ? (res.data ?? []) : [];
+}
+
+export async function createCustomMetric(data: CustomMetricData): Promise<{ metric: CustomMetric | null; error?: string }> {
+    const res = await apiFetch<CustomMetric>('/api/custom-metrics', {
+        method: 'POST',
+        body: JSON.stringify(data),
+    });
+    return res.success ? { metric: res.data ?? null } : { metric: null, error: res.error };
+}
+
+export async function updateCustomMetric(
+    id: string,
+    data: Partial<Pick<CustomMetric, 'name' | 'unit' | 'aggregation' | 'archived'>>
+): Promise<CustomMetric | null> {
+    const res = await apiFetch<CustomMetric>(`/api/custom-metrics/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(data),
+    });
+    return res.success ? (res.data ?? null) : null;
+}
+
+export async function deleteCustomMetric(id: string): Promise<boolean> {
+    const res = await apiFetch(`/api/custom-metrics/${id}`, { method: 'DELETE' });
+    return res.success;
+}
+
+export async function logCustomMetricValue(
+    id: string,
+    value: number | boolean,
+    mode: 'add' | 'replace' = 'add'
+): Promise<CustomMetricDayValue | null> {
+    const res = await apiFetch<CustomMetricDayValue>(`/api/custom-metrics/${id}/values`, {
+        method: 'POST',
+        body: JSON.stringify({ date: getLocalDateYmd(), value, mode }),
+    });
+    return res.success ? (res.data ?? null) : null;
+}
+
+export async function getCustomMetricValues(days = 30): Promise<CustomMetricDayValue[]> {
+    const res = await apiFetch<CustomMetricDayValue[]>(`/api/custom-metrics/values?days=${days}`);
+    return res.success ? (res.data ?? []) : [];
+}
+
+// ─── Goals ────────────────────────────────────────────────────────────────────
+export type DailyGoals = DailyGoalsDto;
+export type UserGoals = UserGoalsDto;
+
+export async function getGoals(): Promise<UserGoals | null> {
+    const res = await apiFetch<UserGoals>('/api/goals');
+    return res.success ? (res.data ?? null) : null;
+}
+
+/** `null` resets that goal to the default. */
+export async function updateGoals(
+    data: Partial<Record<keyof DailyGoals, number | null>>
+): Promise<{ goals: UserGoals | null; error?: string }> {
+    const res = await apiFetch<UserGoals>('/api/goals', {
+        method: 'PUT',
+        body: JSON.stringify(data),
+    });
+    return res.success ? { goals: res.data ?? null } : { goals: null, error: res.error };
+}
+
+export async function resetGoals(): Promise<UserGoals | null> {
+    const res = await apiFetch<UserGoals>('/api/goals', { method: 'DELETE' });
+    return res.success ? (res.data ?? null) : null;
+}
+
 // ─── Streaks ──────────────────────────────────────────────────────────────────
 export type StreakData = StreakDataDto;
+export type StreakKind = StreakKindDto;
+export type StreakHistory = StreakHistoryDto;
 
 export async function getStreak(): Promise<StreakData> {
     const res = await apiFetch<StreakData>('/api/streak');
-    return res.success && res.data ? res.data : { currentStreak: 0, longestStreak: 0, lastLogDate: null };
+    return res.success && res.data
+        ? res.data
+        : { currentStreak: 0, longestStreak: 0, lastLogDate: null, freezesAvailable: 0, freezesUsed: 0, streaks: [] };
+}
+
+export async function getStreakHistory(kind: StreakKind = 'logging', limit = 20): Promise<StreakHistory | null> {
+    const res = await apiFetch<StreakHistory>(`/api/streak/history?kind=${kind}&limit=${limit}`);
+    return res.success ? (res.data ?? null) : null;
+}
+
+// ─── Achievements ─────────────────────────────────────────────────────────────
+export type Achievement = AchievementDto;
+export type Achievements = AchievementsDto;
+export type AchievementTier = AchievementTierDto;
+
+export async function getAchievements(): Promise<Achievements | null> {
+    const res = await apiFetch<Achievements>('/api/achievements');
+    return res.success ? (res.data ?? null) : null;
+}
+
+// ─── Challenges ───────────────────────────────────────────────────────────────
+export type Challenge = ChallengeDto;
+export type WeeklyChallenges = WeeklyChallengesDto;
+
+export async function getWeeklyChallenges(): Promise<WeeklyChallenges | null> {
+    const res = await apiFetch<WeeklyChallenges>('/api/challenges');
+    return res.success ? (res.data ?? null) : null;
+}
+
+export async function getChallengeHistory(weeks = 12): Promise<Challenge[]> {
+    const res = await apiFetch<ChallengeHistoryDto>(`/api/challenges/history?weeks=${weeks}`);
+    return res.success ? (res.data?.challenges ?? []) : [];
+}
+
+// ─── Friends ──────────────────────────────────────────────────────────────────
+export type Friends = FriendsDto;
+export type FriendInvite = FriendInviteDto;
+export type FriendWeekSummary = FriendWeekSummaryDto;
+export type SharingSettings = SharingSettingsDto;
+
+export async function getFriends(): Promise<Friends | null> {
+    const res = await apiFetch<Friends>('/api/friends');
+    return res.success ? (res.data ?? null) : null;
+}
+
+export async function getFriendFeed(weeks = 4): Promise<FriendWeekSummary[]> {
+    const res = await apiFetch<FriendFeedDto>(`/api/friends/feed?weeks=${weeks}`);
+    return res.success ? (res.data?.items ?? []) : [];
+}
+
+/** Without an email the server returns a one-time invite code to share. */
+export async function inviteFriend(email?: string): Promise<{ invite: FriendInvite | null; error?: string }> {
+    const res = await apiFetch<FriendInvite>('/api/friends/invites', {
+        method: 'POST',
+        body: JSON.stringify(email ? { email } : {}),
+    });
+    return res.success ? { invite: res.data ?? null } : { invite: null, error: res.error };
+}
+
+export async function joinWithInviteCode(code: string): Promise<{ friends: Friends | null; error?: string }> {
+    const res = await apiFetch<Friends>('/api/friends/join', {
+        method: 'POST',
+        body: JSON.stringify({ code }),
+    });
+    return res.success ? { friends: res.data ?? null } : { friends: null, error: res.error };
+}
+
+export async function acceptFriendInvite(id: string): Promise<Friends | null> {
+    const res = await apiFetch<Friends>(`/api/friends/${id}/accept`, { method: 'POST' });
+    return res.success ? (res.data ?? null) : null;
+}
+
+/** Declines or cancels an invite, or removes a friend. */
+export async function removeFriend(id: string): Promise<boolean> {
+    const res = await apiFetch(`/api/friends/${id}`, { method: 'DELETE' });
+    return res.success;
+}
+
+export async function updateSharingSettings(data: Partial<SharingSettings>): Promise<SharingSettings | null> {
+    const res = await apiFetch<SharingSettings>('/api/friends/sharing', {
+        method: 'PUT',
+        body: JSON.stringify(data),
+    });
+    return res.success ? (res.data ?? null) : null;
+}
+
+// ─── Share Links ──────────────────────────────────────────────────────────────
+export type ShareLink = ShareLinkDto;
+export type CreatedShareLink = CreatedShareLinkDto;
+export type ShareScope = ShareScopeDto;
+
+export async function getShareLinks(): Promise<ShareLink[]> {
+    const res = await apiFetch<ShareLink[]>('/api/share-links');
+    return res.success ? (res.data ?? []) : [];
+}
+
+/** The returned token and URL are shown once; the server keeps only a hash. */
+export async function createShareLink(data: {
+    label: string;
+    scope: ShareScope;
+    from: string;
+    to: string;
+    expiresInDays: number;
+}): Promise<{ link: CreatedShareLink | null; error?: string }> {
+    const res = await apiFetch<CreatedShareLink>('/api/share-links', {
+        method: 'POST',
+        body: JSON.stringify(data),
+    });
+    return res.success ? { link: res.data ?? null } : { link: null, error: res.error };
+}
+
+export async function revokeShareLink(id: string): Promise<boolean> {
+    const res = await apiFetch(`/api/share-links/${id}`, { method: 'DELETE' });
+    return res.success;
 }
 
 // ─── Future You ───────────────────────────────────────────────────────────────
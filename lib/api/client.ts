@@ -1,6 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { NativeModules, Platform } from 'react-native';
-import type { ApiEnvelope, ApiErrorDetail } from './contracts';
+import type { ApiEnvelope, ApiErrorDetail, AuthTokensDto } from './contracts';
 
 // ─── Base URL ─────────────────────────────────────────────────────────────────
 // Set EXPO_PUBLIC_API_URL in your .env file:
@@ -13,6 +13,10 @@ const DEFAULT_API_BASE = 'http://localhost:4000';
 const REQUEST_TIMEOUT_MS = 10000;
 
 const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+// Auth routes whose 401 means "wrong credentials", not "access token expired"
+const NO_REFRESH_PATHS = ['/api/auth/login', '/api/auth/register', '/api/auth/refresh'];
 
 // ─── Token Helpers ────────────────────────────────────────────────────────────
 export async function getToken(): Promise<string | null> {
@@ -23,8 +27,72 @@ export async function setToken(token: string): Promise<void> {
     await AsyncStorage.setItem(TOKEN_KEY, token);
 }
 
+/** Clears the access token and the refresh token that goes with it. */
 export async function removeToken(): Promise<void> {
-    await AsyncStorage.removeItem(TOKEN_KEY);
+    await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY]);
+}
+
+export async function getRefreshToken(): Promise<string | null> {
+    return AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+export async function setSessionTokens(tokens: Pick<AuthTokensDto, 'token' | 'refreshToken'>): Promise<void> {
+    await AsyncStorage.multiSet([[TOKEN_KEY, tokens.token], [REFRESH_TOKEN_KEY, tokens.refreshToken]]);
+}
+
+/** What the server shows in the signed-in devices list. */
+export function getSessionDevice(): { platform?: 'ios' | 'android' | 'web' } {
+    return Platform.OS === 'ios' || Platform.OS === 'android' || Platform.OS === 'web' ? { platform: Platform.OS } : {};
+}
+
+// ─── Session Refresh ──────────────────────────────────────────────────────────
+// Access tokens last 15 minutes. On a 401 the refresh token is swapped for a new pair
+// (one refresh at a time, since each refresh token works once) and the request is retried.
+// If the server rejects the refresh token, the session is over and AuthContext is told.
+let refreshInFlight: Promise<boolean> | null = null;
+let sessionExpiredHandler: (() => void) | null = null;
+
+export function setSessionExpiredHandler(handler: (() => void) | null): void {
+    sessionExpiredHandler = handler;
+}
+
+async function endExpiredSession(): Promise<void> {
+    await removeToken();
+    sessionExpiredHandler?.();
+}
+
+export function refreshAccessToken(): Promise<boolean> {
+    if (!refreshInFlight) {
+        refreshInFlight = (async () => {
+            const refreshToken = await getRefreshToken();
+            if (!refreshToken) {
+                await endExpiredSession();
+                return false;
+            }
+            const { result, status } = await requestJson<AuthTokensDto>('/api/auth/refresh', {
+                method: 'POST',
+                body: JSON.stringify({ refreshToken }),
+            });
+            if (result.success && result.data) {
+                await setSessionTokens(result.data);
+                return true;
+            }
+            // Network trouble is not a sign-out; only a rejected refresh token is.
+            if (status === 401) await endExpiredSession();
+            return false;
+        })().finally(() => {
+            refreshInFlight = null;
+        });
+    }
+    return refreshInFlight;
+}
+
+async function shouldRefresh(path: string, status: number | null, sentToken: string | null): Promise<boolean> {
+    if (status !== 401 || !sentToken || NO_REFRESH_PATHS.includes(path)) return false;
+    // Another request may already have rotated the token while this one was in flight.
+    const currentToken = await getToken();
+    if (currentToken !== sentToken) return currentToken !== null;
+    return refreshAccessToken();
 }
 
 // ─── Core Fetch Wrapper ────────────────────────────────────────────────────────
@@ -141,10 +209,22 @@ async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: numbe
     }
 }
 
+interface RequestResult<T> {
+    result: ApiResponse<T>;
+    status: number | null;      // null when no server answered
+    sentToken: string | null;
+}
+
 export async function apiFetch<T = unknown>(
     path: string,
     options: ApiOptions = {}
 ): Promise<ApiResponse<T>> {
+    const first = await requestJson<T>(path, options);
+    if (!(await shouldRefresh(path, first.status, first.sentToken))) return first.result;
+    return (await requestJson<T>(path, options)).result;
+}
+
+async function requestJson<T>(path: string, options: ApiOptions): Promise<RequestResult<T>> {
     const { auth = false, timeoutMs = REQUEST_TIMEOUT_MS, ...fetchOptions } = options;
     const incomingHeaders = (fetchOptions.headers as Record<string, string> | undefined) ?? {};
     const isFormData = typeof FormData !== 'undefined' && fetchOptions.body instanceof FormData;
@@ -175,8 +255,9 @@ export async function apiFetch<T = unknown>(
                 json = await response.json();
             } catch {
                 return {
-                    success: false,
-                    error: `Server returned ${response.status}: ${response.statusText}`,
+                    result: { success: false, error: `Server returned ${response.status}: ${response.statusText}` },
+                    status: response.status,
+                    sentToken: token,
                 };
             }
 
@@ -192,9 +273,9 @@ export async function apiFetch<T = unknown>(
                     }
                 }
                 return {
-                    success: false,
-                    error: errorMessage,
-                    details,
+                    result: { success: false, error: errorMessage, details },
+                    status: response.status,
+                    sentToken: token,
                 };
             }
 
@@ -202,19 +283,23 @@ export async function apiFetch<T = unknown>(
             if (isObject(json) && hasOwn(json, 'success') && typeof json.success === 'boolean') {
                 if (!json.success) {
                     return {
-                        success: false,
-                        error: typeof json.error === 'string' ? json.error : 'Request failed',
-                        details: Array.isArray(json.details) ? (json.details as ApiErrorDetail[]) : undefined,
+                        result: {
+                            success: false,
+                            error: typeof json.error === 'string' ? json.error : 'Request failed',
+                            details: Array.isArray(json.details) ? (json.details as ApiErrorDetail[]) : undefined,
+                        },
+                        status: response.status,
+                        sentToken: token,
                     };
                 }
                 if (hasOwn(json, 'data')) {
-                    return { success: true, data: json.data as T };
+                    return { result: { success: true, data: json.data as T }, status: response.status, sentToken: token };
                 }
-                return { success: true, data: undefined as T };
+                return { result: { success: true, data: undefined as T }, status: response.status, sentToken: token };
             }
 
             // Raw payloads (for routes that return objects directly)
-            return { success: true, data: json as T };
+            return { result: { success: true, data: json as T }, status: response.status, sentToken: token };
         } catch (error: unknown) {
             const networkError = error as { name?: string; message?: string };
             const isAbort = networkError?.name === 'AbortError';
@@ -228,7 +313,72 @@ export async function apiFetch<T = unknown>(
     // In Expo dev, console.error triggers a full red overlay even for handled failures.
     console.warn(`[API] ${path} failed on bases [${bases.join(', ')}]: ${lastNetworkError}`);
     return {
-        success: false,
-        error: lastNetworkError,
+        result: { success: false, error: lastNetworkError },
+        status: null,
+        sentToken: token,
+    };
+}
+
+// ─── Binary Downloads ─────────────────────────────────────────────────────────
+// Same base-URL fallback and auth header as apiFetch, but returns the raw body
+// (e.g. the data export ZIP) instead of a JSON envelope.
+export async function apiDownload(
+    path: string,
+    options: ApiOptions = {}
+): Promise<ApiResponse<Blob>> {
+    const first = await requestBlob(path, options);
+    if (!(await shouldRefresh(path, first.status, first.sentToken))) return first.result;
+    return (await requestBlob(path, options)).result;
+}
+
+async function requestBlob(path: string, options: ApiOptions): Promise<RequestResult<Blob>> {
+    const { auth = false, timeoutMs = REQUEST_TIMEOUT_MS, ...fetchOptions } = options;
+    const headers: Record<string, string> = {
+        ...((fetchOptions.headers as Record<string, string> | undefined) ?? {}),
+    };
+    const token = await getToken();
+    if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const bases = getApiBaseCandidates();
+    let lastNetworkError = 'Network error – check your API URL and connection';
+
+    for (const base of bases) {
+        try {
+            const response = await fetchWithTimeout(`${base}${path}`, {
+                ...fetchOptions,
+                headers,
+            }, timeoutMs);
+
+            if (!response.ok) {
+                let errorMessage = `Error ${response.status}: ${response.statusText}`;
+                try {
+                    const json: unknown = await response.json();
+                    if (isObject(json) && typeof json.error === 'string') {
+                        errorMessage = json.error;
+                    }
+                } catch {
+                    // Non-JSON error body — keep the status line.
+                }
+                return { result: { success: false, error: errorMessage }, status: response.status, sentToken: token };
+            }
+
+            return { result: { success: true, data: await response.blob() }, status: response.status, sentToken: token };
+        } catch (error: unknown) {
+            const networkError = error as { name?: string; message?: string };
+            const isAbort = networkError?.name === 'AbortError';
+            lastNetworkError = isAbort
+                ? `Request timed out after ${Math.round(timeoutMs / 1000)}s`
+                : (networkError?.message || 'Network error – check your API URL and connection');
+            continue;
+        }
+    }
+
+    console.warn(`[API] ${path} download failed on bases [${bases.join(', ')}]: ${lastNetworkError}`);
+    return {
+        result: { success: false, error: lastNetworkError },
+        status: null,
+        sentToken: token,
     };
 }
@@ -6,14 +6,99 @@ export type {
     MoodType,
     AvatarStateType,
     AvatarMode,
+    UserRoleDto,
     AuthUserDto,
+    AuthTokensDto,
     AuthSessionDto,
+    SessionPlatformDto,
+    DeviceSessionDto,
+    TwoFactorChallengeDto,
+    TwoFactorStatusDto,
+    TwoFactorSetupDto,
+    TwoFactorRecoveryCodesDto,
+    AccountDeletionDto,
     HealthEntryDto,
     MoodEntryDto,
+    SleepQuality,
+    SleepStagesDto,
+    SleepSessionDto,
+    SleepTimingSummaryDto,
+    AnalyticsHealthPointDto,
+    AnalyticsMoodPointDto,
+    AnalyticsSummaryDto,
+    WorkoutType,
+    WorkoutDto,
+    WorkoutSummaryDto,
+    MealType,
+    MealMacrosDto,
+    MealDto,
+    MealTagEnergyDto,
+    MealEnergyImpactDto,
+    CustomMetricValueType,
+    CustomMetricAggregation,
+    CustomMetricDto,
+    CustomMetricDayValueDto,
+    DailyGoalsDto,
+    UserGoalsDto,
     DailyLogSaveDto,
+    DailyLogUndoDto,
+    RevisionEntryTypeDto,
+    RevisionSourceDto,
+    RevisionValueDto,
+    RevisionChangeDto,
+    EntryRevisionDto,
     StreakDataDto,
+    StreakHistoryDto,
+    StreakKindDto,
+    StreakRunDto,
+    StreakStatusDto,
+    StreakSummaryDto,
+    AchievementCategoryDto,
+    AchievementDto,
+    AchievementsDto,
+    AchievementTierDto,
+    AchievementTierStatusDto,
+    ChallengeFocusDto,
+    ChallengeDto,
+    WeeklyChallengesDto,
+    ChallengeHistoryDto,
+    SharingSettingsDto,
+    FriendDto,
+    FriendInviteDto,
+    FriendsDto,
+    FriendAchievementDto,
+    FriendWeekSummaryDto,
+    FriendFeedDto,
+    ShareScopeDto,
+    ShareLinkDto,
+    CreatedShareLinkDto,
+    SharedLinkInfoDto,
+    TrashKindDto,
+    TrashItemDto,
     SeedDemoResultDto,
     ClearSeedDemoResultDto,
+    AdminUserSummaryDto,
+    AdminUserDataCountsDto,
+    AdminUserDetailDto,
+    AdminAvatarResetDto,
+    AdminAiCacheClearDto,
+    AdminAuditOutcomeDto,
+    AdminAuditEntryDto,
+    ImportConflictPolicy,
+    ImportRowErrorDto,
+    EntryImportResultDto,
+    DeviceImportProvider,
+    DeviceImportResultDto,
+    HealthSampleMetric,
+    HealthSampleDto,
+    DailyRollupDto,
+    SampleIngestResultDto,
+    IntradayHourDto,
+    IntradayDayDto,
+    DataExportFileDto,
+    DataExportMediaDto,
+    DataExportManifestDto,
+    DataExportDto,
     AvatarStatusDto,
     AvatarStateDto,
     AvatarLibraryDto,
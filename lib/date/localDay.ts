@@ -4,3 +4,12 @@ export function getLocalDateYmd(date: Date = new Date()): string {
     const day = `${date.getDate()}`.padStart(2, '0');
     return `${year}-${month}-${day}`;
 }
+
+// IANA zone of the device (e.g. "Europe/Berlin"); the server uses it for day boundaries.
+export function getDeviceTimeZone(): string {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+        return 'UTC';
+    }
+}
@@ -2,13 +2,18 @@
  * Energy Score Calculation Module
  * 
  * Calculates a user's energy score (0-100) based on sleep and activity data
- * Formula: Energy = (sleep_hours / 8) × 0.6 + (steps / 10000) × 0.4
+ * Formula: Energy = (sleep_hours / sleep_goal) × 0.6 + (steps / steps_goal) × 0.4
  * 
  * Weights:
- * - Sleep: 60% (optimal = 8 hours)
- * - Steps: 40% (optimal = 10,000 steps)
+ * - Sleep: 60% (optimal = the user's sleep goal, 8 hours by default)
+ * - Steps: 40% (optimal = the user's step goal, 10,000 steps by default)
  */
 
+import type { DailyGoalsDto } from './api/contracts';
+import { DEFAULT_GOALS } from './goals';
+
+export type EnergyGoals = Pick<DailyGoalsDto, 'sleepHours' | 'steps'>;
+
 export interface EnergyInput {
     sleep_hours: number;
     steps: number;
@@ -25,15 +30,15 @@ export interface EnergyScore {
 /**
  * Calculate energy score from sleep and steps
  */
-export function calculateEnergyScore(input: EnergyInput): EnergyScore {
+export function calculateEnergyScore(input: EnergyInput, goals: EnergyGoals = DEFAULT_GOALS): EnergyScore {
     const { sleep_hours, steps } = input;
 
-    // Normalize sleep (optimal = 8 hours, max considered = 10 hours)
-    const sleepNormalized = Math.min(sleep_hours / 8, 1.25); // Cap at 125% for oversleep
+    // Normalize sleep against the sleep goal
+    const sleepNormalized = Math.min(sleep_hours / goals.sleepHours, 1.25); // Cap at 125% for oversleep
     const sleepContribution = sleepNormalized * 0.6;
 
-    // Normalize steps (optimal = 10,000 steps)
-    const stepsNormalized = Math.min(steps / 10000, 1.5); // Cap at 150% for super active
+    // Normalize steps against the step goal
+    const stepsNormalized = Math.min(steps / goals.steps, 1.5); // Cap at 150% for super active
     const stepsContribution = stepsNormalized * 0.4;
 
     // Calculate total score (0-100)
@@ -44,7 +49,7 @@ export function calculateEnergyScore(input: EnergyInput): EnergyScore {
     const level = getEnergyLevel(score);
 
     // Generate feedback
-    const feedback = getEnergyFeedback(score, sleep_hours, steps);
+    const feedback = getEnergyFeedback(score, sleep_hours, steps, goals);
 
     return {
         score: Number(score.toFixed(1)),
@@ -69,7 +74,7 @@ function getEnergyLevel(score: number): 'very_low' | 'low' | 'moderate' | 'good'
 /**
  * Generate contextual feedback based on energy components
  */
-function getEnergyFeedback(score: number, sleep: number, steps: number): string {
+function getEnergyFeedback(score: number, sleep: number, steps: number, goals: EnergyGoals): string {
     if (score >= 85) {
         return 'Fantastic! Your energy levels are excellent. Keep up the great routine!';
     }
@@ -79,8 +84,8 @@ function getEnergyFeedback(score: number, sleep: number, steps: number): string
     }
 
     if (score >= 50) {
-        const needsSleep = sleep < 6;
-        const needsSteps = steps < 5000;
+        const needsSleep = sleep < goals.sleepHours * 0.75;
+        const needsSteps = steps < goals.steps * 0.5;
 
         if (needsSleep && needsSteps) {
             return 'Your energy is moderate. Try getting more sleep and increasing your daily activity.';
@@ -104,11 +109,11 @@ function getEnergyFeedback(score: number, sleep: number, steps: number): string
 /**
  * Calculate average energy score from multiple entries
  */
-export function calculateAverageEnergy(entries: EnergyInput[]): number {
+export function calculateAverageEnergy(entries: EnergyInput[], goals: EnergyGoals = DEFAULT_GOALS): number {
     if (entries.length === 0) return 0;
 
     const total = entries.reduce((sum, entry) => {
-        const { score } = calculateEnergyScore(entry);
+        const { score } = calculateEnergyScore(entry, goals);
         return sum + score;
     }, 0);
 
@@ -169,7 +174,8 @@ export function detectEnergyTrend(scores: number[]): {
  * Get best and worst energy days from a week's data
  */
 export function getEnergyExtremes(
-    entries: Array<EnergyInput & { date: string }>
+    entries: Array<EnergyInput & { date: string }>,
+    goals: EnergyGoals = DEFAULT_GOALS
 ): {
     best: { date: string; score: number } | null;
     worst: { date: string; score: number } | null;
@@ -180,7 +186,7 @@ export function getEnergyExtremes(
 
     const withScores = entries.map((entry) => ({
         date: entry.date,
-        score: calculateEnergyScore(entry).score,
+        score: calculateEnergyScore(entry, goals).score,
     }));
 
     const best = withScores.reduce((max, curr) => (curr.score > max.score ? curr : max));
@@ -0,0 +1,20 @@
+import type { DailyGoalsDto } from './api/contracts';
+
+/**
+ * Daily targets used until the user's goals have loaded, and whenever they have not set
+ * their own. Mirrors `DEFAULT_DAILY_GOALS` on the server.
+ */
+export const DEFAULT_GOALS: DailyGoalsDto = {
+    steps: 10000,
+    sleepHours: 8,
+    waterLitres: 2,
+    activeMinutes: 30,
+    stressMax: 7,
+};
+
+/** Progress toward a goal as 0–1 (stress is a ceiling, so lower is better). */
+export function goalProgress(value: number, goal: number, ceiling = false): number {
+    if (!Number.isFinite(value) || goal <= 0) return 0;
+    if (ceiling) return value <= goal ? 1 : Math.max(0, 1 - (value - goal) / goal);
+    return Math.min(1, Math.max(0, value / goal));
+}
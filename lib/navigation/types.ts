@@ -5,15 +5,24 @@ export type RootStackParamList = {
     SignUp: undefined;
     Main: undefined;
     DailyLog: undefined;
+    WorkoutLog: undefined;
+    CustomMetrics: undefined;
     DataEntry: undefined;
     FutureYou: undefined;
     WhatIf: undefined;
     Achievements: undefined;
+    Streaks: undefined;
+    Friends: undefined;
     WeeklySummary: undefined;
     AIWeeklyAnalysis: undefined;
     Analytics: undefined;
     Settings: undefined;
+    Goals: undefined;
     AvatarSetup: undefined;
+    DataImport: undefined;
+    ShareLinks: undefined;
+    Trash: undefined;
+    Sessions: undefined;
     DatabaseViewer: undefined;
 };
 
@@ -3,8 +3,12 @@
  * 
  * Handles logic for "What-If" simulations.
  * Predicts energy scores and mood states based on input parameters.
+ * Sleep and steps are scored against the user's goals (defaults when unset).
  */
 
+import { DEFAULT_GOALS } from "../goals";
+import type { EnergyGoals } from "../energyScore";
+
 export interface PredictionResult {
     predictedEnergy: number;
     predictedMoodState: string;
@@ -43,20 +47,26 @@ function deterministicDailyNoise(day: number, seed: number): number {
 
 /**
  * Calculate predicted energy score based on sleep and steps
- * Formula: (Sleep/8 * 60) + (Steps/10000 * 40)
+ * Formula: (Sleep/sleepGoal * 60) + (Steps/stepsGoal * 40)
  * Max score capped at 100
  */
-export const calculatePredictedEnergy = (sleepHours: number, steps: number): number => {
-    const sleepComp = Math.min((sleepHours / 8) * 60, 60);
-    const stepsComp = Math.min((steps / 10000) * 40, 40);
+export const calculatePredictedEnergy = (
+    sleepHours: number,
+    steps: number,
+    goals: EnergyGoals = DEFAULT_GOALS
+): number => {
+    const sleepComp = Math.min((sleepHours / goals.sleepHours) * 60, 60);
+    const stepsComp = Math.min((steps / goals.steps) * 40, 40);
 
     return Math.round(sleepComp + stepsComp);
 };
 
 /**
- * Determine mood state based on inputs
+ * Determine mood state based on inputs. Sleep bands shift with the sleep goal
+ * (the defaults assume an 8h goal).
  */
-export const predictMoodState = (sleep: number, energy: number): string => {
+export const predictMoodState = (sleepHours: number, energy: number, sleepGoal = DEFAULT_GOALS.sleepHours): string => {
+    const sleep = sleepHours - (sleepGoal - DEFAULT_GOALS.sleepHours);
     if (sleep >= 7.5 && energy >= 80) return "Radiant 🌟";
     if (sleep >= 7 && energy >= 70) return "Energetic 🚀";
     if (sleep >= 6 && energy >= 50) return "Balanced 😊";
@@ -76,11 +86,12 @@ export const generateHabitSimulation = (
     baselineSteps: number,
     simSleep: number,
     simSteps: number,
-    days: number = 30
+    days: number = 30,
+    goals: EnergyGoals = DEFAULT_GOALS
 ): ForecastPoint[] => {
     const forecast: ForecastPoint[] = [];
-    const baselineEnergy = calculatePredictedEnergy(baselineSleep, baselineSteps);
-    const targetEnergy = calculatePredictedEnergy(simSleep, simSteps);
+    const baselineEnergy = calculatePredictedEnergy(baselineSleep, baselineSteps, goals);
+    const targetEnergy = calculatePredictedEnergy(simSleep, simSteps, goals);
 
     // The total difference in energy expected
     const totalDiff = targetEnergy - baselineEnergy;
@@ -114,7 +125,7 @@ export const generateHabitSimulation = (
             day,
             date: pointDate,
             predictedEnergy: projectedEnergy,
-            predictedMood: predictMoodState(currentSimSleep, projectedEnergy)
+            predictedMood: predictMoodState(currentSimSleep, projectedEnergy, goals.sleepHours)
         });
     }
 
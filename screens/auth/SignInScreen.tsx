@@ -9,11 +9,11 @@ import { CircuitBoard } from "lucide-react-native";
 import { useAuth } from "../../contexts/AuthContext";
 import { LinearGradient } from "expo-linear-gradient";
 import { TextInput } from "react-native";
-import { apiFetch } from "../../lib/api/client";
+import { requestPasswordReset, resetPassword as submitPasswordReset } from "../../lib/api/auth";
 import type { AppScreenProps } from "../../lib/navigation/types";
 
 export default function SignInScreen({ navigation }: AppScreenProps<'SignIn'>) {
-    const { login } = useAuth();
+    const { login, logout, pendingDeletion, cancelAccountDeletion, twoFactorPending, completeTwoFactor, cancelTwoFactor } = useAuth();
     const [email, setEmail] = useState("");
     const [password, setPassword] = useState("");
     const [showPassword, setShowPassword] = useState(false);
@@ -22,11 +22,15 @@ export default function SignInScreen({ navigation }: AppScreenProps<'SignIn'>) {
     const [errorMsg, setErrorMsg] = useState<string | null>(null);
     const [showResetPanel, setShowResetPanel] = useState(false);
     const [resetEmail, setResetEmail] = useState("");
+    const [resetCode, setResetCode] = useState("");
+    const [resetCodeSent, setResetCodeSent] = useState(false);
     const [resetPassword, setResetPassword] = useState("");
     const [resetConfirmPassword, setResetConfirmPassword] = useState("");
     const [resetLoading, setResetLoading] = useState(false);
     const [resetErrorMsg, setResetErrorMsg] = useState<string | null>(null);
     const [resetSuccessMsg, setResetSuccessMsg] = useState<string | null>(null);
+    const [keepLoading, setKeepLoading] = useState(false);
+    const [twoFactorCode, setTwoFactorCode] = useState("");
     const normalizedEmail = email.trim().toLowerCase();
     const emailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail);
     const passwordValid = password.length >= 6;
@@ -35,7 +39,9 @@ export default function SignInScreen({ navigation }: AppScreenProps<'SignIn'>) {
     const resetEmailValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedResetEmail);
     const resetPasswordValid = resetPassword.length >= 8;
     const resetPasswordsMatch = resetPassword === resetConfirmPassword;
-    const canSubmitReset = resetEmailValid && resetPasswordValid && resetPasswordsMatch && !resetLoading;
+    const canSubmitReset = resetCodeSent
+        ? resetCode.trim().length > 0 && resetPasswordValid && resetPasswordsMatch && !resetLoading
+        : resetEmailValid && !resetLoading;
 
     const handleLogin = async () => {
         setErrorMsg(null);
@@ -48,10 +54,8 @@ export default function SignInScreen({ navigation }: AppScreenProps<'SignIn'>) {
         try {
             const cleanEmail = normalizedEmail;
             const cleanPassword = password;
-            const user = await login(cleanEmail, cleanPassword);
-            if (!user) {
-                setErrorMsg("Invalid email or password.");
-            }
+            // Null means the password was accepted and the account wants an authenticator code
+            await login(cleanEmail, cleanPassword);
         } catch (error: unknown) {
             setErrorMsg(error instanceof Error ? error.message : "Something went wrong. Please try again.");
         } finally {
@@ -68,12 +72,33 @@ export default function SignInScreen({ navigation }: AppScreenProps<'SignIn'>) {
         setShowResetPanel((prev) => !prev);
     };
 
+    const handleSendResetCode = async () => {
+        setResetErrorMsg(null);
+        if (!resetEmailValid) {
+            setResetErrorMsg("Enter a valid email address.");
+            return;
+        }
+
+        setResetLoading(true);
+        try {
+            const { message, error } = await requestPasswordReset(normalizedResetEmail);
+            if (error) {
+                setResetErrorMsg(error);
+                return;
+            }
+            setResetCodeSent(true);
+            setResetSuccessMsg(message || 'Check your email for a reset code.');
+        } finally {
+            setResetLoading(false);
+        }
+    };
+
     const handleResetPassword = async () => {
         setResetErrorMsg(null);
         setResetSuccessMsg(null);
 
-        if (!resetEmailValid) {
-            setResetErrorMsg("Enter a valid email address.");
+        if (resetCode.trim().length === 0) {
+            setResetErrorMsg("Enter the code from the reset email.");
             return;
         }
         if (!resetPasswordValid) {
@@ -87,23 +112,18 @@ export default function SignInScreen({ navigation }: AppScreenProps<'SignIn'>) {
 
         setResetLoading(true);
         try {
-            const res = await apiFetch<{ message?: string }>('/api/auth/reset-password', {
-                method: 'POST',
-                body: JSON.stringify({
-                    email: normalizedResetEmail,
-                    newPassword: resetPassword,
-                }),
-            });
-
-            if (!res.success) {
-                setResetErrorMsg(res.error || 'Could not reset password.');
+            const { message, error } = await submitPasswordReset(resetCode.trim(), resetPassword);
+            if (error) {
+                setResetErrorMsg(error);
                 return;
             }
 
             setShowResetPanel(false);
-            setResetSuccessMsg(res.data?.message || 'Password reset successful. Sign in with your new password.');
+            setResetSuccessMsg(message || 'Password reset successful. Sign in with your new password.');
             setEmail(normalizedResetEmail);
             setPassword("");
+            setResetCode("");
+            setResetCodeSent(false);
             setResetPassword("");
             setResetConfirmPassword("");
             setTouched((prev) => ({ ...prev, password: false }));
@@ -115,6 +135,118 @@ export default function SignInScreen({ navigation }: AppScreenProps<'SignIn'>) {
         }
     };
 
+    const handleVerifyTwoFactor = async () => {
+        setErrorMsg(null);
+        if (twoFactorCode.trim().length < 6) {
+            setErrorMsg("Enter the 6-digit code or a recovery code.");
+            return;
+        }
+        setIsLoading(true);
+        try {
+            await completeTwoFactor(twoFactorCode);
+            setTwoFactorCode("");
+            setPassword("");
+        } catch (error: unknown) {
+            setErrorMsg(error instanceof Error ? error.message : "Something went wrong. Please try again.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleCancelTwoFactor = () => {
+        cancelTwoFactor();
+        setTwoFactorCode("");
+        setErrorMsg(null);
+    };
+
+    const handleKeepAccount = async () => {
+        setKeepLoading(true);
+        try {
+            const user = await cancelAccountDeletion();
+            if (!user) setErrorMsg("Could not cancel the deletion. Please try again.");
+        } finally {
+            setKeepLoading(false);
+        }
+    };
+
+    const handleContinueDeletion = async () => {
+        await logout();
+        setPassword("");
+        setResetSuccessMsg("Your account will be deleted as scheduled.");
+    };
+
+    const deletionCard = pendingDeletion ? (
+        <View style={styles.card}>
+            <Text style={styles.cardTitle}>Account scheduled for deletion</Text>
+            <Text style={styles.cardSubtitle}>
+                {`Your account and all of its data will be deleted on ${new Date(pendingDeletion.deletionScheduledFor ?? Date.now()).toLocaleDateString()}.`}
+            </Text>
+            {errorMsg ? (
+                <View style={styles.errorBox}>
+                    <Text style={styles.errorText}>{errorMsg}</Text>
+                </View>
+            ) : null}
+            <TouchableOpacity onPress={handleKeepAccount} disabled={keepLoading} activeOpacity={0.85}>
+                <LinearGradient
+                    colors={["#7c3aed", "#6d28d9"]}
+                    start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
+                    style={styles.primaryBtn}
+                >
+                    {keepLoading
+                        ? <ActivityIndicator color="#fff" />
+                        : <Text style={styles.primaryBtnText}>Keep my account</Text>
+                    }
+                </LinearGradient>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.continueDeletionBtn} onPress={handleContinueDeletion} disabled={keepLoading}>
+                <Text style={styles.forgotText}>Continue with deletion and sign out</Text>
+            </TouchableOpacity>
+        </View>
+    ) : null;
+
+    const twoFactorCard = twoFactorPending ? (
+        <View style={styles.card}>
+            <Text style={styles.cardTitle}>Two-step verification</Text>
+            <Text style={styles.cardSubtitle}>Enter the 6-digit code from your authenticator app, or one of your recovery codes.</Text>
+            {errorMsg ? (
+                <View style={styles.errorBox}>
+                    <Text style={styles.errorText}>{errorMsg}</Text>
+                </View>
+            ) : null}
+            <TextInput
+                style={styles.input}
+                placeholder="Authentication code"
+                placeholderTextColor="#a78bfa"
+                value={twoFactorCode}
+                onChangeText={(value) => {
+                    setTwoFactorCode(value);
+                    if (errorMsg) setErrorMsg(null);
+                }}
+                onSubmitEditing={handleVerifyTwoFactor}
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoComplete="one-time-code"
+                textContentType="oneTimeCode"
+                autoFocus
+            />
+            <TouchableOpacity onPress={handleVerifyTwoFactor} disabled={isLoading} activeOpacity={0.85}>
+                <LinearGradient
+                    colors={["#7c3aed", "#6d28d9"]}
+                    start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
+                    style={styles.primaryBtn}
+                >
+                    {isLoading
+                        ? <ActivityIndicator color="#fff" />
+                        : <Text style={styles.primaryBtnText}>Verify</Text>
+                    }
+                </LinearGradient>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.backToSignInBtn} onPress={handleCancelTwoFactor} disabled={isLoading}>
+                <Text style={styles.forgotText}>Back to sign in</Text>
+            </TouchableOpacity>
+        </View>
+    ) : null;
+
     const content = (
         <View style={styles.container}>
             {/* Logo */}
@@ -127,132 +259,158 @@ export default function SignInScreen({ navigation }: AppScreenProps<'SignIn'>) {
             </View>
 
             {/* Card */}
-            <View style={styles.card}>
-                <Text style={styles.cardTitle}>Welcome Back</Text>
-                <Text style={styles.cardSubtitle}>Sign in to your account</Text>
-                <Text style={styles.authModeNote}>Prototype mode: email/password sign-in only.</Text>
+            {deletionCard ?? twoFactorCard ?? (
+                <View style={styles.card}>
+                    <Text style={styles.cardTitle}>Welcome Back</Text>
+                    <Text style={styles.cardSubtitle}>Sign in to your account</Text>
+                    <Text style={styles.authModeNote}>Prototype mode: email/password sign-in only.</Text>
 
-                {errorMsg ? (
-                    <View style={styles.errorBox}>
-                        <Text style={styles.errorText}>{errorMsg}</Text>
-                    </View>
-                ) : null}
-                {resetSuccessMsg ? (
-                    <View style={styles.successBox}>
-                        <Text style={styles.successText}>{resetSuccessMsg}</Text>
-                    </View>
-                ) : null}
+                    {errorMsg ? (
+                        <View style={styles.errorBox}>
+                            <Text style={styles.errorText}>{errorMsg}</Text>
+                        </View>
+                    ) : null}
+                    {resetSuccessMsg ? (
+                        <View style={styles.successBox}>
+                            <Text style={styles.successText}>{resetSuccessMsg}</Text>
+                        </View>
+                    ) : null}
 
-                <TextInput
-                    style={[
-                        styles.input,
-                        touched.email ? (emailValid ? styles.inputValid : styles.inputInvalid) : null,
-                    ]}
-                    placeholder="Email"
-                    placeholderTextColor="#a78bfa"
-                    value={email}
-                    onChangeText={(value) => {
-                        setEmail(value);
-                        if (errorMsg) setErrorMsg(null);
-                    }}
-                    onBlur={() => setTouched((prev) => ({ ...prev, email: true }))}
-                    autoCapitalize="none"
-                    keyboardType="email-address"
-                />
-                {touched.email && (
-                    <Text style={emailValid ? styles.validHint : styles.invalidHint}>
-                        {emailValid ? "Looks good." : "Enter a valid email address."}
-                    </Text>
-                )}
-
-                <View style={styles.passwordWrap}>
                     <TextInput
                         style={[
                             styles.input,
-                            styles.passwordInput,
-                            touched.password ? (passwordValid ? styles.inputValid : styles.inputInvalid) : null,
+                            touched.email ? (emailValid ? styles.inputValid : styles.inputInvalid) : null,
                         ]}
-                        placeholder="Password"
+                        placeholder="Email"
                         placeholderTextColor="#a78bfa"
-                        value={password}
+                        value={email}
                         onChangeText={(value) => {
-                            setPassword(value);
+                            setEmail(value);
                             if (errorMsg) setErrorMsg(null);
                         }}
-                        onBlur={() => setTouched((prev) => ({ ...prev, password: true }))}
-                        secureTextEntry={!showPassword}
+                        onBlur={() => setTouched((prev) => ({ ...prev, email: true }))}
+                        autoCapitalize="none"
+                        keyboardType="email-address"
                     />
-                    <TouchableOpacity style={styles.eyeBtn} onPress={() => setShowPassword((prev) => !prev)}>
-                        <Text style={styles.eyeBtnText}>{showPassword ? "Hide" : "Show"}</Text>
-                    </TouchableOpacity>
-                </View>
-                {touched.password && (
-                    <Text style={passwordValid ? styles.validHint : styles.invalidHint}>
-                        {passwordValid ? "Password length is valid." : "Password must be at least 6 characters."}
-                    </Text>
-                )}
-                <TouchableOpacity style={styles.forgotBtn} onPress={handleForgotPasswordPress}>
-                    <Text style={styles.forgotText}>{showResetPanel ? "Close reset" : "Forgot Password?"}</Text>
-                </TouchableOpacity>
+                    {touched.email && (
+                        <Text style={emailValid ? styles.validHint : styles.invalidHint}>
+                            {emailValid ? "Looks good." : "Enter a valid email address."}
+                        </Text>
+                    )}
 
-                {showResetPanel ? (
-                    <View style={styles.resetPanel}>
-                        <Text style={styles.resetTitle}>Reset Password</Text>
-                        <Text style={styles.resetSub}>Prototype mode: reset using email + new password.</Text>
-                        {resetErrorMsg ? <Text style={styles.resetErrorText}>{resetErrorMsg}</Text> : null}
-                        <TextInput
-                            style={styles.input}
-                            placeholder="Account Email"
-                            placeholderTextColor="#a78bfa"
-                            value={resetEmail}
-                            onChangeText={setResetEmail}
-                            autoCapitalize="none"
-                            keyboardType="email-address"
-                        />
+                    <View style={styles.passwordWrap}>
                         <TextInput
-                            style={styles.input}
-                            placeholder="New Password"
+                            style={[
+                                styles.input,
+                                styles.passwordInput,
+                                touched.password ? (passwordValid ? styles.inputValid : styles.inputInvalid) : null,
+                            ]}
+                            placeholder="Password"
                             placeholderTextColor="#a78bfa"
-                            value={resetPassword}
-                            onChangeText={setResetPassword}
-                            secureTextEntry
+                            value={password}
+                            onChangeText={(value) => {
+                                setPassword(value);
+                                if (errorMsg) setErrorMsg(null);
+                            }}
+                            onBlur={() => setTouched((prev) => ({ ...prev, password: true }))}
+                            secureTextEntry={!showPassword}
                         />
-                        <TextInput
-                            style={styles.input}
-                            placeholder="Confirm New Password"
-                            placeholderTextColor="#a78bfa"
-                            value={resetConfirmPassword}
-                            onChangeText={setResetConfirmPassword}
-                            secureTextEntry
-                        />
-                        <TouchableOpacity onPress={handleResetPassword} disabled={!canSubmitReset} activeOpacity={0.85}>
-                            <LinearGradient
-                                colors={canSubmitReset ? ["#2563eb", "#1d4ed8"] : ["#93c5fd", "#60a5fa"]}
-                                start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
-                                style={styles.resetBtn}
-                            >
-                                {resetLoading
-                                    ? <ActivityIndicator color="#fff" />
-                                    : <Text style={styles.resetBtnText}>Reset Password</Text>}
-                            </LinearGradient>
+                        <TouchableOpacity style={styles.eyeBtn} onPress={() => setShowPassword((prev) => !prev)}>
+                            <Text style={styles.eyeBtnText}>{showPassword ? "Hide" : "Show"}</Text>
                         </TouchableOpacity>
                     </View>
-                ) : null}
+                    {touched.password && (
+                        <Text style={passwordValid ? styles.validHint : styles.invalidHint}>
+                            {passwordValid ? "Password length is valid." : "Password must be at least 6 characters."}
+                        </Text>
+                    )}
+                    <TouchableOpacity style={styles.forgotBtn} onPress={handleForgotPasswordPress}>
+                        <Text style={styles.forgotText}>{showResetPanel ? "Close reset" : "Forgot Password?"}</Text>
+                    </TouchableOpacity>
 
-                <TouchableOpacity onPress={handleLogin} disabled={!canSubmit} activeOpacity={0.85}>
-                    <LinearGradient
-                        colors={canSubmit ? ["#7c3aed", "#6d28d9"] : ["#c4b5fd", "#a78bfa"]}
-                        start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
-                        style={[styles.primaryBtn, !canSubmit && styles.primaryBtnDisabled]}
-                    >
-                        {isLoading
-                            ? <ActivityIndicator color="#fff" />
-                            : <Text style={styles.primaryBtnText}>Sign In</Text>
-                        }
-                    </LinearGradient>
-                </TouchableOpacity>
+                    {showResetPanel ? (
+                        <View style={styles.resetPanel}>
+                            <Text style={styles.resetTitle}>Reset Password</Text>
+                            <Text style={styles.resetSub}>
+                                {resetCodeSent
+                                    ? "Enter the code from the email and choose a new password."
+                                    : "We'll email you a code to reset your password."}
+                            </Text>
+                            {resetErrorMsg ? <Text style={styles.resetErrorText}>{resetErrorMsg}</Text> : null}
+                            <TextInput
+                                style={styles.input}
+                                placeholder="Account Email"
+                                placeholderTextColor="#a78bfa"
+                                value={resetEmail}
+                                onChangeText={(value) => {
+                                    setResetEmail(value);
+                                    setResetCodeSent(false);
+                                }}
+                                autoCapitalize="none"
+                                keyboardType="email-address"
+                            />
+                            {resetCodeSent ? (
+                                <>
+                                    <TextInput
+                                        style={styles.input}
+                                        placeholder="Reset Code"
+                                        placeholderTextColor="#a78bfa"
+                                        value={resetCode}
+                                        onChangeText={setResetCode}
+                                        autoCapitalize="none"
+                                        autoCorrect={false}
+                                    />
+                                    <TextInput
+                                        style={styles.input}
+                                        placeholder="New Password"
+                                        placeholderTextColor="#a78bfa"
+                                        value={resetPassword}
+                                        onChangeText={setResetPassword}
+                                        secureTextEntry
+                                    />
+                                    <TextInput
+                                        style={styles.input}
+                                        placeholder="Confirm New Password"
+                                        placeholderTextColor="#a78bfa"
+                                        value={resetConfirmPassword}
+                                        onChangeText={setResetConfirmPassword}
+                                        secureTextEntry
+                                    />
+                                </>
+                            ) : null}
+                            <TouchableOpacity
+                                onPress={resetCodeSent ? handleResetPassword : handleSendResetCode}
+                                disabled={!canSubmitReset}
+                                activeOpacity={0.85}
+                            >
+                                <LinearGradient
+                                    colors={canSubmitReset ? ["#2563eb", "#1d4ed8"] : ["#93c5fd", "#60a5fa"]}
+                                    start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
+                                    style={styles.resetBtn}
+                                >
+                                    {resetLoading
+                                        ? <ActivityIndicator color="#fff" />
+                                        : <Text style={styles.resetBtnText}>{resetCodeSent ? "Reset Password" : "Send Reset Code"}</Text>}
+                                </LinearGradient>
+                            </TouchableOpacity>
+                        </View>
+                    ) : null}
 
-            </View>
+                    <TouchableOpacity onPress={handleLogin} disabled={!canSubmit} activeOpacity={0.85}>
+                        <LinearGradient
+                            colors={canSubmit ? ["#7c3aed", "#6d28d9"] : ["#c4b5fd", "#a78bfa"]}
+                            start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}
+                            style={[styles.primaryBtn, !canSubmit && styles.primaryBtnDisabled]}
+                        >
+                            {isLoading
+                                ? <ActivityIndicator color="#fff" />
+                                : <Text style={styles.primaryBtnText}>Sign In</Text>
+                            }
+                        </LinearGradient>
+                    </TouchableOpacity>
+
+                </View>
+            )}
 
             <View style={styles.bottomRow}>
                 <Text style={styles.bottomText}>Don't have an account? </Text>
@@ -414,6 +572,8 @@ const styles = StyleSheet.create({
         shadowOpacity: 0.08,
     },
     primaryBtnText: { color: '#ffffff', fontSize: 16, fontWeight: '700', letterSpacing: 0.3 },
+    continueDeletionBtn: { alignSelf: 'center', marginTop: 16 },
+    backToSignInBtn: { alignSelf: 'center', marginTop: 16 },
 
     bottomRow: { flexDirection: 'row', justifyContent: 'center', marginTop: 28 },
     bottomText: { color: '#5b21b6', fontSize: 14 },
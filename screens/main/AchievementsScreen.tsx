@@ -2,40 +2,50 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
 import { ScreenLayout } from '../../components/ScreenLayout';
 import { ArrowLeft, Lock } from 'lucide-react-native';
-import { GamificationService } from '../../lib/gamification';
-import { useAuth } from '../../contexts/AuthContext';
+import { getAchievements, getWeeklyChallenges, type Achievement, type AchievementTier, type WeeklyChallenges } from '../../lib/api/auth';
 import { LinearGradient } from 'expo-linear-gradient';
 import type { AppScreenProps } from '../../lib/navigation/types';
 import { EmptyState } from '../../components/ui/EmptyState';
 
-interface BadgeProgress {
-    id: string;
-    name: string;
-    description: string;
-    icon: string;
-    category: string;
-    isUnlocked: boolean;
+const TIER_STYLES: Record<AchievementTier, { label: string; medal: string; color: string; background: string }> = {
+    bronze: { label: 'Bronze', medal: '🥉', color: '#9a3412', background: '#ffedd5' },
+    silver: { label: 'Silver', medal: '🥈', color: '#475569', background: '#e2e8f0' },
+    gold: { label: 'Gold', medal: '🥇', color: '#a16207', background: '#fef3c7' },
+};
+
+function formatUnlockDate(iso: string): string {
+    return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function formatProgress(value: number | null): string {
+    if (value === null) return '–';
+    return Number.isInteger(value) ? value.toLocaleString() : value.toFixed(1);
 }
 
 export default function AchievementsScreen({ navigation }: AppScreenProps<'Achievements'>) {
-    const { user } = useAuth();
-    const [badges, setBadges] = useState<BadgeProgress[]>([]);
+    const [badges, setBadges] = useState<Achievement[]>([]);
+    const [goldCount, setGoldCount] = useState(0);
+    const [weekly, setWeekly] = useState<WeeklyChallenges | null>(null);
     const [loading, setLoading] = useState(true);
 
-    useEffect(() => { loadBadges(); }, [user]);
+    useEffect(() => {
+        loadBadges();
+        return navigation.addListener('focus', loadBadges);
+    }, [navigation]);
 
     const loadBadges = async () => {
-        setLoading(true);
         try {
-            const userId = user?.id ?? 'demo-user';
-            await GamificationService.checkAchievements(userId);
-            const data = await GamificationService.getBadgeProgress(userId);
-            setBadges(data);
+            const [data, challenges] = await Promise.all([getAchievements(), getWeeklyChallenges()]);
+            if (data) {
+                setBadges(data.badges);
+                setGoldCount(data.tierCounts.gold);
+            }
+            setWeekly(challenges);
         } catch (e) { console.error(e); }
         finally { setLoading(false); }
     };
 
-    const unlockedCount = badges.filter(b => b.isUnlocked).length;
+    const unlockedCount = badges.filter(b => b.unlocked).length;
     const totalCount = badges.length;
 
     return (
@@ -74,33 +84,87 @@ export default function AchievementsScreen({ navigation }: AppScreenProps<'Achie
                                     <Text style={styles.statLabel}>Unlocked</Text>
                                 </View>
                                 <View style={styles.statDivider} />
+                                <View style={styles.statCol}>
+                                    <Text style={styles.statValue}>{goldCount}</Text>
+                                    <Text style={styles.statLabel}>Gold</Text>
+                                </View>
+                                <View style={styles.statDivider} />
                                 <View style={styles.statCol}>
                                     <Text style={styles.statValue}>{totalCount}</Text>
                                     <Text style={styles.statLabel}>Total Available</Text>
                                 </View>
                             </View>
 
+                            {/* Weekly Challenges */}
+                            {weekly && weekly.challenges.length > 0 && (
+                                <View style={styles.challengeCard}>
+                                    <View style={styles.challengeHeader}>
+                                        <Text style={styles.challengeTitle}>This week's challenges</Text>
+                                        <Text style={styles.challengeMeta}>{weekly.completedTotal} completed all-time</Text>
+                                    </View>
+                                    {weekly.challenges.map((challenge) => (
+                                        <View key={challenge.id} style={styles.challengeRow}>
+                                            <Text style={styles.challengeIcon}>{challenge.completed ? '✅' : challenge.icon}</Text>
+                                            <View style={{ flex: 1 }}>
+                                                <Text style={styles.challengeName}>{challenge.title}</Text>
+                                                <Text style={styles.challengeDesc}>{challenge.description}</Text>
+                                                <View style={styles.progressTrack}>
+                                                    <View style={[styles.progressFill, { width: `${challenge.percent}%` }]} />
+                                                </View>
+                                            </View>
+                                            <Text style={styles.challengeProgress}>
+                                                {challenge.completed ? 'Done' : `${formatProgress(challenge.current)} / ${formatProgress(challenge.target)}`}
+                                            </Text>
+                                        </View>
+                                    ))}
+                                    <Text style={styles.challengeFooter}>
+                                        {weekly.daysLeft} {weekly.daysLeft === 1 ? 'day' : 'days'} left · new challenges every Monday
+                                    </Text>
+                                </View>
+                            )}
+
                             {/* Badges Grid */}
                             <View style={styles.grid}>
-                                {badges.map((badge) => (
-                                    <View key={badge.id} style={styles.gridItem}>
-                                        <View style={[styles.badgeCard, !badge.isUnlocked && styles.badgeLocked]}>
-                                            <View style={[styles.iconWrap, badge.isUnlocked ? { backgroundColor: '#fffbeb' } : { backgroundColor: '#f1f5f9' }]}>
-                                                {badge.isUnlocked ? (
-                                                    <Text style={styles.badgeEmoji}>{badge.icon}</Text>
-                                                ) : (
-                                                    <Lock size={20} color="#94a3b8" />
+                                {badges.map((badge) => {
+                                    const tier = badge.tier ? TIER_STYLES[badge.tier] : null;
+                                    return (
+                                        <View key={badge.id} style={styles.gridItem}>
+                                            <View style={[styles.badgeCard, !badge.unlocked && styles.badgeLocked]}>
+                                                <View style={[styles.iconWrap, { backgroundColor: tier?.background ?? '#f1f5f9' }]}>
+                                                    {badge.unlocked ? (
+                                                        <Text style={styles.badgeEmoji}>{badge.icon}</Text>
+                                                    ) : (
+                                                        <Lock size={20} color="#94a3b8" />
+                                                    )}
+                                                </View>
+                                                <Text style={[styles.badgeName, !badge.unlocked && { color: '#64748b' }]}>
+                                                    {badge.name}
+                                                </Text>
+                                                {tier && (
+                                                    <View style={[styles.tierPill, { backgroundColor: tier.background }]}>
+                                                        <Text style={[styles.tierText, { color: tier.color }]}>{tier.medal} {tier.label}</Text>
+                                                    </View>
+                                                )}
+                                                <Text style={styles.badgeDesc} numberOfLines={2}>
+                                                    {badge.description}
+                                                </Text>
+                                                {badge.nextTier && (
+                                                    <View style={styles.progressWrap}>
+                                                        <View style={styles.progressTrack}>
+                                                            <View style={[styles.progressFill, { width: `${badge.percent}%` }]} />
+                                                        </View>
+                                                        <Text style={styles.progressText}>
+                                                            {formatProgress(badge.current)} / {formatProgress(badge.target)} for {TIER_STYLES[badge.nextTier].label.toLowerCase()}
+                                                        </Text>
+                                                    </View>
+                                                )}
+                                                {badge.unlockedAt && (
+                                                    <Text style={styles.unlockedAt}>Unlocked {formatUnlockDate(badge.unlockedAt)}</Text>
                                                 )}
                                             </View>
-                                            <Text style={[styles.badgeName, !badge.isUnlocked && { color: '#64748b' }]}>
-                                                {badge.name}
-                                            </Text>
-                                            <Text style={styles.badgeDesc} numberOfLines={2}>
-                                                {badge.description}
-                                            </Text>
                                         </View>
-                                    </View>
-                                ))}
+                                    );
+                                })}
                             </View>
                         </>
                     )}
@@ -137,12 +201,29 @@ const styles = StyleSheet.create({
     statValue: { fontSize: 32, fontWeight: '800', color: '#d97706' },
     statLabel: { fontSize: 13, color: '#9ca3af', marginTop: 4, fontWeight: '600' },
     statDivider: { width: 1, backgroundColor: '#f3f4f6' },
+    challengeCard: { backgroundColor: '#fff', borderRadius: 20, padding: 16, marginBottom: 20, gap: 12, shadowColor: '#f59e0b', shadowOffset: { width: 0, height: 4 }, shadowOpacity: 0.15, shadowRadius: 12, elevation: 4 },
+    challengeHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+    challengeTitle: { fontSize: 16, fontWeight: '800', color: '#1e1b4b' },
+    challengeMeta: { fontSize: 12, fontWeight: '600', color: '#d97706' },
+    challengeRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+    challengeIcon: { fontSize: 24 },
+    challengeName: { fontSize: 14, fontWeight: '700', color: '#1e1b4b' },
+    challengeDesc: { fontSize: 12, color: '#9ca3af', marginTop: 2, marginBottom: 6 },
+    challengeProgress: { fontSize: 12, fontWeight: '700', color: '#d97706', minWidth: 56, textAlign: 'right' },
+    challengeFooter: { fontSize: 11, color: '#94a3b8', textAlign: 'center', fontWeight: '600' },
     grid: { flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'space-between' },
     gridItem: { width: '48%', marginBottom: 16 },
-    badgeCard: { height: 150, backgroundColor: '#fff', borderRadius: 20, padding: 16, alignItems: 'center', justifyContent: 'center', shadowColor: '#f59e0b', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.08, shadowRadius: 10, elevation: 3, borderWidth: 1, borderColor: '#fef3c7' },
+    badgeCard: { minHeight: 170, backgroundColor: '#fff', borderRadius: 20, padding: 16, alignItems: 'center', justifyContent: 'center', shadowColor: '#f59e0b', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.08, shadowRadius: 10, elevation: 3, borderWidth: 1, borderColor: '#fef3c7' },
     badgeLocked: { backgroundColor: '#f8fafc', shadowOpacity: 0, elevation: 0, borderColor: '#f1f5f9' },
     iconWrap: { width: 56, height: 56, borderRadius: 28, alignItems: 'center', justifyContent: 'center', marginBottom: 12 },
     badgeEmoji: { fontSize: 28 },
     badgeName: { fontSize: 14, fontWeight: '700', color: '#1e1b4b', textAlign: 'center', marginBottom: 4 },
     badgeDesc: { fontSize: 11, color: '#9ca3af', textAlign: 'center', lineHeight: 16 },
+    tierPill: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10, marginBottom: 4 },
+    tierText: { fontSize: 11, fontWeight: '700' },
+    unlockedAt: { fontSize: 11, fontWeight: '600', color: '#d97706', marginTop: 8 },
+    progressWrap: { alignSelf: 'stretch', marginTop: 10 },
+    progressTrack: { height: 6, borderRadius: 3, backgroundColor: '#e2e8f0', overflow: 'hidden' },
+    progressFill: { height: 6, borderRadius: 3, backgroundColor: '#f59e0b' },
+    progressText: { fontSize: 10, color: '#94a3b8', textAlign: 'center', marginTop: 4, fontWeight: '600' },
 });
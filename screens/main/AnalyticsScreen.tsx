@@ -1,8 +1,8 @@
 import React, { useMemo, useState } from "react";
 import { View, Text, ScrollView, TouchableOpacity, ActivityIndicator, StyleSheet, useWindowDimensions } from "react-native";
 import { ScreenLayout } from "../../components/ScreenLayout";
-import { BarChart2, TrendingUp, ChevronLeft, ChevronRight, Activity } from "lucide-react-native";
-import { LineChart } from "react-native-gifted-charts";
+import { BarChart2, TrendingUp, ChevronLeft, ChevronRight, Activity, Clock, Utensils, Ruler } from "lucide-react-native";
+import { BarChart, LineChart } from "react-native-gifted-charts";
 import {
     averageDelta,
     avg,
@@ -28,18 +28,35 @@ import {
     XYPoint,
 } from "./analytics/analyticsUtils";
 import { useAnalyticsHistoryData } from "./analytics/useAnalyticsHistoryData";
+import { useIntradayDay } from "./analytics/useIntradayDay";
+import { useMealEnergyImpact } from "./analytics/useMealEnergyImpact";
+import { useCustomMetricData } from "./analytics/useCustomMetricData";
 import type { AppScreenProps } from "../../lib/navigation/types";
+import { useGoals } from "../../contexts/GoalsContext";
 import { PageHeader } from "../../components/ui/PageHeader";
 import { EmptyState } from "../../components/ui/EmptyState";
 import { appTheme } from "../../lib/theme/tokens";
 import { chartTheme } from "../../lib/theme/charts";
 import { FadeInSection } from "../../components/ui/FadeInSection";
 
+// Dashed horizontal line marking the user's goal on a trend chart.
+function goalLineProps(goal: number, color: string) {
+    return {
+        showReferenceLine1: true,
+        referenceLine1Position: goal,
+        referenceLine1Config: { color, dashWidth: 4, dashGap: 4, thickness: 1 },
+    };
+}
+
+const CUSTOM_METRIC_COLORS = ['#0ea5e9', '#f59e0b', '#ec4899', '#22c55e', '#8b5cf6', '#64748b'];
+
 export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytics'>) {
     const { width: screenWidth } = useWindowDimensions();
     const { loading, allHealth, allMood } = useAnalyticsHistoryData(60);
+    const { goals } = useGoals();
     const [weekOffset, setWeekOffset] = useState(0);
     const [trendWindow, setTrendWindow] = useState<7 | 30>(7);
+    const [drillDay, setDrillDay] = useState<string | null>(null);
 
     const { startDate, endDate } = getWeekRange(weekOffset);
     const { startDate: prevStartDate, endDate: prevEndDate } = getWeekRange(weekOffset + 1);
@@ -69,6 +86,23 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
     const coverage7 = buildCoverage(7, endDate, allHealth, allMood);
     const coverage30 = buildCoverage(30, endDate, allHealth, allMood);
 
+    const weekDayKeys = Array.from({ length: 7 }, (_, i) => shiftDateString(startDate, i));
+    const selectedDrillDay = drillDay && weekDayKeys.includes(drillDay) ? drillDay : weekEntries[weekEntries.length - 1]?.date.slice(0, 10) ?? null;
+    const { loading: intradayLoading, day: intraday } = useIntradayDay(selectedDrillDay);
+    const hourLabel = (hour: number) => (hour % 6 === 0 ? `${String(hour).padStart(2, '0')}h` : "");
+    const intradayHeartData = (intraday?.hourly ?? []).flatMap((bucket) => (
+        bucket.heartRateAvg === null ? [] : [{ value: bucket.heartRateAvg, label: hourLabel(bucket.hour) }]
+    ));
+    const intradayStepsData = (intraday?.hourly ?? []).map((bucket) => ({
+        value: bucket.steps,
+        label: hourLabel(bucket.hour),
+        frontColor: '#14b8a6',
+    }));
+    const hasIntradaySteps = intradayStepsData.some((bucket) => bucket.value > 0);
+    const { loading: mealEnergyLoading, impact: mealEnergy } = useMealEnergyImpact(60);
+    const mealTagRows = (mealEnergy?.tags ?? []).filter((row) => row.delta !== null).slice(0, 6);
+    const { loading: customMetricsLoading, metrics: customMetrics, values: customMetricValues } = useCustomMetricData(60);
+
     const trendStartDate = shiftDateString(endDate, -(trendWindow - 1));
     const trendHealthEntries = filterByRange(allHealth, trendStartDate, endDate).sort((a, b) => a.date.localeCompare(b.date));
     const trendMoodEntries = filterByRange(allMood, trendStartDate, endDate).sort((a, b) => a.date.localeCompare(b.date));
@@ -165,6 +199,25 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
     const stepsEnergyPerStep = linearSlope(stepsEnergyPairs);
     const stressEnergyPerPoint = linearSlope(stressEnergyPairs);
     const stepsEnergyPerThousand = stepsEnergyPerStep === null ? null : stepsEnergyPerStep * 1000;
+
+    const customValueByMetricDay = new Map<string, number>();
+    for (const item of customMetricValues) customValueByMetricDay.set(`${item.metricId}:${item.date}`, item.value);
+    const customMetricSeries = customMetrics.map((metric, metricIndex) => {
+        const color = CUSTOM_METRIC_COLORS[metricIndex % CUSTOM_METRIC_COLORS.length];
+        const trendData = trendDayKeys.flatMap((key, index) => {
+            const value = customValueByMetricDay.get(`${metric._id}:${key}`);
+            return value === undefined ? [] : [{ value: Number(value.toFixed(1)), label: trendLabel(key, index) }];
+        });
+        const energyPairs: XYPoint[] = trendDayKeys.flatMap((key) => {
+            const x = customValueByMetricDay.get(`${metric._id}:${key}`);
+            const entry = trendHealthByDay.get(key);
+            if (x === undefined || !entry) return [];
+            const y = Number(entry.energyScore);
+            if (!Number.isFinite(y)) return [];
+            return [{ x, y }];
+        });
+        return { metric, color, trendData, energyPairs, energySlope: linearSlope(energyPairs) };
+    });
     const consistencySleepValues = trendDayKeys.flatMap((key) => {
         const entry = trendHealthByDay.get(key);
         if (!entry) return [];
@@ -216,7 +269,15 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
         ? 'signal still building (log a few more days)'
         : `${formatSigned(stressEnergyPerPoint, 1)} energy per +1 stress`;
 
-    const correlationCards = [
+    const correlationCards: Array<{
+        id: string;
+        title: string;
+        statement: string;
+        valueText: string;
+        confidence: string;
+        samples: number;
+        color: string;
+    }> = [
         {
             id: 'sleep-energy',
             title: 'Sleep vs Energy',
@@ -244,7 +305,19 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
             samples: stressEnergyPairs.length,
             color: '#ef4444',
         },
-    ] as const;
+        // Booleans are stored as 0/1, so the slope reads as the yes-vs-no difference.
+        ...customMetricSeries.map(({ metric, color, energyPairs, energySlope }) => ({
+            id: `custom-${metric._id}`,
+            title: `${metric.name} vs Energy`,
+            statement: metric.valueType === 'boolean'
+                ? `Days with ${metric.name.toLowerCase()} correlate with`
+                : `Higher ${metric.name.toLowerCase()} (+1${metric.unit ? ` ${metric.unit}` : ' point'}) correlates with`,
+            valueText: formatEffect(energySlope, 'energy', 1),
+            confidence: confidenceLabel(energyPairs.length),
+            samples: energyPairs.length,
+            color,
+        })),
+    ];
     const recommendations: Array<{ id: string; title: string; detail: string }> = [];
     if (coverage7.completeDays < 5) {
         recommendations.push({
@@ -253,24 +326,24 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
             detail: `You logged complete data on ${coverage7.completeDays}/7 days. Target at least 5/7 days this week to increase analytics confidence.`,
         });
     }
-    if (avgSleep < 6.8) {
+    if (avgSleep < goals.sleepHours - 1.2) {
         recommendations.push({
             id: 'rec-sleep',
             title: 'Increase sleep by +0.5 to +1.0 hour',
-            detail: `Your 7-day average sleep is ${avgSleep.toFixed(1)}h. Raise it toward 7.0-7.5h; current sleep-energy signal: ${sleepEffectPhrase}.`,
+            detail: `Your 7-day average sleep is ${avgSleep.toFixed(1)}h. Raise it toward your ${goals.sleepHours}h goal; current sleep-energy signal: ${sleepEffectPhrase}.`,
         });
     }
-    if (avgSteps < 7000) {
+    if (avgSteps < goals.steps * 0.7) {
         recommendations.push({
             id: 'rec-steps',
             title: 'Add at least +1,500 daily steps',
-            detail: `Current 7-day average is ${avgSteps.toLocaleString()} steps. Pushing toward 8,000 can lift energy; current steps-energy signal: ${stepsEffectPhrase}.`,
+            detail: `Current 7-day average is ${avgSteps.toLocaleString()} steps. Pushing toward your ${goals.steps.toLocaleString()}-step goal can lift energy; current steps-energy signal: ${stepsEffectPhrase}.`,
         });
     }
-    if (avgStress > 6) {
+    if (avgStress > goals.stressMax - 1) {
         recommendations.push({
             id: 'rec-stress',
-            title: 'Reduce stress to below 6/10',
+            title: `Reduce stress to below ${goals.stressMax - 1}/10`,
             detail: `Current stress average is ${avgStress.toFixed(1)}/10. Add a 10-minute daily cooldown block; stress-energy signal: ${stressEffectPhrase}.`,
         });
     }
@@ -285,7 +358,7 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
         recommendations.push({
             id: 'rec-maintain',
             title: 'Maintain your strongest habit',
-            detail: `Your current strongest signal is ${avgSleep >= 7 ? 'sleep duration' : avgSteps >= 8000 ? 'daily movement' : 'energy stability'}. Keep it stable for 7 more days to improve prediction reliability.`,
+            detail: `Your current strongest signal is ${avgSleep >= goals.sleepHours - 1 ? 'sleep duration' : avgSteps >= goals.steps * 0.8 ? 'daily movement' : 'energy stability'}. Keep it stable for 7 more days to improve prediction reliability.`,
         });
     }
     const topRecommendations = recommendations.slice(0, 3);
@@ -450,7 +523,7 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
 
                                 <View style={styles.trendMetricCard}>
                                     <View style={styles.trendMetricHeader}>
-                                        <Text style={styles.trendMetricTitle}>Sleep (hours)</Text>
+                                        <Text style={styles.trendMetricTitle}>Sleep (hours · goal {goals.sleepHours}h)</Text>
                                         <Text style={styles.trendMetricSub}>{sleepTrendData.length} logged days</Text>
                                     </View>
                                     {sleepTrendData.length > 0 ? (
@@ -461,6 +534,7 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
                                                 dataPointsColor="#6366f1"
                                                 maxValue={12}
                                                 {...trendChartProps}
+                                                {...goalLineProps(goals.sleepHours, '#6366f1')}
                                             />
                                         </View>
                                     ) : <Text style={styles.noDataCompact}>No sleep logs in selected range</Text>}
@@ -468,7 +542,7 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
 
                                 <View style={styles.trendMetricCard}>
                                     <View style={styles.trendMetricHeader}>
-                                        <Text style={styles.trendMetricTitle}>Steps</Text>
+                                        <Text style={styles.trendMetricTitle}>Steps (goal {goals.steps.toLocaleString()})</Text>
                                         <Text style={styles.trendMetricSub}>{stepsTrendData.length} logged days</Text>
                                     </View>
                                     {stepsTrendData.length > 0 ? (
@@ -478,6 +552,7 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
                                                 color="#14b8a6"
                                                 dataPointsColor="#14b8a6"
                                                 {...trendChartProps}
+                                                {...goalLineProps(goals.steps, '#14b8a6')}
                                             />
                                         </View>
                                     ) : <Text style={styles.noDataCompact}>No step logs in selected range</Text>}
@@ -503,7 +578,7 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
 
                                 <View style={[styles.trendMetricCard, styles.trendMetricCardLast]}>
                                     <View style={styles.trendMetricHeader}>
-                                        <Text style={styles.trendMetricTitle}>Stress (0-10)</Text>
+                                        <Text style={styles.trendMetricTitle}>Stress (0-10 · ceiling {goals.stressMax})</Text>
                                         <Text style={styles.trendMetricSub}>{stressTrendData.length} logged days</Text>
                                     </View>
                                     {stressTrendData.length > 0 ? (
@@ -515,6 +590,7 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
                                                 {...trendChartProps}
                                                 maxValue={10}
                                                 noOfSections={5}
+                                                {...goalLineProps(goals.stressMax, '#ef4444')}
                                             />
                                         </View>
                                     ) : <Text style={styles.noDataCompact}>No stress logs in selected range</Text>}
@@ -522,6 +598,131 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
                                 </View>
                             </FadeInSection>
 
+                            {/* Intraday Drill-down */}
+                            <FadeInSection delay={140}>
+                                <View style={styles.card}>
+                                <View style={styles.cardHeader}>
+                                    <View style={[styles.iconWrapSm, { backgroundColor: '#f0fdfa' }]}><Clock size={16} color="#0d9488" /></View>
+                                    <Text style={styles.cardTitle}>Intraday</Text>
+                                </View>
+
+                                <View style={styles.trendToggleRow}>
+                                    {weekDayKeys.map((key) => (
+                                        <TouchableOpacity
+                                            key={key}
+                                            onPress={() => setDrillDay(key)}
+                                            style={[styles.trendToggleBtn, selectedDrillDay === key && styles.trendToggleBtnActive]}
+                                            activeOpacity={0.8}
+                                        >
+                                            <Text style={[styles.trendToggleText, selectedDrillDay === key && styles.trendToggleTextActive]}>
+                                                {key.slice(8, 10)}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+
+                                {intradayLoading ? (
+                                    <ActivityIndicator size="small" color={appTheme.colors.brand} style={{ marginVertical: 16 }} />
+                                ) : !intraday || intraday.samples.length === 0 ? (
+                                    <Text style={styles.noDataCompact}>No intraday samples for {selectedDrillDay ?? 'this day'} — sync a wearable to see hour-by-hour data</Text>
+                                ) : (
+                                    <>
+                                        <Text style={styles.trendRangeText}>
+                                            {intraday.date} · {intraday.samples.length} samples (UTC hours)
+                                        </Text>
+
+                                        <View style={styles.trendMetricCard}>
+                                            <View style={styles.trendMetricHeader}>
+                                                <Text style={styles.trendMetricTitle}>Heart Rate (bpm)</Text>
+                                                <Text style={styles.trendMetricSub}>
+                                                    {intraday.rollup.heartRate ? `avg ${intraday.rollup.heartRate} · resting ${intraday.rollup.restingHeartRate}` : 'No readings'}
+                                                </Text>
+                                            </View>
+                                            {intradayHeartData.length > 0 ? (
+                                                <View style={styles.trendChartWrap}>
+                                                    <LineChart
+                                                        data={intradayHeartData}
+                                                        color="#ef4444"
+                                                        dataPointsColor="#ef4444"
+                                                        {...trendChartProps}
+                                                    />
+                                                </View>
+                                            ) : <Text style={styles.noDataCompact}>No heart rate samples this day</Text>}
+                                        </View>
+
+                                        <View style={[styles.trendMetricCard, styles.trendMetricCardLast]}>
+                                            <View style={styles.trendMetricHeader}>
+                                                <Text style={styles.trendMetricTitle}>Steps per hour</Text>
+                                                <Text style={styles.trendMetricSub}>
+                                                    {intraday.rollup.steps !== undefined ? `${intraday.rollup.steps.toLocaleString()} total` : 'No step buckets'}
+                                                </Text>
+                                            </View>
+                                            {hasIntradaySteps ? (
+                                                <View style={styles.trendChartWrap}>
+                                                    <BarChart
+                                                        data={intradayStepsData}
+                                                        height={chartTheme.lineHeight}
+                                                        width={trendChartWidth}
+                                                        barWidth={Math.max(4, (trendChartWidth - 40) / 24 - 3)}
+                                                        spacing={3}
+                                                        noOfSections={chartTheme.sections}
+                                                        yAxisThickness={0}
+                                                        xAxisThickness={1}
+                                                        xAxisColor={chartTheme.axisColor}
+                                                        rulesColor={chartTheme.rulesColor}
+                                                        yAxisTextStyle={chartTheme.axisText}
+                                                        xAxisLabelTextStyle={chartTheme.axisText}
+                                                        initialSpacing={chartTheme.spacingInset}
+                                                        isAnimated
+                                                    />
+                                                </View>
+                                            ) : <Text style={styles.noDataCompact}>No step samples this day</Text>}
+                                        </View>
+                                    </>
+                                )}
+                                </View>
+                            </FadeInSection>
+
+                            {/* Custom Metrics */}
+                            {(customMetricsLoading || customMetricSeries.length > 0) && (
+                                <FadeInSection delay={150}>
+                                    <View style={styles.card}>
+                                    <View style={styles.cardHeader}>
+                                        <View style={[styles.iconWrapSm, { backgroundColor: '#e0f2fe' }]}><Ruler size={16} color="#0284c7" /></View>
+                                        <Text style={styles.cardTitle}>Custom Metrics</Text>
+                                    </View>
+
+                                    {customMetricsLoading ? (
+                                        <ActivityIndicator size="small" color={appTheme.colors.brand} style={{ marginVertical: 16 }} />
+                                    ) : customMetricSeries.map(({ metric, color, trendData }, index) => (
+                                        <View
+                                            key={metric._id}
+                                            style={[styles.trendMetricCard, index === customMetricSeries.length - 1 && styles.trendMetricCardLast]}
+                                        >
+                                            <View style={styles.trendMetricHeader}>
+                                                <Text style={styles.trendMetricTitle}>
+                                                    {metric.name}{metric.unit ? ` (${metric.unit})` : metric.valueType === 'boolean' ? ' (yes = 1)' : ''}
+                                                </Text>
+                                                <Text style={styles.trendMetricSub}>{trendData.length} logged days</Text>
+                                            </View>
+                                            {trendData.length > 0 ? (
+                                                <View style={styles.trendChartWrap}>
+                                                    <LineChart
+                                                        data={trendData}
+                                                        color={color}
+                                                        dataPointsColor={color}
+                                                        {...trendChartProps}
+                                                        {...(metric.valueType === 'boolean' ? { maxValue: 1, noOfSections: 1 } : {})}
+                                                        {...(metric.valueType === 'scale' && metric.scaleMax ? { maxValue: metric.scaleMax } : {})}
+                                                    />
+                                                </View>
+                                            ) : <Text style={styles.noDataCompact}>No {metric.name.toLowerCase()} logs in selected range</Text>}
+                                        </View>
+                                    ))}
+                                    </View>
+                                </FadeInSection>
+                            )}
+
                             {/* Correlation Insights */}
                             <FadeInSection delay={160}>
                                 <View style={styles.card}>
@@ -547,6 +748,47 @@ export default function AnalyticsScreen({ navigation }: AppScreenProps<'Analytic
                                 </View>
                             </FadeInSection>
 
+                            {/* Meals vs Next-Day Energy */}
+                            <FadeInSection delay={180}>
+                                <View style={styles.card}>
+                                <View style={styles.cardHeader}>
+                                    <View style={[styles.iconWrapSm, { backgroundColor: '#fff7ed' }]}><Utensils size={16} color="#ea580c" /></View>
+                                    <Text style={styles.cardTitle}>Meals & Next-Day Energy</Text>
+                                </View>
+                                <Text style={styles.correlationIntro}>
+                                    Energy the day after a tagged meal, compared with other days you logged meals (last 60 days).
+                                </Text>
+
+                                {mealEnergyLoading ? (
+                                    <ActivityIndicator size="small" color={appTheme.colors.brand} style={{ marginVertical: 16 }} />
+                                ) : mealTagRows.length === 0 ? (
+                                    <Text style={styles.noDataCompact}>Tag meals in the Daily Log and log your mood the next day to see patterns</Text>
+                                ) : (
+                                    mealTagRows.map((row, index) => {
+                                        const delta = row.delta ?? 0;
+                                        const deltaColor = delta > 0.2 ? '#10b981' : delta < -0.2 ? '#ef4444' : appTheme.colors.textSecondary;
+                                        return (
+                                            <View
+                                                key={row.tag}
+                                                style={[styles.correlationCard, index === mealTagRows.length - 1 && styles.correlationCardLast]}
+                                            >
+                                                <Text style={styles.correlationTitle}>{row.tag.replace(/_/g, ' ')}</Text>
+                                                <Text style={styles.correlationStatement}>
+                                                    Next-day energy {row.avgNextDayEnergy}/10 vs {row.baselineEnergy}/10 baseline
+                                                </Text>
+                                                <Text style={[styles.correlationValue, { color: deltaColor }]}>
+                                                    {delta > 0 ? '+' : ''}{delta.toFixed(1)}
+                                                </Text>
+                                                <Text style={styles.correlationMeta}>
+                                                    {row.days} tagged vs {row.baselineDays} other days{row.enoughData ? '' : ' · needs more data'}
+                                                </Text>
+                                            </View>
+                                        );
+                                    })
+                                )}
+                                </View>
+                            </FadeInSection>
+
                             {/* Consistency Score */}
                             <FadeInSection delay={200}>
                                 <View style={styles.card}>
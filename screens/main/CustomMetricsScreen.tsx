@@ -0,0 +1,339 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet } from "react-native";
+import { Plus, Trash2 } from "lucide-react-native";
+import { ScreenLayout } from "../../components/ScreenLayout";
+import { useToast } from "../../components/ui/Toast";
+import { PageHeader } from "../../components/ui/PageHeader";
+import { SectionCard } from "../../components/ui/SectionCard";
+import { AppButton } from "../../components/ui/AppButton";
+import { EmptyState } from "../../components/ui/EmptyState";
+import {
+    createCustomMetric,
+    deleteCustomMetric,
+    getCustomMetricValues,
+    getCustomMetrics,
+    logCustomMetricValue,
+    type CustomMetric,
+} from "../../lib/api/auth";
+import type { CustomMetricAggregation, CustomMetricValueType } from "../../lib/api/contracts";
+import type { AppScreenProps } from "../../lib/navigation/types";
+import { getLocalDateYmd } from "../../lib/date/localDay";
+
+const VALUE_TYPES: Array<{ id: CustomMetricValueType; label: string; sub: string }> = [
+    { id: 'numeric', label: 'Number', sub: 'Cups, minutes, hours…' },
+    { id: 'boolean', label: 'Yes / No', sub: 'Did it happen today?' },
+    { id: 'scale', label: 'Scale', sub: 'Rate it 1–5' },
+];
+
+const AGGREGATIONS: Array<{ id: CustomMetricAggregation; label: string }> = [
+    { id: 'sum', label: 'Total' },
+    { id: 'average', label: 'Average' },
+    { id: 'max', label: 'Highest' },
+    { id: 'min', label: 'Lowest' },
+    { id: 'last', label: 'Latest' },
+];
+
+function formatValue(metric: CustomMetric, value: number | undefined): string {
+    if (value === undefined) return '—';
+    if (metric.valueType === 'boolean') return value >= 1 ? 'Yes' : 'No';
+    if (metric.valueType === 'scale') return `${value}/${metric.scaleMax ?? 5}`;
+    return `${value}${metric.unit ? ` ${metric.unit}` : ''}`;
+}
+
+function MetricLogRow({
+    metric,
+    todayValue,
+    onLogged,
+    onDelete,
+}: {
+    metric: CustomMetric;
+    todayValue: number | undefined;
+    onLogged: (metricId: string, value: number) => void;
+    onDelete: (metric: CustomMetric) => void;
+}) {
+    const { showToast } = useToast();
+    const [draft, setDraft] = useState("");
+    const [saving, setSaving] = useState(false);
+
+    const submit = async (value: number | boolean, mode: 'add' | 'replace') => {
+        if (saving) return;
+        setSaving(true);
+        try {
+            const saved = await logCustomMetricValue(metric._id, value, mode);
+            if (!saved) {
+                showToast('❌ Could not log value', 'error');
+                return;
+            }
+            onLogged(metric._id, saved.value);
+            setDraft("");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const submitNumber = () => {
+        const value = Number(draft.replace(',', '.'));
+        if (draft.trim().length === 0 || !Number.isFinite(value)) {
+            showToast('Enter a number', 'error');
+            return;
+        }
+        void submit(value, 'add');
+    };
+
+    const scaleMin = metric.scaleMin ?? 1;
+    const scaleMax = metric.scaleMax ?? 5;
+    const scaleOptions = Array.from({ length: Math.min(11, scaleMax - scaleMin + 1) }, (_, i) => scaleMin + i);
+
+    return (
+        <View style={styles.metricRow}>
+            <View style={styles.metricHeader}>
+                <View style={{ flex: 1 }}>
+                    <Text style={styles.metricName}>{metric.name}</Text>
+                    <Text style={styles.metricSub}>
+                        Today: {formatValue(metric, todayValue)} · {AGGREGATIONS.find((item) => item.id === metric.aggregation)?.label.toLowerCase()} per day
+                    </Text>
+                </View>
+                <TouchableOpacity onPress={() => onDelete(metric)} style={styles.iconBtn} activeOpacity={0.7}>
+                    <Trash2 size={16} color="#ef4444" />
+                </TouchableOpacity>
+            </View>
+
+            {metric.valueType === 'numeric' && (
+                <View style={styles.inlineRow}>
+                    <TextInput
+                        style={[styles.input, { flex: 1 }]}
+                        value={draft}
+                        onChangeText={setDraft}
+                        keyboardType="decimal-pad"
+                        placeholder={`Add ${metric.unit ?? 'value'}`}
+                        placeholderTextColor="#9ca3af"
+                        onSubmitEditing={submitNumber}
+                    />
+                    <TouchableOpacity style={styles.addBtn} onPress={submitNumber} disabled={saving} activeOpacity={0.8}>
+                        <Plus size={18} color="#fff" />
+                    </TouchableOpacity>
+                </View>
+            )}
+
+            {metric.valueType === 'boolean' && (
+                <View style={styles.chipWrap}>
+                    {[true, false].map((option) => {
+                        const active = todayValue !== undefined && (todayValue >= 1) === option;
+                        return (
+                            <TouchableOpacity
+                                key={String(option)}
+                                style={[styles.chip, active && styles.chipActive]}
+                                onPress={() => submit(option, 'replace')}
+                                disabled={saving}
+                                activeOpacity={0.7}
+                            >
+                                <Text style={[styles.chipText, active && styles.chipTextActive]}>{option ? 'Yes' : 'No'}</Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+            )}
+
+            {metric.valueType === 'scale' && (
+                <View style={styles.chipWrap}>
+                    {scaleOptions.map((option) => (
+                        <TouchableOpacity
+                            key={option}
+                            style={[styles.chip, todayValue === option && styles.chipActive]}
+                            onPress={() => submit(option, metric.aggregation === 'average' ? 'add' : 'replace')}
+                            disabled={saving}
+                            activeOpacity={0.7}
+                        >
+                            <Text style={[styles.chipText, todayValue === option && styles.chipTextActive]}>{option}</Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
+        </View>
+    );
+}
+
+export default function CustomMetricsScreen({ navigation }: AppScreenProps<'CustomMetrics'>) {
+    const { showToast } = useToast();
+    const [metrics, setMetrics] = useState<CustomMetric[]>([]);
+    const [todayValues, setTodayValues] = useState<Record<string, number>>({});
+    const [name, setName] = useState("");
+    const [unit, setUnit] = useState("");
+    const [valueType, setValueType] = useState<CustomMetricValueType>('numeric');
+    const [aggregation, setAggregation] = useState<CustomMetricAggregation | null>(null);
+    const [isCreating, setIsCreating] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            const [definitions, values] = await Promise.all([getCustomMetrics(), getCustomMetricValues(1)]);
+            const today = getLocalDateYmd();
+            setMetrics(definitions);
+            setTodayValues(Object.fromEntries(values.filter((item) => item.date === today).map((item) => [item.metricId, item.value])));
+        } catch (e) { console.warn('Custom metrics load error:', e); }
+    }, []);
+
+    useEffect(() => { void load(); }, [load]);
+
+    const handleCreate = async () => {
+        if (isCreating) return;
+        if (name.trim().length === 0) {
+            showToast('Give the metric a name', 'error');
+            return;
+        }
+        setIsCreating(true);
+        try {
+            const { metric, error } = await createCustomMetric({
+                name: name.trim(),
+                unit: valueType === 'numeric' && unit.trim() ? unit.trim() : undefined,
+                valueType,
+                aggregation: aggregation ?? undefined,
+            });
+            if (!metric) {
+                showToast(`❌ ${error ?? 'Could not create metric'}`, 'error');
+                return;
+            }
+            setMetrics((current) => [...current, metric]);
+            setName("");
+            setUnit("");
+            setAggregation(null);
+            showToast(`✅ ${metric.name} added`, 'success');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleDelete = async (metric: CustomMetric) => {
+        const ok = await deleteCustomMetric(metric._id);
+        if (!ok) {
+            showToast('❌ Could not delete metric', 'error');
+            return;
+        }
+        setMetrics((current) => current.filter((item) => item._id !== metric._id));
+        showToast(`${metric.name} and its history were deleted`, 'info');
+    };
+
+    return (
+        <ScreenLayout gradientBackground>
+            <PageHeader
+                title="Custom Metrics"
+                subtitle="Track what matters to you"
+                onBack={() => navigation.goBack()}
+            />
+
+            <ScrollView style={{ flex: 1 }} contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+                <Text style={styles.sectionLabel}>LOG TODAY</Text>
+                {metrics.length === 0 ? (
+                    <SectionCard style={styles.card}>
+                        <EmptyState
+                            icon="📏"
+                            title="No custom metrics yet"
+                            description="Create one below — caffeine cups, screen time, meditation minutes…"
+                        />
+                    </SectionCard>
+                ) : (
+                    <SectionCard style={styles.card}>
+                        {metrics.map((metric, index) => (
+                            <React.Fragment key={metric._id}>
+                                {index > 0 && <View style={styles.divider} />}
+                                <MetricLogRow
+                                    metric={metric}
+                                    todayValue={todayValues[metric._id]}
+                                    onLogged={(metricId, value) => setTodayValues((current) => ({ ...current, [metricId]: value }))}
+                                    onDelete={handleDelete}
+                                />
+                            </React.Fragment>
+                        ))}
+                    </SectionCard>
+                )}
+
+                <Text style={styles.sectionLabel}>NEW METRIC</Text>
+                <SectionCard style={styles.card}>
+                    <TextInput
+                        style={styles.input}
+                        value={name}
+                        onChangeText={setName}
+                        placeholder="Name, e.g. Coffee"
+                        placeholderTextColor="#9ca3af"
+                        maxLength={40}
+                    />
+                    <View style={styles.chipWrap}>
+                        {VALUE_TYPES.map((item) => (
+                            <TouchableOpacity
+                                key={item.id}
+                                style={[styles.typeCard, valueType === item.id && styles.typeCardActive]}
+                                onPress={() => setValueType(item.id)}
+                                activeOpacity={0.7}
+                            >
+                                <Text style={[styles.typeLabel, valueType === item.id && { color: '#7c3aed' }]}>{item.label}</Text>
+                                <Text style={styles.typeSub}>{item.sub}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                    {valueType === 'numeric' && (
+                        <>
+                            <TextInput
+                                style={styles.input}
+                                value={unit}
+                                onChangeText={setUnit}
+                                placeholder="Unit, e.g. cups"
+                                placeholderTextColor="#9ca3af"
+                                maxLength={20}
+                            />
+                            <Text style={styles.fieldLabel}>Several logs in a day count as</Text>
+                            <View style={styles.chipWrap}>
+                                {AGGREGATIONS.map((item) => {
+                                    const active = (aggregation ?? 'sum') === item.id;
+                                    return (
+                                        <TouchableOpacity
+                                            key={item.id}
+                                            style={[styles.chip, active && styles.chipActive]}
+                                            onPress={() => setAggregation(item.id)}
+                                            activeOpacity={0.7}
+                                        >
+                                            <Text style={[styles.chipText, active && styles.chipTextActive]}>{item.label}</Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+                        </>
+                    )}
+                    <AppButton label="Create metric" onPress={handleCreate} loading={isCreating} />
+                </SectionCard>
+
+                <Text style={styles.footer}>Custom metrics appear in Analytics charts and correlations once you've logged a few days.</Text>
+            </ScrollView>
+        </ScreenLayout>
+    );
+}
+
+const styles = StyleSheet.create({
+    scroll: { padding: 16, paddingTop: 8, paddingBottom: 60 },
+
+    sectionLabel: { fontSize: 11, fontWeight: '700', color: '#7c3aed', marginLeft: 4, marginBottom: 8, marginTop: 8, letterSpacing: 0.8 },
+    card: { marginBottom: 12, gap: 12 },
+    divider: { height: 1, backgroundColor: '#f3f4f6' },
+
+    metricRow: { gap: 10 },
+    metricHeader: { flexDirection: 'row', alignItems: 'center' },
+    metricName: { fontSize: 15, fontWeight: '700', color: '#1e1b4b' },
+    metricSub: { fontSize: 12, color: '#9ca3af', marginTop: 2 },
+    iconBtn: { padding: 8 },
+    inlineRow: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+    addBtn: { width: 44, height: 44, borderRadius: 12, backgroundColor: '#7c3aed', alignItems: 'center', justifyContent: 'center' },
+
+    chipWrap: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: { minWidth: 40, alignItems: 'center', paddingHorizontal: 12, paddingVertical: 8, borderRadius: 16, backgroundColor: '#f3f4f6' },
+    chipActive: { backgroundColor: '#7c3aed' },
+    chipText: { fontSize: 13, fontWeight: '600', color: '#4b5563' },
+    chipTextActive: { color: '#fff' },
+
+    typeCard: { flex: 1, minWidth: 96, padding: 10, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb', backgroundColor: '#fff' },
+    typeCardActive: { borderColor: '#7c3aed', backgroundColor: '#f5f3ff' },
+    typeLabel: { fontSize: 13, fontWeight: '700', color: '#1e1b4b' },
+    typeSub: { fontSize: 11, color: '#9ca3af', marginTop: 2 },
+
+    fieldLabel: { fontSize: 13, fontWeight: '600', color: '#374151' },
+    input: { height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb', backgroundColor: '#fff', paddingHorizontal: 12, fontSize: 15, color: '#1e1b4b' },
+
+    footer: { textAlign: 'center', color: '#9ca3af', fontSize: 11, marginTop: 24 },
+});
@@ -1,12 +1,15 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { View, Text, ScrollView, ActivityIndicator, Pressable, Platform, StyleSheet } from "react-native";
 import Slider from "@react-native-community/slider";
 import { ScreenLayout } from "../../components/ScreenLayout";
 import { Input } from "../../components/ui/Input";
-import { Activity, Moon, Smile, ArrowLeft, Calendar, User } from "lucide-react-native";
+import { Activity, Moon, Smile, ArrowLeft, Calendar, User, Utensils } from "lucide-react-native";
 import { useToast } from "../../components/ui/Toast";
-import { saveDailyLog } from "../../lib/api/auth";
+import { QuickMealEntry } from "../../components/QuickMealEntry";
+import { saveDailyLog, undoDailyLog } from "../../lib/api/auth";
+import type { SleepQuality } from "../../lib/api/contracts";
 import { useAuth } from "../../contexts/AuthContext";
+import { useGoals } from "../../contexts/GoalsContext";
 import type { AppScreenProps } from "../../lib/navigation/types";
 import { getLocalDateYmd } from "../../lib/date/localDay";
 
@@ -16,14 +19,40 @@ type DailyLogScreenProps = AppScreenProps<'DailyLog'> | AppScreenProps<'DataEntr
 const sections = [
     { title: "Physical", icon: Activity, color: "bg-purple-500", theme: "purple" },
     { title: "Sleep", icon: Moon, color: "bg-indigo-500", theme: "indigo" },
-    { title: "Mood", icon: Smile, color: "bg-teal-500", theme: "teal" }
+    { title: "Mood", icon: Smile, color: "bg-teal-500", theme: "teal" },
+    { title: "Meals", icon: Utensils, color: "bg-orange-500", theme: "orange" }
 ];
 
 const moodOptions = ["happy", "calm", "tired", "stressed"] as const;
 
+const sleepQualityOptions: Array<{ value: SleepQuality; label: string }> = [
+    { value: "excellent", label: "Excellent" },
+    { value: "good", label: "Good" },
+    { value: "fair", label: "Fair" },
+    { value: "poor", label: "Poor" },
+];
+
+// Slider positions are minutes after these anchors: bedtime 18:00 yesterday, wake 03:00 today.
+const BEDTIME_ANCHOR_HOUR = 18;
+const WAKE_ANCHOR_HOUR = 3;
+
+function clockLabel(anchorHour: number, offsetMinutes: number): string {
+    const total = (anchorHour * 60 + Math.round(offsetMinutes)) % (24 * 60);
+    return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function buildSleepTimes(bedtimeOffset: number, wakeOffset: number, now = new Date()) {
+    const bedtime = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1, BEDTIME_ANCHOR_HOUR, 0, 0, 0);
+    bedtime.setMinutes(bedtime.getMinutes() + Math.round(bedtimeOffset));
+    const wakeTime = new Date(now.getFullYear(), now.getMonth(), now.getDate(), WAKE_ANCHOR_HOUR, 0, 0, 0);
+    wakeTime.setMinutes(wakeTime.getMinutes() + Math.round(wakeOffset));
+    return { bedtime, wakeTime };
+}
+
 export default function DailyLogScreen({ navigation }: DailyLogScreenProps) {
     const { showToast } = useToast();
     const { user } = useAuth(); // ✅ user from MongoDB via AuthContext
+    const { goals } = useGoals();
     const [currentSection, setCurrentSection] = useState(0);
     const [hoveredTab, setHoveredTab] = useState<number | null>(null);
     const [loading, setLoading] = useState(false);
@@ -31,12 +60,18 @@ export default function DailyLogScreen({ navigation }: DailyLogScreenProps) {
     // Form State
     const [steps, setSteps] = useState("8500");
     const [activeMinutes, setActiveMinutes] = useState(30);
-    const [sleepHours, setSleepHours] = useState(7.5);
+    const [bedtimeOffset, setBedtimeOffset] = useState(300); // 23:00
+    const [wakeOffset, setWakeOffset] = useState(210);        // 06:30
+    const [awakenings, setAwakenings] = useState(0);
+    const [sleepQuality, setSleepQuality] = useState<SleepQuality | null>(null);
     const [mood, setMood] = useState<(typeof moodOptions)[number]>("happy");
     const [energy, setEnergy] = useState(7);
     const [stress, setStress] = useState(4);
 
 
+    const sleepTimes = useMemo(() => buildSleepTimes(bedtimeOffset, wakeOffset), [bedtimeOffset, wakeOffset]);
+    const sleepHours = Math.max(0, Number(((sleepTimes.wakeTime.getTime() - sleepTimes.bedtime.getTime()) / 3600000).toFixed(1)));
+
     const handleNext = () => {
         if (currentSection < sections.length - 1) {
             setCurrentSection(currentSection + 1);
@@ -56,15 +91,22 @@ export default function DailyLogScreen({ navigation }: DailyLogScreenProps) {
 
             // Save Health to MongoDB Atlas ☁️
             const energyScore = Math.min(100, Math.max(0,
-                ((sleepHours / 8) * 0.6 + (parseInt(steps) / 10000) * 0.4) * 100
+                ((sleepHours / goals.sleepHours) * 0.6 + (parseInt(steps) / goals.steps) * 0.4) * 100
             ));
             const activeMinutesRounded = Math.round(activeMinutes);
 
-            await saveDailyLog({
+            const saved = await saveDailyLog({
                 date: today,
                 steps: parseInt(steps) || 0,
                 activeMinutes: activeMinutesRounded,
                 sleepHours,
+                sleep: {
+                    bedtime: sleepTimes.bedtime.toISOString(),
+                    wakeTime: sleepTimes.wakeTime.toISOString(),
+                    utcOffsetMinutes: -sleepTimes.wakeTime.getTimezoneOffset(),
+                    awakenings,
+                    ...(sleepQuality ? { quality: sleepQuality } : {}),
+                },
                 energyScore,
                 mood,
                 energyLevel: energy,
@@ -73,7 +115,15 @@ export default function DailyLogScreen({ navigation }: DailyLogScreenProps) {
                 moodNotes: `Daily log entry • Active minutes: ${activeMinutesRounded}`,
             });
 
-            showToast('✅ Saved to MongoDB Atlas!', 'success');
+            const batchId = saved?.revisionBatchId;
+            showToast('✅ Saved to MongoDB Atlas!', 'success', batchId ? {
+                label: 'Undo',
+                onPress: () => {
+                    void undoDailyLog(batchId).then(({ undone, error }) => {
+                        showToast(undone ? '↩️ Save undone' : `❌ ${error ?? 'Could not undo'}`, undone ? 'info' : 'error');
+                    });
+                },
+            } : undefined);
             if (navigation.canGoBack()) {
                 navigation.goBack();
             } else {
@@ -105,7 +155,7 @@ export default function DailyLogScreen({ navigation }: DailyLogScreenProps) {
                         </View>
 
                         <View>
-                            <Text className="text-sm font-medium text-slate-700 mb-2">Steps Taken</Text>
+                            <Text className="text-sm font-medium text-slate-700 mb-2">Steps Taken (goal {goals.steps.toLocaleString()})</Text>
                             <Input
                                 placeholder="e.g. 8500"
                                 keyboardType="numeric"
@@ -118,6 +168,7 @@ export default function DailyLogScreen({ navigation }: DailyLogScreenProps) {
                         <View>
                             <View className="flex-row justify-between mb-2">
                                 <Text className="text-sm font-medium text-slate-700">Active Minutes: {Math.round(activeMinutes)} min</Text>
+                                <Text className="text-xs text-slate-400">Goal {goals.activeMinutes} min</Text>
                             </View>
                             <Slider
                                 minimumValue={0}
@@ -152,20 +203,80 @@ export default function DailyLogScreen({ navigation }: DailyLogScreenProps) {
 
                         <View>
                             <View className="flex-row justify-between mb-2">
-                                <Text className="text-sm font-medium text-slate-700">Duration</Text>
-                                <Text className="text-lg font-bold text-indigo-600">{sleepHours.toFixed(1)} hrs</Text>
+                                <Text className="text-sm font-medium text-slate-700">Bedtime</Text>
+                                <Text className="text-sm font-bold text-indigo-600">{clockLabel(BEDTIME_ANCHOR_HOUR, bedtimeOffset)}</Text>
+                            </View>
+                            <Slider
+                                minimumValue={0}
+                                maximumValue={600}
+                                step={15}
+                                value={bedtimeOffset}
+                                onValueChange={setBedtimeOffset}
+                                minimumTrackTintColor="#6366f1"
+                                maximumTrackTintColor="#e2e8f0"
+                                thumbTintColor="#6366f1"
+                            />
+                        </View>
+
+                        <View className="mt-4">
+                            <View className="flex-row justify-between mb-2">
+                                <Text className="text-sm font-medium text-slate-700">Wake time</Text>
+                                <Text className="text-sm font-bold text-indigo-600">{clockLabel(WAKE_ANCHOR_HOUR, wakeOffset)}</Text>
                             </View>
                             <Slider
                                 minimumValue={0}
-                                maximumValue={12}
-                                step={0.5}
-                                value={sleepHours}
-                                onValueChange={setSleepHours}
+                                maximumValue={600}
+                                step={15}
+                                value={wakeOffset}
+                                onValueChange={setWakeOffset}
                                 minimumTrackTintColor="#6366f1"
                                 maximumTrackTintColor="#e2e8f0"
                                 thumbTintColor="#6366f1"
                             />
                         </View>
+
+                        <View className="mt-4 flex-row justify-between items-center bg-indigo-50 rounded-xl px-4 py-3">
+                            <Text className="text-sm font-medium text-slate-700">Duration</Text>
+                            <Text className="text-lg font-bold text-indigo-600">{sleepHours.toFixed(1)} hrs</Text>
+                        </View>
+
+                        <View className="mt-4 flex-row justify-between items-center">
+                            <Text className="text-sm font-medium text-slate-700">Times woken up</Text>
+                            <View className="flex-row items-center space-x-3">
+                                <Pressable
+                                    onPress={() => setAwakenings((n) => Math.max(0, n - 1))}
+                                    className="w-9 h-9 rounded-full bg-white border border-slate-200 items-center justify-center"
+                                >
+                                    <Text className="text-lg font-bold text-slate-500">−</Text>
+                                </Pressable>
+                                <Text className="text-lg font-bold text-indigo-600 w-6 text-center">{awakenings}</Text>
+                                <Pressable
+                                    onPress={() => setAwakenings((n) => Math.min(20, n + 1))}
+                                    className="w-9 h-9 rounded-full bg-white border border-slate-200 items-center justify-center"
+                                >
+                                    <Text className="text-lg font-bold text-slate-500">+</Text>
+                                </Pressable>
+                            </View>
+                        </View>
+
+                        <View className="mt-4">
+                            <Text className="text-sm font-medium text-slate-700 mb-2">Sleep Quality</Text>
+                            <View className="flex-row justify-between gap-2">
+                                {sleepQualityOptions.map((option) => (
+                                    <Pressable
+                                        key={option.value}
+                                        onPress={() => setSleepQuality(option.value)}
+                                        style={({ pressed }) => [
+                                            pressed ? styles.softPressed : undefined,
+                                            Platform.OS === 'web' ? ({ cursor: 'pointer' } as any) : undefined,
+                                        ]}
+                                        className={`flex-1 p-3 rounded-xl border-2 items-center ${sleepQuality === option.value ? 'border-indigo-500 bg-indigo-50' : 'border-slate-100 bg-white'}`}
+                                    >
+                                        <Text className={`text-xs ${sleepQuality === option.value ? 'font-bold text-indigo-700' : 'text-slate-500'}`}>{option.label}</Text>
+                                    </Pressable>
+                                ))}
+                            </View>
+                        </View>
                     </View>
                 );
             case 2: // Mood
@@ -238,6 +349,21 @@ export default function DailyLogScreen({ navigation }: DailyLogScreenProps) {
                         </View>
                     </View>
                 );
+            case 3: // Meals — saved per meal, independent of the daily vitals
+                return (
+                    <View className="space-y-6">
+                        <View className="flex-row items-center space-x-4 mb-4">
+                            <View className="bg-orange-100 p-3 rounded-full">
+                                <Utensils size={24} color="#ea580c" />
+                            </View>
+                            <View>
+                                <Text className="text-lg font-bold text-slate-800">Meals</Text>
+                                <Text className="text-slate-500 text-sm">Quick-log what you eat and tag it</Text>
+                            </View>
+                        </View>
+                        <QuickMealEntry />
+                    </View>
+                );
         }
     };
 
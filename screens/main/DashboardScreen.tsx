@@ -4,12 +4,13 @@ import { ScreenLayout } from "../../components/ScreenLayout";
 import { DigitalTwinAvatar } from "../../components/DigitalTwinAvatar";
 import { Activity, Heart, Moon, Zap } from "lucide-react-native";
 import { useAuth } from "../../contexts/AuthContext";
-import { getStreak, getTodayHealth } from "../../lib/api/auth";
+import { useGoals } from "../../contexts/GoalsContext";
+import { getStreak, getTodayHealth, getWeeklyChallenges } from "../../lib/api/auth";
 import { apiFetch } from "../../lib/api/client";
 import { LinearGradient } from "expo-linear-gradient";
 import { useToast } from "../../components/ui/Toast";
 import type { AppScreenProps } from "../../lib/navigation/types";
-import type { HealthEntry } from "../../lib/api/auth";
+import type { HealthEntry, WeeklyChallenges } from "../../lib/api/auth";
 import type { RootStackParamList } from "../../lib/navigation/types";
 import { PageHeader } from "../../components/ui/PageHeader";
 import { AppButton } from "../../components/ui/AppButton";
@@ -47,8 +48,10 @@ function MetricCard({ icon, label, value, subValue, iconBg }: MetricCardProps) {
 export default function DashboardScreen({ navigation }: AppScreenProps<'Main'>) {
     const { user } = useAuth();
     const { showToast } = useToast();
+    const { goals } = useGoals();
     const [streak, setStreak] = useState(0);
     const [todayHealth, setTodayHealth] = useState<HealthEntry | null>(null);
+    const [weeklyChallenges, setWeeklyChallenges] = useState<WeeklyChallenges | null>(null);
     const [avatarKey, setAvatarKey] = useState("init");
     const [profileAvatarUrl, setProfileAvatarUrl] = useState<string | null>(user?.profileImage ?? null);
     const [hoveredHeaderItem, setHoveredHeaderItem] = useState<'streak' | 'avatar' | null>(null);
@@ -62,13 +65,15 @@ export default function DashboardScreen({ navigation }: AppScreenProps<'Main'>)
 
     const loadDashboard = useCallback(async () => {
         try {
-            const [streakData, health, avatarStatus] = await Promise.all([
+            const [streakData, health, challenges, avatarStatus] = await Promise.all([
                 getStreak(),
                 getTodayHealth(),
+                getWeeklyChallenges(),
                 apiFetch<{ hasAvatar: boolean; avatarUrl?: string }>('/api/avatar/status'),
             ]);
             setStreak(streakData?.currentStreak ?? 0);
             setTodayHealth(health);
+            setWeeklyChallenges(challenges);
             setProfileAvatarUrl((avatarStatus.success ? avatarStatus.data?.avatarUrl ?? null : null) ?? user?.profileImage ?? null);
             setAvatarKey(Date.now().toString()); // Force avatar refresh
         } catch (e) { console.warn('Dashboard load error:', e); }
@@ -106,9 +111,12 @@ export default function DashboardScreen({ navigation }: AppScreenProps<'Main'>)
         color: string;
     }> = [
         { icon: '📋', label: 'Log Daily Vitals', sub: 'Saved to MongoDB ☁️', screen: 'DailyLog', color: '#7c3aed' },
+        { icon: '🏋️', label: 'Log Workout', sub: 'Counts toward active minutes', screen: 'WorkoutLog', color: '#f97316' },
+        { icon: '📏', label: 'Custom Metrics', sub: 'Track your own habits', screen: 'CustomMetrics', color: '#0ea5e9' },
         { icon: '🌀', label: 'What-If Scenarios', sub: 'AI Predictions', screen: 'WhatIf', color: '#6366f1' },
         { icon: '🏆', label: 'Achievements', sub: `🔥 ${streak} day streak`, screen: 'Achievements', color: '#f59e0b' },
         { icon: '📈', label: 'Weekly Summary', sub: "Your Twin's Report", screen: 'WeeklySummary', color: '#10b981' },
+        { icon: '🤝', label: 'Accountability Partners', sub: 'Share your week with friends', screen: 'Friends', color: '#ec4899' },
     ];
 
     return (
@@ -123,7 +131,7 @@ export default function DashboardScreen({ navigation }: AppScreenProps<'Main'>)
                     rightSlot={(
                         <View style={styles.headerRight}>
                             <Pressable
-                                onPress={() => navigation.navigate('Achievements')}
+                                onPress={() => navigation.navigate('Streaks')}
                                 onHoverIn={() => setHoveredHeaderItem('streak')}
                                 onHoverOut={() => setHoveredHeaderItem(null)}
                                 style={({ pressed }) => [
@@ -175,13 +183,13 @@ export default function DashboardScreen({ navigation }: AppScreenProps<'Main'>)
                                 icon={<Activity color="#7c3aed" size={18} />} iconBg="#f5f3ff"
                                 label="Steps"
                                 value={todayHealth?.steps != null ? todayHealth.steps.toLocaleString() : '—'}
-                                subValue={todayHealth?.steps != null ? (todayHealth.steps >= 8000 ? '🏃 Great!' : 'Keep going!') : 'Log today'}
+                                subValue={todayHealth?.steps != null ? (todayHealth.steps >= goals.steps * 0.8 ? '🏃 Great!' : `${Math.round((todayHealth.steps / goals.steps) * 100)}% of goal`) : 'Log today'}
                             />
                             <MetricCard
                                 icon={<Moon color="#6366f1" size={18} />} iconBg="#eef2ff"
                                 label="Sleep"
                                 value={todayHealth?.sleepHours != null ? `${todayHealth.sleepHours}h` : '—'}
-                                subValue={todayHealth?.sleepHours != null ? (todayHealth.sleepHours >= 7 ? '😴 Rested' : 'Need rest') : 'Log today'}
+                                subValue={todayHealth?.sleepHours != null ? (todayHealth.sleepHours >= goals.sleepHours - 1 ? '😴 Rested' : 'Need rest') : 'Log today'}
                             />
                             <MetricCard
                                 icon={<Zap color="#f59e0b" size={18} />} iconBg="#fffbeb"
@@ -193,6 +201,36 @@ export default function DashboardScreen({ navigation }: AppScreenProps<'Main'>)
                     </View>
                 </FadeInSection>
 
+                {/* Weekly Challenges */}
+                {weeklyChallenges && weeklyChallenges.challenges.length > 0 && (
+                    <FadeInSection delay={100}>
+                        <Pressable
+                            onPress={() => navigation.navigate('Achievements')}
+                            style={({ pressed }) => [styles.challengeCard, pressed ? styles.actionRowPressed : undefined, webPointerStyle]}
+                        >
+                            <View style={styles.challengeHeader}>
+                                <Text style={styles.sectionTitleInline}>This Week's Challenges</Text>
+                                <Text style={styles.challengeDaysLeft}>
+                                    {weeklyChallenges.daysLeft} {weeklyChallenges.daysLeft === 1 ? 'day' : 'days'} left
+                                </Text>
+                            </View>
+                            {weeklyChallenges.challenges.map((challenge) => (
+                                <View key={challenge.id} style={styles.challengeRow}>
+                                    <Text style={styles.challengeIcon}>{challenge.completed ? '✅' : challenge.icon}</Text>
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={styles.challengeTitle}>{challenge.title}</Text>
+                                        <Text style={styles.challengeDesc} numberOfLines={1}>{challenge.description}</Text>
+                                        <View style={styles.challengeTrack}>
+                                            <View style={[styles.challengeFill, { width: `${challenge.percent}%` }]} />
+                                        </View>
+                                    </View>
+                                    <Text style={styles.challengePercent}>{challenge.completed ? 'Done' : `${challenge.percent}%`}</Text>
+                                </View>
+                            ))}
+                        </Pressable>
+                    </FadeInSection>
+                )}
+
                 {/* Quick Actions */}
                 <FadeInSection delay={120}>
                     <View style={styles.quickActions}>
@@ -337,6 +375,24 @@ const styles = StyleSheet.create({
     metricLabel: { ...appTheme.typography.caption, color: appTheme.colors.textSecondary, marginTop: 2 },
     metricSub: { ...appTheme.typography.overline, color: appTheme.colors.brandDark, marginTop: 2 },
 
+    challengeCard: {
+        marginHorizontal: 20, marginBottom: 16, backgroundColor: '#ffffff',
+        borderRadius: 20, padding: 16, gap: 12,
+        shadowColor: '#7c3aed', shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.08, shadowRadius: 12, elevation: 3,
+        borderWidth: 1, borderColor: '#f3f0ff',
+    },
+    challengeHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+    sectionTitleInline: { ...appTheme.typography.h3, color: appTheme.colors.textPrimary },
+    challengeDaysLeft: { ...appTheme.typography.overline, color: appTheme.colors.brandDark },
+    challengeRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+    challengeIcon: { fontSize: 22 },
+    challengeTitle: { ...appTheme.typography.bodyStrong, color: appTheme.colors.textPrimary },
+    challengeDesc: { ...appTheme.typography.caption, color: appTheme.colors.textMuted, marginTop: 2, marginBottom: 6 },
+    challengeTrack: { height: 6, borderRadius: 3, backgroundColor: '#ede9fe', overflow: 'hidden' },
+    challengeFill: { height: 6, borderRadius: 3, backgroundColor: '#7c3aed' },
+    challengePercent: { ...appTheme.typography.caption, fontWeight: '700', color: appTheme.colors.brandDark, minWidth: 40, textAlign: 'right' },
+
     quickActions: { flexDirection: 'row', paddingHorizontal: 20, marginBottom: 16, gap: 10 },
 
     actionList: { paddingHorizontal: 20, gap: 10 },
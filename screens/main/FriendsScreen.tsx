@@ -0,0 +1,375 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Switch, StyleSheet } from "react-native";
+import { Check, Send, X } from "lucide-react-native";
+import { ScreenLayout } from "../../components/ScreenLayout";
+import { useToast } from "../../components/ui/Toast";
+import { PageHeader } from "../../components/ui/PageHeader";
+import { SectionCard } from "../../components/ui/SectionCard";
+import { AppButton } from "../../components/ui/AppButton";
+import { EmptyState } from "../../components/ui/EmptyState";
+import {
+    acceptFriendInvite,
+    getFriendFeed,
+    getFriends,
+    inviteFriend,
+    joinWithInviteCode,
+    removeFriend,
+    updateSharingSettings,
+    type FriendInvite,
+    type Friends,
+    type FriendWeekSummary,
+    type SharingSettings,
+} from "../../lib/api/auth";
+import type { AppScreenProps } from "../../lib/navigation/types";
+
+const SHARING_FIELDS: Array<{ key: keyof SharingSettings; icon: string; label: string; sub: string }> = [
+    { key: 'streak', icon: '🔥', label: 'Logging streak', sub: 'How many days in a row you have logged' },
+    { key: 'averageSleep', icon: '😴', label: 'Average sleep', sub: 'Weekly average and nights logged' },
+    { key: 'achievements', icon: '🏆', label: 'Achievements', sub: 'Badges unlocked that week' },
+];
+
+const TIER_MEDALS = { bronze: '🥉', silver: '🥈', gold: '🥇' } as const;
+
+function formatWeek(summary: FriendWeekSummary): string {
+    const format = (ymd: string) => new Date(`${ymd}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    return `${format(summary.weekStart)} – ${format(summary.weekEnd)}`;
+}
+
+function FeedCard({ summary }: { summary: FriendWeekSummary }) {
+    const stats: string[] = [];
+    if (summary.streak !== undefined) stats.push(`🔥 ${summary.streak} day streak`);
+    if (summary.averageSleepHours !== undefined) {
+        stats.push(summary.averageSleepHours === null
+            ? '😴 No sleep logged'
+            : `😴 ${summary.averageSleepHours}h avg · ${summary.sleepNights} nights`);
+    }
+
+    return (
+        <View style={styles.feedRow}>
+            <View style={styles.feedHeader}>
+                <Text style={styles.rowLabel}>{summary.name}</Text>
+                <Text style={styles.rowSub}>{formatWeek(summary)}</Text>
+            </View>
+            {stats.length > 0 && <Text style={styles.feedStats}>{stats.join('   ')}</Text>}
+            {summary.achievements && summary.achievements.length > 0 && (
+                <View style={styles.chipWrap}>
+                    {summary.achievements.map((badge) => (
+                        <View key={`${badge.id}-${badge.tier}`} style={styles.chip}>
+                            <Text style={styles.chipText}>{badge.icon} {badge.name} {TIER_MEDALS[badge.tier]}</Text>
+                        </View>
+                    ))}
+                </View>
+            )}
+        </View>
+    );
+}
+
+function InviteRow({
+    invite,
+    onAccept,
+    onRemove,
+}: {
+    invite: FriendInvite;
+    onAccept?: (invite: FriendInvite) => void;
+    onRemove: (invite: FriendInvite) => void;
+}) {
+    const label = invite.name ?? invite.email ?? (invite.code ? `Code ${invite.code}` : 'Invite');
+    const sub = invite.direction === 'incoming'
+        ? 'Wants to be accountability partners'
+        : invite.code
+            ? `Share this code · expires ${invite.expiresAt ? new Date(invite.expiresAt).toLocaleDateString() : 'soon'}`
+            : 'Waiting for them to accept';
+
+    return (
+        <View style={styles.row}>
+            <View style={{ flex: 1 }}>
+                <Text style={styles.rowLabel}>{label}</Text>
+                <Text style={styles.rowSub}>{sub}</Text>
+            </View>
+            {onAccept && (
+                <TouchableOpacity onPress={() => onAccept(invite)} style={styles.iconBtn} activeOpacity={0.7}>
+                    <Check size={18} color="#10b981" />
+                </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => onRemove(invite)} style={styles.iconBtn} activeOpacity={0.7}>
+                <X size={18} color="#ef4444" />
+            </TouchableOpacity>
+        </View>
+    );
+}
+
+export default function FriendsScreen({ navigation }: AppScreenProps<'Friends'>) {
+    const { showToast } = useToast();
+    const [friends, setFriends] = useState<Friends | null>(null);
+    const [feed, setFeed] = useState<FriendWeekSummary[]>([]);
+    const [email, setEmail] = useState("");
+    const [code, setCode] = useState("");
+    const [isInviting, setIsInviting] = useState(false);
+    const [isJoining, setIsJoining] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            const [friendData, feedItems] = await Promise.all([getFriends(), getFriendFeed()]);
+            setFriends(friendData);
+            setFeed(feedItems);
+        } catch (e) { console.warn('Friends load error:', e); }
+    }, []);
+
+    useEffect(() => {
+        void load();
+        return navigation.addListener('focus', () => { void load(); });
+    }, [navigation, load]);
+
+    const handleInvite = async (withEmail: boolean) => {
+        if (isInviting) return;
+        if (withEmail && email.trim().length === 0) {
+            showToast('Enter your friend\'s email', 'error');
+            return;
+        }
+        setIsInviting(true);
+        try {
+            const { invite, error } = await inviteFriend(withEmail ? email.trim() : undefined);
+            if (!invite) {
+                showToast(`❌ ${error ?? 'Could not create invite'}`, 'error');
+                return;
+            }
+            setEmail("");
+            showToast(invite.code ? `🔑 Your invite code: ${invite.code}` : '📨 Invite sent', 'success');
+            await load();
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const handleJoin = async () => {
+        if (isJoining) return;
+        if (code.trim().length === 0) {
+            showToast('Enter an invite code', 'error');
+            return;
+        }
+        setIsJoining(true);
+        try {
+            const { friends: updated, error } = await joinWithInviteCode(code.trim());
+            if (!updated) {
+                showToast(`❌ ${error ?? 'Could not redeem code'}`, 'error');
+                return;
+            }
+            setFriends(updated);
+            setCode("");
+            showToast('🤝 You are now accountability partners', 'success');
+            setFeed(await getFriendFeed());
+        } finally {
+            setIsJoining(false);
+        }
+    };
+
+    const handleAccept = async (invite: FriendInvite) => {
+        const updated = await acceptFriendInvite(invite.id);
+        if (!updated) {
+            showToast('❌ Could not accept invite', 'error');
+            return;
+        }
+        setFriends(updated);
+        setFeed(await getFriendFeed());
+    };
+
+    const handleRemove = async (id: string, message: string) => {
+        const ok = await removeFriend(id);
+        if (!ok) {
+            showToast('❌ Something went wrong', 'error');
+            return;
+        }
+        showToast(message, 'info');
+        await load();
+    };
+
+    const handleSharingToggle = async (key: keyof SharingSettings, value: boolean) => {
+        if (!friends) return;
+        setFriends({ ...friends, sharing: { ...friends.sharing, [key]: value } });
+        const updated = await updateSharingSettings({ [key]: value });
+        if (!updated) {
+            showToast('❌ Could not update sharing', 'error');
+            setFriends(friends);
+            return;
+        }
+        setFriends((current) => (current ? { ...current, sharing: updated } : current));
+    };
+
+    return (
+        <ScreenLayout gradientBackground>
+            <PageHeader
+                title="Accountability Partners"
+                subtitle="Share weekly progress with friends"
+                onBack={() => navigation.goBack()}
+            />
+
+            <ScrollView style={{ flex: 1 }} contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+                <Text style={styles.sectionLabel}>FRIENDS' WEEKS</Text>
+                {feed.length === 0 ? (
+                    <SectionCard style={styles.card}>
+                        <EmptyState
+                            icon="🤝"
+                            title="Nothing shared yet"
+                            description="When friends choose to share their streak, sleep or badges, their weekly summaries show up here."
+                        />
+                    </SectionCard>
+                ) : (
+                    <SectionCard style={styles.card}>
+                        {feed.map((summary, index) => (
+                            <React.Fragment key={`${summary.userId}-${summary.weekKey}`}>
+                                {index > 0 && <View style={styles.divider} />}
+                                <FeedCard summary={summary} />
+                            </React.Fragment>
+                        ))}
+                    </SectionCard>
+                )}
+
+                {friends && friends.incoming.length > 0 && (
+                    <>
+                        <Text style={styles.sectionLabel}>INVITES FOR YOU</Text>
+                        <SectionCard style={styles.card}>
+                            {friends.incoming.map((invite, index) => (
+                                <React.Fragment key={invite.id}>
+                                    {index > 0 && <View style={styles.divider} />}
+                                    <InviteRow
+                                        invite={invite}
+                                        onAccept={handleAccept}
+                                        onRemove={(item) => handleRemove(item.id, 'Invite declined')}
+                                    />
+                                </React.Fragment>
+                            ))}
+                        </SectionCard>
+                    </>
+                )}
+
+                <Text style={styles.sectionLabel}>FRIENDS</Text>
+                <SectionCard style={styles.card}>
+                    {!friends || friends.friends.length === 0 ? (
+                        <Text style={styles.rowSub}>No partners yet — invite someone below.</Text>
+                    ) : friends.friends.map((friend, index) => (
+                        <React.Fragment key={friend.id}>
+                            {index > 0 && <View style={styles.divider} />}
+                            <View style={styles.row}>
+                                <View style={{ flex: 1 }}>
+                                    <Text style={styles.rowLabel}>{friend.name}</Text>
+                                    <Text style={styles.rowSub}>Partners since {new Date(friend.since).toLocaleDateString()}</Text>
+                                </View>
+                                <TouchableOpacity
+                                    onPress={() => handleRemove(friend.id, `${friend.name} was removed`)}
+                                    style={styles.iconBtn}
+                                    activeOpacity={0.7}
+                                >
+                                    <X size={18} color="#ef4444" />
+                                </TouchableOpacity>
+                            </View>
+                        </React.Fragment>
+                    ))}
+                    {friends && friends.outgoing.length > 0 && (
+                        <>
+                            <View style={styles.divider} />
+                            <Text style={styles.fieldLabel}>Sent invites</Text>
+                            {friends.outgoing.map((invite) => (
+                                <InviteRow
+                                    key={invite.id}
+                                    invite={invite}
+                                    onRemove={(item) => handleRemove(item.id, 'Invite cancelled')}
+                                />
+                            ))}
+                        </>
+                    )}
+                </SectionCard>
+
+                <Text style={styles.sectionLabel}>INVITE</Text>
+                <SectionCard style={styles.card}>
+                    <Text style={styles.fieldLabel}>By email</Text>
+                    <View style={styles.inlineRow}>
+                        <TextInput
+                            style={[styles.input, { flex: 1 }]}
+                            value={email}
+                            onChangeText={setEmail}
+                            keyboardType="email-address"
+                            autoCapitalize="none"
+                            placeholder="friend@example.com"
+                            placeholderTextColor="#9ca3af"
+                            onSubmitEditing={() => handleInvite(true)}
+                        />
+                        <TouchableOpacity style={styles.sendBtn} onPress={() => handleInvite(true)} disabled={isInviting} activeOpacity={0.8}>
+                            <Send size={18} color="#fff" />
+                        </TouchableOpacity>
+                    </View>
+                    <AppButton label="Create an invite code" onPress={() => handleInvite(false)} loading={isInviting} variant="secondary" />
+                    <View style={styles.divider} />
+                    <Text style={styles.fieldLabel}>Have a code?</Text>
+                    <View style={styles.inlineRow}>
+                        <TextInput
+                            style={[styles.input, { flex: 1 }]}
+                            value={code}
+                            onChangeText={setCode}
+                            autoCapitalize="characters"
+                            maxLength={8}
+                            placeholder="ABCD2345"
+                            placeholderTextColor="#9ca3af"
+                            onSubmitEditing={handleJoin}
+                        />
+                        <TouchableOpacity style={styles.sendBtn} onPress={handleJoin} disabled={isJoining} activeOpacity={0.8}>
+                            <Check size={18} color="#fff" />
+                        </TouchableOpacity>
+                    </View>
+                </SectionCard>
+
+                <Text style={styles.sectionLabel}>WHAT YOU SHARE</Text>
+                <SectionCard style={styles.card}>
+                    {SHARING_FIELDS.map((field, index) => (
+                        <React.Fragment key={field.key}>
+                            {index > 0 && <View style={styles.divider} />}
+                            <View style={styles.row}>
+                                <Text style={styles.rowIcon}>{field.icon}</Text>
+                                <View style={{ flex: 1 }}>
+                                    <Text style={styles.rowLabel}>{field.label}</Text>
+                                    <Text style={styles.rowSub}>{field.sub}</Text>
+                                </View>
+                                <Switch
+                                    value={friends?.sharing[field.key] ?? false}
+                                    onValueChange={(value) => handleSharingToggle(field.key, value)}
+                                    disabled={!friends}
+                                    trackColor={{ false: '#e5e7eb', true: '#7c3aed' }}
+                                    thumbColor="#fff"
+                                />
+                            </View>
+                        </React.Fragment>
+                    ))}
+                </SectionCard>
+
+                <Text style={styles.footer}>Friends only ever see weekly totals you switch on here — never your entries or notes.</Text>
+            </ScrollView>
+        </ScreenLayout>
+    );
+}
+
+const styles = StyleSheet.create({
+    scroll: { padding: 16, paddingTop: 8, paddingBottom: 60 },
+
+    sectionLabel: { fontSize: 11, fontWeight: '700', color: '#7c3aed', marginLeft: 4, marginBottom: 8, marginTop: 8, letterSpacing: 0.8 },
+    card: { marginBottom: 12, gap: 12 },
+    divider: { height: 1, backgroundColor: '#f3f4f6' },
+
+    row: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+    rowIcon: { fontSize: 22, width: 30, textAlign: 'center' },
+    rowLabel: { fontSize: 15, fontWeight: '700', color: '#1e1b4b' },
+    rowSub: { fontSize: 12, color: '#9ca3af', marginTop: 2 },
+    iconBtn: { padding: 8 },
+
+    feedRow: { gap: 6 },
+    feedHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'baseline' },
+    feedStats: { fontSize: 13, color: '#374151', fontWeight: '600' },
+    chipWrap: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 14, backgroundColor: '#fef3c7' },
+    chipText: { fontSize: 12, fontWeight: '600', color: '#92400e' },
+
+    fieldLabel: { fontSize: 13, fontWeight: '600', color: '#374151' },
+    inlineRow: { flexDirection: 'row', gap: 8, alignItems: 'center' },
+    input: { height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb', backgroundColor: '#fff', paddingHorizontal: 12, fontSize: 15, color: '#1e1b4b' },
+    sendBtn: { width: 44, height: 44, borderRadius: 12, backgroundColor: '#7c3aed', alignItems: 'center', justifyContent: 'center' },
+
+    footer: { textAlign: 'center', color: '#9ca3af', fontSize: 11, marginTop: 24 },
+});
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet, ActivityIndicator } from "react-native";
+import { ScreenLayout } from "../../components/ScreenLayout";
+import { PageHeader } from "../../components/ui/PageHeader";
+import { SectionCard } from "../../components/ui/SectionCard";
+import { EmptyState } from "../../components/ui/EmptyState";
+import { getStreak, getStreakHistory, type StreakData, type StreakHistory, type StreakKind } from "../../lib/api/auth";
+import type { AppScreenProps } from "../../lib/navigation/types";
+
+const KIND_ICONS: Record<StreakKind, string> = {
+    logging: '📝',
+    sleep: '😴',
+    steps: '👟',
+    water: '💧',
+};
+
+const STATUS_STYLES: Record<string, { label: string; color: string; background: string }> = {
+    active: { label: 'Active', color: '#047857', background: '#d1fae5' },
+    frozen: { label: 'Frozen', color: '#0369a1', background: '#e0f2fe' },
+    broken: { label: 'Ended', color: '#6b7280', background: '#f3f4f6' },
+    none: { label: 'Not started', color: '#9ca3af', background: '#f9fafb' },
+};
+
+function formatDay(dayKey: string): string {
+    const [year, month, day] = dayKey.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export default function StreaksScreen({ navigation }: AppScreenProps<'Streaks'>) {
+    const [data, setData] = useState<StreakData | null>(null);
+    const [historyKind, setHistoryKind] = useState<StreakKind>('logging');
+    const [history, setHistory] = useState<StreakHistory | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        getStreak()
+            .then((result) => { if (!cancelled) setData(result); })
+            .catch((e) => console.warn('[Streaks] Load error:', e))
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        let cancelled = false;
+        setHistory(null);
+        getStreakHistory(historyKind)
+            .then((result) => { if (!cancelled) setHistory(result); })
+            .catch((e) => console.warn('[Streaks] History error:', e));
+        return () => { cancelled = true; };
+    }, [historyKind]);
+
+    const streaks = data?.streaks ?? [];
+
+    return (
+        <ScreenLayout gradientBackground>
+            <PageHeader
+                title="Streaks"
+                subtitle="Freezes cover a missed day"
+                onBack={() => navigation.goBack()}
+            />
+
+            <ScrollView style={{ flex: 1 }} contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+                {isLoading ? (
+                    <ActivityIndicator style={{ marginTop: 40 }} color="#7c3aed" />
+                ) : (
+                    <>
+                        <SectionCard style={styles.card}>
+                            <View style={styles.freezeRow}>
+                                <Text style={styles.freezeIcon}>❄️</Text>
+                                <View style={{ flex: 1 }}>
+                                    <Text style={styles.freezeTitle}>
+                                        {data?.freezesAvailable ?? 0} freeze{data?.freezesAvailable === 1 ? '' : 's'} banked
+                                    </Text>
+                                    <Text style={styles.rowSub}>
+                                        Earn one every 7 logged days (max 2). They're spent automatically when you log after a missed day.
+                                    </Text>
+                                </View>
+                            </View>
+                            {(data?.freezesUsed ?? 0) > 0 && (
+                                <Text style={styles.freezeUsed}>{data?.freezesUsed} used so far</Text>
+                            )}
+                        </SectionCard>
+
+                        <SectionCard style={[styles.card, styles.listCard]}>
+                            {streaks.map((streak, index) => {
+                                const status = STATUS_STYLES[streak.status] ?? STATUS_STYLES.none;
+                                return (
+                                    <React.Fragment key={streak.kind}>
+                                        {index > 0 && <View style={styles.divider} />}
+                                        <View style={styles.row}>
+                                            <Text style={styles.rowIcon}>{KIND_ICONS[streak.kind]}</Text>
+                                            <View style={{ flex: 1 }}>
+                                                <Text style={styles.rowLabel}>{streak.label}</Text>
+                                                <Text style={styles.rowSub}>Best {streak.longestStreak} day{streak.longestStreak === 1 ? '' : 's'}</Text>
+                                            </View>
+                                            <View style={{ alignItems: 'flex-end', gap: 4 }}>
+                                                <Text style={styles.value}>🔥 {streak.currentStreak}</Text>
+                                                <View style={[styles.statusPill, { backgroundColor: status.background }]}>
+                                                    <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+                                                </View>
+                                            </View>
+                                        </View>
+                                    </React.Fragment>
+                                );
+                            })}
+                        </SectionCard>
+
+                        <Text style={styles.sectionTitle}>Past streaks</Text>
+                        <View style={[styles.chipWrap, { marginBottom: 12 }]}>
+                            {streaks.map((streak) => (
+                                <TouchableOpacity
+                                    key={streak.kind}
+                                    style={[styles.chip, historyKind === streak.kind && styles.chipActive]}
+                                    onPress={() => setHistoryKind(streak.kind)}
+                                    activeOpacity={0.8}
+                                >
+                                    <Text style={[styles.chipText, historyKind === streak.kind && styles.chipTextActive]}>
+                                        {KIND_ICONS[streak.kind]} {streak.label}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        {history && history.runs.length === 0 ? (
+                            <EmptyState icon="🗓️" title="No finished streaks yet" description="Streaks of two days or more show up here once they end." />
+                        ) : (
+                            <SectionCard style={[styles.card, styles.listCard]}>
+                                {(history?.runs ?? []).map((run, index) => (
+                                    <React.Fragment key={`${run.startDate}-${run.endDate}`}>
+                                        {index > 0 && <View style={styles.divider} />}
+                                        <View style={styles.row}>
+                                            <View style={{ flex: 1 }}>
+                                                <Text style={styles.rowLabel}>{formatDay(run.startDate)} – {formatDay(run.endDate)}</Text>
+                                                {run.frozenDays.length > 0 && (
+                                                    <Text style={styles.rowSub}>❄️ {run.frozenDays.length} frozen day{run.frozenDays.length === 1 ? '' : 's'}</Text>
+                                                )}
+                                            </View>
+                                            <Text style={styles.value}>{run.length} days</Text>
+                                        </View>
+                                    </React.Fragment>
+                                ))}
+                            </SectionCard>
+                        )}
+                    </>
+                )}
+            </ScrollView>
+        </ScreenLayout>
+    );
+}
+
+const styles = StyleSheet.create({
+    scroll: { padding: 16, paddingTop: 8, paddingBottom: 60 },
+    card: { marginBottom: 16 },
+    listCard: { padding: 0, overflow: 'hidden' },
+    divider: { height: 1, backgroundColor: '#f3f4f6', marginLeft: 16 },
+
+    freezeRow: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+    freezeIcon: { fontSize: 28 },
+    freezeTitle: { fontSize: 16, fontWeight: '700', color: '#0369a1' },
+    freezeUsed: { fontSize: 12, color: '#9ca3af', marginTop: 10 },
+
+    row: { flexDirection: 'row', alignItems: 'center', gap: 10, padding: 16 },
+    rowIcon: { fontSize: 22, width: 30, textAlign: 'center' },
+    rowLabel: { fontSize: 15, fontWeight: '600', color: '#1e1b4b' },
+    rowSub: { fontSize: 12, color: '#9ca3af', marginTop: 2 },
+    value: { fontSize: 15, fontWeight: '700', color: '#1e1b4b' },
+    statusPill: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10 },
+    statusText: { fontSize: 11, fontWeight: '700' },
+
+    sectionTitle: { fontSize: 13, fontWeight: '700', color: '#6b7280', textTransform: 'uppercase', letterSpacing: 0.5, marginBottom: 10, marginTop: 4 },
+    chipWrap: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 16, backgroundColor: '#f3f4f6' },
+    chipActive: { backgroundColor: '#7c3aed' },
+    chipText: { fontSize: 13, fontWeight: '600', color: '#4b5563' },
+    chipTextActive: { color: '#fff' },
+});
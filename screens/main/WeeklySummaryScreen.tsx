@@ -8,6 +8,8 @@ import { LinearGradient } from "expo-linear-gradient";
 import type { AppScreenProps } from "../../lib/navigation/types";
 import { useToast } from "../../components/ui/Toast";
 import { getLocalDateYmd } from "../../lib/date/localDay";
+import { useGoals } from "../../contexts/GoalsContext";
+import type { DailyGoals } from "../../lib/api/auth";
 
 function avg(arr: number[]) { return arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0; }
 function toTitleCase(value: string): string {
@@ -42,14 +44,14 @@ function isDayWithinWindow(dayYmd: string, startYmd: string, endYmd: string): bo
     return dayYmd >= startYmd && dayYmd <= endYmd;
 }
 
-function generateNarrative(health: HealthLogEntry[]): string {
+function generateNarrative(health: HealthLogEntry[], goals: DailyGoals): string {
     if (!health.length) return "Start logging your health data and I'll generate your personal weekly story here! 📊";
     const avgEnergy = avg(health.map(e => e.energyScore ?? 0));
     const avgSleep = avg(health.map(e => e.sleepHours));
     const avgSteps = avg(health.map(e => e.steps));
     const energyLabel = avgEnergy >= 75 ? 'excellent' : avgEnergy >= 50 ? 'moderate' : 'low';
-    const sleepLabel = avgSleep >= 7.5 ? 'well-rested' : avgSleep >= 6 ? 'somewhat rested' : 'sleep-deprived';
-    const stepsLabel = avgSteps >= 8000 ? 'very active' : avgSteps >= 5000 ? 'moderately active' : 'lightly active';
+    const sleepLabel = avgSleep >= goals.sleepHours - 0.5 ? 'well-rested' : avgSleep >= goals.sleepHours - 2 ? 'somewhat rested' : 'sleep-deprived';
+    const stepsLabel = avgSteps >= goals.steps * 0.8 ? 'very active' : avgSteps >= goals.steps * 0.5 ? 'moderately active' : 'lightly active';
     return `This week, your digital twin observed ${energyLabel} energy levels averaging ${Math.round(avgEnergy)}/100. You were ${sleepLabel} with ${avgSleep.toFixed(1)} hours of sleep per night, and ${stepsLabel} with an average of ${Math.round(avgSteps).toLocaleString()} steps per day. ${avgEnergy >= 65 ? 'Keep up the great work! 💪' : 'Try logging 30 more minutes of sleep each night — it has the biggest impact on your energy score.'}`;
 }
 
@@ -65,6 +67,7 @@ function isSeededMoodEntry(entry: MoodLogEntry): boolean {
 
 export default function WeeklySummaryScreen({ navigation }: AppScreenProps<'WeeklySummary'>) {
     const { showToast } = useToast();
+    const { goals } = useGoals();
     const [loading, setLoading] = useState(true);
     const [health, setHealth] = useState<HealthLogEntry[]>([]);
     const [moods, setMoods] = useState<MoodLogEntry[]>([]);
@@ -269,7 +272,7 @@ export default function WeeklySummaryScreen({ navigation }: AppScreenProps<'Week
                             </View>
                             <View style={styles.avatarBlock}><DigitalTwinAvatar /></View>
                             <View style={styles.narrativeBox}>
-                                <Text style={styles.narrativeText}>"{generateNarrative(health)}"</Text>
+                                <Text style={styles.narrativeText}>"{generateNarrative(health, goals)}"</Text>
                             </View>
                         </View>
 
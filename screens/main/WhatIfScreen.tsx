@@ -7,6 +7,7 @@ import { Activity, Moon, RefreshCw, TrendingUp, AlertTriangle } from "lucide-rea
 import { Video, ResizeMode } from "expo-av";
 import { calculatePredictedEnergy, predictMoodState, generatePredictionInsight, generateHabitSimulation } from "../../lib/prediction/model";
 import { getHealthHistory } from "../../lib/api/auth";
+import { useGoals } from "../../contexts/GoalsContext";
 import type { AppScreenProps } from "../../lib/navigation/types";
 import {
     assessDataConfidence,
@@ -41,10 +42,11 @@ const WEB_VIDEO_STYLE: React.CSSProperties = {
 
 export default function WhatIfScreen({ navigation }: AppScreenProps<'WhatIf'>) {
     const [loading, setLoading] = useState(true);
+    const { goals } = useGoals();
 
     const [baselinesteps, setBaselineSteps] = useState(5000);
     const [baselineSleep, setBaselineSleep] = useState(6.5);
-    const [baselineEnergy, setBaselineEnergy] = useState(60);
+    const baselineEnergy = useMemo(() => calculatePredictedEnergy(baselineSleep, baselinesteps, goals), [baselineSleep, baselinesteps, goals]);
 
     const [simSteps, setSimSteps] = useState(5000);
     const [simSleep, setSimSleep] = useState(6.5);
@@ -61,9 +63,9 @@ export default function WhatIfScreen({ navigation }: AppScreenProps<'WhatIf'>) {
     const [scenarioB, setScenarioB] = useState<SavedScenario | null>(null);
     const [availableLogDays, setAvailableLogDays] = useState(0);
 
-    const predictedEnergy = useMemo(() => calculatePredictedEnergy(simSleep, simSteps), [simSleep, simSteps]);
-    const predictedMood = useMemo(() => predictMoodState(simSleep, predictedEnergy), [simSleep, predictedEnergy]);
-    const baselineMood = useMemo(() => predictMoodState(baselineSleep, baselineEnergy), [baselineSleep, baselineEnergy]);
+    const predictedEnergy = useMemo(() => calculatePredictedEnergy(simSleep, simSteps, goals), [simSleep, simSteps, goals]);
+    const predictedMood = useMemo(() => predictMoodState(simSleep, predictedEnergy, goals.sleepHours), [simSleep, predictedEnergy, goals.sleepHours]);
+    const baselineMood = useMemo(() => predictMoodState(baselineSleep, baselineEnergy, goals.sleepHours), [baselineSleep, baselineEnergy, goals.sleepHours]);
     const baselineDecision = useMemo(() => inferSimulationAvatarDecision(baselineSleep, baselineEnergy), [baselineSleep, baselineEnergy]);
     const baselineFeasibility = useMemo(
         () => assessScenarioFeasibility(baselineSleep, baselinesteps, baselineSleep, baselinesteps),
@@ -128,7 +130,7 @@ export default function WhatIfScreen({ navigation }: AppScreenProps<'WhatIf'>) {
         }
         return 'Avatar setup required. Open Settings > Digital Twin Setup.';
     }, [previewVideoUrl, avatarVideoFailed, avatarLoading, hasAnyScenarioVideo, avatarImageUrl, simulatedAvatarState, previewIsFallbackState, resolvedPreviewState, availableLogDays]);
-    const forecastData = useMemo(() => generateHabitSimulation(baselineSleep, baselinesteps, simSleep, simSteps, 30), [baselineSleep, baselinesteps, simSleep, simSteps]);
+    const forecastData = useMemo(() => generateHabitSimulation(baselineSleep, baselinesteps, simSleep, simSteps, 30, goals), [baselineSleep, baselinesteps, simSleep, simSteps, goals]);
 
     const chartData = useMemo(() => forecastData.map((point) => ({
         value: point.predictedEnergy, label: point.day % 5 === 0 ? `D${point.day}` : '',
@@ -267,11 +269,9 @@ export default function WhatIfScreen({ navigation }: AppScreenProps<'WhatIf'>) {
                 const avgSteps = Math.round(history.reduce((s, e) => s + e.steps, 0) / history.length);
                 const avgSleep = history.reduce((s, e) => s + e.sleepHours, 0) / history.length;
                 setBaselineSteps(avgSteps); setBaselineSleep(Number(avgSleep.toFixed(1)));
-                setBaselineEnergy(calculatePredictedEnergy(avgSleep, avgSteps));
                 setSimSteps(avgSteps); setSimSleep(Number(avgSleep.toFixed(1)));
             } else {
                 setBaselineSteps(6500); setBaselineSleep(7.0);
-                setBaselineEnergy(calculatePredictedEnergy(7.0, 6500));
                 setSimSteps(6500); setSimSleep(7.0);
             }
         } catch (e) {
@@ -401,7 +401,7 @@ export default function WhatIfScreen({ navigation }: AppScreenProps<'WhatIf'>) {
                                 </View>
                             </View>
                             <Slider
-                                minimumValue={0} maximumValue={20000} step={500}
+                                minimumValue={0} maximumValue={Math.max(20000, goals.steps * 2)} step={500}
                                 value={simSteps} onValueChange={setSimSteps}
                                 minimumTrackTintColor="#3b82f6" thumbTintColor="#3b82f6"
                             />
@@ -0,0 +1,334 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet } from "react-native";
+import Slider from "@react-native-community/slider";
+import { Dumbbell, Trash2 } from "lucide-react-native";
+import { ScreenLayout } from "../../components/ScreenLayout";
+import { useToast } from "../../components/ui/Toast";
+import { PageHeader } from "../../components/ui/PageHeader";
+import { SectionCard } from "../../components/ui/SectionCard";
+import { AppButton } from "../../components/ui/AppButton";
+import { EmptyState } from "../../components/ui/EmptyState";
+import {
+    deleteWorkout,
+    getWorkoutSummary,
+    getWorkouts,
+    logWorkout,
+    type Workout,
+    type WorkoutSummary,
+} from "../../lib/api/auth";
+import type { WorkoutType } from "../../lib/api/contracts";
+import type { AppScreenProps } from "../../lib/navigation/types";
+
+const WORKOUT_TYPES: Array<{ id: WorkoutType; label: string; icon: string }> = [
+    { id: 'walk', label: 'Walk', icon: '🚶' },
+    { id: 'run', label: 'Run', icon: '🏃' },
+    { id: 'cycle', label: 'Cycle', icon: '🚴' },
+    { id: 'swim', label: 'Swim', icon: '🏊' },
+    { id: 'strength', label: 'Strength', icon: '🏋️' },
+    { id: 'yoga', label: 'Yoga', icon: '🧘' },
+    { id: 'hiit', label: 'HIIT', icon: '⚡' },
+    { id: 'sport', label: 'Sport', icon: '⚽' },
+    { id: 'other', label: 'Other', icon: '✨' },
+];
+
+// Distance only makes sense for these; the input is hidden for the rest.
+const DISTANCE_TYPES: WorkoutType[] = ['walk', 'run', 'cycle', 'swim'];
+
+const EXERTION_LABELS = ['', 'Very easy', 'Easy', 'Easy', 'Moderate', 'Moderate', 'Hard', 'Hard', 'Very hard', 'Very hard', 'Max effort'];
+
+function workoutIcon(type: WorkoutType): string {
+    return WORKOUT_TYPES.find((item) => item.id === type)?.icon ?? '✨';
+}
+
+function formatClock(minutes: number): string {
+    const clamped = Math.max(0, Math.min(1439, Math.round(minutes)));
+    return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+}
+
+// Default start: the session just finished, rounded down to the quarter hour.
+function defaultStartMinutes(durationMinutes: number): number {
+    const now = new Date();
+    const minutes = now.getHours() * 60 + now.getMinutes() - durationMinutes;
+    return Math.max(0, Math.floor(minutes / 15) * 15);
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+    const parsed = Number(value.replace(',', '.'));
+    return value.trim().length > 0 && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export default function WorkoutLogScreen({ navigation }: AppScreenProps<'WorkoutLog'>) {
+    const { showToast } = useToast();
+    const [type, setType] = useState<WorkoutType>('walk');
+    const [durationMinutes, setDurationMinutes] = useState(30);
+    const [dayOffset, setDayOffset] = useState<0 | -1>(0);
+    const [startMinutes, setStartMinutes] = useState(() => defaultStartMinutes(30));
+    const [perceivedExertion, setPerceivedExertion] = useState(5);
+    const [distance, setDistance] = useState('');
+    const [avgHeartRate, setAvgHeartRate] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [recent, setRecent] = useState<Workout[]>([]);
+    const [summary, setSummary] = useState<WorkoutSummary | null>(null);
+
+    const loadRecent = useCallback(async () => {
+        try {
+            const [workouts, weekSummary] = await Promise.all([getWorkouts(14), getWorkoutSummary(7)]);
+            setRecent(workouts);
+            setSummary(weekSummary);
+        } catch (e) { console.warn('Workout load error:', e); }
+    }, []);
+
+    useEffect(() => { void loadRecent(); }, [loadRecent]);
+
+    const handleSave = async () => {
+        if (isSaving) return;
+        const distanceKm = DISTANCE_TYPES.includes(type) ? parseOptionalNumber(distance) : undefined;
+        const heartRate = parseOptionalNumber(avgHeartRate);
+        if (heartRate !== undefined && (heartRate < 20 || heartRate > 260)) {
+            showToast('Average heart rate should be between 20 and 260 bpm', 'error');
+            return;
+        }
+
+        const start = new Date();
+        start.setDate(start.getDate() + dayOffset);
+        start.setHours(0, 0, 0, 0);
+        start.setMinutes(startMinutes);
+
+        setIsSaving(true);
+        try {
+            const saved = await logWorkout({
+                type,
+                startTime: start.toISOString(),
+                utcOffsetMinutes: -start.getTimezoneOffset(),
+                durationMinutes: Math.round(durationMinutes),
+                perceivedExertion: Math.round(perceivedExertion),
+                distanceKm,
+                avgHeartRate: heartRate !== undefined ? Math.round(heartRate) : undefined,
+            });
+            if (!saved) {
+                showToast('❌ Could not save workout', 'error');
+                return;
+            }
+            showToast(`${workoutIcon(saved.type)} Workout saved`, 'success');
+            setDistance('');
+            setAvgHeartRate('');
+            await loadRecent();
+        } catch {
+            showToast('❌ Network error', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (workout: Workout) => {
+        const ok = await deleteWorkout(workout._id);
+        if (!ok) {
+            showToast('❌ Could not delete workout', 'error');
+            return;
+        }
+        setRecent((current) => current.filter((item) => item._id !== workout._id));
+        void loadRecent();
+    };
+
+    return (
+        <ScreenLayout gradientBackground>
+            <PageHeader
+                title="Log Workout"
+                subtitle="Training counts toward today's active minutes"
+                onBack={() => navigation.goBack()}
+            />
+
+            <ScrollView style={{ flex: 1 }} contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+                {summary && (
+                    <SectionCard style={styles.statsCard}>
+                        <View style={styles.statCol}>
+                            <Text style={styles.statValue}>{summary.count}</Text>
+                            <Text style={styles.statLabel}>This week</Text>
+                        </View>
+                        <View style={styles.statDivider} />
+                        <View style={styles.statCol}>
+                            <Text style={styles.statValue}>{summary.totalMinutes}</Text>
+                            <Text style={styles.statLabel}>Minutes</Text>
+                        </View>
+                        <View style={styles.statDivider} />
+                        <View style={styles.statCol}>
+                            <Text style={styles.statValue}>{summary.mostFrequentType ? workoutIcon(summary.mostFrequentType) : '—'}</Text>
+                            <Text style={styles.statLabel}>Favourite</Text>
+                        </View>
+                    </SectionCard>
+                )}
+
+                <Text style={styles.sectionLabel}>TYPE</Text>
+                <SectionCard style={styles.card}>
+                    <View style={styles.chipWrap}>
+                        {WORKOUT_TYPES.map((item) => (
+                            <TouchableOpacity
+                                key={item.id}
+                                style={[styles.chip, type === item.id && styles.chipActive]}
+                                onPress={() => setType(item.id)}
+                                activeOpacity={0.7}
+                            >
+                                <Text style={[styles.chipText, type === item.id && styles.chipTextActive]}>
+                                    {item.icon} {item.label}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                </SectionCard>
+
+                <Text style={styles.sectionLabel}>WHEN</Text>
+                <SectionCard style={styles.card}>
+                    <View style={styles.chipWrap}>
+                        {([0, -1] as const).map((offset) => (
+                            <TouchableOpacity
+                                key={offset}
+                                style={[styles.chip, dayOffset === offset && styles.chipActive]}
+                                onPress={() => setDayOffset(offset)}
+                                activeOpacity={0.7}
+                            >
+                                <Text style={[styles.chipText, dayOffset === offset && styles.chipTextActive]}>
+                                    {offset === 0 ? 'Today' : 'Yesterday'}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                    <Text style={styles.fieldLabel}>Started at {formatClock(startMinutes)}</Text>
+                    <Slider
+                        minimumValue={0}
+                        maximumValue={1425}
+                        step={15}
+                        value={startMinutes}
+                        onValueChange={setStartMinutes}
+                        minimumTrackTintColor="#7c3aed"
+                        maximumTrackTintColor="#e2e8f0"
+                        thumbTintColor="#7c3aed"
+                    />
+                    <Text style={styles.fieldLabel}>Duration: {Math.round(durationMinutes)} min</Text>
+                    <Slider
+                        minimumValue={5}
+                        maximumValue={240}
+                        step={5}
+                        value={durationMinutes}
+                        onValueChange={setDurationMinutes}
+                        minimumTrackTintColor="#7c3aed"
+                        maximumTrackTintColor="#e2e8f0"
+                        thumbTintColor="#7c3aed"
+                    />
+                </SectionCard>
+
+                <Text style={styles.sectionLabel}>DETAILS</Text>
+                <SectionCard style={styles.card}>
+                    <Text style={styles.fieldLabel}>
+                        Perceived exertion: {Math.round(perceivedExertion)}/10 · {EXERTION_LABELS[Math.round(perceivedExertion)]}
+                    </Text>
+                    <Slider
+                        minimumValue={1}
+                        maximumValue={10}
+                        step={1}
+                        value={perceivedExertion}
+                        onValueChange={setPerceivedExertion}
+                        minimumTrackTintColor="#f97316"
+                        maximumTrackTintColor="#e2e8f0"
+                        thumbTintColor="#f97316"
+                    />
+                    <View style={styles.inputRow}>
+                        {DISTANCE_TYPES.includes(type) && (
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.fieldLabel}>Distance (km)</Text>
+                                <TextInput
+                                    style={styles.input}
+                                    value={distance}
+                                    onChangeText={setDistance}
+                                    keyboardType="decimal-pad"
+                                    placeholder="Optional"
+                                    placeholderTextColor="#9ca3af"
+                                />
+                            </View>
+                        )}
+                        <View style={{ flex: 1 }}>
+                            <Text style={styles.fieldLabel}>Avg heart rate (bpm)</Text>
+                            <TextInput
+                                style={styles.input}
+                                value={avgHeartRate}
+                                onChangeText={setAvgHeartRate}
+                                keyboardType="number-pad"
+                                placeholder="Optional"
+                                placeholderTextColor="#9ca3af"
+                            />
+                        </View>
+                    </View>
+                </SectionCard>
+
+                <AppButton
+                    label="Save workout"
+                    onPress={handleSave}
+                    loading={isSaving}
+                    icon={<Dumbbell size={16} color="#fff" />}
+                />
+
+                <Text style={[styles.sectionLabel, { marginTop: 20 }]}>LAST 14 DAYS</Text>
+                {recent.length === 0 ? (
+                    <SectionCard style={styles.card}>
+                        <EmptyState icon="🏃" title="No workouts yet" description="Logged sessions show up here." />
+                    </SectionCard>
+                ) : (
+                    <SectionCard style={styles.section}>
+                        {recent.map((workout, index) => (
+                            <React.Fragment key={workout._id}>
+                                {index > 0 && <View style={styles.divider} />}
+                                <View style={styles.row}>
+                                    <Text style={styles.rowIcon}>{workoutIcon(workout.type)}</Text>
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={styles.rowLabel}>
+                                            {WORKOUT_TYPES.find((item) => item.id === workout.type)?.label ?? workout.type} · {workout.durationMinutes} min
+                                        </Text>
+                                        <Text style={styles.rowSub}>
+                                            {workout.date.slice(0, 10)}
+                                            {workout.perceivedExertion ? ` · RPE ${workout.perceivedExertion}` : ''}
+                                            {workout.distanceKm ? ` · ${workout.distanceKm} km` : ''}
+                                            {workout.avgHeartRate ? ` · ${workout.avgHeartRate} bpm` : ''}
+                                        </Text>
+                                    </View>
+                                    <TouchableOpacity onPress={() => handleDelete(workout)} style={styles.deleteBtn} activeOpacity={0.7}>
+                                        <Trash2 size={16} color="#ef4444" />
+                                    </TouchableOpacity>
+                                </View>
+                            </React.Fragment>
+                        ))}
+                    </SectionCard>
+                )}
+            </ScrollView>
+        </ScreenLayout>
+    );
+}
+
+const styles = StyleSheet.create({
+    scroll: { padding: 16, paddingTop: 8, paddingBottom: 60 },
+
+    statsCard: { flexDirection: 'row', marginBottom: 12 },
+    statCol: { flex: 1, alignItems: 'center' },
+    statValue: { fontSize: 24, fontWeight: '800', color: '#7c3aed' },
+    statLabel: { fontSize: 12, color: '#9ca3af', marginTop: 4, fontWeight: '600' },
+    statDivider: { width: 1, backgroundColor: '#f3f4f6' },
+
+    sectionLabel: { fontSize: 11, fontWeight: '700', color: '#7c3aed', marginLeft: 4, marginBottom: 8, marginTop: 8, letterSpacing: 0.8 },
+    section: { marginBottom: 12, overflow: 'hidden', padding: 0 },
+    card: { marginBottom: 12, gap: 10 },
+
+    chipWrap: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 16, backgroundColor: '#f3f4f6' },
+    chipActive: { backgroundColor: '#7c3aed' },
+    chipText: { fontSize: 13, fontWeight: '600', color: '#4b5563' },
+    chipTextActive: { color: '#fff' },
+
+    fieldLabel: { fontSize: 13, fontWeight: '600', color: '#374151' },
+    inputRow: { flexDirection: 'row', gap: 12 },
+    input: { marginTop: 6, height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb', backgroundColor: '#fff', paddingHorizontal: 12, fontSize: 15, color: '#1e1b4b' },
+
+    row: { flexDirection: 'row', alignItems: 'center', gap: 12, padding: 14 },
+    rowIcon: { fontSize: 22 },
+    rowLabel: { fontSize: 14, fontWeight: '600', color: '#1e1b4b' },
+    rowSub: { fontSize: 12, color: '#9ca3af', marginTop: 2 },
+    divider: { height: 1, backgroundColor: '#f3f4f6', marginLeft: 50 },
+    deleteBtn: { padding: 8 },
+});
@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+import { getCustomMetricValues, getCustomMetrics, type CustomMetric, type CustomMetricDayValue } from "../../../lib/api/auth";
+
+export function useCustomMetricData(days: number) {
+    const [loading, setLoading] = useState(true);
+    const [metrics, setMetrics] = useState<CustomMetric[]>([]);
+    const [values, setValues] = useState<CustomMetricDayValue[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        Promise.all([getCustomMetrics(), getCustomMetricValues(days)])
+            .then(([definitions, dayValues]) => {
+                if (cancelled) return;
+                setMetrics(definitions);
+                setValues(dayValues);
+            })
+            .catch((e) => {
+                console.error("Custom metrics load", e);
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+        return () => { cancelled = true; };
+    }, [days]);
+
+    return { loading, metrics, values };
+}
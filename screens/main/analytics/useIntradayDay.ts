@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { getIntradayDay, type IntradayDay } from "../../../lib/api/auth";
+
+export function useIntradayDay(date: string | null) {
+    const [loading, setLoading] = useState(false);
+    const [day, setDay] = useState<IntradayDay | null>(null);
+
+    useEffect(() => {
+        if (!date) {
+            setDay(null);
+            return;
+        }
+        let cancelled = false;
+        setLoading(true);
+        getIntradayDay(date)
+            .then((result) => {
+                if (!cancelled) setDay(result);
+            })
+            .catch((e) => {
+                console.error("Intraday load", e);
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+        return () => { cancelled = true; };
+    }, [date]);
+
+    return { loading, day };
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { getMealEnergyImpact, type MealEnergyImpact } from "../../../lib/api/auth";
+
+export function useMealEnergyImpact(days: number) {
+    const [loading, setLoading] = useState(true);
+    const [impact, setImpact] = useState<MealEnergyImpact | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        getMealEnergyImpact(days)
+            .then((result) => {
+                if (!cancelled) setImpact(result);
+            })
+            .catch((e) => {
+                console.error("Meal energy load", e);
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+        return () => { cancelled = true; };
+    }, [days]);
+
+    return { loading, impact };
+}
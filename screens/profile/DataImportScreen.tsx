@@ -0,0 +1,220 @@
+import React, { useState } from "react";
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from "react-native";
+import * as DocumentPicker from "expo-document-picker";
+import { Apple, Activity, FileUp, AlertTriangle } from "lucide-react-native";
+import { ScreenLayout } from "../../components/ScreenLayout";
+import { useToast } from "../../components/ui/Toast";
+import { PageHeader } from "../../components/ui/PageHeader";
+import { SectionCard } from "../../components/ui/SectionCard";
+import { AppButton } from "../../components/ui/AppButton";
+import { importDeviceExport, type DeviceImportResult, type ImportFile } from "../../lib/api/auth";
+import type { AppScreenProps } from "../../lib/navigation/types";
+
+type Provider = DeviceImportResult['provider'];
+
+const PROVIDERS: Array<{ id: Provider; label: string; sub: string; icon: React.ReactNode; iconBg: string }> = [
+    {
+        id: 'google_fit',
+        label: 'Google Fit',
+        sub: 'Takeout "Daily activity metrics" CSVs and session JSON files',
+        icon: <Activity size={18} color="#10b981" />,
+        iconBg: '#ecfdf5',
+    },
+    {
+        id: 'apple_health',
+        label: 'Apple Health',
+        sub: 'export.xml from Health → Export All Health Data',
+        icon: <Apple size={18} color="#1e1b4b" />,
+        iconBg: '#f3f4f6',
+    },
+];
+
+function SummaryRow({ label, value }: { label: string; value: string | number }) {
+    return (
+        <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>{label}</Text>
+            <Text style={styles.summaryValue}>{value}</Text>
+        </View>
+    );
+}
+
+export default function DataImportScreen({ navigation }: AppScreenProps<'DataImport'>) {
+    const { showToast } = useToast();
+    const [provider, setProvider] = useState<Provider>('google_fit');
+    const [files, setFiles] = useState<ImportFile[]>([]);
+    const [preview, setPreview] = useState<DeviceImportResult | null>(null);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+
+    const selectProvider = (next: Provider) => {
+        if (next === provider) return;
+        setProvider(next);
+        setFiles([]);
+        setPreview(null);
+    };
+
+    const handlePickFiles = async () => {
+        const result = await DocumentPicker.getDocumentAsync({
+            multiple: provider === 'google_fit',
+            copyToCacheDirectory: true,
+            type: provider === 'google_fit'
+                ? ['text/csv', 'text/comma-separated-values', 'application/json']
+                : ['application/xml', 'text/xml'],
+        });
+        if (result.canceled || result.assets.length === 0) return;
+
+        const picked = result.assets.map((asset) => ({
+            uri: asset.uri,
+            name: asset.name,
+            mimeType: asset.mimeType,
+            file: asset.file,
+        }));
+        setFiles(picked);
+        setPreview(null);
+
+        // Always dry-run first so the user sees what will change before anything is written.
+        setIsPreviewing(true);
+        try {
+            const summary = await importDeviceExport(provider, picked, true);
+            if (!summary) {
+                showToast('❌ Could not read that export', 'error');
+                return;
+            }
+            setPreview(summary);
+        } catch {
+            showToast('❌ Network error', 'error');
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    const handleImport = async () => {
+        if (files.length === 0 || isImporting) return;
+        setIsImporting(true);
+        try {
+            const summary = await importDeviceExport(provider, files, false);
+            if (!summary) {
+                showToast('❌ Import failed — is the server running?', 'error');
+                return;
+            }
+            setPreview(summary);
+            showToast(`✅ Imported ${summary.created + summary.updated} days`, 'success');
+        } catch {
+            showToast('❌ Import failed', 'error');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const fileLabel = files.length === 0
+        ? 'No file selected'
+        : files.length === 1 ? files[0].name : `${files.length} files selected`;
+
+    return (
+        <ScreenLayout gradientBackground>
+            <PageHeader
+                title="Import Health Data"
+                subtitle="Bring in history from your phone or wearable"
+                onBack={() => navigation.goBack()}
+            />
+
+            <ScrollView style={{ flex: 1 }} contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+                <Text style={styles.sectionLabel}>SOURCE</Text>
+                <SectionCard style={styles.section}>
+                    {PROVIDERS.map((item, index) => (
+                        <React.Fragment key={item.id}>
+                            {index > 0 && <View style={styles.divider} />}
+                            <TouchableOpacity style={styles.row} onPress={() => selectProvider(item.id)} activeOpacity={0.7}>
+                                <View style={[styles.rowIcon, { backgroundColor: item.iconBg }]}>{item.icon}</View>
+                                <View style={{ flex: 1 }}>
+                                    <Text style={styles.rowLabel}>{item.label}</Text>
+                                    <Text style={styles.rowSub}>{item.sub}</Text>
+                                </View>
+                                <View style={[styles.radio, provider === item.id && styles.radioActive]} />
+                            </TouchableOpacity>
+                        </React.Fragment>
+                    ))}
+                </SectionCard>
+
+                <Text style={styles.sectionLabel}>FILES</Text>
+                <SectionCard style={styles.card}>
+                    <Text style={styles.fileName} numberOfLines={1}>{fileLabel}</Text>
+                    <AppButton
+                        label={files.length === 0 ? 'Choose files' : 'Choose different files'}
+                        onPress={handlePickFiles}
+                        variant="secondary"
+                        loading={isPreviewing}
+                        icon={<FileUp size={16} color="#7c3aed" />}
+                    />
+                </SectionCard>
+
+                {preview && (
+                    <>
+                        <Text style={styles.sectionLabel}>{preview.dryRun ? 'PREVIEW' : 'IMPORT SUMMARY'}</Text>
+                        <SectionCard style={styles.card}>
+                            <SummaryRow label="Days found" value={preview.daysFound} />
+                            <SummaryRow
+                                label="Date range"
+                                value={preview.firstDay && preview.lastDay ? `${preview.firstDay} → ${preview.lastDay}` : '—'}
+                            />
+                            <SummaryRow label={preview.dryRun ? 'New days' : 'Days created'} value={preview.created} />
+                            <SummaryRow label={preview.dryRun ? 'Days to update' : 'Days updated'} value={preview.updated} />
+                            <SummaryRow label="Kept from Daily Log" value={preview.skippedDailyLog} />
+                            <SummaryRow label="Records used" value={`${preview.recordsUsed} / ${preview.recordsRead}`} />
+
+                            {preview.warnings.length > 0 && (
+                                <View style={styles.warnings}>
+                                    <View style={styles.warningHeader}>
+                                        <AlertTriangle size={14} color="#b45309" />
+                                        <Text style={styles.warningTitle}>{preview.warnings.length} file(s) skipped</Text>
+                                    </View>
+                                    {preview.warnings.slice(0, 5).map((warning) => (
+                                        <Text key={warning} style={styles.warningText}>• {warning}</Text>
+                                    ))}
+                                </View>
+                            )}
+                        </SectionCard>
+
+                        {preview.dryRun && (
+                            <AppButton
+                                label={`Import ${preview.created + preview.updated} days`}
+                                onPress={handleImport}
+                                loading={isImporting}
+                                disabled={preview.created + preview.updated === 0}
+                            />
+                        )}
+                    </>
+                )}
+
+                <Text style={styles.footer}>Days you logged yourself in the Daily Log are never overwritten.</Text>
+            </ScrollView>
+        </ScreenLayout>
+    );
+}
+
+const styles = StyleSheet.create({
+    scroll: { padding: 16, paddingTop: 8, paddingBottom: 60 },
+
+    sectionLabel: { fontSize: 11, fontWeight: '700', color: '#7c3aed', marginLeft: 4, marginBottom: 8, marginTop: 8, letterSpacing: 0.8 },
+    section: { marginBottom: 12, overflow: 'hidden', padding: 0 },
+    card: { marginBottom: 12, gap: 12 },
+    row: { flexDirection: 'row', alignItems: 'center', gap: 14, padding: 16 },
+    rowIcon: { width: 40, height: 40, borderRadius: 12, alignItems: 'center', justifyContent: 'center' },
+    rowLabel: { fontSize: 15, fontWeight: '600', color: '#1e1b4b' },
+    rowSub: { fontSize: 12, color: '#9ca3af', marginTop: 2 },
+    divider: { height: 1, backgroundColor: '#f3f4f6', marginLeft: 70 },
+    radio: { width: 18, height: 18, borderRadius: 9, borderWidth: 2, borderColor: '#d1d5db' },
+    radioActive: { borderColor: '#7c3aed', backgroundColor: '#7c3aed' },
+
+    fileName: { fontSize: 13, color: '#6b7280' },
+    summaryRow: { flexDirection: 'row', justifyContent: 'space-between' },
+    summaryLabel: { fontSize: 13, color: '#6b7280' },
+    summaryValue: { fontSize: 13, fontWeight: '700', color: '#1e1b4b' },
+
+    warnings: { backgroundColor: '#fffbeb', borderRadius: 10, padding: 10, gap: 4 },
+    warningHeader: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+    warningTitle: { fontSize: 12, fontWeight: '700', color: '#b45309' },
+    warningText: { fontSize: 11, color: '#92400e' },
+
+    footer: { textAlign: 'center', color: '#9ca3af', fontSize: 11, marginTop: 24 },
+});
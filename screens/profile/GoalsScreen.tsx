@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from "react-native";
+import { Minus, Plus } from "lucide-react-native";
+import { ScreenLayout } from "../../components/ScreenLayout";
+import { useToast } from "../../components/ui/Toast";
+import { PageHeader } from "../../components/ui/PageHeader";
+import { SectionCard } from "../../components/ui/SectionCard";
+import { AppButton } from "../../components/ui/AppButton";
+import { useGoals } from "../../contexts/GoalsContext";
+import type { DailyGoals } from "../../lib/api/auth";
+import { DEFAULT_GOALS } from "../../lib/goals";
+import type { AppScreenProps } from "../../lib/navigation/types";
+
+// Stepper bounds match the server's validation.
+const GOAL_FIELDS: Array<{
+    key: keyof DailyGoals;
+    icon: string;
+    label: string;
+    sub: string;
+    min: number;
+    max: number;
+    step: number;
+    format: (value: number) => string;
+}> = [
+    { key: 'steps', icon: '👟', label: 'Steps', sub: 'Daily step target', min: 1000, max: 50000, step: 500, format: (v) => v.toLocaleString() },
+    { key: 'sleepHours', icon: '😴', label: 'Sleep', sub: 'Hours per night', min: 4, max: 12, step: 0.5, format: (v) => `${v}h` },
+    { key: 'waterLitres', icon: '💧', label: 'Water', sub: 'Litres per day', min: 0.5, max: 6, step: 0.25, format: (v) => `${v}L` },
+    { key: 'activeMinutes', icon: '🏃', label: 'Active minutes', sub: 'Minutes of movement per day', min: 5, max: 300, step: 5, format: (v) => `${v} min` },
+    { key: 'stressMax', icon: '🧘', label: 'Stress ceiling', sub: 'Try to stay at or below', min: 1, max: 10, step: 1, format: (v) => `${v}/10` },
+];
+
+export default function GoalsScreen({ navigation }: AppScreenProps<'Goals'>) {
+    const { showToast } = useToast();
+    const { goals, customized, saveGoals, resetGoals } = useGoals();
+    const [draft, setDraft] = useState<DailyGoals>(goals);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isResetting, setIsResetting] = useState(false);
+
+    useEffect(() => { setDraft(goals); }, [goals]);
+
+    const changedKeys = GOAL_FIELDS.map((field) => field.key).filter((key) => draft[key] !== goals[key]);
+
+    const adjust = (field: typeof GOAL_FIELDS[number], direction: 1 | -1) => {
+        setDraft((current) => {
+            const next = Math.round((current[field.key] + direction * field.step) * 100) / 100;
+            return { ...current, [field.key]: Math.min(field.max, Math.max(field.min, next)) };
+        });
+    };
+
+    const handleSave = async () => {
+        if (isSaving || changedKeys.length === 0) return;
+        setIsSaving(true);
+        try {
+            const changes = Object.fromEntries(changedKeys.map((key) => [key, draft[key]]));
+            const error = await saveGoals(changes);
+            if (error) {
+                showToast(`❌ ${error}`, 'error');
+                return;
+            }
+            showToast('🎯 Goals updated', 'success');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleReset = async () => {
+        if (isResetting) return;
+        setIsResetting(true);
+        try {
+            const ok = await resetGoals();
+            showToast(ok ? 'Goals reset to defaults' : '❌ Could not reset goals', ok ? 'info' : 'error');
+        } finally {
+            setIsResetting(false);
+        }
+    };
+
+    return (
+        <ScreenLayout gradientBackground>
+            <PageHeader
+                title="Daily Goals"
+                subtitle="Scores, tips and badges use these"
+                onBack={() => navigation.goBack()}
+            />
+
+            <ScrollView style={{ flex: 1 }} contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+                <SectionCard style={styles.card}>
+                    {GOAL_FIELDS.map((field, index) => (
+                        <React.Fragment key={field.key}>
+                            {index > 0 && <View style={styles.divider} />}
+                            <View style={styles.row}>
+                                <Text style={styles.rowIcon}>{field.icon}</Text>
+                                <View style={{ flex: 1 }}>
+                                    <Text style={styles.rowLabel}>{field.label}</Text>
+                                    <Text style={styles.rowSub}>
+                                        {field.sub}
+                                        {customized.includes(field.key) ? ` · default ${field.format(DEFAULT_GOALS[field.key])}` : ''}
+                                    </Text>
+                                </View>
+                                <TouchableOpacity style={styles.stepBtn} onPress={() => adjust(field, -1)} activeOpacity={0.7}>
+                                    <Minus size={16} color="#7c3aed" />
+                                </TouchableOpacity>
+                                <Text style={styles.value}>{field.format(draft[field.key])}</Text>
+                                <TouchableOpacity style={styles.stepBtn} onPress={() => adjust(field, 1)} activeOpacity={0.7}>
+                                    <Plus size={16} color="#7c3aed" />
+                                </TouchableOpacity>
+                            </View>
+                        </React.Fragment>
+                    ))}
+                </SectionCard>
+
+                <AppButton
+                    label={changedKeys.length > 0 ? `Save ${changedKeys.length} change${changedKeys.length === 1 ? '' : 's'}` : 'Saved'}
+                    onPress={handleSave}
+                    loading={isSaving}
+                />
+                {customized.length > 0 && (
+                    <View style={{ marginTop: 12 }}>
+                        <AppButton label="Reset to defaults" onPress={handleReset} loading={isResetting} variant="secondary" />
+                    </View>
+                )}
+
+                <Text style={styles.footer}>Goals you never change follow the app defaults.</Text>
+            </ScrollView>
+        </ScreenLayout>
+    );
+}
+
+const styles = StyleSheet.create({
+    scroll: { padding: 16, paddingTop: 8, paddingBottom: 60 },
+    card: { marginBottom: 16, padding: 0, overflow: 'hidden' },
+    divider: { height: 1, backgroundColor: '#f3f4f6', marginLeft: 56 },
+
+    row: { flexDirection: 'row', alignItems: 'center', gap: 10, padding: 16 },
+    rowIcon: { fontSize: 22, width: 30, textAlign: 'center' },
+    rowLabel: { fontSize: 15, fontWeight: '600', color: '#1e1b4b' },
+    rowSub: { fontSize: 12, color: '#9ca3af', marginTop: 2 },
+    stepBtn: { width: 32, height: 32, borderRadius: 10, backgroundColor: '#f5f3ff', alignItems: 'center', justifyContent: 'center' },
+    value: { minWidth: 64, textAlign: 'center', fontSize: 15, fontWeight: '700', color: '#1e1b4b' },
+
+    footer: { textAlign: 'center', color: '#9ca3af', fontSize: 11, marginTop: 24 },
+});
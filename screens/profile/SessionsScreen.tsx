@@ -0,0 +1,170 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, ScrollView, Alert, Platform, StyleSheet } from "react-native";
+import { Globe, Smartphone, X } from "lucide-react-native";
+import { ScreenLayout } from "../../components/ScreenLayout";
+import { useToast } from "../../components/ui/Toast";
+import { PageHeader } from "../../components/ui/PageHeader";
+import { SectionCard } from "../../components/ui/SectionCard";
+import { AppButton } from "../../components/ui/AppButton";
+import { EmptyState } from "../../components/ui/EmptyState";
+import { getSessions, revokeOtherSessions, revokeSession, type DeviceSession } from "../../lib/api/auth";
+import type { AppScreenProps } from "../../lib/navigation/types";
+
+function formatSeen(iso: string): string {
+    const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+    if (minutes < 2) return 'active now';
+    if (minutes < 60) return `${minutes} min ago`;
+    if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h ago`;
+    return new Date(iso).toLocaleDateString();
+}
+
+function confirmAction(title: string, message: string, confirmLabel: string, onConfirm: () => void) {
+    if (Platform.OS === 'web') {
+        if (window.confirm(message)) onConfirm();
+        return;
+    }
+    Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: confirmLabel, style: 'destructive', onPress: onConfirm },
+    ]);
+}
+
+export default function SessionsScreen({ navigation }: AppScreenProps<'Sessions'>) {
+    const { showToast } = useToast();
+    const [sessions, setSessions] = useState<DeviceSession[]>([]);
+    const [isRevokingOthers, setIsRevokingOthers] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            setSessions(await getSessions());
+        } catch (e) { console.warn('Sessions load error:', e); }
+    }, []);
+
+    useEffect(() => {
+        void load();
+        return navigation.addListener('focus', () => { void load(); });
+    }, [navigation, load]);
+
+    const revoke = async (session: DeviceSession) => {
+        const ok = await revokeSession(session.id);
+        if (!ok) {
+            showToast('❌ Could not sign that device out', 'error');
+            return;
+        }
+        showToast(`🔒 ${session.deviceName} signed out`, 'info');
+        await load();
+    };
+
+    const revokeOthers = async () => {
+        setIsRevokingOthers(true);
+        try {
+            const revoked = await revokeOtherSessions();
+            if (revoked === null) {
+                showToast('❌ Could not sign other devices out', 'error');
+                return;
+            }
+            showToast(`🔒 Signed out ${revoked} other device${revoked === 1 ? '' : 's'}`, 'info');
+            await load();
+        } finally {
+            setIsRevokingOthers(false);
+        }
+    };
+
+    const others = sessions.filter((session) => !session.current);
+
+    return (
+        <ScreenLayout gradientBackground>
+            <PageHeader
+                title="Signed-in Devices"
+                subtitle="Where your account is signed in"
+                onBack={() => navigation.goBack()}
+            />
+
+            <ScrollView style={{ flex: 1 }} contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+                <Text style={styles.sectionLabel}>DEVICES</Text>
+                {sessions.length === 0 ? (
+                    <SectionCard style={styles.card}>
+                        <EmptyState
+                            icon="📱"
+                            title="No sessions"
+                            description="Devices appear here after signing in."
+                        />
+                    </SectionCard>
+                ) : (
+                    <SectionCard style={styles.card}>
+                        {sessions.map((session, index) => (
+                            <React.Fragment key={session.id}>
+                                {index > 0 && <View style={styles.divider} />}
+                                <View style={styles.row}>
+                                    <View style={styles.rowIcon}>
+                                        {session.platform === 'web'
+                                            ? <Globe size={18} color="#7c3aed" />
+                                            : <Smartphone size={18} color="#7c3aed" />}
+                                    </View>
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={styles.rowLabel}>
+                                            {session.deviceName}
+                                            {session.current ? <Text style={styles.currentTag}>  This device</Text> : null}
+                                        </Text>
+                                        <Text style={styles.rowSub}>
+                                            {session.current ? 'active now' : formatSeen(session.lastSeenAt)}
+                                            {session.ip ? ` · ${session.ip}` : ''}
+                                        </Text>
+                                        <Text style={styles.rowSub}>Signed in {new Date(session.createdAt).toLocaleDateString()}</Text>
+                                    </View>
+                                    {!session.current && (
+                                        <TouchableOpacity
+                                            onPress={() => confirmAction(
+                                                'Sign out device?',
+                                                `${session.deviceName} will need to sign in again.`,
+                                                'Sign out',
+                                                () => { void revoke(session); }
+                                            )}
+                                            style={styles.iconBtn}
+                                            activeOpacity={0.7}
+                                        >
+                                            <X size={18} color="#ef4444" />
+                                        </TouchableOpacity>
+                                    )}
+                                </View>
+                            </React.Fragment>
+                        ))}
+                    </SectionCard>
+                )}
+
+                {others.length > 0 && (
+                    <AppButton
+                        label="Sign out all other devices"
+                        onPress={() => confirmAction(
+                            'Sign out other devices?',
+                            'Every device except this one will need to sign in again.',
+                            'Sign out',
+                            () => { void revokeOthers(); }
+                        )}
+                        loading={isRevokingOthers}
+                        variant="danger"
+                    />
+                )}
+
+                <Text style={styles.footer}>A signed-out device loses access within 15 minutes. Changing your password signs out every device.</Text>
+            </ScrollView>
+        </ScreenLayout>
+    );
+}
+
+const styles = StyleSheet.create({
+    scroll: { padding: 16, paddingTop: 8, paddingBottom: 60 },
+
+    sectionLabel: { fontSize: 11, fontWeight: '700', color: '#7c3aed', marginLeft: 4, marginBottom: 8, marginTop: 8, letterSpacing: 0.8 },
+    card: { marginBottom: 12, gap: 12 },
+    divider: { height: 1, backgroundColor: '#f3f4f6' },
+
+    row: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+    rowIcon: { width: 36, height: 36, borderRadius: 10, backgroundColor: '#f5f3ff', alignItems: 'center', justifyContent: 'center' },
+    rowLabel: { fontSize: 15, fontWeight: '700', color: '#1e1b4b' },
+    currentTag: { fontSize: 12, fontWeight: '600', color: '#10b981' },
+    rowSub: { fontSize: 12, color: '#9ca3af', marginTop: 2 },
+    iconBtn: { padding: 8 },
+
+    footer: { textAlign: 'center', color: '#9ca3af', fontSize: 11, marginTop: 24 },
+});
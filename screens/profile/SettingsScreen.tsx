@@ -1,11 +1,25 @@
 import React, { useState } from "react";
-import { View, Text, TouchableOpacity, ScrollView, Alert, Switch, Share, Platform, Image, StyleSheet } from "react-native";
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Alert, Switch, Share, Platform, Image, Linking, StyleSheet } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { ScreenLayout } from "../../components/ScreenLayout";
 import { useToast } from "../../components/ui/Toast";
-import { User, Bell, Download, Trash2, LogOut, ChevronRight, Shield, Database } from "lucide-react-native";
+import { User, Bell, Download, Trash2, LogOut, ChevronRight, Shield, Database, Upload, Target, Link2, Undo2, Smartphone, KeyRound } from "lucide-react-native";
 import { useAuth } from "../../contexts/AuthContext";
-import { deleteMyAccount, seedDemoWeek } from "../../lib/api/auth";
+import { useGoals } from "../../contexts/GoalsContext";
+import {
+    deleteMyAccount,
+    disableTwoFactor,
+    downloadDataExportArchive,
+    enableTwoFactor,
+    getDataExport,
+    getTwoFactorStatus,
+    regenerateRecoveryCodes,
+    resendVerificationEmail,
+    seedDemoWeek,
+    startTwoFactorSetup,
+    type TwoFactorStatus,
+} from "../../lib/api/auth";
+import type { TwoFactorSetupDto } from "../../lib/api/contracts";
 import { apiFetch } from "../../lib/api/client";
 import type { AppScreenProps } from "../../lib/navigation/types";
 import { PageHeader } from "../../components/ui/PageHeader";
@@ -28,13 +42,33 @@ function SettingRow({ icon, iconBg, label, sub, onPress, isDestructive, rightEl
     );
 }
 
+function saveBlobOnWeb(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
 export default function SettingsScreen({ navigation }: AppScreenProps<'Settings'>) {
-    const { user, logout } = useAuth();
+    const { user, logout, verifyEmail } = useAuth();
     const { showToast } = useToast();
+    const { goals } = useGoals();
     const [isSeeding, setIsSeeding] = useState(false);
     const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
     const [notifications, setNotifications] = useState(true);
     const [profileAvatarUrl, setProfileAvatarUrl] = useState<string | null>(user?.profileImage ?? null);
+    const [verificationCode, setVerificationCode] = useState("");
+    const [isVerifying, setIsVerifying] = useState(false);
+    const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
+    const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetupDto | null>(null);
+    const [showTwoFactorManage, setShowTwoFactorManage] = useState(false);
+    const [twoFactorCode, setTwoFactorCode] = useState("");
+    const [twoFactorPassword, setTwoFactorPassword] = useState("");
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [isTwoFactorBusy, setIsTwoFactorBusy] = useState(false);
 
     const initials = user?.name ? user.name.split(' ').map((n: string) => n[0]).join('').toUpperCase().slice(0, 2) : '?';
     const notificationsStorageKey = user?.id ? `healthtwin_notifications_enabled:${user.id}` : null;
@@ -52,6 +86,14 @@ export default function SettingsScreen({ navigation }: AppScreenProps<'Settings'
         return () => { isMounted = false; };
     }, [user?.id, user?.profileImage]);
 
+    React.useEffect(() => {
+        let isMounted = true;
+        getTwoFactorStatus().then((status) => {
+            if (isMounted) setTwoFactor(status);
+        });
+        return () => { isMounted = false; };
+    }, [user?.id]);
+
     React.useEffect(() => {
         if (!notificationsStorageKey) return;
         let cancelled = false;
@@ -99,11 +141,148 @@ export default function SettingsScreen({ navigation }: AppScreenProps<'Settings'
     };
 
     const handleExport = async () => {
-        await Share.share({ message: JSON.stringify({ user: { name: user?.name, email: user?.email }, exportedAt: new Date().toISOString() }, null, 2), title: 'HealthTwin Export' });
+        if (isExporting) return;
+        setIsExporting(true);
+        try {
+            if (Platform.OS === 'web') {
+                // Web gets the full ZIP (manifest + JSON/CSV + avatar media).
+                const archive = await downloadDataExportArchive();
+                if (!archive) {
+                    showToast('❌ Export failed — is the server running?', 'error');
+                    return;
+                }
+                saveBlobOnWeb(archive, `health-twin-export-${new Date().toISOString().slice(0, 10)}.zip`);
+                showToast('📦 Export downloaded', 'success');
+                return;
+            }
+
+            // Native has no file-system module here, so share the JSON export instead.
+            const exportData = await getDataExport();
+            if (!exportData) {
+                showToast('❌ Export failed — is the server running?', 'error');
+                return;
+            }
+            await Share.share({ message: JSON.stringify(exportData, null, 2), title: 'HealthTwin Export' });
+        } catch {
+            showToast('❌ Export failed', 'error');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleVerifyEmail = async () => {
+        if (verificationCode.trim().length === 0 || isVerifying) return;
+        setIsVerifying(true);
+        try {
+            const error = await verifyEmail(verificationCode);
+            if (error) {
+                showToast(`❌ ${error}`, 'error');
+                return;
+            }
+            setVerificationCode("");
+            showToast('✅ Email verified', 'success');
+        } finally {
+            setIsVerifying(false);
+        }
+    };
+
+    const handleResendVerification = async () => {
+        const { message, error } = await resendVerificationEmail();
+        showToast(error ? `❌ ${error}` : `📧 ${message ?? 'Code sent'}`, error ? 'error' : 'info');
+    };
+
+    const handleTwoFactorRowPress = async () => {
+        if (isTwoFactorBusy) return;
+        if (twoFactor?.enabled) {
+            setShowTwoFactorManage((prev) => !prev);
+            return;
+        }
+        setIsTwoFactorBusy(true);
+        try {
+            const { setup, error } = await startTwoFactorSetup();
+            if (!setup) {
+                showToast(`❌ ${error ?? 'Could not start setup'}`, 'error');
+                return;
+            }
+            setTwoFactorSetup(setup);
+            setTwoFactorCode("");
+        } finally {
+            setIsTwoFactorBusy(false);
+        }
+    };
+
+    const handleEnableTwoFactor = async () => {
+        if (twoFactorCode.trim().length === 0 || isTwoFactorBusy) return;
+        setIsTwoFactorBusy(true);
+        try {
+            const { recoveryCodes: codes, error } = await enableTwoFactor(twoFactorCode);
+            if (!codes) {
+                showToast(`❌ ${error ?? 'Could not turn on two-step verification'}`, 'error');
+                return;
+            }
+            setTwoFactorSetup(null);
+            setTwoFactorCode("");
+            setRecoveryCodes(codes);
+            setTwoFactor(await getTwoFactorStatus());
+            showToast('🔐 Two-step verification is on', 'success');
+        } finally {
+            setIsTwoFactorBusy(false);
+        }
+    };
+
+    const handleRegenerateRecoveryCodes = async () => {
+        if (twoFactorCode.trim().length === 0 || isTwoFactorBusy) return;
+        setIsTwoFactorBusy(true);
+        try {
+            const { recoveryCodes: codes, error } = await regenerateRecoveryCodes(twoFactorCode);
+            if (!codes) {
+                showToast(`❌ ${error ?? 'Could not create new codes'}`, 'error');
+                return;
+            }
+            setTwoFactorCode("");
+            setShowTwoFactorManage(false);
+            setRecoveryCodes(codes);
+            setTwoFactor(await getTwoFactorStatus());
+        } finally {
+            setIsTwoFactorBusy(false);
+        }
+    };
+
+    const handleDisableTwoFactor = async () => {
+        if (twoFactorCode.trim().length === 0 || twoFactorPassword.length === 0 || isTwoFactorBusy) return;
+        setIsTwoFactorBusy(true);
+        try {
+            const { error } = await disableTwoFactor(twoFactorPassword, twoFactorCode);
+            if (error) {
+                showToast(`❌ ${error}`, 'error');
+                return;
+            }
+            setTwoFactorCode("");
+            setTwoFactorPassword("");
+            setShowTwoFactorManage(false);
+            setTwoFactor(await getTwoFactorStatus());
+            showToast('Two-step verification is off', 'info');
+        } finally {
+            setIsTwoFactorBusy(false);
+        }
+    };
+
+    const handleOpenAuthenticator = async () => {
+        if (!twoFactorSetup) return;
+        try {
+            await Linking.openURL(twoFactorSetup.otpauthUri);
+        } catch {
+            showToast('No authenticator app found — enter the key by hand', 'info');
+        }
+    };
+
+    const handleShareRecoveryCodes = async () => {
+        if (!recoveryCodes) return;
+        await Share.share({ message: `HealthTwin recovery codes\n\n${recoveryCodes.join('\n')}`, title: 'HealthTwin recovery codes' });
     };
 
     const handleDeleteAccount = () => {
-        Alert.alert("Delete Account", "Permanently delete your profile and all synced data?", [
+        Alert.alert("Delete Account", "Your profile and all synced data will be deleted after 14 days. Sign in before then to keep your account.", [
             { text: "Cancel", style: "cancel" },
             {
                 text: "Delete",
@@ -112,13 +291,13 @@ export default function SettingsScreen({ navigation }: AppScreenProps<'Settings'
                     if (isDeletingAccount) return;
                     setIsDeletingAccount(true);
                     try {
-                        const ok = await deleteMyAccount();
-                        if (!ok) {
+                        const scheduled = await deleteMyAccount();
+                        if (!scheduled) {
                             showToast('Failed to delete account', 'error');
                             return;
                         }
                         await logout();
-                        showToast('Account deleted permanently', 'success');
+                        showToast(`Account will be deleted on ${new Date(scheduled.deletionScheduledFor).toLocaleDateString()}`, 'success');
                     } catch {
                         showToast('Failed to delete account', 'error');
                     } finally {
@@ -157,11 +336,112 @@ export default function SettingsScreen({ navigation }: AppScreenProps<'Settings'
                 <SectionCard style={styles.section}>
                     <SettingRow icon={<User size={18} color="#7c3aed" />} iconBg="#f5f3ff" label="Account ID" sub={user?.id ? `${user.id.substring(0, 16)}...` : '—'} />
                     <View style={styles.divider} />
-                    <SettingRow icon={<Shield size={18} color="#6366f1" />} iconBg="#eef2ff" label="Email" sub={user?.email ?? '—'} />
+                    <SettingRow icon={<Shield size={18} color="#6366f1" />} iconBg="#eef2ff" label="Email"
+                        sub={user?.email ? `${user.email}${user.emailVerified ? '' : ' · not verified'}` : '—'} />
+                    {user && !user.emailVerified && (
+                        <View style={styles.verifyPanel}>
+                            <Text style={styles.rowSub}>Enter the code we emailed you to confirm this address.</Text>
+                            <TextInput
+                                style={styles.input}
+                                value={verificationCode}
+                                onChangeText={setVerificationCode}
+                                placeholder="Verification code"
+                                placeholderTextColor="#9ca3af"
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                            />
+                            <AppButton label="Verify email" onPress={handleVerifyEmail} loading={isVerifying} />
+                            <TouchableOpacity onPress={handleResendVerification} activeOpacity={0.7}>
+                                <Text style={styles.linkText}>Send a new code</Text>
+                            </TouchableOpacity>
+                        </View>
+                    )}
+                    <View style={styles.divider} />
+                    <SettingRow icon={<KeyRound size={18} color="#0f766e" />} iconBg="#f0fdfa"
+                        label="Two-step verification"
+                        sub={twoFactor?.enabled
+                            ? `On · ${twoFactor.recoveryCodesRemaining} recovery code${twoFactor.recoveryCodesRemaining === 1 ? '' : 's'} left`
+                            : 'Off · ask for an authenticator code at sign-in'}
+                        onPress={handleTwoFactorRowPress} />
+                    {recoveryCodes ? (
+                        <View style={styles.verifyPanel}>
+                            <Text style={styles.rowSub}>
+                                Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app. They won't be shown again.
+                            </Text>
+                            <View style={styles.codeList}>
+                                {recoveryCodes.map((code) => (
+                                    <Text key={code} style={styles.codeText} selectable>{code}</Text>
+                                ))}
+                            </View>
+                            {Platform.OS !== 'web' && (
+                                <AppButton label="Share codes" onPress={handleShareRecoveryCodes} variant="secondary" />
+                            )}
+                            <AppButton label="I've saved them" onPress={() => setRecoveryCodes(null)} />
+                        </View>
+                    ) : twoFactorSetup ? (
+                        <View style={styles.verifyPanel}>
+                            <Text style={styles.rowSub}>Add this key to your authenticator app, then enter the 6-digit code it shows.</Text>
+                            <Text style={styles.codeText} selectable>{twoFactorSetup.secret.match(/.{1,4}/g)?.join(' ')}</Text>
+                            {Platform.OS !== 'web' && (
+                                <TouchableOpacity onPress={handleOpenAuthenticator} activeOpacity={0.7}>
+                                    <Text style={styles.linkText}>Open authenticator app</Text>
+                                </TouchableOpacity>
+                            )}
+                            <TextInput
+                                style={styles.input}
+                                value={twoFactorCode}
+                                onChangeText={setTwoFactorCode}
+                                placeholder="6-digit code"
+                                placeholderTextColor="#9ca3af"
+                                keyboardType="number-pad"
+                                autoComplete="one-time-code"
+                                textContentType="oneTimeCode"
+                                maxLength={6}
+                            />
+                            <AppButton label="Turn on" onPress={handleEnableTwoFactor} loading={isTwoFactorBusy} />
+                            <TouchableOpacity onPress={() => setTwoFactorSetup(null)} activeOpacity={0.7}>
+                                <Text style={styles.linkText}>Cancel</Text>
+                            </TouchableOpacity>
+                        </View>
+                    ) : twoFactor?.enabled && showTwoFactorManage ? (
+                        <View style={styles.verifyPanel}>
+                            <Text style={styles.rowSub}>Enter a code from your authenticator app (or a recovery code) to make changes.</Text>
+                            <TextInput
+                                style={styles.input}
+                                value={twoFactorCode}
+                                onChangeText={setTwoFactorCode}
+                                placeholder="Authentication code"
+                                placeholderTextColor="#9ca3af"
+                                autoCapitalize="none"
+                                autoCorrect={false}
+                                autoComplete="one-time-code"
+                                textContentType="oneTimeCode"
+                            />
+                            <AppButton label="Create new recovery codes" onPress={handleRegenerateRecoveryCodes} loading={isTwoFactorBusy} variant="secondary" />
+                            <TextInput
+                                style={styles.input}
+                                value={twoFactorPassword}
+                                onChangeText={setTwoFactorPassword}
+                                placeholder="Password (to turn off)"
+                                placeholderTextColor="#9ca3af"
+                                secureTextEntry
+                            />
+                            <AppButton label="Turn off two-step verification" onPress={handleDisableTwoFactor} loading={isTwoFactorBusy} variant="danger" />
+                        </View>
+                    ) : null}
+                    <View style={styles.divider} />
+                    <SettingRow icon={<Smartphone size={18} color="#7c3aed" />} iconBg="#f5f3ff"
+                        label="Signed-in devices" sub="See where you're signed in and sign devices out"
+                        onPress={() => navigation.navigate("Sessions")} />
                 </SectionCard>
 
                 <Text style={styles.sectionLabel}>PREFERENCES</Text>
                 <SectionCard style={styles.section}>
+                    <SettingRow icon={<Target size={18} color="#10b981" />} iconBg="#ecfdf5"
+                        label="Daily Goals"
+                        sub={`${goals.steps.toLocaleString()} steps · ${goals.sleepHours}h sleep · ${goals.waterLitres}L water`}
+                        onPress={() => navigation.navigate("Goals")} />
+                    <View style={styles.divider} />
                     <SettingRow
                         icon={<Bell size={18} color="#f59e0b" />} iconBg="#fffbeb" label="Push Notifications"
                         rightEl={<Switch value={notifications} onValueChange={handleNotificationsToggle} trackColor={{ false: '#e5e7eb', true: '#7c3aed' }} thumbColor="#fff" />}
@@ -179,7 +459,20 @@ export default function SettingsScreen({ navigation }: AppScreenProps<'Settings'
                         onPress={isSeeding ? undefined : handleSeedDemo} />
                     <View style={styles.divider} />
                     <SettingRow icon={<Download size={18} color="#3b82f6" />} iconBg="#eff6ff"
-                        label="Export Data (JSON)" sub="Share your health records" onPress={handleExport} />
+                        label={isExporting ? "Exporting..." : "Export my data"} sub="Profile, logs, AI reports & avatar media"
+                        onPress={isExporting ? undefined : handleExport} />
+                    <View style={styles.divider} />
+                    <SettingRow icon={<Upload size={18} color="#f97316" />} iconBg="#fff7ed"
+                        label="Import health data" sub="Apple Health or Google Fit exports"
+                        onPress={() => navigation.navigate("DataImport")} />
+                    <View style={styles.divider} />
+                    <SettingRow icon={<Link2 size={18} color="#7c3aed" />} iconBg="#f5f3ff"
+                        label="Share with a clinician" sub="Read-only links with a scope and expiry"
+                        onPress={() => navigation.navigate("ShareLinks")} />
+                    <View style={styles.divider} />
+                    <SettingRow icon={<Undo2 size={18} color="#64748b" />} iconBg="#f1f5f9"
+                        label="Recently deleted" sub="Restore entries deleted in the last 30 days"
+                        onPress={() => navigation.navigate("Trash")} />
                     <View style={styles.divider} />
                     <SettingRow icon={<Database size={18} color="#8b5cf6" />} iconBg="#f5f3ff"
                         label="Database Info (Read-only)" sub="Storage overview for prototype" onPress={() => navigation.navigate("DatabaseViewer")} />
@@ -190,7 +483,7 @@ export default function SettingsScreen({ navigation }: AppScreenProps<'Settings'
                     <SettingRow icon={<Trash2 size={18} color="#ef4444" />} iconBg="#fef2f2"
                         label={isDeletingAccount ? "Deleting Account..." : "Delete Account"}
                         isDestructive
-                        sub="This cannot be undone"
+                        sub="Deleted after a 14-day grace period"
                         onPress={isDeletingAccount ? undefined : handleDeleteAccount}
                     />
                 </SectionCard>
@@ -226,5 +519,10 @@ const styles = StyleSheet.create({
     rowLabel: { fontSize: 15, fontWeight: '600', color: '#1e1b4b' },
     rowSub: { fontSize: 12, color: '#9ca3af', marginTop: 2 },
     divider: { height: 1, backgroundColor: '#f3f4f6', marginLeft: 70 },
+    verifyPanel: { paddingHorizontal: 16, paddingBottom: 16, gap: 10 },
+    input: { height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb', backgroundColor: '#fff', paddingHorizontal: 12, fontSize: 15, color: '#1e1b4b' },
+    codeList: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    codeText: { fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace', fontSize: 14, color: '#1e1b4b', backgroundColor: '#f5f3ff', paddingHorizontal: 10, paddingVertical: 6, borderRadius: 8, textAlign: 'center' },
+    linkText: { fontSize: 13, fontWeight: '700', color: '#7c3aed', textAlign: 'center' },
     footer: { textAlign: 'center', color: '#9ca3af', fontSize: 11, marginTop: 24 },
 });
@@ -0,0 +1,266 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Switch, Share, Alert, Platform, StyleSheet } from "react-native";
+import { X } from "lucide-react-native";
+import { ScreenLayout } from "../../components/ScreenLayout";
+import { useToast } from "../../components/ui/Toast";
+import { PageHeader } from "../../components/ui/PageHeader";
+import { SectionCard } from "../../components/ui/SectionCard";
+import { AppButton } from "../../components/ui/AppButton";
+import { EmptyState } from "../../components/ui/EmptyState";
+import {
+    createShareLink,
+    getShareLinks,
+    revokeShareLink,
+    type CreatedShareLink,
+    type ShareLink,
+    type ShareScope,
+} from "../../lib/api/auth";
+import { getLocalDateYmd } from "../../lib/date/localDay";
+import type { AppScreenProps } from "../../lib/navigation/types";
+
+const SCOPE_FIELDS: Array<{ key: keyof ShareScope; icon: string; label: string; sub: string }> = [
+    { key: 'health', icon: '❤️', label: 'Health metrics', sub: 'Steps, sleep, water, heart rate and sleep timing' },
+    { key: 'mood', icon: '🙂', label: 'Mood', sub: 'Mood, energy and stress check-ins' },
+    { key: 'notes', icon: '📝', label: 'Notes', sub: 'Free-text notes on the entries above' },
+];
+
+const RANGE_OPTIONS = [30, 90, 180] as const;
+const EXPIRY_OPTIONS = [7, 30, 90] as const;
+
+function describeScope(scope: ShareScope): string {
+    return SCOPE_FIELDS.filter((field) => scope[field.key]).map((field) => field.label).join(' · ');
+}
+
+function formatDay(ymd: string): string {
+    return new Date(`${ymd}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function OptionChips<T extends number>({ options, value, suffix, onChange }: {
+    options: readonly T[];
+    value: T;
+    suffix: string;
+    onChange: (value: T) => void;
+}) {
+    return (
+        <View style={styles.chipWrap}>
+            {options.map((option) => (
+                <TouchableOpacity
+                    key={option}
+                    onPress={() => onChange(option)}
+                    style={[styles.chip, option === value && styles.chipActive]}
+                    activeOpacity={0.8}
+                >
+                    <Text style={[styles.chipText, option === value && styles.chipTextActive]}>{option} {suffix}</Text>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+}
+
+export default function ShareLinksScreen({ navigation }: AppScreenProps<'ShareLinks'>) {
+    const { showToast } = useToast();
+    const [links, setLinks] = useState<ShareLink[]>([]);
+    const [label, setLabel] = useState("");
+    const [scope, setScope] = useState<ShareScope>({ health: true, mood: false, notes: false });
+    const [rangeDays, setRangeDays] = useState<(typeof RANGE_OPTIONS)[number]>(30);
+    const [expiryDays, setExpiryDays] = useState<(typeof EXPIRY_OPTIONS)[number]>(7);
+    const [created, setCreated] = useState<CreatedShareLink | null>(null);
+    const [isCreating, setIsCreating] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            setLinks(await getShareLinks());
+        } catch (e) { console.warn('Share links load error:', e); }
+    }, []);
+
+    useEffect(() => {
+        void load();
+        return navigation.addListener('focus', () => { void load(); });
+    }, [navigation, load]);
+
+    const handleCreate = async () => {
+        if (isCreating) return;
+        if (label.trim().length === 0) {
+            showToast('Give the link a name, e.g. "Dr. Patel"', 'error');
+            return;
+        }
+        if (!scope.health && !scope.mood) {
+            showToast('Share health metrics, mood or both', 'error');
+            return;
+        }
+        setIsCreating(true);
+        try {
+            const today = new Date();
+            const from = new Date(today);
+            from.setDate(from.getDate() - (rangeDays - 1));
+            const { link, error } = await createShareLink({
+                label: label.trim(),
+                scope,
+                from: getLocalDateYmd(from),
+                to: getLocalDateYmd(today),
+                expiresInDays: expiryDays,
+            });
+            if (!link) {
+                showToast(`❌ ${error ?? 'Could not create link'}`, 'error');
+                return;
+            }
+            setCreated(link);
+            setLabel("");
+            await load();
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleShareUrl = async (link: CreatedShareLink) => {
+        try {
+            await Share.share({ message: link.url, title: `HealthTwin · ${link.label}` });
+        } catch (e) { console.warn('Share error:', e); }
+    };
+
+    const revoke = async (link: ShareLink) => {
+        const ok = await revokeShareLink(link.id);
+        if (!ok) {
+            showToast('❌ Could not revoke link', 'error');
+            return;
+        }
+        if (created?.id === link.id) setCreated(null);
+        showToast('🔒 Link revoked', 'info');
+        await load();
+    };
+
+    const handleRevoke = (link: ShareLink) => {
+        const message = `Anyone holding "${link.label}" loses access immediately.`;
+        if (Platform.OS === 'web') {
+            if (window.confirm(message)) void revoke(link);
+            return;
+        }
+        Alert.alert('Revoke link?', message, [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Revoke', style: 'destructive', onPress: () => { void revoke(link); } },
+        ]);
+    };
+
+    return (
+        <ScreenLayout gradientBackground>
+            <PageHeader
+                title="Share Links"
+                subtitle="Read-only access for your coach or clinician"
+                onBack={() => navigation.goBack()}
+            />
+
+            <ScrollView style={{ flex: 1 }} contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+                {created && (
+                    <>
+                        <Text style={styles.sectionLabel}>NEW LINK</Text>
+                        <SectionCard style={[styles.card, styles.createdCard]}>
+                            <Text style={styles.rowLabel}>{created.label}</Text>
+                            <Text selectable style={styles.url}>{created.url}</Text>
+                            <Text style={styles.rowSub}>Copy it now — for your safety it will not be shown again.</Text>
+                            <AppButton label="Share link" onPress={() => handleShareUrl(created)} />
+                            <AppButton label="Done" onPress={() => setCreated(null)} variant="secondary" />
+                        </SectionCard>
+                    </>
+                )}
+
+                <Text style={styles.sectionLabel}>ACTIVE LINKS</Text>
+                {links.length === 0 ? (
+                    <SectionCard style={styles.card}>
+                        <EmptyState
+                            icon="🔗"
+                            title="No active links"
+                            description="Create a link below to give someone read-only access to part of your data."
+                        />
+                    </SectionCard>
+                ) : (
+                    <SectionCard style={styles.card}>
+                        {links.map((link, index) => (
+                            <React.Fragment key={link.id}>
+                                {index > 0 && <View style={styles.divider} />}
+                                <View style={styles.row}>
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={styles.rowLabel}>{link.label} <Text style={styles.prefix}>{link.tokenPrefix}…</Text></Text>
+                                        <Text style={styles.rowSub}>{describeScope(link.scope)}</Text>
+                                        <Text style={styles.rowSub}>{formatDay(link.from)} – {formatDay(link.to)}</Text>
+                                        <Text style={styles.rowSub}>
+                                            Expires {new Date(link.expiresAt).toLocaleDateString()}
+                                            {link.lastUsedAt ? ` · last opened ${new Date(link.lastUsedAt).toLocaleDateString()}` : ' · not opened yet'}
+                                        </Text>
+                                    </View>
+                                    <TouchableOpacity onPress={() => handleRevoke(link)} style={styles.iconBtn} activeOpacity={0.7}>
+                                        <X size={18} color="#ef4444" />
+                                    </TouchableOpacity>
+                                </View>
+                            </React.Fragment>
+                        ))}
+                    </SectionCard>
+                )}
+
+                <Text style={styles.sectionLabel}>CREATE A LINK</Text>
+                <SectionCard style={styles.card}>
+                    <Text style={styles.fieldLabel}>Who is it for?</Text>
+                    <TextInput
+                        style={styles.input}
+                        value={label}
+                        onChangeText={setLabel}
+                        maxLength={60}
+                        placeholder="Dr. Patel"
+                        placeholderTextColor="#9ca3af"
+                    />
+                    <View style={styles.divider} />
+                    {SCOPE_FIELDS.map((field) => (
+                        <View key={field.key} style={styles.row}>
+                            <Text style={styles.rowIcon}>{field.icon}</Text>
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.rowLabel}>{field.label}</Text>
+                                <Text style={styles.rowSub}>{field.sub}</Text>
+                            </View>
+                            <Switch
+                                value={scope[field.key]}
+                                onValueChange={(value) => setScope((current) => ({ ...current, [field.key]: value }))}
+                                trackColor={{ false: '#e5e7eb', true: '#7c3aed' }}
+                                thumbColor="#fff"
+                            />
+                        </View>
+                    ))}
+                    <View style={styles.divider} />
+                    <Text style={styles.fieldLabel}>Share the last</Text>
+                    <OptionChips options={RANGE_OPTIONS} value={rangeDays} suffix="days" onChange={setRangeDays} />
+                    <Text style={styles.fieldLabel}>Link expires after</Text>
+                    <OptionChips options={EXPIRY_OPTIONS} value={expiryDays} suffix="days" onChange={setExpiryDays} />
+                    <AppButton label="Create link" onPress={handleCreate} loading={isCreating} />
+                </SectionCard>
+
+                <Text style={styles.footer}>Links are read-only and can be revoked at any time. Entries logged later inside the range are included.</Text>
+            </ScrollView>
+        </ScreenLayout>
+    );
+}
+
+const styles = StyleSheet.create({
+    scroll: { padding: 16, paddingTop: 8, paddingBottom: 60 },
+
+    sectionLabel: { fontSize: 11, fontWeight: '700', color: '#7c3aed', marginLeft: 4, marginBottom: 8, marginTop: 8, letterSpacing: 0.8 },
+    card: { marginBottom: 12, gap: 12 },
+    createdCard: { borderWidth: 1, borderColor: '#c4b5fd' },
+    divider: { height: 1, backgroundColor: '#f3f4f6' },
+
+    row: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+    rowIcon: { fontSize: 22, width: 30, textAlign: 'center' },
+    rowLabel: { fontSize: 15, fontWeight: '700', color: '#1e1b4b' },
+    rowSub: { fontSize: 12, color: '#9ca3af', marginTop: 2 },
+    prefix: { fontSize: 12, fontWeight: '500', color: '#9ca3af' },
+    iconBtn: { padding: 8 },
+    url: { fontSize: 12, color: '#4c1d95', backgroundColor: '#f5f3ff', padding: 10, borderRadius: 10 },
+
+    chipWrap: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: { paddingHorizontal: 12, paddingVertical: 8, borderRadius: 14, backgroundColor: '#f3f4f6' },
+    chipActive: { backgroundColor: '#7c3aed' },
+    chipText: { fontSize: 13, fontWeight: '600', color: '#374151' },
+    chipTextActive: { color: '#fff' },
+
+    fieldLabel: { fontSize: 13, fontWeight: '600', color: '#374151' },
+    input: { height: 44, borderRadius: 12, borderWidth: 1, borderColor: '#e5e7eb', backgroundColor: '#fff', paddingHorizontal: 12, fontSize: 15, color: '#1e1b4b' },
+
+    footer: { textAlign: 'center', color: '#9ca3af', fontSize: 11, marginTop: 24 },
+});
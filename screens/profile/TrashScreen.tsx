@@ -0,0 +1,175 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, ScrollView, Alert, Platform, StyleSheet } from "react-native";
+import { RotateCcw, X } from "lucide-react-native";
+import { ScreenLayout } from "../../components/ScreenLayout";
+import { useToast } from "../../components/ui/Toast";
+import { PageHeader } from "../../components/ui/PageHeader";
+import { SectionCard } from "../../components/ui/SectionCard";
+import { AppButton } from "../../components/ui/AppButton";
+import { EmptyState } from "../../components/ui/EmptyState";
+import {
+    emptyTrash,
+    getTrash,
+    purgeTrashItem,
+    restoreTrashItem,
+    type TrashItem,
+    type TrashKind,
+} from "../../lib/api/auth";
+import type { AppScreenProps } from "../../lib/navigation/types";
+
+const KIND_LABELS: Record<TrashKind, { icon: string; label: string }> = {
+    health: { icon: '❤️', label: 'Health log' },
+    mood: { icon: '🙂', label: 'Mood check-in' },
+    sleep: { icon: '😴', label: 'Sleep session' },
+    workout: { icon: '🏃', label: 'Workout' },
+    meal: { icon: '🍽️', label: 'Meal' },
+};
+
+function formatDay(ymd: string): string {
+    return new Date(`${ymd}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function daysLeft(purgeAt: string): number {
+    return Math.max(0, Math.ceil((new Date(purgeAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+function confirmAction(title: string, message: string, confirmLabel: string, onConfirm: () => void) {
+    if (Platform.OS === 'web') {
+        if (window.confirm(message)) onConfirm();
+        return;
+    }
+    Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: confirmLabel, style: 'destructive', onPress: onConfirm },
+    ]);
+}
+
+export default function TrashScreen({ navigation }: AppScreenProps<'Trash'>) {
+    const { showToast } = useToast();
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        try {
+            setItems(await getTrash());
+        } catch (e) { console.warn('Trash load error:', e); }
+    }, []);
+
+    useEffect(() => {
+        void load();
+        return navigation.addListener('focus', () => { void load(); });
+    }, [navigation, load]);
+
+    const handleRestore = async (item: TrashItem) => {
+        if (busyId) return;
+        setBusyId(item.id);
+        try {
+            const { restored, error } = await restoreTrashItem(item.id);
+            if (!restored) {
+                showToast(`❌ ${error ?? 'Could not restore'}`, 'error');
+                return;
+            }
+            showToast(`↩️ ${KIND_LABELS[item.kind].label} restored`, 'success');
+            await load();
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const purge = async (item: TrashItem) => {
+        const ok = await purgeTrashItem(item.id);
+        if (!ok) {
+            showToast('❌ Could not delete', 'error');
+            return;
+        }
+        await load();
+    };
+
+    const handleEmpty = () => {
+        confirmAction('Empty trash?', 'Everything here will be deleted for good.', 'Empty', () => {
+            void (async () => {
+                const ok = await emptyTrash();
+                if (!ok) {
+                    showToast('❌ Could not empty trash', 'error');
+                    return;
+                }
+                showToast('🗑️ Trash emptied', 'info');
+                await load();
+            })();
+        });
+    };
+
+    return (
+        <ScreenLayout gradientBackground>
+            <PageHeader
+                title="Recently Deleted"
+                subtitle="Entries are kept for 30 days"
+                onBack={() => navigation.goBack()}
+            />
+
+            <ScrollView style={{ flex: 1 }} contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+                <Text style={styles.sectionLabel}>DELETED ENTRIES</Text>
+                {items.length === 0 ? (
+                    <SectionCard style={styles.card}>
+                        <EmptyState
+                            icon="🗑️"
+                            title="Nothing here"
+                            description="Deleted logs, check-ins, workouts and meals show up here for 30 days."
+                        />
+                    </SectionCard>
+                ) : (
+                    <SectionCard style={styles.card}>
+                        {items.map((item, index) => (
+                            <React.Fragment key={item.id}>
+                                {index > 0 && <View style={styles.divider} />}
+                                <View style={styles.row}>
+                                    <Text style={styles.rowIcon}>{KIND_LABELS[item.kind].icon}</Text>
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={styles.rowLabel}>{KIND_LABELS[item.kind].label} · {formatDay(item.date)}</Text>
+                                        {item.summary ? <Text style={styles.rowSub}>{item.summary}</Text> : null}
+                                        <Text style={styles.rowSub}>Deleted for good in {daysLeft(item.purgeAt)} days</Text>
+                                    </View>
+                                    <TouchableOpacity
+                                        onPress={() => handleRestore(item)}
+                                        disabled={busyId !== null}
+                                        style={styles.iconBtn}
+                                        activeOpacity={0.7}
+                                    >
+                                        <RotateCcw size={18} color="#7c3aed" />
+                                    </TouchableOpacity>
+                                    <TouchableOpacity
+                                        onPress={() => confirmAction('Delete for good?', 'This entry cannot be restored afterwards.', 'Delete', () => { void purge(item); })}
+                                        style={styles.iconBtn}
+                                        activeOpacity={0.7}
+                                    >
+                                        <X size={18} color="#ef4444" />
+                                    </TouchableOpacity>
+                                </View>
+                            </React.Fragment>
+                        ))}
+                    </SectionCard>
+                )}
+
+                {items.length > 0 && <AppButton label="Empty trash" onPress={handleEmpty} variant="danger" />}
+
+                <Text style={styles.footer}>Restoring puts an entry back on its original day. If that day has a newer entry, delete it first.</Text>
+            </ScrollView>
+        </ScreenLayout>
+    );
+}
+
+const styles = StyleSheet.create({
+    scroll: { padding: 16, paddingTop: 8, paddingBottom: 60 },
+
+    sectionLabel: { fontSize: 11, fontWeight: '700', color: '#7c3aed', marginLeft: 4, marginBottom: 8, marginTop: 8, letterSpacing: 0.8 },
+    card: { marginBottom: 12, gap: 12 },
+    divider: { height: 1, backgroundColor: '#f3f4f6' },
+
+    row: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+    rowIcon: { fontSize: 22, width: 30, textAlign: 'center' },
+    rowLabel: { fontSize: 15, fontWeight: '700', color: '#1e1b4b' },
+    rowSub: { fontSize: 12, color: '#9ca3af', marginTop: 2 },
+    iconBtn: { padding: 8 },
+
+    footer: { textAlign: 'center', color: '#9ca3af', fontSize: 11, marginTop: 24 },
+});
@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+
+// Grants or revokes a role directly in the database. Admins cannot promote users over the API,
+// so this is how the first admin is created.
+
+const path = require('path');
+const mongoose = require('mongoose');
+const dotenv = require('dotenv');
+
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+const ROLES = ['user', 'admin'];
+const USAGE = 'Usage: npm run admin:role -- <email> <user|admin>';
+
+async function main() {
+    const [emailArg, roleArg] = process.argv.slice(2);
+    if (!emailArg || emailArg === '--help' || emailArg === '-h' || !ROLES.includes(roleArg)) {
+        console.log(USAGE);
+        process.exit(emailArg === '--help' || emailArg === '-h' ? 0 : 1);
+    }
+    if (!process.env.MONGODB_URI) {
+        throw new Error('MONGODB_URI is not defined in .env');
+    }
+
+    await mongoose.connect(process.env.MONGODB_URI);
+    const users = mongoose.connection.db.collection('users');
+    const email = emailArg.trim().toLowerCase();
+    const result = await users.updateOne({ email }, { $set: { role: roleArg } });
+    await mongoose.disconnect();
+
+    if (result.matchedCount === 0) {
+        console.error(`No user with email ${email}`);
+        process.exit(1);
+    }
+    console.log(`${email} is now ${roleArg === 'admin' ? 'an admin' : 'a regular user'}`);
+}
+
+main().catch(async (error) => {
+    console.error('Setting user role failed:', error.message);
+    if (mongoose.connection.readyState !== 0) {
+        await mongoose.disconnect();
+    }
+    process.exit(1);
+});
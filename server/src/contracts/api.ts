@@ -30,6 +30,8 @@ export type MoodType =
 export type AvatarStateType = 'happy' | 'sad' | 'sleepy' | 'calm' | 'tired';
 export type AvatarMode = 'prebuilt' | 'nanobana';
 
+export type UserRoleDto = 'user' | 'admin';
+
 export interface AuthUserDto {
     id: string;
     name: string;
@@ -38,26 +40,78 @@ export interface AuthUserDto {
     heightCm?: number;
     weightKg?: number;
     profileImage?: string | null;
+    timeZone: string;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
+    role: UserRoleDto;
+    deletionScheduledFor: string | null;   // Set while an account deletion is pending
 }
 
-export interface AuthSessionDto {
-    token: string;
+export interface AuthTokensDto {
+    token: string;                  // Short-lived access token (JWT)
+    refreshToken: string;           // Single use; each refresh returns a new one
+    accessTokenExpiresAt: string;
+}
+
+export interface AuthSessionDto extends AuthTokensDto {
     user: AuthUserDto;
 }
 
+// Returned by login instead of tokens when the account has 2FA enabled.
+export interface TwoFactorChallengeDto {
+    twoFactorRequired: true;
+    challengeToken: string;         // Exchanged with a code at /api/auth/login/2fa
+    expiresAt: string;
+}
+
+export interface TwoFactorStatusDto {
+    enabled: boolean;
+    enabledAt: string | null;
+    recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetupDto {
+    secret: string;                 // Base32, for typing into an authenticator app
+    otpauthUri: string;
+}
+
+export interface TwoFactorRecoveryCodesDto {
+    recoveryCodes: string[];        // Shown once; only hashes are kept
+}
+
+export type SessionPlatformDto = 'ios' | 'android' | 'web' | 'unknown';
+
+export interface DeviceSessionDto {
+    id: string;
+    deviceName: string;
+    platform: SessionPlatformDto;
+    userAgent: string | null;
+    ip: string | null;
+    createdAt: string;
+    lastSeenAt: string;             // Last sign-in or token refresh
+    current: boolean;               // The session making the request
+}
+
+export interface AccountDeletionDto {
+    message: string;
+    deletionScheduledFor: string;
+}
+
 export interface HealthEntryDto {
     _id: string;
     userId: string;
     date: string;
     steps: number;
     activeMinutes?: number;
+    workoutMinutes?: number;
     sleepHours: number;
     waterLitres: number;
     heartRate: number;
+    restingHeartRate?: number;
     energyScore?: number | null;
     weight?: number;
     notes?: string;
-    source?: 'daily_log' | 'health_api' | 'seed_demo' | null;
+    source?: 'daily_log' | 'health_api' | 'seed_demo' | 'import' | null;
     createdAt?: string;
     updatedAt?: string;
 }
@@ -70,21 +124,425 @@ export interface MoodEntryDto {
     energyLevel: number;
     stressLevel: number;
     notes?: string;
-    source?: 'daily_log' | 'mood_api' | 'seed_demo' | null;
+    source?: 'daily_log' | 'mood_api' | 'seed_demo' | 'import' | null;
     createdAt?: string;
     updatedAt?: string;
 }
 
+export type SleepQuality = 'poor' | 'fair' | 'good' | 'excellent';
+
+export interface SleepStagesDto {
+    awakeMinutes?: number;
+    lightMinutes?: number;
+    deepMinutes?: number;
+    remMinutes?: number;
+}
+
+export interface SleepSessionDto {
+    _id: string;
+    userId: string;
+    date: string;
+    bedtime: string;
+    wakeTime: string;
+    utcOffsetMinutes: number;
+    awakenings: number;
+    quality?: SleepQuality;
+    stages?: SleepStagesDto;
+    durationHours: number;
+    source?: 'daily_log' | 'sleep_api' | 'seed_demo' | null;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface SleepTimingSummaryDto {
+    sessions: number;
+    avgBedtime: string | null;   // Local "HH:MM"
+    avgWakeTime: string | null;  // Local "HH:MM"
+    bedtimeVariabilityMinutes: number | null;
+    wakeTimeVariabilityMinutes: number | null;
+    avgDurationHours: number;
+    avgAwakenings: number;
+    qualityDistribution: Record<SleepQuality, number>;
+}
+
+/** One day on the analytics timelines; record ids and provenance are left out because share links serve it too. */
+export interface AnalyticsHealthPointDto {
+    date: string;
+    steps: number;
+    activeMinutes?: number;
+    sleepHours: number;
+    waterLitres: number;
+    heartRate: number;
+    restingHeartRate?: number;
+    energyScore?: number | null;
+    weight?: number;
+    notes?: string;
+}
+
+export interface AnalyticsMoodPointDto {
+    date: string;
+    mood: MoodType;
+    energyLevel: number;
+    stressLevel: number;
+    notes?: string;
+}
+
+export interface AnalyticsSummaryDto {
+    period: { days: number; from: string; to: string };
+    health: { count: number; avgSteps: number; avgSleep: number; avgWater: number; avgHR: number };
+    mood: { count: number; avgEnergy: number; avgStress: number; distribution: Record<string, number> };
+    sleep: SleepTimingSummaryDto;
+    healthTimeline: AnalyticsHealthPointDto[];
+    moodTimeline: AnalyticsMoodPointDto[];
+}
+
+export type WorkoutType = 'walk' | 'run' | 'cycle' | 'swim' | 'strength' | 'yoga' | 'hiit' | 'sport' | 'other';
+
+export interface WorkoutDto {
+    _id: string;
+    userId: string;
+    date: string;
+    type: WorkoutType;
+    startTime: string;
+    utcOffsetMinutes: number;
+    durationMinutes: number;
+    perceivedExertion?: number;
+    distanceKm?: number;
+    avgHeartRate?: number;
+    notes?: string;
+    source?: 'workout_api' | 'seed_demo' | null;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface WorkoutSummaryDto {
+    days: number;
+    count: number;
+    totalMinutes: number;
+    activeDays: number;
+    perWeek: number;
+    avgPerceivedExertion: number | null;
+    totalDistanceKm: number;
+    byType: Partial<Record<WorkoutType, { count: number; minutes: number }>>;
+    mostFrequentType: WorkoutType | null;
+    longestMinutes: number;
+}
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'drink';
+
+export interface MealMacrosDto {
+    calories?: number;
+    proteinG?: number;
+    carbsG?: number;
+    fatG?: number;
+    sugarG?: number;
+}
+
+export interface MealDto {
+    _id: string;
+    userId: string;
+    date: string;
+    mealType: MealType;
+    eatenAt: string;
+    utcOffsetMinutes: number;
+    description: string;
+    macros?: MealMacrosDto;
+    tags: string[];
+    source?: 'meal_api' | 'seed_demo' | null;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface MealTagEnergyDto {
+    tag: string;
+    days: number;                 // Days with this tag and a next-day mood entry
+    avgNextDayEnergy: number;     // 1–10
+    baselineDays: number;         // Meal-logged days without the tag
+    baselineEnergy: number | null;
+    delta: number | null;         // avgNextDayEnergy - baselineEnergy
+    enoughData: boolean;
+}
+
+export interface MealEnergyImpactDto {
+    days: number;
+    matchedDays: number;
+    overallNextDayEnergy: number | null;
+    tags: MealTagEnergyDto[];
+}
+
+export type CustomMetricValueType = 'numeric' | 'boolean' | 'scale';
+export type CustomMetricAggregation = 'sum' | 'average' | 'max' | 'min' | 'last';
+
+export interface CustomMetricDto {
+    _id: string;
+    userId: string;
+    name: string;
+    unit?: string;
+    valueType: CustomMetricValueType;
+    aggregation: CustomMetricAggregation;
+    scaleMin?: number;
+    scaleMax?: number;
+    archived: boolean;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface CustomMetricDayValueDto {
+    metricId: string;
+    date: string;   // YYYY-MM-DD
+    value: number;  // Aggregated daily value; booleans are 0/1
+    logs: number;
+}
+
+export interface DailyGoalsDto {
+    steps: number;
+    sleepHours: number;
+    waterLitres: number;
+    activeMinutes: number;
+    stressMax: number;  // Stress ceiling, 1–10
+}
+
+export interface UserGoalsDto {
+    goals: DailyGoalsDto;      // Effective targets (user value or default)
+    defaults: DailyGoalsDto;
+    customized: Array<keyof DailyGoalsDto>;
+}
+
 export interface DailyLogSaveDto {
     date: string;
     health: HealthEntryDto;
     mood: MoodEntryDto;
+    sleep: SleepSessionDto | null;
+    revisionBatchId: string | null;   // Pass to POST /api/daily-log/undo; null when nothing changed
+}
+
+export interface DailyLogUndoDto {
+    date: string;
+    health: HealthEntryDto | null;    // null when the undone save had created the entry
+    mood: MoodEntryDto | null;
+    sleep: SleepSessionDto | null;    // The session as it was before the save, if there was one
+}
+
+export type RevisionEntryTypeDto = 'health' | 'mood';
+export type RevisionSourceDto = 'daily_log' | 'health_api' | 'mood_api' | 'import' | 'restore' | 'undo';
+export type RevisionValueDto = string | number | null;
+
+export interface RevisionChangeDto {
+    field: string;
+    from: RevisionValueDto;
+    to: RevisionValueDto;
+}
+
+export interface EntryRevisionDto {
+    id: string;
+    entryType: RevisionEntryTypeDto;
+    entryId: string;
+    date: string;                     // YYYY-MM-DD of the entry
+    source: RevisionSourceDto;
+    changedBy: string;                // User id of whoever made the change
+    batchId: string | null;
+    changes: RevisionChangeDto[];
+    before: Record<string, RevisionValueDto> | null;   // null when this save created the entry
+    after: Record<string, RevisionValueDto> | null;    // null when an undo removed the entry
+    createdAt: string;
+}
+
+export type StreakKindDto = 'logging' | 'sleep' | 'steps' | 'water';
+export type StreakStatusDto = 'active' | 'frozen' | 'broken' | 'none';
+
+export interface StreakRunDto {
+    startDate: string;    // YYYY-MM-DD
+    endDate: string;
+    length: number;
+    frozenDays: string[];
+}
+
+export interface StreakSummaryDto {
+    kind: StreakKindDto;
+    label: string;
+    currentStreak: number;
+    longestStreak: number;
+    // "frozen": days missed since the last log will be covered by freezes on the next log.
+    status: StreakStatusDto;
+    current: StreakRunDto | null;
 }
 
 export interface StreakDataDto {
+    // Logging streak, kept at the top level for existing clients.
     currentStreak: number;
     longestStreak: number;
     lastLogDate: string | null;
+    freezesAvailable: number;
+    freezesUsed: number;
+    streaks: StreakSummaryDto[];
+}
+
+export interface StreakHistoryDto {
+    kind: StreakKindDto;
+    runs: StreakRunDto[];   // Newest first
+}
+
+export type AchievementCategoryDto = 'milestone' | 'consistency' | 'activity' | 'wellness' | 'workouts';
+export type AchievementTierDto = 'bronze' | 'silver' | 'gold';
+
+export interface AchievementTierStatusDto {
+    tier: AchievementTierDto;
+    threshold: number;
+    unlockedAt: string | null;
+}
+
+export interface AchievementDto {
+    id: string;
+    name: string;
+    description: string;    // Phrased for `target`
+    icon: string;
+    category: AchievementCategoryDto;
+    tier: AchievementTierDto | null;       // Highest tier unlocked
+    nextTier: AchievementTierDto | null;   // null once every tier is unlocked
+    tiers: AchievementTierStatusDto[];
+    unlocked: boolean;                     // Any tier unlocked
+    unlockedAt: string | null;             // First unlock
+    current: number | null;                // Aggregated value at the last evaluation
+    target: number;                        // Threshold of `nextTier`, or of the top tier once complete
+    percent: number;                       // 0-100 toward `target`
+}
+
+export interface AchievementsDto {
+    badges: AchievementDto[];   // Config order
+    unlockedCount: number;
+    totalBadges: number;
+    tierCounts: Record<AchievementTierDto, number>;
+}
+
+export type ChallengeFocusDto = 'sleep' | 'steps' | 'water' | 'workouts';
+
+export interface ChallengeDto {
+    id: string;
+    templateId: string;
+    focus: ChallengeFocusDto;
+    title: string;
+    description: string;
+    icon: string;
+    weekKey: string;          // ISO week, e.g. "2026-W12"
+    weekStart: string;        // YYYY-MM-DD (Monday)
+    weekEnd: string;          // YYYY-MM-DD (Sunday)
+    current: number | null;
+    target: number;
+    percent: number;          // 0-100
+    completed: boolean;
+    completedAt: string | null;
+}
+
+export interface WeeklyChallengesDto {
+    weekKey: string;
+    weekStart: string;
+    weekEnd: string;
+    daysLeft: number;         // Including today
+    challenges: ChallengeDto[];
+    completedTotal: number;   // Challenges completed across all weeks
+}
+
+export interface ChallengeHistoryDto {
+    challenges: ChallengeDto[];   // Newest week first
+}
+
+export interface SharingSettingsDto {
+    streak: boolean;
+    averageSleep: boolean;
+    achievements: boolean;
+}
+
+export interface FriendDto {
+    id: string;               // Friendship id
+    userId: string;
+    name: string;
+    since: string;            // ISO timestamp the invite was accepted
+}
+
+export interface FriendInviteDto {
+    id: string;
+    direction: 'incoming' | 'outgoing';
+    name: string | null;      // The other person, once known
+    email: string | null;     // Outgoing email invites only
+    code: string | null;      // Outgoing code invites only
+    expiresAt: string | null;
+    createdAt: string;
+}
+
+export interface FriendsDto {
+    friends: FriendDto[];
+    incoming: FriendInviteDto[];
+    outgoing: FriendInviteDto[];
+    sharing: SharingSettingsDto;
+}
+
+export interface FriendAchievementDto {
+    id: string;
+    name: string;
+    icon: string;
+    tier: AchievementTierDto;
+}
+
+// Only the aggregates the friend chose to share are present.
+export interface FriendWeekSummaryDto {
+    userId: string;
+    name: string;
+    weekKey: string;
+    weekStart: string;        // YYYY-MM-DD
+    weekEnd: string;
+    streak?: number;          // Logging streak at the end of the week (today for the current week)
+    averageSleepHours?: number | null;
+    sleepNights?: number;
+    achievements?: FriendAchievementDto[];   // Unlocked during the week
+}
+
+export interface FriendFeedDto {
+    items: FriendWeekSummaryDto[];   // Newest week first
+}
+
+export interface ShareScopeDto {
+    health: boolean;          // Health metrics and sleep timing
+    mood: boolean;
+    notes: boolean;
+}
+
+export interface ShareLinkDto {
+    id: string;
+    label: string;
+    tokenPrefix: string;
+    scope: ShareScopeDto;
+    from: string;             // YYYY-MM-DD
+    to: string;
+    expiresAt: string;
+    lastUsedAt: string | null;
+    createdAt: string;
+}
+
+// Returned once, on creation; only a hash of the token is kept.
+export interface CreatedShareLinkDto extends ShareLinkDto {
+    token: string;
+    url: string;              // Token-authenticated summary endpoint
+}
+
+export interface SharedLinkInfoDto {
+    ownerName: string;
+    label: string;
+    scope: ShareScopeDto;
+    from: string;
+    to: string;
+    expiresAt: string;
+}
+
+export type TrashKindDto = 'health' | 'mood' | 'sleep' | 'workout' | 'meal';
+
+export interface TrashItemDto {
+    id: string;
+    kind: TrashKindDto;
+    originalId: string;
+    date: string;             // YYYY-MM-DD of the entry
+    summary: string;          // e.g. "8,000 steps · 7h sleep"
+    deletedAt: string;
+    purgeAt: string;          // Removed for good after this
 }
 
 export interface SeedDemoResultDto {
@@ -99,6 +557,174 @@ export interface ClearSeedDemoResultDto {
     moodEntriesDeleted: number;
 }
 
+export interface AdminUserSummaryDto {
+    id: string;
+    name: string;
+    email: string;
+    role: UserRoleDto;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
+    deletionScheduledFor: string | null;
+    createdAt: string;
+}
+
+export interface AdminUserDataCountsDto {
+    healthEntries: number;
+    moodEntries: number;
+    demoHealthEntries: number;      // Included in healthEntries
+    demoMoodEntries: number;        // Included in moodEntries
+    sleepSessions: number;
+    workouts: number;
+    meals: number;
+    healthSamples: number;
+    customMetrics: number;
+    trashItems: number;
+    activeSessions: number;
+    avatars: number;
+    avatarAnimations: number;
+    aiCacheEntries: number;
+}
+
+export interface AdminUserDetailDto {
+    user: AdminUserSummaryDto;
+    counts: AdminUserDataCountsDto;
+}
+
+export interface AdminAvatarResetDto {
+    avatarsDeleted: number;
+    animationsDeleted: number;
+}
+
+export interface AdminAiCacheClearDto {
+    entriesDeleted: number;
+}
+
+export type AdminAuditOutcomeDto = 'pending' | 'succeeded' | 'not_found' | 'failed';
+
+export interface AdminAuditEntryDto {
+    id: string;
+    adminId: string;
+    action: string;                 // e.g. 'user.search', 'avatar.reset'
+    targetUserId: string | null;
+    details: Record<string, unknown>;
+    ip: string | null;
+    outcome: AdminAuditOutcomeDto;
+    result: Record<string, unknown> | null;   // Affected counts when it succeeded
+    error: string | null;                     // Set when it failed
+    completedAt: string | null;
+    createdAt: string;
+}
+
+export type ImportConflictPolicy = 'skip' | 'overwrite' | 'merge';
+
+export interface ImportRowErrorDto {
+    row: number;
+    field: string;
+    message: string;
+}
+
+export interface EntryImportResultDto {
+    kind: 'health' | 'mood';
+    dryRun: boolean;
+    onConflict: ImportConflictPolicy;
+    totalRows: number;
+    validRows: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    errors: ImportRowErrorDto[];
+}
+
+export type DeviceImportProvider = 'apple_health' | 'google_fit';
+
+export interface DeviceImportResultDto {
+    provider: DeviceImportProvider;
+    dryRun: boolean;
+    recordsRead: number;
+    recordsUsed: number;
+    daysFound: number;
+    created: number;
+    updated: number;
+    skippedDailyLog: number;
+    firstDay: string | null;
+    lastDay: string | null;
+    warnings: string[];
+}
+
+export type HealthSampleMetric = 'heart_rate' | 'steps' | 'active_minutes' | 'water';
+
+export interface HealthSampleDto {
+    metric: HealthSampleMetric;
+    start: string;
+    end: string;
+    value: number;
+    sourceName?: string;
+}
+
+export interface DailyRollupDto {
+    date: string;
+    status: 'created' | 'updated' | 'skipped_daily_log';
+    steps?: number;
+    activeMinutes?: number;
+    waterLitres?: number;
+    heartRate?: number;
+    restingHeartRate?: number;
+}
+
+export interface SampleIngestResultDto {
+    received: number;
+    inserted: number;
+    replaced: number;
+    days: DailyRollupDto[];
+}
+
+export interface IntradayHourDto {
+    hour: number; // 0–23 on the user's local clock
+    steps: number;
+    activeMinutes: number;
+    waterLitres: number;
+    heartRateAvg: number | null;
+    heartRateMin: number | null;
+    heartRateMax: number | null;
+}
+
+export interface IntradayDayDto {
+    date: string;
+    samples: HealthSampleDto[];
+    hourly: IntradayHourDto[];
+    rollup: Omit<DailyRollupDto, 'date' | 'status'>;
+}
+
+export interface DataExportFileDto {
+    path: string;
+    contentType: string;
+    bytes: number;
+    records?: number;
+}
+
+export interface DataExportMediaDto {
+    ref: string;
+    usedBy: string;
+    path: string | null;
+    contentType?: string;
+    bytes?: number;
+}
+
+export interface DataExportManifestDto {
+    format: 'health-twin-export';
+    version: number;
+    exportedAt: string;
+    user: { id: string; email: string };
+    counts: Record<string, number>;
+    files: DataExportFileDto[];
+    media: DataExportMediaDto[];
+}
+
+export interface DataExportDto {
+    manifest: DataExportManifestDto;
+    data: Record<string, unknown>;
+}
+
 export interface AvatarStatusDto {
     hasAvatar: boolean;
     avatarUrl?: string | null;
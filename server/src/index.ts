@@ -5,10 +5,22 @@ import express from 'express';
 import cors from 'cors';
 import { connectDB } from './db';
 import authRoutes from './routes/auth';
+import sessionRoutes from './routes/sessions';
+import twoFactorRoutes from './routes/twoFactor';
 import healthRoutes from './routes/health';
+import sampleRoutes from './routes/samples';
 import moodRoutes from './routes/mood';
+import sleepRoutes from './routes/sleep';
+import workoutRoutes from './routes/workouts';
+import mealRoutes from './routes/meals';
+import customMetricRoutes from './routes/customMetrics';
+import goalRoutes from './routes/goals';
 import analyticsRoutes from './routes/analytics';
 import achievementsRoutes from './routes/achievements';
+import challengesRoutes from './routes/challenges';
+import friendRoutes from './routes/friends';
+import shareLinkRoutes from './routes/shareLinks';
+import sharedRoutes from './routes/shared';
 import seedRoutes from './routes/seed';
 import aiRoutes from './routes/ai';
 import streakRoutes from './routes/streak';
@@ -16,12 +28,22 @@ import avatarRoutes from './routes/avatar';
 import futureRoutes from './routes/future';
 import dailyLogRoutes from './routes/dailyLog';
 import mediaRoutes from './routes/media';
+import exportRoutes from './routes/export';
+import trashRoutes from './routes/trash';
+import adminRoutes from './routes/admin';
 import { sendSuccess } from './lib/apiResponse';
+import { parseTrustProxy } from './lib/clientIp';
+import { rateLimit, RATE_LIMIT_HEADERS } from './middleware/rateLimit';
+import { RATE_LIMITS } from './services/rateLimitService';
+import { startAccountPurgeSchedule } from './services/accountDeletionService';
 
 const app = express();
 const PORT = process.env.PORT || 4000;
 const HOST = process.env.HOST || '0.0.0.0';
 
+// Only proxies named in TRUST_PROXY may set the client IP used by rate limits and lockouts
+app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+
 // Middleware — dynamically accept all origins for local dev Expo testing
 app.use(cors({
     origin: (origin, callback) => {
@@ -29,19 +51,33 @@ app.use(cors({
         callback(null, origin || true);
     },
     credentials: true,
+    exposedHeaders: RATE_LIMIT_HEADERS,
 }));
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ limit: '50mb', extended: true }));
 
-// Connect to MongoDB
-connectDB();
+// Connect to MongoDB, then start sweeping accounts whose deletion grace window has passed
+connectDB().then(startAccountPurgeSchedule);
 
-// Routes
+// Routes — every API request counts against the per-IP budget; routes add tighter ones
+app.use('/api', rateLimit(RATE_LIMITS.api));
+app.use('/api/auth/sessions', sessionRoutes);
+app.use('/api/auth/2fa', twoFactorRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/health/samples', sampleRoutes);
 app.use('/api/health', healthRoutes);
 app.use('/api/mood', moodRoutes);
+app.use('/api/sleep', sleepRoutes);
+app.use('/api/workouts', workoutRoutes);
+app.use('/api/meals', mealRoutes);
+app.use('/api/custom-metrics', customMetricRoutes);
+app.use('/api/goals', goalRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/achievements', achievementsRoutes);
+app.use('/api/challenges', challengesRoutes);
+app.use('/api/friends', friendRoutes);
+app.use('/api/share-links', shareLinkRoutes);
+app.use('/api/shared', sharedRoutes);
 app.use('/api/seed', seedRoutes);
 app.use('/api/ai', aiRoutes);
 app.use('/api/streak', streakRoutes);
@@ -49,6 +85,9 @@ app.use('/api/avatar', avatarRoutes);
 app.use('/api/future', futureRoutes);
 app.use('/api/daily-log', dailyLogRoutes);
 app.use('/api/media', mediaRoutes);
+app.use('/api/export', exportRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Health check
 app.get('/', (_req, res) => {
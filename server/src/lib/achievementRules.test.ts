@@ -0,0 +1,106 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_DAILY_GOALS } from '../models/UserGoals';
+import {
+    AchievementRule,
+    AchievementSources,
+    buildMetricSamples,
+    evaluateAchievementRule,
+    evaluateMetric,
+    parseAchievementRules,
+} from './achievementRules';
+import achievementConfig from '../config/achievements.json';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+function rule(overrides: Partial<AchievementRule>): AchievementRule {
+    return {
+        id: 'test',
+        name: 'Test',
+        description: 'Reach {target}',
+        icon: '🧪',
+        category: 'milestone',
+        metric: 'steps',
+        aggregation: 'max',
+        window: 'all',
+        comparator: 'gte',
+        tiers: { bronze: 1 },
+        ...overrides,
+    };
+}
+
+const sources: AchievementSources = {
+    healthEntries: [
+        { date: day('2026-03-01'), steps: 12000, sleepHours: 8 },
+        { date: day('2026-03-02'), steps: 9000, sleepHours: 7 },
+        { date: day('2026-03-03'), steps: 11000, sleepHours: 6 },
+        { date: day('2026-03-05'), steps: 15000, sleepHours: 9 },
+    ],
+    moodEntries: [
+        { date: day('2026-03-01'), mood: 'happy', stressLevel: 6 },
+        { date: day('2026-03-02'), mood: 'calm', stressLevel: 2 },
+        { date: day('2026-03-09'), mood: 'energetic', stressLevel: 3 },
+    ],
+    workouts: [
+        { date: day('2026-03-01'), type: 'run', durationMinutes: 30 },
+        { date: day('2026-03-01'), type: 'yoga', durationMinutes: 20 },
+        { date: day('2026-03-06'), type: 'run', durationMinutes: 45 },
+        { date: day('2026-03-12'), type: 'swim', durationMinutes: 70 },
+    ],
+};
+
+test('parseAchievementRules accepts the shipped config and rejects bad rules', () => {
+    const rules = parseAchievementRules(achievementConfig);
+    assert.ok(rules.length > 0);
+    assert.equal(new Set(rules.map((item) => item.id)).size, rules.length);
+
+    assert.throws(
+        () => parseAchievementRules([rule({ id: 'Bad Id' }), rule({ metric: 'heartbeat' as never })]),
+        /0\.id: id must be lowercase.*1\.metric/
+    );
+    assert.throws(() => parseAchievementRules([rule({}), rule({})]), /Achievement ids must be unique/);
+    assert.throws(() => parseAchievementRules([rule({ tiers: { bronze: 1, gold: 3 } })]), /gold requires a silver tier/);
+});
+
+test('evaluateMetric covers each aggregation, goal-based filters and ranges', () => {
+    const samples = buildMetricSamples(sources);
+    const goals = { ...DEFAULT_DAILY_GOALS, steps: 10000 };
+    const goalDays = { where: { comparator: 'gte' as const, value: { goal: 'steps' as const, times: 1 } } };
+
+    assert.equal(evaluateMetric(rule({ aggregation: 'count', ...goalDays }), samples.steps, goals), 3);
+    assert.equal(evaluateMetric(rule({ aggregation: 'streak', ...goalDays }), samples.steps, goals), 1);
+    assert.equal(evaluateMetric(rule({ aggregation: 'streak' }), samples.logged, goals), 3);
+    assert.equal(evaluateMetric(rule({ aggregation: 'avg' }), samples.sleepHours, goals), 7.5);
+    assert.equal(evaluateMetric(rule({ aggregation: 'sum' }), samples.workoutMinutes, goals), 165);
+    assert.equal(evaluateMetric(rule({ aggregation: 'distinct' }), samples.workoutType, goals), 3);
+    assert.equal(evaluateMetric(rule({ aggregation: 'max' }), samples.energyScore, goals), null);
+    assert.equal(
+        evaluateMetric(rule({ aggregation: 'count' }), samples.positiveMood, goals, { from: '2026-03-01', to: '2026-03-07' }),
+        2
+    );
+});
+
+test('rolling windows keep the best window and tiers follow the comparator', () => {
+    const samples = buildMetricSamples(sources);
+
+    const trainingWeek = rule({ metric: 'workouts', aggregation: 'count', window: { rollingDays: 7 }, tiers: { bronze: 3, silver: 4 } });
+    assert.deepEqual(evaluateAchievementRule(trainingWeek, samples, DEFAULT_DAILY_GOALS), {
+        id: 'test',
+        current: 3,
+        thresholds: { bronze: 3, silver: 4 },
+        tier: 'bronze',
+    });
+
+    // Lower is better for stress; windows with too few samples are skipped.
+    const calm = rule({
+        metric: 'stressLevel',
+        aggregation: 'avg',
+        window: { rollingDays: 2, minSamples: 2 },
+        comparator: 'lte',
+        tiers: { bronze: { goal: 'stressMax', times: 1 }, silver: 4, gold: 2 },
+    });
+    const evaluation = evaluateAchievementRule(calm, samples, { ...DEFAULT_DAILY_GOALS, stressMax: 7 });
+    assert.equal(evaluation.current, 4);
+    assert.deepEqual(evaluation.thresholds, { bronze: 7, silver: 4, gold: 2 });
+    assert.equal(evaluation.tier, 'silver');
+});
@@ -0,0 +1,300 @@
+import { z, ZodType } from 'zod';
+import { DAILY_GOAL_KEYS, DailyGoalKey, DailyGoals } from '../models/UserGoals';
+import { ACHIEVEMENT_TIERS, AchievementTier } from '../models/UserAchievement';
+import { getUtcDayKey, shiftUtcDays, toUtcDayStart } from './dateUtils';
+
+/**
+ * Achievement rules engine. A rule is data: a metric, an aggregation over that metric's
+ * samples, a window, a comparator and one threshold per tier. Thresholds can be fixed
+ * numbers or multiples of one of the user's daily goals. Everything here is pure, so rules
+ * can be checked against synthetic entry sets without a database.
+ *
+ *   count     samples (or days, for day metrics) that pass `where`
+ *   sum/avg/max  over numeric samples that pass `where`
+ *   distinct  distinct sample values
+ *   streak    longest run of consecutive days with a passing sample
+ *
+ * A rolling window evaluates every N-day window ending on a sample day and keeps the best
+ * result (highest for `gte`, lowest for `lte`).
+ */
+
+export type AchievementMetric =
+    | 'logged'
+    | 'steps'
+    | 'sleepHours'
+    | 'waterLitres'
+    | 'activeMinutes'
+    | 'energyScore'
+    | 'positiveMood'
+    | 'stressLevel'
+    | 'workouts'
+    | 'workoutMinutes'
+    | 'workoutType';
+export type AchievementAggregation = 'count' | 'sum' | 'avg' | 'max' | 'distinct' | 'streak';
+export type AchievementComparator = 'gte' | 'lte';
+export type AchievementCategory = 'milestone' | 'consistency' | 'activity' | 'wellness' | 'workouts';
+
+export const ACHIEVEMENT_METRICS: AchievementMetric[] = [
+    'logged',
+    'steps',
+    'sleepHours',
+    'waterLitres',
+    'activeMinutes',
+    'energyScore',
+    'positiveMood',
+    'stressLevel',
+    'workouts',
+    'workoutMinutes',
+    'workoutType',
+];
+export const ACHIEVEMENT_AGGREGATIONS: AchievementAggregation[] = ['count', 'sum', 'avg', 'max', 'distinct', 'streak'];
+export const ACHIEVEMENT_CATEGORIES: AchievementCategory[] = ['milestone', 'consistency', 'activity', 'wellness', 'workouts'];
+
+const POSITIVE_MOODS = new Set(['happy', 'energetic']);
+
+export const achievementThresholdSchema = z.union([
+    z.number().min(0),
+    z.object({
+        goal: z.enum(DAILY_GOAL_KEYS as [DailyGoalKey, ...DailyGoalKey[]]),
+        times: z.number().positive().default(1),
+    }),
+]);
+
+export const achievementComparatorSchema = z.enum(['gte', 'lte']);
+
+export const achievementRuleSchema = z.object({
+    id: z.string().regex(/^[a-z0-9_]+$/, 'id must be lowercase letters, digits or underscores'),
+    name: z.string().trim().min(1).max(60),
+    // `{target}` is replaced with the threshold of the tier being worked towards.
+    description: z.string().trim().min(1).max(160),
+    icon: z.string().min(1).max(8),
+    category: z.enum(ACHIEVEMENT_CATEGORIES as [AchievementCategory, ...AchievementCategory[]]),
+    metric: z.enum(ACHIEVEMENT_METRICS as [AchievementMetric, ...AchievementMetric[]]),
+    aggregation: z.enum(ACHIEVEMENT_AGGREGATIONS as [AchievementAggregation, ...AchievementAggregation[]]),
+    where: z.object({ comparator: achievementComparatorSchema, value: achievementThresholdSchema }).optional(),
+    window: z.union([
+        z.literal('all'),
+        z.object({
+            rollingDays: z.number().int().min(1).max(366),
+            minSamples: z.number().int().min(1).optional(), // Windows with fewer samples are skipped
+        }),
+    ]),
+    comparator: achievementComparatorSchema,
+    tiers: z.object({
+        bronze: achievementThresholdSchema,
+        silver: achievementThresholdSchema.optional(),
+        gold: achievementThresholdSchema.optional(),
+    }).refine((tiers) => !tiers.gold || tiers.silver, 'gold requires a silver tier'),
+});
+
+export const achievementRulesSchema = z.array(achievementRuleSchema).min(1).refine(
+    (rules) => new Set(rules.map((rule) => rule.id)).size === rules.length,
+    'Achievement ids must be unique'
+);
+
+export type AchievementRule = z.infer<typeof achievementRuleSchema>;
+export type AchievementThreshold = z.infer<typeof achievementThresholdSchema>;
+
+/** Parses a config file, failing with every problem listed so a bad file is caught at startup. */
+export function parseRuleConfig<T>(schema: ZodType<T>, raw: unknown, label: string): T {
+    const parsed = schema.safeParse(raw);
+    if (!parsed.success) {
+        const details = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'rules'}: ${issue.message}`);
+        throw new Error(`Invalid ${label} — ${details.join('; ')}`);
+    }
+    return parsed.data;
+}
+
+export function parseAchievementRules(raw: unknown): AchievementRule[] {
+    return parseRuleConfig(achievementRulesSchema, raw, 'achievement rules');
+}
+
+export interface AchievementSources {
+    healthEntries: Array<{
+        date: Date;
+        steps?: number;
+        sleepHours?: number;
+        waterLitres?: number;
+        activeMinutes?: number;
+        energyScore?: number | null;
+    }>;
+    moodEntries: Array<{ date: Date; mood: string; stressLevel?: number }>;
+    workouts: Array<{ date: Date; type: string; durationMinutes: number }>;
+}
+
+export interface MetricSample {
+    day: string;              // YYYY-MM-DD
+    value: number | string;
+}
+
+export type MetricSamples = Record<AchievementMetric, MetricSample[]>;
+
+export interface DayRange {
+    from: string;             // YYYY-MM-DD, inclusive
+    to: string;
+}
+
+export interface AchievementEvaluation {
+    id: string;
+    current: number | null;
+    thresholds: Partial<Record<AchievementTier, number>>;
+    tier: AchievementTier | null;   // Highest tier met by `current`
+}
+
+/** Turns entries into one time-ordered sample list per metric. */
+export function buildMetricSamples(sources: AchievementSources): MetricSamples {
+    const samples = Object.fromEntries(ACHIEVEMENT_METRICS.map((metric) => [metric, []])) as unknown as MetricSamples;
+    const push = (metric: AchievementMetric, date: Date, value: number | string | null | undefined) => {
+        if (value === null || value === undefined) return;
+        samples[metric].push({ day: getUtcDayKey(new Date(date)), value });
+    };
+
+    for (const entry of sources.healthEntries) {
+        push('logged', entry.date, 1);
+        push('steps', entry.date, entry.steps);
+        push('sleepHours', entry.date, entry.sleepHours);
+        push('waterLitres', entry.date, entry.waterLitres);
+        push('activeMinutes', entry.date, entry.activeMinutes);
+        push('energyScore', entry.date, entry.energyScore);
+    }
+    for (const entry of sources.moodEntries) {
+        push('positiveMood', entry.date, POSITIVE_MOODS.has(entry.mood) ? 1 : 0);
+        push('stressLevel', entry.date, entry.stressLevel);
+    }
+    for (const workout of sources.workouts) {
+        push('workouts', workout.date, 1);
+        push('workoutMinutes', workout.date, workout.durationMinutes);
+        push('workoutType', workout.date, workout.type);
+    }
+
+    for (const metric of ACHIEVEMENT_METRICS) {
+        samples[metric].sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0));
+    }
+    return samples;
+}
+
+function roundOne(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+export function resolveThreshold(threshold: AchievementThreshold, goals: DailyGoals): number {
+    if (typeof threshold === 'number') return threshold;
+    return roundOne(goals[threshold.goal] * threshold.times);
+}
+
+export function compareValue(value: number, comparator: AchievementComparator, threshold: number): boolean {
+    return comparator === 'gte' ? value >= threshold : value <= threshold;
+}
+
+function longestDayRun(days: string[]): number {
+    let longest = 0;
+    let run = 0;
+    let previous: string | null = null;
+    for (const day of [...new Set(days)].sort()) {
+        run = previous && getUtcDayKey(shiftUtcDays(toUtcDayStart(previous), 1)) === day ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = day;
+    }
+    return longest;
+}
+
+/** Aggregates samples that already passed `where`; null when an average or max has nothing to work on. */
+export function aggregateSamples(
+    samples: MetricSample[],
+    aggregation: AchievementAggregation,
+    minSamples = 1
+): number | null {
+    const numbers = samples.flatMap((sample) => (typeof sample.value === 'number' ? [sample.value] : []));
+    switch (aggregation) {
+        case 'count':
+            return samples.length;
+        case 'sum':
+            return roundOne(numbers.reduce((sum, value) => sum + value, 0));
+        case 'avg':
+            return numbers.length >= minSamples && numbers.length > 0
+                ? roundOne(numbers.reduce((sum, value) => sum + value, 0) / numbers.length)
+                : null;
+        case 'max':
+            return numbers.length > 0 ? Math.max(...numbers) : null;
+        case 'distinct':
+            return new Set(samples.map((sample) => sample.value)).size;
+        case 'streak':
+            return longestDayRun(samples.map((sample) => sample.day));
+    }
+}
+
+function isBetter(candidate: number, best: number | null, comparator: AchievementComparator): boolean {
+    if (best === null) return true;
+    return comparator === 'gte' ? candidate > best : candidate < best;
+}
+
+/**
+ * The rule's aggregated value. With `range` (a challenge week, for example) only samples in
+ * that range count and the window's length is ignored; its `minSamples` still applies.
+ */
+export function evaluateMetric(
+    rule: Pick<AchievementRule, 'aggregation' | 'where' | 'window' | 'comparator'>,
+    samples: MetricSample[],
+    goals: DailyGoals,
+    range?: DayRange
+): number | null {
+    const where = rule.where;
+    const whereValue = where ? resolveThreshold(where.value, goals) : 0;
+    const passing = samples.filter((sample) => (
+        (!range || (sample.day >= range.from && sample.day <= range.to))
+        && (!where || (typeof sample.value === 'number' && compareValue(sample.value, where.comparator, whereValue)))
+    ));
+    const minSamples = rule.window === 'all' ? 1 : rule.window.minSamples ?? 1;
+    if (range || rule.window === 'all') return aggregateSamples(passing, rule.aggregation, minSamples);
+
+    const rollingDays = rule.window.rollingDays;
+    let best: number | null = null;
+    let start = 0;
+    passing.forEach((sample, end) => {
+        // Close the window on the last sample of each day.
+        if (passing[end + 1]?.day === sample.day) return;
+        const windowStart = getUtcDayKey(shiftUtcDays(toUtcDayStart(sample.day), -(rollingDays - 1)));
+        while (passing[start].day < windowStart) start += 1;
+        const value = aggregateSamples(passing.slice(start, end + 1), rule.aggregation, minSamples);
+        if (value !== null && isBetter(value, best, rule.comparator)) best = value;
+    });
+    return best;
+}
+
+/** Whole percent of the way from nothing to `target`; for `lte`, how close `current` has come down. */
+export function progressPercent(current: number | null, target: number, comparator: AchievementComparator): number {
+    if (current === null) return 0;
+    if (comparator === 'lte') {
+        if (current <= target) return 100;
+        return Math.floor((target / current) * 100);
+    }
+    if (target <= 0) return 100;
+    return Math.min(100, Math.floor((current / target) * 100));
+}
+
+export function evaluateAchievementRule(
+    rule: AchievementRule,
+    samples: MetricSamples,
+    goals: DailyGoals,
+    range?: DayRange
+): AchievementEvaluation {
+    const current = evaluateMetric(rule, samples[rule.metric], goals, range);
+    const thresholds: Partial<Record<AchievementTier, number>> = {};
+    let tier: AchievementTier | null = null;
+    for (const name of ACHIEVEMENT_TIERS) {
+        const threshold = rule.tiers[name];
+        if (threshold === undefined) continue;
+        thresholds[name] = resolveThreshold(threshold, goals);
+        if (current !== null && compareValue(current, rule.comparator, thresholds[name] as number)) tier = name;
+    }
+    return { id: rule.id, current, thresholds, tier };
+}
+
+export function evaluateAchievementRules(
+    rules: AchievementRule[],
+    sources: AchievementSources,
+    goals: DailyGoals
+): AchievementEvaluation[] {
+    const samples = buildMetricSamples(sources);
+    return rules.map((rule) => evaluateAchievementRule(rule, samples, goals));
+}
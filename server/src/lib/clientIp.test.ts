@@ -0,0 +1,17 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Request } from 'express';
+import { parseTrustProxy, resolveClientIp } from './clientIp';
+
+test('parseTrustProxy trusts nothing unless configured', () => {
+    assert.equal(parseTrustProxy(undefined), false);
+    assert.equal(parseTrustProxy(' false '), false);
+    assert.equal(parseTrustProxy('true'), true);
+    assert.equal(parseTrustProxy('1'), 1);
+    assert.deepEqual(parseTrustProxy('loopback, 10.0.0.0/8'), ['loopback', '10.0.0.0/8']);
+});
+
+test('resolveClientIp ignores a client-supplied X-Forwarded-For', () => {
+    const req = { ip: '203.0.113.7', headers: { 'x-forwarded-for': '198.51.100.1' } } as unknown as Request;
+    assert.equal(resolveClientIp(req), '203.0.113.7');
+});
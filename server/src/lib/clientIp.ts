@@ -0,0 +1,20 @@
+import { Request } from 'express';
+
+/**
+ * Express `trust proxy` setting from `TRUST_PROXY`. Unset or `false` trusts no proxy, so
+ * X-Forwarded-For is ignored and clients cannot pick their own IP. `true` trusts every hop,
+ * a number trusts that many hops, and anything else is a comma-separated list of proxy
+ * addresses or subnets (e.g. `loopback, 10.0.0.0/8`).
+ */
+export function parseTrustProxy(value: string | undefined): boolean | number | string[] {
+    const trimmed = value?.trim().toLowerCase() ?? '';
+    if (trimmed === '' || trimmed === 'false') return false;
+    if (trimmed === 'true') return true;
+    if (/^\d+$/.test(trimmed)) return Number(trimmed);
+    return trimmed.split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+// Express resolves `req.ip` through X-Forwarded-For only as far as `trust proxy` allows.
+export function resolveClientIp(req: Request): string {
+    return req.ip || req.socket?.remoteAddress || 'unknown';
+}
@@ -0,0 +1,99 @@
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and CRLF/LF line endings.
+ * Blank lines are dropped so trailing newlines from spreadsheet exports are harmless.
+ */
+export function parseCsv(text: string): string[][] {
+    const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const pushRow = () => {
+        row.push(field);
+        field = '';
+        if (row.length > 1 || row[0].trim().length > 0) {
+            rows.push(row);
+        }
+        row = [];
+    };
+
+    for (let i = 0; i < input.length; i += 1) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (input[i + 1] === '"') {
+                    field += '"';
+                    i += 1;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n') {
+            pushRow();
+        } else if (char === '\r') {
+            if (input[i + 1] === '\n') i += 1;
+            pushRow();
+        } else {
+            field += char;
+        }
+    }
+
+    if (inQuotes) {
+        throw new Error('Unterminated quoted field in CSV');
+    }
+    if (field.length > 0 || row.length > 0) {
+        pushRow();
+    }
+
+    return rows;
+}
+
+/**
+ * Parses CSV text whose first line is a header into one record per data row.
+ * Cells are trimmed; empty cells are omitted from the record.
+ */
+export function parseCsvRecords(text: string): Array<Record<string, string>> {
+    const [header, ...dataRows] = parseCsv(text);
+    if (!header) return [];
+    const columns = header.map((column) => column.trim());
+
+    return dataRows.map((cells) => {
+        const record: Record<string, string> = {};
+        columns.forEach((column, index) => {
+            const value = cells[index]?.trim();
+            if (column && value) record[column] = value;
+        });
+        return record;
+    });
+}
+
+function escapeCsvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes records to CSV using the given column order. Missing values become empty cells.
+ */
+export function toCsv(columns: string[], records: Array<Record<string, unknown>>): string {
+    const lines = [columns.map(escapeCsvCell).join(',')];
+    for (const record of records) {
+        lines.push(columns.map((column) => escapeCsvCell(record[column])).join(','));
+    }
+    return `${lines.join('\r\n')}\r\n`;
+}
@@ -1,6 +1,15 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { getUtcDayRange, getUtcDayKey, shiftUtcDays, toUtcDayStart } from './dateUtils';
+import {
+    diffUtcDays,
+    getUtcDayRange,
+    getUtcDayKey,
+    getZonedDayKey,
+    isValidTimeZone,
+    shiftUtcDays,
+    toUtcDayStart,
+    toZonedDayStart,
+} from './dateUtils';
 
 test('toUtcDayStart normalizes to UTC midnight', () => {
     const start = toUtcDayStart('2026-03-01T18:45:10.000Z');
@@ -19,3 +28,13 @@ test('getUtcDayRange returns inclusive day start and next day end', () => {
     assert.equal(end.toISOString(), '2026-03-02T00:00:00.000Z');
     assert.equal(getUtcDayKey(start), '2026-03-01');
 });
+
+test('zoned day helpers read the calendar day in the given time zone', () => {
+    const lateEveningInLA = new Date('2026-03-02T05:30:00.000Z');
+    assert.equal(getZonedDayKey(lateEveningInLA, 'America/Los_Angeles'), '2026-03-01');
+    assert.equal(getZonedDayKey(lateEveningInLA, 'Asia/Tokyo'), '2026-03-02');
+    assert.equal(toZonedDayStart(lateEveningInLA, 'America/Los_Angeles').toISOString(), '2026-03-01T00:00:00.000Z');
+    assert.equal(diffUtcDays('2026-02-27', '2026-03-01'), 2);
+    assert.equal(isValidTimeZone('Europe/Berlin'), true);
+    assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+});
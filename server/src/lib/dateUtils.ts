@@ -46,3 +46,71 @@ export function getUtcDayRange(input?: string | Date): { start: Date; end: Date
 export function getUtcDayKey(input: Date): string {
     return toUtcDayStart(input).toISOString().slice(0, 10);
 }
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const zonedDayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Calendar day ("YYYY-MM-DD") that `instant` falls on for a clock in `timeZone`. */
+export function getZonedDayKey(instant: Date, timeZone: string): string {
+    let formatter = zonedDayFormatters.get(timeZone);
+    if (!formatter) {
+        // en-CA formats dates as YYYY-MM-DD.
+        formatter = new Intl.DateTimeFormat('en-CA', {
+            timeZone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+        });
+        zonedDayFormatters.set(timeZone, formatter);
+    }
+    return formatter.format(instant);
+}
+
+const zonedHourFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Hour of the day (0-23) on a clock in `timeZone` at `instant`. */
+export function getZonedHour(instant: Date, timeZone: string): number {
+    let formatter = zonedHourFormatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' });
+        zonedHourFormatters.set(timeZone, formatter);
+    }
+    return Number(formatter.format(instant)) % 24;
+}
+
+/**
+ * Local day in `timeZone` stored the way every day-keyed document stores it: UTC midnight
+ * of that calendar date. Defaults to the current instant.
+ */
+export function toZonedDayStart(instant: Date = new Date(), timeZone = 'UTC'): Date {
+    return toUtcDayStart(getZonedDayKey(instant, timeZone));
+}
+
+/** Whole calendar days from `from` to `to` (both day keys or day starts). */
+export function diffUtcDays(from: string | Date, to: string | Date): number {
+    return Math.round((toUtcDayStart(to).getTime() - toUtcDayStart(from).getTime()) / 86400000);
+}
+
+/** ISO week key ("YYYY-Www") of a local day stored as UTC midnight. */
+export function getIsoWeekKey(day: Date): string {
+    const d = new Date(day);
+    const dayNum = d.getUTCDay() || 7;
+    d.setUTCDate(d.getUTCDate() + 4 - dayNum);
+    const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+    const weekNo = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
+    return `${d.getUTCFullYear()}-W${String(weekNo).padStart(2, '0')}`;
+}
+
+/** Monday of the ISO week containing `day` (UTC midnight). */
+export function getIsoWeekStart(day: Date): Date {
+    const start = toUtcDayStart(day);
+    return shiftUtcDays(start, -((start.getUTCDay() || 7) - 1));
+}
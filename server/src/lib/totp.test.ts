@@ -0,0 +1,35 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { base32Decode, base32Encode, buildOtpauthUri, hotp, verifyTotp } from './totp';
+
+// RFC 4226 / RFC 6238 reference secret
+const RFC_SECRET = Buffer.from('12345678901234567890');
+
+test('hotp matches the RFC 4226 test vectors', () => {
+    const expected = ['755224', '287082', '359152', '969429', '338314'];
+    expected.forEach((code, counter) => assert.equal(hotp(RFC_SECRET, counter), code));
+    assert.equal(hotp(RFC_SECRET, 1, 8), '94287082');
+});
+
+test('verifyTotp accepts the current step and one either side, and reports which', () => {
+    const secret = base32Encode(RFC_SECRET);
+    assert.equal(secret, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    assert.deepEqual(base32Decode(secret.toLowerCase()), RFC_SECRET);
+
+    const now = new Date(59 * 1000);          // step 1
+    assert.equal(verifyTotp(secret, '287082', now), 1);
+    assert.equal(verifyTotp(secret, '755224', now), 0);
+    assert.equal(verifyTotp(secret, '359152', now), 2);
+    assert.equal(verifyTotp(secret, '969429', now), null);
+    assert.equal(verifyTotp(secret, '28708', now), null);
+});
+
+test('buildOtpauthUri encodes the label and the parameters apps read', () => {
+    const uri = buildOtpauthUri({ issuer: 'HealthTwin', account: 'amira@example.com', secret: 'ABC234' });
+    assert.equal(uri.startsWith('otpauth://totp/HealthTwin%3Aamira%40example.com?'), true);
+    const params = new URL(uri).searchParams;
+    assert.equal(params.get('secret'), 'ABC234');
+    assert.equal(params.get('issuer'), 'HealthTwin');
+    assert.equal(params.get('digits'), '6');
+    assert.equal(params.get('period'), '30');
+});
@@ -6,10 +6,15 @@
  *
  * Designed to be academically defensible as a "deterministic AI subsystem"
  * implementing threshold-based reasoning over multivariate health metrics.
+ *
+ * Thresholds are derived from the user's daily goals (defaults when none are set).
  */
 
+import { DailyGoals, DEFAULT_DAILY_GOALS } from '../models/UserGoals';
+
 export interface HealthEntry {
     steps?: number;
+    activeMinutes?: number;
     sleepHours?: number;
     waterLitres?: number;
     heartRate?: number;
@@ -22,6 +27,12 @@ export interface MoodEntry {
     stressLevel?: number;
 }
 
+export interface WorkoutEntry {
+    type?: string;
+    durationMinutes?: number;
+    perceivedExertion?: number;
+}
+
 export interface WellnessAnalysis {
     narrative: string;
     tips: string[];
@@ -32,14 +43,25 @@ export interface WellnessAnalysis {
 }
 
 // ─── Thresholds ────────────────────────────────────────────────────────────────
-const THRESHOLDS = {
-    steps: { great: 9000, good: 7000, low: 4000 },
-    sleep: { great: 7.5, good: 6.5, low: 5.5 },
-    water: { great: 2.0, good: 1.5, low: 1.0 },
-    hr: { low: 60, normal: 100 },
-    energy: { great: 75, good: 55, low: 35 },
-    stress: { low: 3, high: 7 },
-};
+// The default goals reproduce the original fixed bands (9k/7k/4k steps, 7.5/6.5/5.5h sleep, …).
+function buildThresholds(goals: DailyGoals) {
+    return {
+        steps: { great: goals.steps * 0.9, good: goals.steps * 0.7, low: goals.steps * 0.4 },
+        sleep: { great: goals.sleepHours - 0.5, good: goals.sleepHours - 1.5, low: goals.sleepHours - 2.5 },
+        water: { great: goals.waterLitres, good: goals.waterLitres * 0.75, low: goals.waterLitres * 0.5 },
+        active: { low: goals.activeMinutes * 0.5 },
+        hr: { low: 60, normal: 100 },
+        energy: { great: 75, good: 55, low: 35 },
+        stress: { low: 3, high: goals.stressMax },
+        workouts: { great: 4, good: 2 }, // sessions per week
+    };
+}
+
+type Thresholds = ReturnType<typeof buildThresholds>;
+
+const CARDIO_WORKOUTS = new Set(['walk', 'run', 'cycle', 'swim', 'hiit', 'sport']);
+const STRENGTH_WORKOUTS = new Set(['strength', 'hiit']);
+const MOBILITY_WORKOUTS = new Set(['yoga']);
 
 function avg(arr: number[]): number {
     return arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0;
@@ -92,6 +114,23 @@ const WATER_PHRASES = {
     low: ['You\'ve been under-hydrating this week — even mild dehydration affects energy and concentration significantly.'],
 };
 
+const WORKOUT_PHRASES = {
+    great: [
+        'You trained regularly this week — that kind of frequency is what builds lasting fitness.',
+        'Your workout schedule has been consistent, giving your body a steady stimulus to adapt to.',
+    ],
+    good: [
+        'You fitted in a couple of workouts this week — adding one more session would make a noticeable difference.',
+        'A few solid workouts this week — keep building on that rhythm.',
+    ],
+    low: [
+        'Only one workout made it into the week — scheduling sessions in advance makes them easier to keep.',
+    ],
+    none: [
+        'No workouts were logged this week — even one short session gives your Twin something to build on.',
+    ],
+};
+
 // ─── Tips library keyed by metric and severity ────────────────────────────────
 const TIPS: Record<string, string[]> = {
     sleep_low: [
@@ -108,6 +147,10 @@ const TIPS: Record<string, string[]> = {
         'Take the stairs instead of the lift and park further away — these micro-habits add up quickly.',
         'Set a reminder every 90 minutes to stand up and walk for 5 minutes — this alone can add 2,000+ steps.',
     ],
+    active_low: [
+        'Break your active minutes into two 15-minute blocks — a brisk walk at lunch and another after dinner.',
+        'Turn one sitting habit into a moving one: take calls on foot or stretch during TV ad breaks.',
+    ],
     steps_good: [
         'Challenge yourself with one longer walk per week — even 30 minutes makes a meaningful difference.',
         'Try a walking meeting or listening to podcasts while walking to make extra steps feel effortless.',
@@ -129,6 +172,25 @@ const TIPS: Record<string, string[]> = {
         'Eat a protein-rich breakfast within an hour of waking — this stabilises energy levels throughout the morning.',
         'Avoid caffeine after 2pm — it disrupts sleep quality even if you don\'t feel its effects at night.',
     ],
+    workouts_none: [
+        'Book two 20-minute workouts into your calendar this week — treat them like appointments you can\'t move.',
+        'Start with a brisk 20-minute walk or an easy bike ride twice this week and log it as a workout.',
+    ],
+    workouts_low: [
+        'Add one more workout on a day you usually rest — frequency matters more than intensity at first.',
+        'Pair a short workout with an existing habit, like right after work, so it happens automatically.',
+    ],
+    strength_missing: [
+        'Add one 20-minute strength session this week — squats, push-ups and rows keep muscles and joints resilient.',
+        'Balance your cardio with bodyweight strength work twice a week to support posture and metabolism.',
+    ],
+    cardio_missing: [
+        'Mix in a brisk walk, ride or swim between strength days — steady cardio supports heart health and recovery.',
+    ],
+    recovery: [
+        'Most of your sessions felt very hard — swap one for an easy walk or yoga so your body can recover.',
+        'Keep at least one low-effort session a week; recovery is when the training actually pays off.',
+    ],
     general: [
         'Log your health data daily this week — the more data your Digital Twin has, the more accurate its insights become.',
         'Track your mood alongside your physical metrics — the pattern between them often reveals your biggest lever for improvement.',
@@ -136,26 +198,68 @@ const TIPS: Record<string, string[]> = {
     ],
 };
 
+interface WorkoutPattern {
+    count: number;
+    hasCardio: boolean;
+    hasStrength: boolean;
+    hasMobility: boolean;
+    avgExertion: number | null;
+}
+
+function analyseWorkouts(workoutData: WorkoutEntry[]): WorkoutPattern {
+    const types = new Set(workoutData.map(w => w.type ?? 'other'));
+    const exertion = workoutData
+        .map(w => w.perceivedExertion)
+        .filter((value): value is number => typeof value === 'number');
+    return {
+        count: workoutData.length,
+        hasCardio: [...types].some(t => CARDIO_WORKOUTS.has(t)),
+        hasStrength: [...types].some(t => STRENGTH_WORKOUTS.has(t)),
+        hasMobility: [...types].some(t => MOBILITY_WORKOUTS.has(t)),
+        avgExertion: exertion.length ? avg(exertion) : null,
+    };
+}
+
 function selectTips(
+    thresholds: Thresholds,
     avgSteps: number,
+    avgActive: number | null,
     avgSleep: number,
     avgWater: number,
     avgStress: number,
-    avgEnergy: number
+    avgEnergy: number,
+    workouts: WorkoutPattern | null
 ): string[] {
     const priorities: Array<{ key: string; priority: number }> = [];
 
-    if (avgSleep < THRESHOLDS.sleep.low) priorities.push({ key: 'sleep_low', priority: 10 });
-    else if (avgSleep < THRESHOLDS.sleep.good) priorities.push({ key: 'sleep_good', priority: 6 });
+    if (avgSleep < thresholds.sleep.low) priorities.push({ key: 'sleep_low', priority: 10 });
+    else if (avgSleep < thresholds.sleep.good) priorities.push({ key: 'sleep_good', priority: 6 });
 
-    if (avgSteps < THRESHOLDS.steps.low) priorities.push({ key: 'steps_low', priority: 9 });
-    else if (avgSteps < THRESHOLDS.steps.good) priorities.push({ key: 'steps_good', priority: 5 });
+    if (avgSteps < thresholds.steps.low) priorities.push({ key: 'steps_low', priority: 9 });
+    else if (avgSteps < thresholds.steps.good) priorities.push({ key: 'steps_good', priority: 5 });
 
-    if (avgWater < THRESHOLDS.water.low) priorities.push({ key: 'water_low', priority: 8 });
-    else if (avgWater < THRESHOLDS.water.good) priorities.push({ key: 'water_good', priority: 4 });
+    // Only judged when the entries report active minutes at all.
+    if (avgActive !== null && avgActive < thresholds.active.low) priorities.push({ key: 'active_low', priority: 5 });
 
-    if (avgStress > THRESHOLDS.stress.high) priorities.push({ key: 'stress_high', priority: 7 });
-    if (avgEnergy < THRESHOLDS.energy.low) priorities.push({ key: 'energy_low', priority: 6 });
+    if (avgWater < thresholds.water.low) priorities.push({ key: 'water_low', priority: 8 });
+    else if (avgWater < thresholds.water.good) priorities.push({ key: 'water_good', priority: 4 });
+
+    if (avgStress > thresholds.stress.high) priorities.push({ key: 'stress_high', priority: 7 });
+    if (avgEnergy < thresholds.energy.low) priorities.push({ key: 'energy_low', priority: 6 });
+
+    // Workout reasoning only applies when the caller supplied workout history.
+    if (workouts) {
+        if (workouts.count === 0) {
+            priorities.push({ key: 'workouts_none', priority: avgSteps < thresholds.steps.good ? 8 : 5 });
+        } else {
+            if (workouts.count < thresholds.workouts.good) priorities.push({ key: 'workouts_low', priority: 5 });
+            if (!workouts.hasStrength) priorities.push({ key: 'strength_missing', priority: 4 });
+            else if (!workouts.hasCardio) priorities.push({ key: 'cardio_missing', priority: 4 });
+            if (workouts.avgExertion !== null && workouts.avgExertion >= 8 && !workouts.hasMobility) {
+                priorities.push({ key: 'recovery', priority: 6 });
+            }
+        }
+    }
 
     // Sort by priority, take top 3 unique categories
     priorities.sort((a, b) => b.priority - a.priority);
@@ -203,29 +307,56 @@ const OUTCOMES = {
 
 function selectOutcome(weakestMetric: string): string {
     if (weakestMetric === 'sleep') return pick(OUTCOMES.sleep_focus);
-    if (weakestMetric === 'steps') return pick(OUTCOMES.active_focus);
+    if (weakestMetric === 'steps' || weakestMetric === 'workouts') return pick(OUTCOMES.active_focus);
     if (weakestMetric === 'water') return pick(OUTCOMES.hydration_focus);
     return pick(OUTCOMES.general);
 }
 
+export type WellnessMetric = 'sleep' | 'steps' | 'water' | 'workouts';
+
+/**
+ * Metrics ordered from furthest to closest to their "great" threshold (average over the
+ * given days divided by the threshold). Workouts are only ranked when workout data is passed.
+ */
+export function rankWeakestMetrics(
+    healthData: HealthEntry[],
+    workoutData?: WorkoutEntry[],
+    goals: DailyGoals = DEFAULT_DAILY_GOALS
+): WellnessMetric[] {
+    const thresholds = buildThresholds(goals);
+    const scores: Array<[WellnessMetric, number]> = [
+        ['sleep', avg(healthData.map(e => e.sleepHours || 0)) / thresholds.sleep.great],
+        ['steps', avg(healthData.map(e => e.steps || 0)) / thresholds.steps.great],
+        ['water', avg(healthData.map(e => e.waterLitres || 0)) / thresholds.water.great],
+    ];
+    if (workoutData) scores.push(['workouts', workoutData.length / thresholds.workouts.great]);
+    return scores.sort((a, b) => a[1] - b[1]).map(([metric]) => metric);
+}
+
 // ─── Main export ──────────────────────────────────────────────────────────────
 export function generateWellnessAnalysis(
     healthData: HealthEntry[],
-    moodData: MoodEntry[]
+    moodData: MoodEntry[],
+    workoutData?: WorkoutEntry[],
+    goals: DailyGoals = DEFAULT_DAILY_GOALS
 ): WellnessAnalysis {
+    const thresholds = buildThresholds(goals);
     // Compute averages
     const aSteps = avg(healthData.map(e => e.steps || 0));
+    const activeValues = healthData.flatMap(e => typeof e.activeMinutes === 'number' ? [e.activeMinutes] : []);
+    const aActive = activeValues.length ? avg(activeValues) : null;
     const aSleep = avg(healthData.map(e => e.sleepHours || 0));
     const aWater = avg(healthData.map(e => e.waterLitres || 0));
     const aHR = avg(healthData.map(e => e.heartRate || 72));
     const aEnergy = avg(moodData.map(e => e.energyLevel || 5)) * 10; // normalise to 0-100
     const aStress = avg(moodData.map(e => e.stressLevel || 5));
     const daysLogged = healthData.length;
+    const workouts = workoutData ? analyseWorkouts(workoutData) : null;
 
     // ── Build narrative ─────────────────────────────────────────────────────────
-    const stepPhrase = aSteps >= THRESHOLDS.steps.great ? pick(STEP_PHRASES.great) : aSteps >= THRESHOLDS.steps.good ? pick(STEP_PHRASES.good) : pick(STEP_PHRASES.low);
-    const sleepPhrase = aSleep >= THRESHOLDS.sleep.great ? pick(SLEEP_PHRASES.great) : aSleep >= THRESHOLDS.sleep.good ? pick(SLEEP_PHRASES.good) : pick(SLEEP_PHRASES.low);
-    const waterPhrase = aWater >= THRESHOLDS.water.great ? pick(WATER_PHRASES.great) : aWater >= THRESHOLDS.water.good ? pick(WATER_PHRASES.good) : pick(WATER_PHRASES.low);
+    const stepPhrase = aSteps >= thresholds.steps.great ? pick(STEP_PHRASES.great) : aSteps >= thresholds.steps.good ? pick(STEP_PHRASES.good) : pick(STEP_PHRASES.low);
+    const sleepPhrase = aSleep >= thresholds.sleep.great ? pick(SLEEP_PHRASES.great) : aSleep >= thresholds.sleep.good ? pick(SLEEP_PHRASES.good) : pick(SLEEP_PHRASES.low);
+    const waterPhrase = aWater >= thresholds.water.great ? pick(WATER_PHRASES.great) : aWater >= thresholds.water.good ? pick(WATER_PHRASES.good) : pick(WATER_PHRASES.low);
 
     const loggingNote = daysLogged >= 6
         ? 'You\'ve done a great job logging consistently — your Digital Twin has a clear picture of your week.'
@@ -233,19 +364,20 @@ export function generateWellnessAnalysis(
             ? `You logged ${daysLogged} out of 7 days — good effort, though daily logging would give even sharper insights.`
             : `You logged ${daysLogged} day(s) this week — try to log daily so your Twin can track patterns more accurately.`;
 
-    const narrative = `${sleepPhrase} ${stepPhrase} ${loggingNote}`;
+    const workoutPhrase = !workouts
+        ? null
+        : workouts.count >= thresholds.workouts.great ? pick(WORKOUT_PHRASES.great)
+            : workouts.count >= thresholds.workouts.good ? pick(WORKOUT_PHRASES.good)
+                : workouts.count > 0 ? pick(WORKOUT_PHRASES.low) : pick(WORKOUT_PHRASES.none);
+
+    const narrative = [sleepPhrase, stepPhrase, workoutPhrase, loggingNote].filter(Boolean).join(' ');
 
     // ── Find weakest metric for outcome selection ───────────────────────────────
-    const scores: Record<string, number> = {
-        sleep: aSleep / THRESHOLDS.sleep.great,
-        steps: aSteps / THRESHOLDS.steps.great,
-        water: aWater / THRESHOLDS.water.great,
-    };
-    const weakestMetric = Object.entries(scores).sort((a, b) => a[1] - b[1])[0][0];
+    const weakestMetric = rankWeakestMetrics(healthData, workoutData, goals)[0];
 
     return {
         narrative,
-        tips: selectTips(aSteps, aSleep, aWater, aStress, aEnergy),
+        tips: selectTips(thresholds, aSteps, aActive, aSleep, aWater, aStress, aEnergy, workouts),
         predictedOutcome: selectOutcome(weakestMetric),
         disclaimer: '⚠️ This is general wellness guidance only and is not medical advice. Please consult a healthcare professional for medical concerns.',
         fromFallback: true,
@@ -0,0 +1,27 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { crc32, createZipArchive } from './zipArchive';
+
+test('crc32 matches the standard check value', () => {
+    assert.equal(crc32(Buffer.from('123456789')), 0xcbf43926);
+});
+
+test('createZipArchive writes readable local entries and a central directory', () => {
+    const content = JSON.stringify({ steps: Array.from({ length: 50 }, () => 8000) });
+    const archive = createZipArchive([{ name: 'health_entries.json', data: content }]);
+
+    assert.equal(archive.readUInt32LE(0), 0x04034b50);
+    const method = archive.readUInt16LE(8);
+    const compressedSize = archive.readUInt32LE(18);
+    const nameLength = archive.readUInt16LE(26);
+    assert.equal(archive.subarray(30, 30 + nameLength).toString('utf8'), 'health_entries.json');
+
+    const payload = archive.subarray(30 + nameLength, 30 + nameLength + compressedSize);
+    const restored = method === 8 ? zlib.inflateRawSync(payload) : payload;
+    assert.equal(restored.toString('utf8'), content);
+
+    const end = archive.subarray(archive.length - 22);
+    assert.equal(end.readUInt32LE(0), 0x06054b50);
+    assert.equal(end.readUInt16LE(10), 1);
+});
@@ -0,0 +1,104 @@
+import zlib from 'zlib';
+
+export interface ZipEntry {
+    name: string;
+    data: Buffer | string;
+    modifiedAt?: Date;
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20;
+const UTF8_NAME_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n += 1) {
+        let c = n;
+        for (let k = 0; k < 8; k += 1) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(buffer: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < buffer.length; i += 1) {
+        crc = CRC32_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+/**
+ * Builds an in-memory ZIP archive. Entries are deflated unless compression does not
+ * shrink them (already-compressed media such as PNG/MP4), in which case they are stored.
+ */
+export function createZipArchive(entries: ZipEntry[]): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name.replace(/\\/g, '/'), 'utf8');
+        const raw = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : entry.data;
+        const deflated = zlib.deflateRawSync(raw);
+        const useDeflate = deflated.length < raw.length;
+        const payload = useDeflate ? deflated : raw;
+        const checksum = crc32(raw);
+        const stamp = toDosDateTime(entry.modifiedAt ?? new Date());
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+        local.writeUInt16LE(ZIP_VERSION, 4);
+        local.writeUInt16LE(UTF8_NAME_FLAG, 6);
+        local.writeUInt16LE(useDeflate ? METHOD_DEFLATE : METHOD_STORE, 8);
+        local.writeUInt16LE(stamp.time, 10);
+        local.writeUInt16LE(stamp.date, 12);
+        local.writeUInt32LE(checksum, 14);
+        local.writeUInt32LE(payload.length, 18);
+        local.writeUInt32LE(raw.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+        central.writeUInt16LE(ZIP_VERSION, 4);
+        central.writeUInt16LE(ZIP_VERSION, 6);
+        central.writeUInt16LE(UTF8_NAME_FLAG, 8);
+        central.writeUInt16LE(useDeflate ? METHOD_DEFLATE : METHOD_STORE, 10);
+        central.writeUInt16LE(stamp.time, 12);
+        central.writeUInt16LE(stamp.date, 14);
+        central.writeUInt32LE(checksum, 16);
+        central.writeUInt32LE(payload.length, 20);
+        central.writeUInt32LE(raw.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        localParts.push(local, name, payload);
+        centralParts.push(central, name);
+        offset += local.length + name.length + payload.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+}
@@ -0,0 +1,28 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { authenticate, AuthRequest } from './auth';
+
+const JWT_SECRET = 'test-secret';
+
+async function run(token: string) {
+    process.env.JWT_SECRET = JWT_SECRET;
+    const sent: { status?: number; body?: { error?: string } } = {};
+    const res = {
+        status(code: number) { sent.status = code; return this; },
+        json(body: typeof sent.body) { sent.body = body; return this; },
+    } as unknown as Response;
+    let passed = false;
+    await authenticate({ headers: { authorization: `Bearer ${token}` } } as AuthRequest, res, () => { passed = true; });
+    return { sent, passed };
+}
+
+test('authenticate rejects access tokens that name no device session', async () => {
+    const withoutSession = await run(jwt.sign({ userId: 'user-1' }, JWT_SECRET));
+    assert.equal(withoutSession.passed, false);
+    assert.equal(withoutSession.sent.status, 401);
+
+    const challenge = await run(jwt.sign({ sub: 'user-1', purpose: '2fa' }, JWT_SECRET));
+    assert.equal(challenge.sent.status, 401);
+});
@@ -1,16 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { IShareLink } from '../models/ShareLink';
+import User, { UserRole } from '../models/User';
 import { sendError } from '../lib/apiResponse';
+import { isSessionActive } from '../services/sessionService';
+import { findActiveShareLink, shareTokenSchema } from '../services/shareLinkService';
 
 export interface AuthRequest extends Request {
     userId?: string;
+    sessionId?: string;     // Device session behind the access token
 }
 
-export const authenticate = (
+export interface ShareRequest extends Request {
+    shareLink?: IShareLink;
+}
+
+// Access tokens must name a device session that still exists, so signing out, revoking a
+// device or resetting the password locks the token out immediately instead of at expiry.
+export const authenticate = async (
     req: AuthRequest,
     res: Response,
     next: NextFunction
-): void => {
+): Promise<void> => {
     const authHeader = req.headers.authorization;
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
         sendError(res, 401, 'Unauthorized — no token provided');
@@ -18,11 +29,78 @@ export const authenticate = (
     }
 
     const token = authHeader.split(' ')[1];
+    let decoded: { userId?: unknown; sid?: unknown };
     try {
-        const decoded = jwt.verify(token, process.env.JWT_SECRET as string) as { userId: string };
-        req.userId = decoded.userId;
-        next();
+        decoded = jwt.verify(token, process.env.JWT_SECRET as string) as { userId?: unknown; sid?: unknown };
     } catch {
         sendError(res, 401, 'Unauthorized — invalid token');
+        return;
+    }
+    // Other signed tokens (e.g. the 2FA login challenge) carry no userId and are not access tokens.
+    if (typeof decoded.userId !== 'string' || typeof decoded.sid !== 'string') {
+        sendError(res, 401, 'Unauthorized — invalid token');
+        return;
+    }
+
+    try {
+        if (!await isSessionActive(decoded.userId, decoded.sid)) {
+            sendError(res, 401, 'Unauthorized — session ended');
+            return;
+        }
+    } catch {
+        sendError(res, 500, 'Could not verify session');
+        return;
+    }
+    req.userId = decoded.userId;
+    req.sessionId = decoded.sid;
+    next();
+};
+
+// Mount after `authenticate`. The role is read from the database on every request rather than
+// carried in the token, so revoking a role takes effect immediately.
+export const requireRole = (...roles: UserRole[]) => async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    if (!req.userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const user = await User.findById(req.userId).select('role').lean();
+        if (!user || !roles.includes(user.role)) {
+            sendError(res, 403, 'Forbidden');
+            return;
+        }
+        next();
+    } catch {
+        sendError(res, 500, 'Could not verify permissions');
+    }
+};
+
+// Share links authenticate with the token in the `:token` route parameter instead of a JWT.
+export const authenticateShareLink = async (
+    req: ShareRequest,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    const parsed = shareTokenSchema.safeParse(req.params);
+    if (!parsed.success) {
+        sendError(res, 401, 'Unauthorized — invalid share link');
+        return;
+    }
+
+    try {
+        const link = await findActiveShareLink(parsed.data.token);
+        if (!link) {
+            sendError(res, 401, 'Unauthorized — share link expired or revoked');
+            return;
+        }
+        req.shareLink = link;
+        next();
+    } catch {
+        sendError(res, 500, 'Could not verify share link');
     }
 };
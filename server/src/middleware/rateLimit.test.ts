@@ -0,0 +1,64 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Response } from 'express';
+import { AuthRequest } from './auth';
+import { rateLimit } from './rateLimit';
+import { createMemoryRateLimitStore, RateLimitBudget, setRateLimitStore } from '../services/rateLimitService';
+
+function fakeExchange(req: Partial<AuthRequest>) {
+    const headers: Record<string, string> = {};
+    const sent: { status?: number; body?: unknown } = {};
+    const res = {
+        setHeader(name: string, value: string) { headers[name] = value; return this; },
+        getHeader(name: string) { return headers[name]; },
+        status(code: number) { sent.status = code; return this; },
+        json(body: unknown) { sent.body = body; return this; },
+    } as unknown as Response;
+    return { req: { headers: {}, ip: '1.2.3.4', ...req } as AuthRequest, res, headers, sent };
+}
+
+test('rateLimit reports the budget in RateLimit headers and answers 429 with Retry-After once spent', async () => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    try {
+        const budget: RateLimitBudget = { name: 'test', max: 2, windowMs: 60_000, by: 'user' };
+        const limiter = rateLimit(budget);
+        let passed = 0;
+
+        for (let i = 0; i < 2; i += 1) {
+            const { req, res, headers } = fakeExchange({ userId: 'user-1' });
+            await limiter(req, res, () => { passed += 1; });
+            assert.equal(headers['RateLimit-Limit'], '2');
+            assert.equal(headers['RateLimit-Remaining'], String(1 - i));
+            assert.equal(headers['RateLimit-Policy'], '2;w=60');
+        }
+
+        const blocked = fakeExchange({ userId: 'user-1' });
+        await limiter(blocked.req, blocked.res, () => { passed += 1; });
+        assert.equal(passed, 2);
+        assert.equal(blocked.sent.status, 429);
+        assert.equal(blocked.headers['Retry-After'], '60');
+        assert.equal(blocked.headers['RateLimit-Remaining'], '0');
+
+        // Budgets are per user: someone else on the same IP is unaffected
+        const other = fakeExchange({ userId: 'user-2' });
+        await limiter(other.req, other.res, () => { passed += 1; });
+        assert.equal(passed, 3);
+    } finally {
+        setRateLimitStore(null);
+    }
+});
+
+test('with several limiters the headers describe the tightest one', async () => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    try {
+        const wide = rateLimit({ name: 'wide', max: 100, windowMs: 60_000, by: 'ip' });
+        const tight = rateLimit({ name: 'tight', max: 3, windowMs: 60_000, by: 'ip' });
+        const { req, res, headers } = fakeExchange({});
+        await tight(req, res, () => undefined);
+        await wide(req, res, () => undefined);
+        assert.equal(headers['RateLimit-Limit'], '3');
+        assert.equal(headers['RateLimit-Remaining'], '2');
+    } finally {
+        setRateLimitStore(null);
+    }
+});
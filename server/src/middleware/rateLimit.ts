@@ -0,0 +1,64 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth';
+import { sendError } from '../lib/apiResponse';
+import { resolveClientIp } from '../lib/clientIp';
+import { getRateLimitStore, RateLimitBudget } from '../services/rateLimitService';
+
+// Standard headers: Retry-After plus the IETF RateLimit-* fields (reset in seconds).
+export const RATE_LIMIT_HEADERS = ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy'];
+
+function secondsUntil(resetAt: Date, now: Date): number {
+    return Math.max(1, Math.ceil((resetAt.getTime() - now.getTime()) / 1000));
+}
+
+function waitMessage(seconds: number): string {
+    if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/** 429 with Retry-After; `message` defaults to a generic "try again in …". */
+export function sendRateLimited(res: Response, retryAfterMs: number, message?: string): void {
+    const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    res.setHeader('Retry-After', String(seconds));
+    sendError(res, 429, message ?? `Too many requests. Try again in ${waitMessage(seconds)}.`);
+}
+
+/**
+ * Counts the request against `budget` and answers 429 once it is spent. Mount per-user
+ * budgets after `authenticate`. When several limiters run, the headers describe whichever
+ * has the fewest requests left. If the store is unreachable the request goes through.
+ */
+export function rateLimit(budget: RateLimitBudget) {
+    const policy = `${budget.max};w=${Math.round(budget.windowMs / 1000)}`;
+
+    return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+        const now = new Date();
+        const subject = budget.by === 'user' && req.userId ? `user:${req.userId}` : `ip:${resolveClientIp(req)}`;
+
+        let counter;
+        try {
+            counter = await getRateLimitStore().increment(`${budget.name}:${subject}`, budget.windowMs, now);
+        } catch (error: unknown) {
+            console.error('Rate limit store error:', error);
+            next();
+            return;
+        }
+
+        const remaining = Math.max(0, budget.max - counter.count);
+        const resetSeconds = secondsUntil(counter.resetAt, now);
+        const reported = res.getHeader('RateLimit-Remaining');
+        if (reported === undefined || remaining < Number(reported)) {
+            res.setHeader('RateLimit-Limit', String(budget.max));
+            res.setHeader('RateLimit-Remaining', String(remaining));
+            res.setHeader('RateLimit-Reset', String(resetSeconds));
+            res.setHeader('RateLimit-Policy', policy);
+        }
+
+        if (counter.count > budget.max) {
+            sendRateLimited(res, resetSeconds * 1000);
+            return;
+        }
+        next();
+    };
+}
@@ -0,0 +1,38 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response, RequestHandler } from 'express';
+import multer from 'multer';
+import { handleUpload, limitUploadBytes } from './upload';
+
+function run(upload: RequestHandler, req = {} as Request) {
+    const sent: { status?: number; body?: { success?: boolean; error?: string } } = {};
+    const res = {
+        status(code: number) { sent.status = code; return this; },
+        json(body: typeof sent.body) { sent.body = body; return this; },
+    } as unknown as Response;
+    let passed = false;
+    handleUpload(upload)(req, res, () => { passed = true; });
+    return { sent, passed };
+}
+
+test('handleUpload answers multer limit errors as JSON instead of passing them on', () => {
+    const tooLarge = run((_req, _res, next) => next(new multer.MulterError('LIMIT_FILE_SIZE', 'file')));
+    assert.equal(tooLarge.passed, false);
+    assert.equal(tooLarge.sent.status, 413);
+    assert.equal(tooLarge.sent.body?.success, false);
+
+    const unexpected = run((_req, _res, next) => next(new multer.MulterError('LIMIT_UNEXPECTED_FILE', 'photo')));
+    assert.equal(unexpected.sent.status, 400);
+    assert.match(unexpected.sent.body?.error ?? '', /photo/);
+
+    assert.equal(run((_req, _res, next) => next()).passed, true);
+});
+
+test('limitUploadBytes requires a Content-Length and rejects one over the cap', () => {
+    const limit = limitUploadBytes(1024);
+    const withLength = (length?: string) => ({ headers: length ? { 'content-length': length } : {} }) as Request;
+
+    assert.equal(run(limit, withLength()).sent.status, 411);
+    assert.equal(run(limit, withLength('4096')).sent.status, 413);
+    assert.equal(run(limit, withLength('512')).passed, true);
+});
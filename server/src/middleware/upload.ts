@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+import { sendError } from '../lib/apiResponse';
+
+const TOO_LARGE_CODES = new Set(['LIMIT_FILE_SIZE', 'LIMIT_FILE_COUNT', 'LIMIT_PART_COUNT', 'LIMIT_FIELD_VALUE']);
+
+/**
+ * Runs a multer middleware and answers its errors in the API envelope: 413 when a size or
+ * count limit is hit, 400 for anything else wrong with the upload (e.g. an unexpected field).
+ */
+export function handleUpload(upload: RequestHandler): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        upload(req, res, (error?: unknown) => {
+            if (!error) {
+                next();
+                return;
+            }
+            if (error instanceof multer.MulterError) {
+                const field = error.field ? ` (${error.field})` : '';
+                sendError(res, TOO_LARGE_CODES.has(error.code) ? 413 : 400, `${error.message}${field}`);
+                return;
+            }
+            sendError(res, 400, 'Could not read upload');
+        });
+    };
+}
+
+/**
+ * Rejects a request body declared larger than `maxBytes` before anything is buffered. Node
+ * stops reading at the declared Content-Length, so a length is required and is a hard cap.
+ */
+export function limitUploadBytes(maxBytes: number): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const declared = Number(req.headers['content-length']);
+        if (!req.headers['content-length'] || !Number.isFinite(declared)) {
+            sendError(res, 411, 'Content-Length is required for uploads');
+            return;
+        }
+        if (declared > maxBytes) {
+            sendError(res, 413, `Upload is larger than ${Math.round(maxBytes / (1024 * 1024))} MB`);
+            return;
+        }
+        next();
+    };
+}
@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+// A single-use token sent by email. Only its SHA-256 is stored; MongoDB's TTL monitor
+// removes it once it expires, used or not.
+export interface IAccountToken extends Document {
+    userId: mongoose.Types.ObjectId;
+    purpose: AccountTokenPurpose;
+    tokenHash: string;
+    email: string;              // Address the token was sent to
+    expiresAt: Date;
+    usedAt: Date | null;
+    createdAt: Date;
+}
+
+const AccountTokenSchema = new Schema<IAccountToken>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        purpose: { type: String, enum: ['password_reset', 'email_verification'], required: true },
+        tokenHash: { type: String, required: true },
+        email: { type: String, required: true, lowercase: true, trim: true },
+        expiresAt: { type: Date, required: true },
+        usedAt: { type: Date, default: null },
+    },
+    { timestamps: true }
+);
+
+AccountTokenSchema.index({ tokenHash: 1 }, { unique: true });
+AccountTokenSchema.index({ userId: 1, purpose: 1 });
+AccountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IAccountToken>('AccountToken', AccountTokenSchema);
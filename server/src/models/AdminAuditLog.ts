@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AdminAuditOutcome = 'pending' | 'succeeded' | 'not_found' | 'failed';
+
+export const ADMIN_AUDIT_OUTCOMES: AdminAuditOutcome[] = ['pending', 'succeeded', 'not_found', 'failed'];
+
+// One row per admin API call. It is written as `pending` before the action runs, so nothing
+// happens unlogged, and completed with the outcome afterwards. Kept for a year.
+export interface IAdminAuditLog extends Document {
+    adminId: mongoose.Types.ObjectId;
+    action: string;                     // e.g. 'user.search', 'avatar.reset'
+    targetUserId: mongoose.Types.ObjectId | null;
+    details: Record<string, unknown>;   // Request parameters, never user content
+    ip: string | null;
+    outcome: AdminAuditOutcome;         // Stays `pending` only if the server stopped mid-action
+    result: Record<string, unknown> | null; // Affected counts; never user content
+    error: string | null;
+    completedAt: Date | null;
+    createdAt: Date;
+}
+
+const AUDIT_RETENTION_SECONDS = 365 * 24 * 60 * 60;
+
+const AdminAuditLogSchema = new Schema<IAdminAuditLog>(
+    {
+        adminId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        action: { type: String, required: true },
+        targetUserId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+        details: { type: Schema.Types.Mixed, default: {} },
+        ip: { type: String, default: null },
+        outcome: { type: String, enum: ADMIN_AUDIT_OUTCOMES, default: 'pending' },
+        result: { type: Schema.Types.Mixed, default: null },
+        error: { type: String, default: null },
+        completedAt: { type: Date, default: null },
+    },
+    { timestamps: { createdAt: true, updatedAt: false }, minimize: false }
+);
+
+AdminAuditLogSchema.index({ createdAt: -1 });
+AdminAuditLogSchema.index({ targetUserId: 1, createdAt: -1 });
+AdminAuditLogSchema.index({ createdAt: 1 }, { expireAfterSeconds: AUDIT_RETENTION_SECONDS });
+
+export default mongoose.model<IAdminAuditLog>('AdminAuditLog', AdminAuditLogSchema);
@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SessionPlatform = 'ios' | 'android' | 'web' | 'unknown';
+
+// One signed-in device. Only a SHA-256 of the current refresh token is stored; each refresh
+// rotates it and keeps the previous hash, so replaying a rotated token can be detected.
+export interface IAuthSession extends Document {
+    userId: mongoose.Types.ObjectId;
+    refreshTokenHash: string;
+    previousTokenHash: string | null;
+    deviceName: string;
+    platform: SessionPlatform;
+    userAgent: string | null;
+    ip: string | null;
+    lastSeenAt: Date;
+    expiresAt: Date;              // Refresh token expiry; slides forward on every refresh
+    createdAt: Date;
+}
+
+const AuthSessionSchema = new Schema<IAuthSession>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        refreshTokenHash: { type: String, required: true },
+        previousTokenHash: { type: String, default: null },
+        deviceName: { type: String, required: true, trim: true, maxlength: 100 },
+        platform: { type: String, enum: ['ios', 'android', 'web', 'unknown'], default: 'unknown' },
+        userAgent: { type: String, default: null, maxlength: 300 },
+        ip: { type: String, default: null },
+        lastSeenAt: { type: Date, required: true },
+        expiresAt: { type: Date, required: true },
+    },
+    { timestamps: true }
+);
+
+AuthSessionSchema.index({ refreshTokenHash: 1 }, { unique: true });
+AuthSessionSchema.index({ previousTokenHash: 1 });
+AuthSessionSchema.index({ userId: 1, lastSeenAt: -1 });
+AuthSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IAuthSession>('AuthSession', AuthSessionSchema);
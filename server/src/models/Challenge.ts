@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ChallengeFocus = 'sleep' | 'steps' | 'water' | 'workouts';
+
+export const CHALLENGE_FOCUSES: ChallengeFocus[] = ['sleep', 'steps', 'water', 'workouts'];
+
+export interface IChallengeFilter {
+    comparator: 'gte' | 'lte';
+    value: number;
+}
+
+// Rule fields are copied from the template at assignment, with goal-based values resolved,
+// so editing goals or the template file never moves a running challenge.
+export interface IChallenge extends Document {
+    userId: mongoose.Types.ObjectId;
+    weekKey: string;          // ISO week, e.g. "2026-W12"
+    weekStart: Date;          // Monday of that week (UTC midnight day key)
+    templateId: string;
+    focus: ChallengeFocus;    // Metric that was weakest when the challenge was assigned
+    title: string;
+    description: string;
+    icon: string;
+    metric: string;
+    aggregation: string;
+    where: IChallengeFilter | null;
+    minSamples: number;
+    comparator: 'gte' | 'lte';
+    target: number;
+    current: number | null;   // Progress at the last evaluation
+    completedAt: Date | null;
+    createdAt: Date;
+}
+
+const ChallengeFilterSchema = new Schema<IChallengeFilter>(
+    {
+        comparator: { type: String, enum: ['gte', 'lte'], required: true },
+        value: { type: Number, required: true },
+    },
+    { _id: false }
+);
+
+const ChallengeSchema = new Schema<IChallenge>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        weekKey: { type: String, required: true },
+        weekStart: { type: Date, required: true },
+        templateId: { type: String, required: true },
+        focus: { type: String, enum: CHALLENGE_FOCUSES, required: true },
+        title: { type: String, required: true },
+        description: { type: String, required: true },
+        icon: { type: String, default: '🎯' },
+        metric: { type: String, required: true },
+        aggregation: { type: String, required: true },
+        where: { type: ChallengeFilterSchema, default: null },
+        minSamples: { type: Number, default: 1, min: 1 },
+        comparator: { type: String, enum: ['gte', 'lte'], required: true },
+        target: { type: Number, required: true, min: 0 },
+        current: { type: Number, default: null },
+        completedAt: { type: Date, default: null },
+    },
+    { timestamps: true }
+);
+
+ChallengeSchema.index({ userId: 1, weekKey: 1, templateId: 1 }, { unique: true });
+ChallengeSchema.index({ userId: 1, weekStart: -1 });
+
+export default mongoose.model<IChallenge>('Challenge', ChallengeSchema);
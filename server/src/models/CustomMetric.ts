@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type CustomMetricValueType = 'numeric' | 'boolean' | 'scale';
+export type CustomMetricAggregation = 'sum' | 'average' | 'max' | 'min' | 'last';
+
+export const CUSTOM_METRIC_VALUE_TYPES: CustomMetricValueType[] = ['numeric', 'boolean', 'scale'];
+export const CUSTOM_METRIC_AGGREGATIONS: CustomMetricAggregation[] = ['sum', 'average', 'max', 'min', 'last'];
+
+export interface ICustomMetric extends Document {
+    userId: mongoose.Types.ObjectId;
+    name: string;
+    unit?: string;
+    valueType: CustomMetricValueType;
+    aggregation: CustomMetricAggregation; // How several logs on one day combine into the daily value
+    scaleMin?: number;                    // Only for valueType "scale"
+    scaleMax?: number;
+    archived: boolean;
+    createdAt: Date;
+}
+
+const CustomMetricSchema = new Schema<ICustomMetric>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+        name: { type: String, required: true, trim: true, maxlength: 40 },
+        unit: { type: String, trim: true, maxlength: 20 },
+        valueType: { type: String, enum: CUSTOM_METRIC_VALUE_TYPES, required: true },
+        aggregation: { type: String, enum: CUSTOM_METRIC_AGGREGATIONS, required: true },
+        scaleMin: { type: Number },
+        scaleMax: { type: Number },
+        archived: { type: Boolean, default: false },
+    },
+    { timestamps: true }
+);
+
+// Metric names are unique per user (case-insensitive).
+CustomMetricSchema.index({ userId: 1, name: 1 }, { unique: true, collation: { locale: 'en', strength: 2 } });
+
+export default mongoose.model<ICustomMetric>('CustomMetric', CustomMetricSchema);
@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICustomMetricLog {
+    value: number;
+    loggedAt: Date;
+}
+
+export interface ICustomMetricValue extends Document {
+    userId: mongoose.Types.ObjectId;
+    metricId: mongoose.Types.ObjectId;
+    date: Date;                 // Day key as UTC midnight (matches HealthEntry.date)
+    logs: ICustomMetricLog[];   // Individual logs for the day; booleans are stored as 0/1
+    value: number;              // Daily value after the metric's aggregation
+    createdAt: Date;
+}
+
+const CustomMetricValueSchema = new Schema<ICustomMetricValue>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+        metricId: { type: Schema.Types.ObjectId, ref: 'CustomMetric', required: true },
+        date: { type: Date, required: true },
+        logs: [{
+            _id: false,
+            value: { type: Number, required: true },
+            loggedAt: { type: Date, required: true },
+        }],
+        value: { type: Number, required: true },
+    },
+    { timestamps: true }
+);
+
+// One daily value per metric per day.
+CustomMetricValueSchema.index({ metricId: 1, date: 1 }, { unique: true });
+CustomMetricValueSchema.index({ userId: 1, date: 1 });
+
+export default mongoose.model<ICustomMetricValue>('CustomMetricValue', CustomMetricValueSchema);
@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type RevisionEntryType = 'health' | 'mood';
+export type RevisionSource = 'daily_log' | 'health_api' | 'mood_api' | 'import' | 'restore' | 'undo';
+
+export const REVISION_ENTRY_TYPES: RevisionEntryType[] = ['health', 'mood'];
+export const REVISION_SOURCES: RevisionSource[] = ['daily_log', 'health_api', 'mood_api', 'import', 'restore', 'undo'];
+
+export type EntrySnapshot = Record<string, string | number | null>;
+
+export interface IRevisionChange {
+    field: string;
+    from: string | number | null;   // null when the field was not set
+    to: string | number | null;
+}
+
+// One save of one health or mood entry. Snapshots hold only the user-editable fields,
+// so restoring never touches derived values such as workoutMinutes or restingHeartRate.
+export interface IEntryRevision extends Document {
+    userId: mongoose.Types.ObjectId;      // Owner of the entry
+    changedBy: mongoose.Types.ObjectId;   // Account that made the change
+    entryType: RevisionEntryType;
+    entryId: mongoose.Types.ObjectId;
+    date: Date;                           // Day of the entry (UTC midnight day key)
+    source: RevisionSource;
+    batchId: string | null;               // Shared by the health and mood revisions of one Daily Log save
+    changes: IRevisionChange[];
+    before: EntrySnapshot | null;         // null when this save created the entry
+    after: EntrySnapshot | null;          // null when this revision removed the entry (undo of a create)
+    // Daily Log saves that wrote a sleep session carry it on one revision of the batch, so undo
+    // can put the session back: the session written, and the stored document it replaced
+    // (null when the save created it).
+    sleepSessionId: mongoose.Types.ObjectId | null;
+    sleepBefore: Record<string, unknown> | null;
+    createdAt: Date;
+}
+
+const RevisionChangeSchema = new Schema<IRevisionChange>(
+    {
+        field: { type: String, required: true },
+        from: { type: Schema.Types.Mixed, default: null },
+        to: { type: Schema.Types.Mixed, default: null },
+    },
+    { _id: false }
+);
+
+const EntryRevisionSchema = new Schema<IEntryRevision>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        changedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        entryType: { type: String, enum: REVISION_ENTRY_TYPES, required: true },
+        entryId: { type: Schema.Types.ObjectId, required: true },
+        date: { type: Date, required: true },
+        source: { type: String, enum: REVISION_SOURCES, required: true },
+        batchId: { type: String, default: null },
+        changes: { type: [RevisionChangeSchema], default: [] },
+        before: { type: Schema.Types.Mixed, default: null },
+        after: { type: Schema.Types.Mixed, default: null },
+        sleepSessionId: { type: Schema.Types.ObjectId, default: null },
+        sleepBefore: { type: Schema.Types.Mixed, default: null },
+    },
+    { timestamps: true }
+);
+
+EntryRevisionSchema.index({ userId: 1, entryType: 1, entryId: 1, createdAt: -1 });
+EntryRevisionSchema.index({ userId: 1, batchId: 1 }, { partialFilterExpression: { batchId: { $type: 'string' } } });
+
+export default mongoose.model<IEntryRevision>('EntryRevision', EntryRevisionSchema);
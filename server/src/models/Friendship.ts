@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type FriendshipStatus = 'pending' | 'accepted';
+
+export const FRIENDSHIP_STATUSES: FriendshipStatus[] = ['pending', 'accepted'];
+
+// One document per invitation. An email invite to someone without an account keeps
+// `addresseeId` empty and is matched by `inviteEmail` once they sign up; a code invite
+// is claimed by whoever enters the code first.
+export interface IFriendship extends Document {
+    requesterId: mongoose.Types.ObjectId;
+    addresseeId: mongoose.Types.ObjectId | null;
+    inviteEmail: string | null;
+    inviteCode: string | null;
+    status: FriendshipStatus;
+    expiresAt: Date | null;    // Code invites only
+    acceptedAt: Date | null;
+    createdAt: Date;
+}
+
+const FriendshipSchema = new Schema<IFriendship>(
+    {
+        requesterId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        addresseeId: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+        inviteEmail: { type: String, default: null, lowercase: true, trim: true },
+        inviteCode: { type: String, default: null },
+        status: { type: String, enum: FRIENDSHIP_STATUSES, default: 'pending' },
+        expiresAt: { type: Date, default: null },
+        acceptedAt: { type: Date, default: null },
+    },
+    { timestamps: true }
+);
+
+FriendshipSchema.index({ requesterId: 1, status: 1 });
+FriendshipSchema.index({ addresseeId: 1, status: 1 });
+FriendshipSchema.index({ inviteEmail: 1, status: 1 });
+FriendshipSchema.index(
+    { inviteCode: 1 },
+    { unique: true, partialFilterExpression: { inviteCode: { $type: 'string' } } }
+);
+
+export default mongoose.model<IFriendship>('Friendship', FriendshipSchema);
@@ -5,13 +5,15 @@ export interface IHealthEntry extends Document {
     date: Date;
     steps: number;
     activeMinutes: number;
+    workoutMinutes?: number;   // Logged workout minutes last rolled into activeMinutes
     sleepHours: number;
     waterLitres: number;
     heartRate: number;
+    restingHeartRate?: number; // Rolled up from intraday heart rate samples
     energyScore?: number;
     weight?: number;
     notes?: string;
-    source?: 'daily_log' | 'health_api' | 'seed_demo';
+    source?: 'daily_log' | 'health_api' | 'seed_demo' | 'import';
     createdAt: Date;
 }
 
@@ -21,15 +23,17 @@ const HealthEntrySchema = new Schema<IHealthEntry>(
         date: { type: Date, required: true },
         steps: { type: Number, default: 0, min: 0 },
         activeMinutes: { type: Number, default: 0, min: 0, max: 1440 },
+        workoutMinutes: { type: Number, min: 0, max: 1440 },
         sleepHours: { type: Number, default: 0, min: 0, max: 24 },
         waterLitres: { type: Number, default: 0, min: 0 },
         heartRate: { type: Number, default: 0, min: 0 },
+        restingHeartRate: { type: Number, min: 0 },
         energyScore: { type: Number, default: null, min: 0, max: 100 },
         weight: { type: Number, min: 0 },
         notes: { type: String, trim: true },
         source: {
             type: String,
-            enum: ['daily_log', 'health_api', 'seed_demo'],
+            enum: ['daily_log', 'health_api', 'seed_demo', 'import'],
             default: 'health_api',
             index: true,
         },
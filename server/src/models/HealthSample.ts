@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SampleMetric = 'heart_rate' | 'steps' | 'active_minutes' | 'water';
+
+export const SAMPLE_METRICS: SampleMetric[] = ['heart_rate', 'steps', 'active_minutes', 'water'];
+
+export interface IHealthSample extends Document {
+    userId: mongoose.Types.ObjectId;
+    metric: SampleMetric;
+    start: Date;
+    end: Date;             // Same as start for point readings (heart rate)
+    value: number;         // bpm, step count, minutes or litres depending on metric
+    sourceName?: string;   // Device/app that produced the reading
+    createdAt: Date;
+}
+
+const HealthSampleSchema = new Schema<IHealthSample>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        metric: { type: String, enum: SAMPLE_METRICS, required: true },
+        start: { type: Date, required: true },
+        end: { type: Date, required: true },
+        value: { type: Number, required: true, min: 0 },
+        sourceName: { type: String, trim: true },
+    },
+    { timestamps: true }
+);
+
+// Re-sending the same reading replaces it instead of double-counting.
+HealthSampleSchema.index({ userId: 1, metric: 1, start: 1 }, { unique: true });
+HealthSampleSchema.index({ userId: 1, start: 1 });
+
+export default mongoose.model<IHealthSample>('HealthSample', HealthSampleSchema);
@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'drink';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack', 'drink'];
+
+// Suggested in the app; any other lowercase tag (e.g. "spicy") is accepted too.
+export const SUGGESTED_MEAL_TAGS = [
+    'high_sugar',
+    'late_meal',
+    'high_protein',
+    'high_fat',
+    'processed',
+    'caffeine',
+    'alcohol',
+    'home_cooked',
+    'large_portion',
+];
+
+export interface IMealMacros {
+    calories?: number;
+    proteinG?: number;
+    carbsG?: number;
+    fatG?: number;
+    sugarG?: number;
+}
+
+export interface IMeal extends Document {
+    userId: mongoose.Types.ObjectId;
+    date: Date;               // Local day the meal was eaten on, as UTC midnight (matches HealthEntry.date)
+    mealType: MealType;
+    eatenAt: Date;
+    utcOffsetMinutes: number; // Device offset at eatenAt, used for the local day and "late meal"
+    description: string;
+    macros?: IMealMacros;
+    tags: string[];
+    source?: 'meal_api' | 'seed_demo';
+    createdAt: Date;
+}
+
+const MealSchema = new Schema<IMeal>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+        date: { type: Date, required: true },
+        mealType: { type: String, enum: MEAL_TYPES, required: true },
+        eatenAt: { type: Date, required: true },
+        utcOffsetMinutes: { type: Number, default: 0, min: -840, max: 840 },
+        description: { type: String, required: true, trim: true, maxlength: 500 },
+        macros: {
+            calories: { type: Number, min: 0, max: 10000 },
+            proteinG: { type: Number, min: 0, max: 1000 },
+            carbsG: { type: Number, min: 0, max: 1000 },
+            fatG: { type: Number, min: 0, max: 1000 },
+            sugarG: { type: Number, min: 0, max: 1000 },
+        },
+        tags: { type: [String], default: [] },
+        source: {
+            type: String,
+            enum: ['meal_api', 'seed_demo'],
+            default: 'meal_api',
+        },
+    },
+    { timestamps: true }
+);
+
+MealSchema.index({ userId: 1, date: -1 });
+MealSchema.index({ userId: 1, tags: 1 });
+
+export default mongoose.model<IMeal>('Meal', MealSchema);
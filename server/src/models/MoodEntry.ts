@@ -9,7 +9,7 @@ export interface IMoodEntry extends Document {
     energyLevel: number;   // 1–10
     stressLevel: number;   // 1–10
     notes?: string;
-    source?: 'daily_log' | 'mood_api' | 'seed_demo';
+    source?: 'daily_log' | 'mood_api' | 'seed_demo' | 'import';
     createdAt: Date;
 }
 
@@ -27,7 +27,7 @@ const MoodEntrySchema = new Schema<IMoodEntry>(
         notes: { type: String, trim: true },
         source: {
             type: String,
-            enum: ['daily_log', 'mood_api', 'seed_demo'],
+            enum: ['daily_log', 'mood_api', 'seed_demo', 'import'],
             default: 'mood_api',
             index: true,
         },
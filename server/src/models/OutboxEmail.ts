@@ -0,0 +1,28 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Mail captured by the `outbox` transport instead of being delivered. Used in development
+// and tests; entries expire after a week.
+export interface IOutboxEmail extends Document {
+    to: string;
+    subject: string;
+    text: string;
+    template: string;           // e.g. 'password_reset'
+    createdAt: Date;
+}
+
+const OUTBOX_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+const OutboxEmailSchema = new Schema<IOutboxEmail>(
+    {
+        to: { type: String, required: true, lowercase: true, trim: true },
+        subject: { type: String, required: true },
+        text: { type: String, required: true },
+        template: { type: String, required: true },
+    },
+    { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+OutboxEmailSchema.index({ to: 1, createdAt: -1 });
+OutboxEmailSchema.index({ createdAt: 1 }, { expireAfterSeconds: OUTBOX_RETENTION_SECONDS });
+
+export default mongoose.model<IOutboxEmail>('OutboxEmail', OutboxEmailSchema);
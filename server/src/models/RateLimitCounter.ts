@@ -0,0 +1,21 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// One counter per rate-limit key (e.g. `ai-weekly-analysis:user:<id>`, or `fail:login:<email>::<ip>`
+// and `lock:login-email:<email>` for login lockouts),
+// shared by every server instance. The window restarts on the first hit after `resetAt`, and
+// MongoDB drops the document once `resetAt` has passed.
+export interface IRateLimitCounter extends Document {
+    key: string;
+    count: number;
+    resetAt: Date;
+}
+
+const RateLimitCounterSchema = new Schema<IRateLimitCounter>({
+    key: { type: String, required: true, unique: true },
+    count: { type: Number, required: true, default: 0 },
+    resetAt: { type: Date, required: true },
+});
+
+RateLimitCounterSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRateLimitCounter>('RateLimitCounter', RateLimitCounterSchema);
@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IShareScope {
+    health: boolean;    // Health metrics and sleep timing
+    mood: boolean;
+    notes: boolean;     // Free-text notes on the entries above
+}
+
+// Only a SHA-256 of the token is stored; the token itself is shown once, when the link is created.
+export interface IShareLink extends Document {
+    userId: mongoose.Types.ObjectId;
+    label: string;
+    tokenHash: string;
+    tokenPrefix: string;      // First characters, to tell links apart in the list
+    scope: IShareScope;
+    from: Date;               // First shared day (UTC midnight day key)
+    to: Date;                 // Last shared day
+    expiresAt: Date;
+    revokedAt: Date | null;
+    lastUsedAt: Date | null;
+    createdAt: Date;
+}
+
+const ShareScopeSchema = new Schema<IShareScope>(
+    {
+        health: { type: Boolean, default: true },
+        mood: { type: Boolean, default: false },
+        notes: { type: Boolean, default: false },
+    },
+    { _id: false }
+);
+
+const ShareLinkSchema = new Schema<IShareLink>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        label: { type: String, required: true, trim: true, maxlength: 60 },
+        tokenHash: { type: String, required: true },
+        tokenPrefix: { type: String, required: true },
+        scope: { type: ShareScopeSchema, required: true },
+        from: { type: Date, required: true },
+        to: { type: Date, required: true },
+        expiresAt: { type: Date, required: true },
+        revokedAt: { type: Date, default: null },
+        lastUsedAt: { type: Date, default: null },
+    },
+    { timestamps: true }
+);
+
+ShareLinkSchema.index({ tokenHash: 1 }, { unique: true });
+ShareLinkSchema.index({ userId: 1, createdAt: -1 });
+
+export default mongoose.model<IShareLink>('ShareLink', ShareLinkSchema);
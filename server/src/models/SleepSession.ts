@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SleepQuality = 'poor' | 'fair' | 'good' | 'excellent';
+
+export const SLEEP_QUALITIES: SleepQuality[] = ['poor', 'fair', 'good', 'excellent'];
+
+export interface ISleepStages {
+    awakeMinutes?: number;
+    lightMinutes?: number;
+    deepMinutes?: number;
+    remMinutes?: number;
+}
+
+export interface ISleepSession extends Document {
+    userId: mongoose.Types.ObjectId;
+    date: Date;               // Local day the user woke up on, as UTC midnight (matches HealthEntry.date)
+    bedtime: Date;
+    wakeTime: Date;
+    utcOffsetMinutes: number; // Device offset at wake time, used to read bedtime/wake as local clock times
+    awakenings: number;
+    quality?: SleepQuality;
+    stages?: ISleepStages;
+    durationHours: number;    // Time asleep; copied into HealthEntry.sleepHours
+    source?: 'daily_log' | 'sleep_api' | 'seed_demo';
+    createdAt: Date;
+}
+
+const SleepSessionSchema = new Schema<ISleepSession>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+        date: { type: Date, required: true },
+        bedtime: { type: Date, required: true },
+        wakeTime: { type: Date, required: true },
+        utcOffsetMinutes: { type: Number, default: 0, min: -840, max: 840 },
+        awakenings: { type: Number, default: 0, min: 0, max: 100 },
+        quality: { type: String, enum: SLEEP_QUALITIES },
+        stages: {
+            awakeMinutes: { type: Number, min: 0, max: 1440 },
+            lightMinutes: { type: Number, min: 0, max: 1440 },
+            deepMinutes: { type: Number, min: 0, max: 1440 },
+            remMinutes: { type: Number, min: 0, max: 1440 },
+        },
+        durationHours: { type: Number, required: true, min: 0, max: 24 },
+        source: {
+            type: String,
+            enum: ['daily_log', 'sleep_api', 'seed_demo'],
+            default: 'sleep_api',
+        },
+    },
+    { timestamps: true }
+);
+
+// One main sleep per user per wake day.
+SleepSessionSchema.index({ userId: 1, date: 1 }, { unique: true });
+
+export default mongoose.model<ISleepSession>('SleepSession', SleepSessionSchema);
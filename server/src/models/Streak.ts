@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type StreakKind = 'logging' | 'sleep' | 'steps' | 'water';
+
+export const STREAK_KINDS: StreakKind[] = ['logging', 'sleep', 'steps', 'water'];
+
+export interface IStreakRun {
+    startDate: Date;     // First qualifying day (UTC midnight day key, like HealthEntry.date)
+    endDate: Date;       // Last qualifying day so far
+    length: number;      // Qualifying days; frozen and travel days are not counted
+    frozenDays: Date[];  // Missed days covered by a freeze
+}
+
+export interface IStreak extends Document {
+    userId: mongoose.Types.ObjectId;
+    kind: StreakKind;
+    current: IStreakRun | null;
+    longest: number;
+    freezesAvailable: number;  // Only the logging streak earns and spends freezes
+    freezesUsed: number;
+    history: IStreakRun[];     // Finished runs, oldest first (capped)
+    createdAt: Date;
+}
+
+const StreakRunSchema = new Schema<IStreakRun>(
+    {
+        startDate: { type: Date, required: true },
+        endDate: { type: Date, required: true },
+        length: { type: Number, required: true, min: 1 },
+        frozenDays: { type: [Date], default: [] },
+    },
+    { _id: false }
+);
+
+const StreakSchema = new Schema<IStreak>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        kind: { type: String, enum: STREAK_KINDS, required: true },
+        current: { type: StreakRunSchema, default: null },
+        longest: { type: Number, default: 0, min: 0 },
+        freezesAvailable: { type: Number, default: 0, min: 0 },
+        freezesUsed: { type: Number, default: 0, min: 0 },
+        history: { type: [StreakRunSchema], default: [] },
+    },
+    { timestamps: true }
+);
+
+StreakSchema.index({ userId: 1, kind: 1 }, { unique: true });
+
+export default mongoose.model<IStreak>('Streak', StreakSchema);
@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type TrashKind = 'health' | 'mood' | 'sleep' | 'workout' | 'meal';
+
+export const TRASH_KINDS: TrashKind[] = ['health', 'mood', 'sleep', 'workout', 'meal'];
+
+// A deleted entry, kept whole so it can be put back with its original id and timestamps.
+// MongoDB's TTL monitor removes the item for good once purgeAt passes.
+export interface ITrashItem extends Document {
+    userId: mongoose.Types.ObjectId;
+    kind: TrashKind;
+    originalId: mongoose.Types.ObjectId;
+    date: Date;                       // Day of the entry (UTC midnight day key)
+    data: Record<string, unknown>;    // The entry as it was stored
+    deletedAt: Date;
+    purgeAt: Date;
+    createdAt: Date;
+}
+
+const TrashItemSchema = new Schema<ITrashItem>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        kind: { type: String, enum: TRASH_KINDS, required: true },
+        originalId: { type: Schema.Types.ObjectId, required: true },
+        date: { type: Date, required: true },
+        data: { type: Schema.Types.Mixed, required: true },
+        deletedAt: { type: Date, required: true },
+        purgeAt: { type: Date, required: true },
+    },
+    { timestamps: true, minimize: false }
+);
+
+TrashItemSchema.index({ userId: 1, deletedAt: -1 });
+TrashItemSchema.index({ purgeAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ITrashItem>('TrashItem', TrashItemSchema);
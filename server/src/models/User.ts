@@ -1,14 +1,47 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 
+export interface TimeZoneChange {
+    timeZone: string;
+    since: Date; // Instant the device first reported this zone
+}
+
+// Weekly aggregates accountability partners may see; everything is private by default.
+export interface SharingSettings {
+    streak: boolean;
+    averageSleep: boolean;
+    achievements: boolean;
+}
+
+// Authenticator-app 2FA. Secrets are stored sealed (see twoFactorService), recovery codes as SHA-256.
+export interface TwoFactorSettings {
+    enabled: boolean;
+    secret: string | null;
+    pendingSecret: string | null;       // Set by setup, promoted to `secret` once a code confirms it
+    recoveryCodeHashes: string[];
+    enabledAt: Date | null;
+    lastUsedStep: number | null;        // Last accepted TOTP step; a code is only good once
+}
+
+export const USER_ROLES = ['user', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
 export interface IUser extends Document {
     name: string;
     email: string;
     password: string;
+    role: UserRole;                     // `admin` unlocks /api/admin; granted only via `npm run admin:role`
     profileImage?: string;
     age?: number;
     heightCm?: number;
     weightKg?: number;
+    timeZone: string;                   // IANA zone used for "today" and day boundaries
+    timeZoneHistory: TimeZoneChange[];  // Oldest first; lets streaks tell travel from missed days
+    sharing: SharingSettings;
+    emailVerifiedAt: Date | null;
+    twoFactor: TwoFactorSettings;
+    deletionRequestedAt: Date | null;
+    deletionScheduledFor: Date | null;  // Data is purged after this; signing in before it can cancel
     createdAt: Date;
     comparePassword(candidate: string): Promise<boolean>;
 }
@@ -18,14 +51,44 @@ const UserSchema = new Schema<IUser>(
         name: { type: String, required: true, trim: true },
         email: { type: String, required: true, unique: true, lowercase: true, trim: true },
         password: { type: String, required: true, minlength: 6 },
+        role: { type: String, enum: USER_ROLES, default: 'user' },
         profileImage: { type: String },
         age: { type: Number },
         heightCm: { type: Number },
-        weightKg: { type: Number }
+        weightKg: { type: Number },
+        timeZone: { type: String, default: 'UTC', trim: true },
+        timeZoneHistory: {
+            type: [
+                {
+                    _id: false,
+                    timeZone: { type: String, required: true },
+                    since: { type: Date, required: true },
+                },
+            ],
+            default: [],
+        },
+        sharing: {
+            streak: { type: Boolean, default: false },
+            averageSleep: { type: Boolean, default: false },
+            achievements: { type: Boolean, default: false },
+        },
+        emailVerifiedAt: { type: Date, default: null },
+        twoFactor: {
+            enabled: { type: Boolean, default: false },
+            secret: { type: String, default: null },
+            pendingSecret: { type: String, default: null },
+            recoveryCodeHashes: { type: [String], default: [] },
+            enabledAt: { type: Date, default: null },
+            lastUsedStep: { type: Number, default: null },
+        },
+        deletionRequestedAt: { type: Date, default: null },
+        deletionScheduledFor: { type: Date, default: null },
     },
     { timestamps: true }
 );
 
+UserSchema.index({ deletionScheduledFor: 1 }, { partialFilterExpression: { deletionScheduledFor: { $type: 'date' } } });
+
 // Hash password before saving
 UserSchema.pre('save', async function (next) {
     if (!this.isModified('password')) return next();
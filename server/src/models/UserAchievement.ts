@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AchievementTier = 'bronze' | 'silver' | 'gold';
+
+export const ACHIEVEMENT_TIERS: AchievementTier[] = ['bronze', 'silver', 'gold'];
+
+export interface IAchievementUnlock {
+    tier: AchievementTier;
+    unlockedAt: Date;
+}
+
+export interface IUserAchievement extends Document {
+    userId: mongoose.Types.ObjectId;
+    achievementId: string;     // Rule id from the achievement config
+    tier: AchievementTier | null;  // Highest tier unlocked so far
+    unlocks: IAchievementUnlock[]; // One per tier, set once when first met and never cleared
+    unlockedAt: Date | null;   // First unlock (normally bronze)
+    current: number | null;    // Aggregated value at the last evaluation (null when there is no data yet)
+    target: number;            // Threshold of the next tier, or of the top tier once complete
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const AchievementUnlockSchema = new Schema<IAchievementUnlock>(
+    {
+        tier: { type: String, enum: ACHIEVEMENT_TIERS, required: true },
+        unlockedAt: { type: Date, required: true },
+    },
+    { _id: false }
+);
+
+const UserAchievementSchema = new Schema<IUserAchievement>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        achievementId: { type: String, required: true, trim: true },
+        tier: { type: String, enum: [...ACHIEVEMENT_TIERS, null], default: null },
+        unlocks: { type: [AchievementUnlockSchema], default: [] },
+        unlockedAt: { type: Date, default: null },
+        current: { type: Number, default: null },
+        target: { type: Number, default: 1, min: 0 },
+    },
+    { timestamps: true }
+);
+
+UserAchievementSchema.index({ userId: 1, achievementId: 1 }, { unique: true });
+
+export default mongoose.model<IUserAchievement>('UserAchievement', UserAchievementSchema);
@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface DailyGoals {
+    steps: number;
+    sleepHours: number;
+    waterLitres: number;
+    activeMinutes: number;
+    stressMax: number;     // Stress ceiling on the 1–10 mood scale
+}
+
+export type DailyGoalKey = keyof DailyGoals;
+
+export const DAILY_GOAL_KEYS: DailyGoalKey[] = ['steps', 'sleepHours', 'waterLitres', 'activeMinutes', 'stressMax'];
+
+// Targets used when the user has not set their own.
+export const DEFAULT_DAILY_GOALS: DailyGoals = {
+    steps: 10000,
+    sleepHours: 8,
+    waterLitres: 2,
+    activeMinutes: 30,
+    stressMax: 7,
+};
+
+export interface IUserGoals extends Document {
+    userId: mongoose.Types.ObjectId;
+    // Unset fields fall back to DEFAULT_DAILY_GOALS
+    steps?: number;
+    sleepHours?: number;
+    waterLitres?: number;
+    activeMinutes?: number;
+    stressMax?: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const UserGoalsSchema = new Schema<IUserGoals>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, unique: true },
+        steps: { type: Number, min: 1000, max: 50000 },
+        sleepHours: { type: Number, min: 4, max: 12 },
+        waterLitres: { type: Number, min: 0.5, max: 6 },
+        activeMinutes: { type: Number, min: 5, max: 300 },
+        stressMax: { type: Number, min: 1, max: 10 },
+    },
+    { timestamps: true }
+);
+
+export default mongoose.model<IUserGoals>('UserGoals', UserGoalsSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type WorkoutType = 'walk' | 'run' | 'cycle' | 'swim' | 'strength' | 'yoga' | 'hiit' | 'sport' | 'other';
+
+export const WORKOUT_TYPES: WorkoutType[] = ['walk', 'run', 'cycle', 'swim', 'strength', 'yoga', 'hiit', 'sport', 'other'];
+
+export interface IWorkout extends Document {
+    userId: mongoose.Types.ObjectId;
+    date: Date;                  // Local day the workout started on, as UTC midnight (matches HealthEntry.date)
+    type: WorkoutType;
+    startTime: Date;
+    utcOffsetMinutes: number;    // Device offset at start time, used to pick the local day
+    durationMinutes: number;
+    perceivedExertion?: number;  // RPE 1–10
+    distanceKm?: number;
+    avgHeartRate?: number;
+    notes?: string;
+    source?: 'workout_api' | 'seed_demo';
+    createdAt: Date;
+}
+
+const WorkoutSchema = new Schema<IWorkout>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+        date: { type: Date, required: true },
+        type: { type: String, enum: WORKOUT_TYPES, required: true },
+        startTime: { type: Date, required: true },
+        utcOffsetMinutes: { type: Number, default: 0, min: -840, max: 840 },
+        durationMinutes: { type: Number, required: true, min: 1, max: 1440 },
+        perceivedExertion: { type: Number, min: 1, max: 10 },
+        distanceKm: { type: Number, min: 0, max: 1000 },
+        avgHeartRate: { type: Number, min: 20, max: 260 },
+        notes: { type: String, trim: true, maxlength: 500 },
+        source: {
+            type: String,
+            enum: ['workout_api', 'seed_demo'],
+            default: 'workout_api',
+        },
+    },
+    { timestamps: true }
+);
+
+// Several workouts per day are allowed; queries are always per user and date range.
+WorkoutSchema.index({ userId: 1, date: -1 });
+
+export default mongoose.model<IWorkout>('Workout', WorkoutSchema);
@@ -0,0 +1,159 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest, requireRole } from '../middleware/auth';
+import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { resolveClientIp } from '../lib/clientIp';
+import { parseParams, parseQuery } from '../lib/validation';
+import {
+    AdminActionInput,
+    adminAuditQuerySchema,
+    adminUserParamSchema,
+    adminUserSearchSchema,
+    auditAdminAction,
+    clearAiCache,
+    countUserData,
+    findAdminUser,
+    listAdminActions,
+    resetAvatarGeneration,
+    searchUsers,
+} from '../services/adminService';
+import { clearDemoData, seedDemoWeek } from '../services/demoDataService';
+
+const router = Router();
+router.use(authenticate, requireRole('admin'));
+
+function auditInput(req: AuthRequest, action: string, targetUserId: string | null, details: Record<string, unknown> = {}): AdminActionInput {
+    return { adminId: req.userId as string, action, targetUserId, details, ip: resolveClientIp(req) };
+}
+
+// Runs an action on one user through the audit log; a missing user is recorded and answered with 404.
+async function runUserAction<T extends object>(
+    req: AuthRequest,
+    res: Response,
+    action: string,
+    userId: string,
+    run: () => Promise<T>
+): Promise<void> {
+    const result = await auditAdminAction(auditInput(req, action, userId), async () => (
+        await findAdminUser(userId) ? run() : null
+    ));
+    if (!result) {
+        sendError(res, 404, 'User not found');
+        return;
+    }
+    sendSuccess(res, result);
+}
+
+// GET /api/admin/users?q=amira&limit=20 — search by name or email substring, or by exact id
+router.get('/users', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, adminUserSearchSchema, req.query);
+    if (!query) return;
+
+    try {
+        const users = await auditAdminAction(
+            auditInput(req, 'user.search', null, { q: query.q ?? null, limit: query.limit }),
+            () => searchUsers(query.q, query.limit),
+            (found) => ({ matches: found.length })
+        );
+        sendSuccess(res, users ?? []);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// GET /api/admin/users/:id — account summary and how many records the user holds
+router.get('/users/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, adminUserParamSchema, req.params);
+    if (!params) return;
+
+    try {
+        const detail = await auditAdminAction(
+            auditInput(req, 'user.inspect', params.id),
+            async () => {
+                const user = await findAdminUser(params.id);
+                return user ? { user, counts: await countUserData(params.id) } : null;
+            },
+            (found) => ({ ...found.counts })
+        );
+        if (!detail) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+        sendSuccess(res, detail);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/admin/users/:id/avatar/reset — delete the avatar and its videos so setup runs again
+router.post('/users/:id/avatar/reset', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, adminUserParamSchema, req.params);
+    if (!params) return;
+
+    try {
+        await runUserAction(req, res, 'avatar.reset', params.id, () => resetAvatarGeneration(params.id));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/admin/users/:id/ai-cache — drop cached weekly analyses
+router.delete('/users/:id/ai-cache', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, adminUserParamSchema, req.params);
+    if (!params) return;
+
+    try {
+        await runUserAction(req, res, 'ai_cache.clear', params.id, () => clearAiCache(params.id));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/admin/users/:id/demo-data — same as the user's own POST /api/health/seed-demo
+router.post('/users/:id/demo-data', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, adminUserParamSchema, req.params);
+    if (!params) return;
+
+    try {
+        await runUserAction(req, res, 'demo_data.seed', params.id, () => seedDemoWeek(params.id));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/admin/users/:id/demo-data — remove demo rows only
+router.delete('/users/:id/demo-data', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, adminUserParamSchema, req.params);
+    if (!params) return;
+
+    try {
+        await runUserAction(req, res, 'demo_data.clear', params.id, () => clearDemoData(params.id));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// GET /api/admin/audit-log?targetUserId=&action=&limit=50 — newest first
+router.get('/audit-log', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, adminAuditQuerySchema, req.query);
+    if (!query) return;
+
+    try {
+        const entries = await auditAdminAction(
+            auditInput(req, 'audit_log.read', query.targetUserId ?? null, { action: query.action ?? null, limit: query.limit }),
+            () => listAdminActions({ targetUserId: query.targetUserId, action: query.action }, query.limit),
+            (listed) => ({ entries: listed.length })
+        );
+        sendSuccess(res, entries ?? []);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
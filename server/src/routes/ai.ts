@@ -2,16 +2,24 @@ import { Router, Response } from 'express';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { z } from 'zod';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
 import WeeklyAnalysisCache from '../models/WeeklyAnalysisCache';
-import { generateWellnessAnalysis, WellnessAnalysis } from '../lib/wellnessEngine';
+import Workout from '../models/Workout';
+import { DailyGoals } from '../models/UserGoals';
+import { generateWellnessAnalysis, WellnessAnalysis, WorkoutEntry } from '../lib/wellnessEngine';
+import { getIsoWeekKey, shiftUtcDays, toUtcDayStart } from '../lib/dateUtils';
 import { sendError, sendSuccess } from '../lib/apiResponse';
 import { parseBody } from '../lib/validation';
+import { loadUserGoals } from '../services/goalService';
+import { RATE_LIMITS } from '../services/rateLimitService';
+import { getUserToday } from '../services/timeZoneService';
 
 const router = Router();
 router.use(authenticate);
 
 const healthDataPointSchema = z.object({
     steps: z.coerce.number().min(0).optional(),
+    activeMinutes: z.coerce.number().min(0).max(1440).optional(),
     sleepHours: z.coerce.number().min(0).max(24).optional(),
     waterLitres: z.coerce.number().min(0).max(20).optional(),
     heartRate: z.coerce.number().min(0).max(260).optional(),
@@ -70,18 +78,8 @@ function normalizeParsedResponse(value: unknown): WellnessAnalysis {
     };
 }
 
-// Returns "YYYY-WW" — year + ISO week number
-function getWeekKey(date: Date = new Date()): string {
-    const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
-    const dayNum = d.getUTCDay() || 7;
-    d.setUTCDate(d.getUTCDate() + 4 - dayNum);
-    const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
-    const weekNo = Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
-    return `${d.getUTCFullYear()}-W${String(weekNo).padStart(2, '0')}`;
-}
-
 const SYSTEM_PROMPT = `You are a wellness coach AI assistant for a student health tracking app called HealthTwin.
-Your ONLY role is to give friendly, general lifestyle and habit suggestions based on tracked data (steps, sleep, water intake, heart rate, mood, energy, stress levels).
+Your ONLY role is to give friendly, general lifestyle and habit suggestions based on tracked data (steps, sleep, water intake, heart rate, workouts, mood, energy, stress levels).
 
 STRICT RULES — follow these without exception:
 1. DO NOT diagnose any medical condition
@@ -89,11 +87,11 @@ STRICT RULES — follow these without exception:
 3. DO NOT make specific clinical health claims (e.g. "this increases your risk of X disease")
 4. DO NOT replace professional medical advice
 5. ONLY reference widely accepted general wellness principles (sleep 7-9hrs, 8000+ steps/day, hydration, stress management)
-6. Frame everything as personal observations from their tracked data
+6. Frame everything as personal observations from their tracked data, measured against their personal daily goals
 7. Be encouraging, positive and motivational in tone
 8. Keep the total response concise and practical`;
 
-router.post('/weekly-analysis', async (req: AuthRequest, res: Response): Promise<void> => {
+router.post('/weekly-analysis', rateLimit(RATE_LIMITS.aiWeeklyAnalysis), async (req: AuthRequest, res: Response): Promise<void> => {
     const input = parseBody(res, weeklyAnalysisRequestSchema, req.body);
     if (!input) return;
 
@@ -103,9 +101,14 @@ router.post('/weekly-analysis', async (req: AuthRequest, res: Response): Promise
         return;
     }
 
-    const weekKey = getWeekKey();
+    let weekKey = getIsoWeekKey(toUtcDayStart());
+    let workoutData: WorkoutEntry[] | undefined;
+    let goals: DailyGoals | undefined;
 
     try {
+        // The week (and the 7-day workout window) follows the user's zone, not the server's.
+        const today = await getUserToday(userId);
+        weekKey = getIsoWeekKey(today);
         const cached = await WeeklyAnalysisCache.findOne({ userId, weekKey });
         if (cached) {
             sendSuccess(res, {
@@ -120,6 +123,12 @@ router.post('/weekly-analysis', async (req: AuthRequest, res: Response): Promise
             return;
         }
 
+        // Workouts are read server-side so both Gemini and the fallback see type and frequency.
+        workoutData = await Workout.find({ userId, date: { $gte: shiftUtcDays(today, -6) } })
+            .select('type durationMinutes perceivedExertion')
+            .lean();
+        goals = await loadUserGoals(userId);
+
         const apiKey = process.env.GEMINI_API_KEY;
         if (!apiKey) {
             throw new Error('Gemini API key not configured');
@@ -142,6 +151,10 @@ router.post('/weekly-analysis', async (req: AuthRequest, res: Response): Promise
             ? `Mood entries: ${input.moodData.map((entry) => `${entry.mood ?? 'unknown'} (energy: ${entry.energyLevel ?? 0}/10, stress: ${entry.stressLevel ?? 0}/10)`).join(', ')}`
             : 'No mood data logged this week.';
 
+        const workoutSummary = workoutData.length > 0
+            ? `Workouts: ${workoutData.map((workout) => `${workout.type} ${workout.durationMinutes} min${workout.perceivedExertion ? ` (effort ${workout.perceivedExertion}/10)` : ''}`).join(', ')}`
+            : 'No workouts logged this week.';
+
         const userPrompt = `Here is the user's health tracking data for the past ${input.healthData.length} day(s):
 
 HEALTH METRICS:
@@ -154,6 +167,16 @@ HEALTH METRICS:
 MOOD & ENERGY:
 ${moodSummary}
 
+TRAINING:
+${workoutSummary}
+
+PERSONAL DAILY GOALS:
+- Steps: ${goals.steps.toLocaleString()}
+- Sleep: ${goals.sleepHours} hours
+- Water: ${goals.waterLitres} litres
+- Active minutes: ${goals.activeMinutes}
+- Keep stress at or below ${goals.stressMax}/10
+
 Please provide:
 1. NARRATIVE: A warm, personal 2-3 sentence summary of their week based on this data
 2. TIPS: Exactly 3 specific, actionable wellness tips tailored to their data
@@ -211,7 +234,7 @@ Format your response as JSON with this exact structure:
         console.warn('[AI] Gemini unavailable — activating rule-based fallback');
 
         try {
-            const fallback = generateWellnessAnalysis(input.healthData, input.moodData);
+            const fallback = generateWellnessAnalysis(input.healthData, input.moodData, workoutData, goals);
             const generatedAt = new Date();
             await WeeklyAnalysisCache.findOneAndUpdate(
                 { userId, weekKey },
@@ -235,7 +258,7 @@ router.delete('/weekly-analysis/cache', async (req: AuthRequest, res: Response):
             return;
         }
 
-        const weekKey = getWeekKey();
+        const weekKey = getIsoWeekKey(await getUserToday(userId));
         await WeeklyAnalysisCache.deleteOne({ userId, weekKey });
         sendSuccess(res, { message: 'Cache cleared — next request will regenerate from Gemini' });
     } catch {
@@ -1,16 +1,57 @@
 import { Router, Request, Response } from 'express';
-import jwt from 'jsonwebtoken';
 import { z } from 'zod';
 import { authenticate, AuthRequest } from '../middleware/auth';
-import User from '../models/User';
-import HealthEntry from '../models/HealthEntry';
-import MoodEntry from '../models/MoodEntry';
-import { Avatar } from '../models/Avatar';
-import { AvatarAnimation } from '../models/AvatarAnimation';
-import WeeklyAnalysisCache from '../models/WeeklyAnalysisCache';
-import { AuthSessionDto, AuthUserDto } from '../contracts/api';
+import { rateLimit, sendRateLimited } from '../middleware/rateLimit';
+import User, { IUser, UserRole } from '../models/User';
+import {
+    AccountDeletionDto,
+    AuthSessionDto,
+    AuthTokensDto,
+    AuthUserDto,
+    TwoFactorChallengeDto,
+} from '../contracts/api';
 import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
 import { parseBody } from '../lib/validation';
+import { resolveClientIp } from '../lib/clientIp';
+import { deleteUserData, scheduleDeletionFields } from '../services/accountDeletionService';
+import {
+    consumeAccountToken,
+    forgotPasswordSchema,
+    resetPasswordSchema,
+    sendAccountToken,
+    verifyEmailSchema,
+} from '../services/accountTokenService';
+import {
+    clearFailedAttempts,
+    clearFailedAttemptsMatching,
+    getLockoutRemainingMs,
+    LOGIN_EMAIL_MAX_IPS,
+    RATE_LIMITS,
+    recordFailedAttempt,
+    recordFailedAttemptFrom,
+} from '../services/rateLimitService';
+import {
+    refreshSession,
+    refreshTokenSchema,
+    revokeSession,
+    revokeUserSessions,
+    SessionClientInfo,
+    sessionDeviceSchema,
+    startSession,
+} from '../services/sessionService';
+import {
+    checkSecondFactor,
+    createChallengeToken,
+    readChallengeToken,
+    secondFactorCodeSchema,
+    twoFactorAttemptKey,
+} from '../services/twoFactorService';
+import {
+    buildTimeZoneChange,
+    resolveTimeZone,
+    timeZoneSchema,
+    timeZoneUpdateSchema,
+} from '../services/timeZoneService';
 import {
     ensureMediaRefFromValue,
     resolveMediaUrlForClient,
@@ -26,29 +67,24 @@ const registerSchema = z.object({
     age: z.coerce.number().int().min(1).max(120).optional(),
     heightCm: z.coerce.number().min(40).max(250).optional(),
     weightKg: z.coerce.number().min(20).max(400).optional(),
+    timeZone: timeZoneSchema.optional(),
+    device: sessionDeviceSchema.optional(),
 });
 
 const loginSchema = z.object({
     email: z.string().trim().email('Invalid email format').transform((value) => value.toLowerCase()),
     password: z.string().min(1, 'Password is required'),
+    timeZone: timeZoneSchema.optional(),
+    device: sessionDeviceSchema.optional(),
 });
 
-const resetPasswordSchema = z.object({
-    email: z.string().trim().email('Invalid email format').transform((value) => value.toLowerCase()),
-    newPassword: z.string().min(8, 'New password must be at least 8 characters'),
+const twoFactorLoginSchema = z.object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+    code: secondFactorCodeSchema,
+    timeZone: timeZoneSchema.optional(),
+    device: sessionDeviceSchema.optional(),
 });
 
-interface LoginAttemptRecord {
-    attempts: number;
-    windowStartMs: number;
-    lockUntilMs: number | null;
-}
-
-const LOGIN_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
-const LOGIN_LOCKOUT_MS = 10 * 60 * 1000; // 10 minutes
-const LOGIN_MAX_ATTEMPTS = 5;
-const loginAttempts = new Map<string, LoginAttemptRecord>();
-
 async function toAuthUser(
     req: Request,
     user: {
@@ -59,6 +95,11 @@ async function toAuthUser(
     heightCm?: number;
     weightKg?: number;
     profileImage?: string | null;
+    timeZone?: string | null;
+    emailVerifiedAt?: Date | null;
+    twoFactor?: { enabled: boolean } | null;
+    role?: UserRole | null;
+    deletionScheduledFor?: Date | null;
 }): Promise<AuthUserDto> {
     const normalizedProfileImage = await ensureMediaRefFromValue(
         user.profileImage ?? null,
@@ -79,95 +120,79 @@ async function toAuthUser(
         heightCm: user.heightCm,
         weightKg: user.weightKg,
         profileImage: resolveMediaUrlForClient(req, user.profileImage ?? null),
+        timeZone: resolveTimeZone(user),
+        emailVerified: Boolean(user.emailVerifiedAt),
+        twoFactorEnabled: Boolean(user.twoFactor?.enabled),
+        role: user.role ?? 'user',
+        deletionScheduledFor: user.deletionScheduledFor ? user.deletionScheduledFor.toISOString() : null,
     };
 }
 
-function createAuthToken(userId: string): string | null {
-    const secret = process.env.JWT_SECRET;
-    if (!secret) return null;
-    return jwt.sign({ userId }, secret, { expiresIn: '7d' });
+function sessionClientInfo(req: Request, device?: SessionClientInfo['device']): SessionClientInfo {
+    return { device, userAgent: req.get('user-agent') ?? null, ip: resolveClientIp(req) };
 }
 
-function resolveClientIp(req: Request): string {
-    const forwardedHeader = req.headers?.['x-forwarded-for'];
-    const forwardedValue = Array.isArray(forwardedHeader) ? forwardedHeader[0] : forwardedHeader;
-    if (typeof forwardedValue === 'string' && forwardedValue.trim().length > 0) {
-        const firstIp = forwardedValue.split(',')[0]?.trim();
-        if (firstIp) return firstIp;
-    }
-    return req.ip || 'unknown';
-}
-
-function getLoginAttemptKey(email: string, ip: string): string {
-    return `${email}::${ip}`;
+interface LoginAttemptKeys {
+    emailAndIp: string;
+    email: string;
+    ip: string;
 }
 
-function cleanupLoginAttempts(now: number): void {
-    for (const [key, value] of loginAttempts.entries()) {
-        const expiredWindow = now - value.windowStartMs > LOGIN_WINDOW_MS;
-        const lockExpired = value.lockUntilMs !== null && now >= value.lockUntilMs;
-        if (expiredWindow && (value.lockUntilMs === null || lockExpired)) {
-            loginAttempts.delete(key);
-        }
-    }
+function getLoginAttemptKeys(email: string, ip: string): LoginAttemptKeys {
+    return { emailAndIp: `login:${email}::${ip}`, email: `login-email:${email}`, ip };
 }
 
-function getActiveLockRemainingMs(key: string, now: number): number {
-    cleanupLoginAttempts(now);
-    const record = loginAttempts.get(key);
-    if (!record || record.lockUntilMs === null) return 0;
-    return Math.max(0, record.lockUntilMs - now);
+async function getLoginLockoutRemainingMs(keys: LoginAttemptKeys, now: Date): Promise<number> {
+    const remaining = await Promise.all([getLockoutRemainingMs(keys.emailAndIp, now), getLockoutRemainingMs(keys.email, now)]);
+    return Math.max(...remaining);
 }
 
-function recordFailedLogin(key: string, now: number): LoginAttemptRecord {
-    const existing = loginAttempts.get(key);
-
-    if (!existing || now - existing.windowStartMs > LOGIN_WINDOW_MS) {
-        const fresh: LoginAttemptRecord = {
-            attempts: 1,
-            windowStartMs: now,
-            lockUntilMs: null,
-        };
-        loginAttempts.set(key, fresh);
-        return fresh;
-    }
-
-    if (existing.lockUntilMs !== null && now >= existing.lockUntilMs) {
-        existing.attempts = 1;
-        existing.windowStartMs = now;
-        existing.lockUntilMs = null;
-        loginAttempts.set(key, existing);
-        return existing;
-    }
-
-    existing.attempts += 1;
-    if (existing.attempts >= LOGIN_MAX_ATTEMPTS) {
-        existing.lockUntilMs = now + LOGIN_LOCKOUT_MS;
-    }
-    loginAttempts.set(key, existing);
-    return existing;
+// Counts against both budgets: per email + IP, and a wider one per email counting distinct IPs,
+// so repeated failures from one address never lock the email for everyone else.
+async function recordFailedLogin(keys: LoginAttemptKeys, now: Date): Promise<number> {
+    const remaining = await Promise.all([
+        recordFailedAttempt(keys.emailAndIp, now),
+        recordFailedAttemptFrom(keys.email, keys.ip, now, LOGIN_EMAIL_MAX_IPS),
+    ]);
+    return Math.max(...remaining);
 }
 
-function clearLoginAttempt(key: string): void {
-    loginAttempts.delete(key);
+function sendLockedOut(res: Response, remainingMs: number): void {
+    const remainingMinutes = Math.ceil(remainingMs / 60000);
+    sendRateLimited(
+        res,
+        remainingMs,
+        `Too many failed login attempts. Try again in ${remainingMinutes} minute${remainingMinutes === 1 ? '' : 's'}.`
+    );
 }
 
-function clearLoginAttemptsForEmail(email: string): void {
-    const prefix = `${email}::`;
-    for (const key of loginAttempts.keys()) {
-        if (key.startsWith(prefix)) {
-            loginAttempts.delete(key);
-        }
+// Shared tail of password and 2FA sign-in: record the device's zone, open a session, reply.
+async function completeLogin(
+    req: Request,
+    res: Response,
+    user: IUser,
+    input: { timeZone?: string; device?: SessionClientInfo['device'] }
+): Promise<void> {
+    const timeZoneChange = input.timeZone ? buildTimeZoneChange(user, input.timeZone) : null;
+    const sessionUser = timeZoneChange
+        ? (await User.findByIdAndUpdate(user._id, timeZoneChange, { new: true })) ?? user
+        : user;
+
+    const tokens = await startSession(String(user._id), sessionClientInfo(req, input.device));
+    if (!tokens) {
+        sendError(res, 500, 'JWT secret is not configured');
+        return;
     }
-}
 
-function lockoutMessage(remainingMs: number): string {
-    const remainingMinutes = Math.ceil(remainingMs / 60000);
-    return `Too many failed login attempts. Try again in ${remainingMinutes} minute${remainingMinutes === 1 ? '' : 's'}.`;
+    const payload: AuthSessionDto = {
+        ...tokens,
+        user: await toAuthUser(req, sessionUser),
+    };
+    sendSuccess(res, payload);
 }
 
 // POST /api/auth/register
-router.post('/register', async (req, res: Response): Promise<void> => {
+router.post('/register', rateLimit(RATE_LIMITS.auth), async (req, res: Response): Promise<void> => {
     const input = parseBody(res, registerSchema, req.body);
     if (!input) return;
 
@@ -183,18 +208,26 @@ router.post('/register', async (req, res: Response): Promise<void> => {
             { email: input.email, kind: 'profile-image' },
             'profile-image'
         );
+        const { device, ...profile } = input;
         const user = await User.create({
-            ...input,
+            ...profile,
             profileImage: normalizedProfileImage ?? input.profileImage,
+            timeZoneHistory: input.timeZone ? [{ timeZone: input.timeZone, since: new Date() }] : [],
         });
-        const token = createAuthToken(String(user._id));
-        if (!token) {
+        try {
+            await sendAccountToken(user, 'email_verification');
+        } catch (error: unknown) {
+            // The account works without it; the user can ask for a new code from Settings.
+            console.error('Verification email error:', error);
+        }
+        const tokens = await startSession(String(user._id), sessionClientInfo(req, device));
+        if (!tokens) {
             sendError(res, 500, 'JWT secret is not configured');
             return;
         }
 
         const payload: AuthSessionDto = {
-            token,
+            ...tokens,
             user: await toAuthUser(req, user),
         };
         sendSuccess(res, payload, 201);
@@ -205,24 +238,29 @@ router.post('/register', async (req, res: Response): Promise<void> => {
 });
 
 // POST /api/auth/login
-router.post('/login', async (req, res: Response): Promise<void> => {
+router.post('/login', rateLimit(RATE_LIMITS.auth), async (req, res: Response): Promise<void> => {
     const input = parseBody(res, loginSchema, req.body);
     if (!input) return;
-    const now = Date.now();
-    const ip = resolveClientIp(req);
-    const loginKey = getLoginAttemptKey(input.email, ip);
-    const activeLockRemainingMs = getActiveLockRemainingMs(loginKey, now);
-    if (activeLockRemainingMs > 0) {
-        sendError(res, 429, lockoutMessage(activeLockRemainingMs));
-        return;
-    }
+    const now = new Date();
+    const loginKeys = getLoginAttemptKeys(input.email, resolveClientIp(req));
 
     try {
-        const user = await User.findOne({ email: input.email });
+        const activeLockRemainingMs = await getLoginLockoutRemainingMs(loginKeys, now);
+        if (activeLockRemainingMs > 0) {
+            sendLockedOut(res, activeLockRemainingMs);
+            return;
+        }
+
+        let user = await User.findOne({ email: input.email });
+        if (user?.deletionScheduledFor && user.deletionScheduledFor <= now) {
+            // Grace window is over but the sweep has not run yet: finish the deletion now.
+            await deleteUserData(String(user._id));
+            user = null;
+        }
         if (!user) {
-            const result = recordFailedLogin(loginKey, now);
-            if (result.lockUntilMs && result.lockUntilMs > now) {
-                sendError(res, 429, lockoutMessage(result.lockUntilMs - now));
+            const lockRemainingMs = await recordFailedLogin(loginKeys, now);
+            if (lockRemainingMs > 0) {
+                sendLockedOut(res, lockRemainingMs);
             } else {
                 sendError(res, 401, 'Invalid credentials');
             }
@@ -231,49 +269,130 @@ router.post('/login', async (req, res: Response): Promise<void> => {
 
         const valid = await user.comparePassword(input.password);
         if (!valid) {
-            const result = recordFailedLogin(loginKey, now);
-            if (result.lockUntilMs && result.lockUntilMs > now) {
-                sendError(res, 429, lockoutMessage(result.lockUntilMs - now));
+            const lockRemainingMs = await recordFailedLogin(loginKeys, now);
+            if (lockRemainingMs > 0) {
+                sendLockedOut(res, lockRemainingMs);
             } else {
                 sendError(res, 401, 'Invalid credentials');
             }
             return;
         }
-        clearLoginAttempt(loginKey);
+        // The per-email count expires on its own; one success must not reset what other IPs have tried.
+        await clearFailedAttempts(loginKeys.emailAndIp);
+
+        if (user.twoFactor?.enabled) {
+            const secret = process.env.JWT_SECRET;
+            if (!secret) {
+                sendError(res, 500, 'JWT secret is not configured');
+                return;
+            }
+            const challenge = createChallengeToken(String(user._id), secret);
+            const payload: TwoFactorChallengeDto = {
+                twoFactorRequired: true,
+                challengeToken: challenge.token,
+                expiresAt: challenge.expiresAt.toISOString(),
+            };
+            sendSuccess(res, payload);
+            return;
+        }
 
-        const token = createAuthToken(String(user._id));
-        if (!token) {
+        await completeLogin(req, res, user, input);
+    } catch (error: unknown) {
+        console.error('Login error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/auth/login/2fa — finish a 2FA sign-in with the challenge token and an app or recovery code
+router.post('/login/2fa', rateLimit(RATE_LIMITS.auth), async (req, res: Response): Promise<void> => {
+    const input = parseBody(res, twoFactorLoginSchema, req.body);
+    if (!input) return;
+
+    try {
+        const secret = process.env.JWT_SECRET;
+        if (!secret) {
             sendError(res, 500, 'JWT secret is not configured');
             return;
         }
+        const userId = readChallengeToken(input.challengeToken, secret);
+        if (!userId) {
+            sendError(res, 401, 'Sign-in expired — enter your password again');
+            return;
+        }
 
-        const payload: AuthSessionDto = {
-            token,
-            user: await toAuthUser(req, user),
-        };
-        sendSuccess(res, payload);
+        // Locked per account rather than per IP: the password is already known to whoever is guessing.
+        const now = new Date();
+        const attemptKey = twoFactorAttemptKey(userId);
+        const activeLockRemainingMs = await getLockoutRemainingMs(attemptKey, now);
+        if (activeLockRemainingMs > 0) {
+            sendLockedOut(res, activeLockRemainingMs);
+            return;
+        }
+
+        const result = await checkSecondFactor(userId, input.code, now);
+        if (!result.ok) {
+            const lockRemainingMs = await recordFailedAttempt(attemptKey, now);
+            if (lockRemainingMs > 0) {
+                sendLockedOut(res, lockRemainingMs);
+            } else {
+                sendError(res, result.status, result.message);
+            }
+            return;
+        }
+        await clearFailedAttempts(attemptKey);
+
+        const user = await User.findById(userId);
+        if (!user) {
+            sendError(res, 401, 'Invalid credentials');
+            return;
+        }
+        await completeLogin(req, res, user, input);
     } catch (error: unknown) {
-        console.error('Login error:', error);
+        console.error('Two-factor login error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/auth/forgot-password — email a single-use reset code; the answer never reveals whether the account exists
+router.post('/forgot-password', rateLimit(RATE_LIMITS.accountEmail), async (req, res: Response): Promise<void> => {
+    const input = parseBody(res, forgotPasswordSchema, req.body);
+    if (!input) return;
+
+    try {
+        const user = await User.findOne({ email: input.email }).select('name email');
+        if (user) await sendAccountToken(user, 'password_reset');
+        sendSuccess(res, {
+            message: 'If an account exists for that email, a reset code is on its way.',
+        });
+    } catch (error: unknown) {
+        console.error('Forgot password error:', error);
         sendError(res, 500, getErrorMessage(error));
     }
 });
 
-// POST /api/auth/reset-password
-// Prototype reset flow: email + new password (no email token).
-router.post('/reset-password', async (req, res: Response): Promise<void> => {
+// POST /api/auth/reset-password — set a new password with the emailed code; signs out every device
+router.post('/reset-password', rateLimit(RATE_LIMITS.auth), async (req, res: Response): Promise<void> => {
     const input = parseBody(res, resetPasswordSchema, req.body);
     if (!input) return;
 
     try {
-        const user = await User.findOne({ email: input.email });
-        if (!user) {
-            sendError(res, 404, 'No account found with this email');
+        const token = await consumeAccountToken(input.token, 'password_reset');
+        const user = token ? await User.findById(token.userId) : null;
+        if (!token || !user || user.email !== token.email) {
+            sendError(res, 400, 'Invalid or expired code');
             return;
         }
 
         user.password = input.newPassword;
+        // Receiving the code proves the address, so an unverified email counts as verified now.
+        if (!user.emailVerifiedAt) user.emailVerifiedAt = new Date();
         await user.save();
-        clearLoginAttemptsForEmail(input.email);
+        await Promise.all([
+            clearFailedAttemptsMatching(`login:${user.email}::`),
+            clearFailedAttempts(`login-email:${user.email}`),
+            clearFailedAttemptsMatching(`login-email:${user.email}::`),
+        ]);
+        await revokeUserSessions(String(user._id));
 
         sendSuccess(res, {
             message: 'Password reset successful. You can now sign in with your new password.',
@@ -284,6 +403,94 @@ router.post('/reset-password', async (req, res: Response): Promise<void> => {
     }
 });
 
+// POST /api/auth/verify-email — confirm the address with the code sent at registration
+router.post('/verify-email', rateLimit(RATE_LIMITS.auth), async (req, res: Response): Promise<void> => {
+    const input = parseBody(res, verifyEmailSchema, req.body);
+    if (!input) return;
+
+    try {
+        const token = await consumeAccountToken(input.token, 'email_verification');
+        const user = token
+            ? await User.findOneAndUpdate(
+                { _id: token.userId, email: token.email },
+                { $set: { emailVerifiedAt: new Date() } },
+                { new: true }
+            ).select('-password')
+            : null;
+        if (!user) {
+            sendError(res, 400, 'Invalid or expired code');
+            return;
+        }
+
+        sendSuccess(res, { user: await toAuthUser(req, user) });
+    } catch (error: unknown) {
+        console.error('Verify email error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/auth/verify-email/resend — send a new verification code
+router.post('/verify-email/resend', authenticate, rateLimit(RATE_LIMITS.accountEmail), async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.userId) {
+            sendError(res, 401, 'Unauthorized');
+            return;
+        }
+
+        const user = await User.findById(req.userId).select('name email emailVerifiedAt');
+        if (!user) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+        if (user.emailVerifiedAt) {
+            sendError(res, 409, 'Email is already verified');
+            return;
+        }
+
+        const sent = await sendAccountToken(user, 'email_verification');
+        if (!sent) {
+            sendError(res, 429, 'A code was sent less than a minute ago. Check your inbox.');
+            return;
+        }
+        sendSuccess(res, { message: `A new code was sent to ${user.email}.` });
+    } catch (error: unknown) {
+        console.error('Resend verification error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/auth/refresh — swap a refresh token for a new access/refresh pair
+router.post('/refresh', async (req, res: Response): Promise<void> => {
+    const input = parseBody(res, refreshTokenSchema, req.body);
+    if (!input) return;
+
+    try {
+        const result = await refreshSession(input.refreshToken, sessionClientInfo(req));
+        if (!result.ok) {
+            sendError(res, result.status, result.message);
+            return;
+        }
+        const payload: AuthTokensDto = result.tokens;
+        sendSuccess(res, payload);
+    } catch (error: unknown) {
+        console.error('Refresh error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/auth/logout — end this device's session so its refresh token stops working
+router.post('/logout', authenticate, async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (req.userId && req.sessionId) {
+            await revokeSession(req.userId, req.sessionId);
+        }
+        sendSuccess(res, { message: 'Signed out' });
+    } catch (error: unknown) {
+        console.error('Logout error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
 // GET /api/auth/me
 router.get('/me', authenticate, async (req: AuthRequest, res: Response): Promise<void> => {
     try {
@@ -304,34 +511,92 @@ router.get('/me', authenticate, async (req: AuthRequest, res: Response): Promise
     }
 });
 
-// DELETE /api/auth/me
-router.delete('/me', authenticate, async (req: AuthRequest, res: Response): Promise<void> => {
+// PUT /api/auth/time-zone — device reports its IANA zone; changes are kept as travel history
+router.put('/time-zone', authenticate, async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, timeZoneUpdateSchema, req.body);
+    if (!input) return;
+
     try {
         if (!req.userId) {
             sendError(res, 401, 'Unauthorized');
             return;
         }
 
-        const userId = req.userId;
-        const deletedUser = await User.findByIdAndDelete(userId);
-        if (!deletedUser) {
+        const user = await User.findById(req.userId).select('-password');
+        if (!user) {
             sendError(res, 404, 'User not found');
             return;
         }
 
-        await Promise.all([
-            HealthEntry.deleteMany({ userId }),
-            MoodEntry.deleteMany({ userId }),
-            Avatar.deleteMany({ userId }),
-            AvatarAnimation.deleteMany({ userId }),
-            WeeklyAnalysisCache.deleteMany({ userId }),
-        ]);
+        const timeZoneChange = buildTimeZoneChange(user, input.timeZone);
+        const updated = timeZoneChange
+            ? await User.findByIdAndUpdate(user._id, timeZoneChange, { new: true }).select('-password')
+            : user;
+        if (!updated) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+
+        sendSuccess(res, { user: await toAuthUser(req, updated) });
+    } catch (error: unknown) {
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/auth/me — schedule deletion; everything is purged once the grace window ends
+router.delete('/me', authenticate, async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.userId) {
+            sendError(res, 401, 'Unauthorized');
+            return;
+        }
+
+        const user = await User.findById(req.userId).select('deletionScheduledFor');
+        if (!user) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+        if (!user.deletionScheduledFor) {
+            Object.assign(user, scheduleDeletionFields());
+            await user.save();
+        }
+        await revokeUserSessions(req.userId);
 
-        sendSuccess(res, { message: 'Account and associated data deleted successfully' });
+        const scheduledFor = user.deletionScheduledFor ?? new Date();
+        const payload: AccountDeletionDto = {
+            message: `Account scheduled for deletion on ${scheduledFor.toISOString().slice(0, 10)}. Sign in before then to cancel.`,
+            deletionScheduledFor: scheduledFor.toISOString(),
+        };
+        sendSuccess(res, payload);
     } catch (error: unknown) {
         console.error('Delete account error:', error);
         sendError(res, 500, getErrorMessage(error));
     }
 });
 
+// POST /api/auth/me/cancel-deletion — keep the account during the grace window
+router.post('/me/cancel-deletion', authenticate, async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        if (!req.userId) {
+            sendError(res, 401, 'Unauthorized');
+            return;
+        }
+
+        const user = await User.findOneAndUpdate(
+            { _id: req.userId, deletionScheduledFor: { $gt: new Date() } },
+            { $set: { deletionRequestedAt: null, deletionScheduledFor: null } },
+            { new: true }
+        ).select('-password');
+        if (!user) {
+            sendError(res, 404, 'No pending account deletion');
+            return;
+        }
+
+        sendSuccess(res, { user: await toAuthUser(req, user) });
+    } catch (error: unknown) {
+        console.error('Cancel account deletion error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
 export default router;
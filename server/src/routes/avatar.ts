@@ -2,6 +2,7 @@ import express from 'express';
 import multer from 'multer';
 import { z } from 'zod';
 import { authenticate as requireAuth } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
 import { Avatar } from '../models/Avatar';
 import { AvatarAnimation, StateType } from '../models/AvatarAnimation';
 import { generateBaseAvatar, generateStateAnimation } from '../lib/nanobanaService';
@@ -26,6 +27,8 @@ import {
     resolveMediaUrlForClient,
     storeBufferAsMediaRef,
 } from '../services/mediaStoreService';
+import { RATE_LIMITS } from '../services/rateLimitService';
+import { getUserToday } from '../services/timeZoneService';
 
 interface AuthRequest extends express.Request {
     userId?: string;
@@ -190,7 +193,7 @@ const upload = multer({
  * 5) NanoBana generates emotional animations
  * 6) each animation is saved in DB
  */
-router.post('/setup', requireAuth, upload.single('photo'), async (req: AuthRequest, res) => {
+router.post('/setup', requireAuth, rateLimit(RATE_LIMITS.avatarSetup), upload.single('photo'), async (req: AuthRequest, res) => {
     try {
         const userId = req.userId;
         if (!userId) {
@@ -448,7 +451,7 @@ router.get('/state', requireAuth, async (req: AuthRequest, res) => {
             return;
         }
 
-        const { start: todayStartUtc, end: tomorrowStartUtc } = getUtcDayRange(query.date);
+        const { start: todayStartUtc, end: tomorrowStartUtc } = getUtcDayRange(query.date ?? await getUserToday(userId));
 
         const requestedStateRaw = query.state ?? null;
         const includeMedia = parseIncludeMedia(query.includeMedia);
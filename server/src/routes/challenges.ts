@@ -0,0 +1,49 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { ChallengeHistoryDto } from '../contracts/api';
+import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseQuery } from '../lib/validation';
+import { challengeHistoryQuerySchema, loadChallengeHistory, loadWeeklyChallenges } from '../services/challengeService';
+import { getUserToday } from '../services/timeZoneService';
+
+const router = Router();
+router.use(authenticate);
+
+// GET /api/challenges — this week's challenges (assigned on first use) with progress
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        sendSuccess(res, await loadWeeklyChallenges(userId));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// GET /api/challenges/history?weeks=12 — challenges from recent weeks, newest first
+router.get('/history', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, challengeHistoryQuerySchema, req.query);
+    if (!query) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const payload: ChallengeHistoryDto = {
+            challenges: await loadChallengeHistory(userId, query.weeks, await getUserToday(userId)),
+        };
+        sendSuccess(res, payload);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
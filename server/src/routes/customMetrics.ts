@@ -0,0 +1,221 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import CustomMetric from '../models/CustomMetric';
+import CustomMetricValue from '../models/CustomMetricValue';
+import { getUtcDayKey, shiftUtcDays, toUtcDayStart } from '../lib/dateUtils';
+import { getErrorMessage, getMongooseValidationMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseBody, parseParams, parseQuery, QUERY_LIMITS } from '../lib/validation';
+import {
+    customMetricDefinitionSchema,
+    customMetricLogSchema,
+    customMetricUpdateSchema,
+    logCustomMetricValue,
+    MAX_CUSTOM_METRICS,
+    parseCustomMetricValue,
+    reaggregateCustomMetric,
+} from '../services/customMetricService';
+import { getUserToday } from '../services/timeZoneService';
+
+const router = Router();
+router.use(authenticate);
+
+const listQuerySchema = z.object({
+    includeArchived: z.enum(['true', 'false']).optional(),
+});
+
+const valuesQuerySchema = z.object({
+    days: z.coerce
+        .number()
+        .int()
+        .min(QUERY_LIMITS.days.min)
+        .max(QUERY_LIMITS.days.max)
+        .default(QUERY_LIMITS.days.default),
+});
+
+const idParamSchema = z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid metric id'),
+});
+
+const valueParamSchema = idParamSchema.extend({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be YYYY-MM-DD'),
+});
+
+const DUPLICATE_NAME_MESSAGE = 'You already have a metric with that name';
+
+function sendWriteError(res: Response, error: unknown): void {
+    console.error(error);
+    const candidate = error as { name?: string; code?: number };
+    const statusCode = candidate?.code === 11000 ? 409 : candidate?.name === 'ValidationError' ? 400 : 500;
+    sendError(res, statusCode, getMongooseValidationMessage(error, DUPLICATE_NAME_MESSAGE));
+}
+
+// GET /api/custom-metrics?includeArchived=true — metric definitions
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, listQuerySchema, req.query);
+    if (!query) return;
+
+    try {
+        const filter: Record<string, unknown> = { userId: req.userId };
+        if (query.includeArchived !== 'true') filter.archived = false;
+        const metrics = await CustomMetric.find(filter).sort({ createdAt: 1 });
+        sendSuccess(res, metrics);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// GET /api/custom-metrics/values?days=30 — daily values for every metric (Analytics)
+router.get('/values', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, valuesQuerySchema, req.query);
+    if (!query) return;
+
+    try {
+        const since = shiftUtcDays(await getUserToday(req.userId), -(query.days - 1));
+        const values = await CustomMetricValue.find({ userId: req.userId, date: { $gte: since } })
+            .sort({ date: 1 })
+            .lean();
+        sendSuccess(res, values.map((day) => ({
+            metricId: String(day.metricId),
+            date: getUtcDayKey(day.date),
+            value: day.value,
+            logs: day.logs.length,
+        })));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/custom-metrics — define a metric
+router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, customMetricDefinitionSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const count = await CustomMetric.countDocuments({ userId });
+        if (count >= MAX_CUSTOM_METRICS) {
+            sendError(res, 400, `You can define up to ${MAX_CUSTOM_METRICS} custom metrics`);
+            return;
+        }
+        const metric = await CustomMetric.create({ ...input, userId });
+        sendSuccess(res, metric, 201);
+    } catch (error: unknown) {
+        sendWriteError(res, error);
+    }
+});
+
+// PUT /api/custom-metrics/:id — rename, change unit/aggregation or archive
+router.put('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+    const input = parseBody(res, customMetricUpdateSchema, req.body);
+    if (!input) return;
+
+    try {
+        const metric = await CustomMetric.findOne({ _id: params.id, userId: req.userId });
+        if (!metric) {
+            sendError(res, 404, 'Metric not found');
+            return;
+        }
+
+        const aggregationChanged = input.aggregation !== undefined && input.aggregation !== metric.aggregation;
+        metric.set(input);
+        await metric.save();
+        if (aggregationChanged) await reaggregateCustomMetric(metric);
+        sendSuccess(res, metric);
+    } catch (error: unknown) {
+        sendWriteError(res, error);
+    }
+});
+
+// DELETE /api/custom-metrics/:id — removes the metric and all of its values
+router.delete('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+
+    try {
+        const metric = await CustomMetric.findOneAndDelete({ _id: params.id, userId: req.userId });
+        if (!metric) {
+            sendError(res, 404, 'Metric not found');
+            return;
+        }
+        const { deletedCount } = await CustomMetricValue.deleteMany({ metricId: metric._id });
+        sendSuccess(res, { message: 'Deleted', valuesDeleted: deletedCount });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/custom-metrics/:id/values — log a value (added to the day, or replacing it)
+router.post('/:id/values', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+    const input = parseBody(res, customMetricLogSchema, req.body);
+    if (!input) return;
+
+    let day: Date | undefined;
+    try {
+        day = input.date ? toUtcDayStart(input.date) : undefined;
+    } catch {
+        sendError(res, 400, 'Invalid date');
+        return;
+    }
+
+    try {
+        day ??= await getUserToday(req.userId);
+        const metric = await CustomMetric.findOne({ _id: params.id, userId: req.userId });
+        if (!metric) {
+            sendError(res, 404, 'Metric not found');
+            return;
+        }
+
+        const parsed = parseCustomMetricValue(metric, input.value);
+        if ('error' in parsed) {
+            sendError(res, 400, parsed.error, [{ field: 'value', message: parsed.error }]);
+            return;
+        }
+
+        const saved = await logCustomMetricValue(metric, day, parsed.value, input.mode);
+        sendSuccess(res, {
+            metricId: String(metric._id),
+            date: getUtcDayKey(day),
+            value: saved.value,
+            logs: saved.logs.length,
+        });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/custom-metrics/:id/values/:date — clears one day
+router.delete('/:id/values/:date', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, valueParamSchema, req.params);
+    if (!params) return;
+
+    try {
+        const deleted = await CustomMetricValue.findOneAndDelete({
+            metricId: params.id,
+            userId: req.userId,
+            date: toUtcDayStart(params.date),
+        });
+        if (!deleted) {
+            sendError(res, 404, 'No value logged for that day');
+            return;
+        }
+        sendSuccess(res, { message: 'Deleted' });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
@@ -4,9 +4,15 @@ import { z } from 'zod';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import HealthEntry from '../models/HealthEntry';
 import MoodEntry from '../models/MoodEntry';
+import SleepSession from '../models/SleepSession';
 import { toUtcDayStart } from '../lib/dateUtils';
-import { getMongooseValidationMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { getErrorMessage, getMongooseValidationMessage, sendError, sendSuccess } from '../lib/apiResponse';
 import { parseBody } from '../lib/validation';
+import { buildSleepSessionFields, sleepSessionInputSchema } from '../services/sleepSessionService';
+import { syncProgress } from '../services/progressService';
+import { BatchSleepChange, newRevisionBatchId, recordRevision, undoRevisionBatch } from '../services/revisionService';
+import { syncStreaks } from '../services/streakService';
+import { getUserToday } from '../services/timeZoneService';
 
 const router = Router();
 router.use(authenticate);
@@ -23,6 +29,7 @@ const dailyLogSaveSchema = z.object({
     energyScore: z.coerce.number().min(0).max(100).optional(),
     weight: z.coerce.number().min(0).max(500).optional(),
     healthNotes: z.string().trim().max(2000).optional(),
+    sleep: sleepSessionInputSchema.optional(),
     mood: moodSchema,
     energyLevel: z.coerce.number().int().min(1).max(10),
     stressLevel: z.coerce.number().int().min(1).max(10),
@@ -31,6 +38,7 @@ const dailyLogSaveSchema = z.object({
     value.steps !== undefined
     || value.activeMinutes !== undefined
     || value.sleepHours !== undefined
+    || value.sleep !== undefined
     || value.waterLitres !== undefined
     || value.heartRate !== undefined
     || value.energyScore !== undefined
@@ -38,6 +46,10 @@ const dailyLogSaveSchema = z.object({
     || value.healthNotes !== undefined
 ), 'At least one health field must be provided');
 
+const undoSchema = z.object({
+    batchId: z.string().uuid('Invalid revision batch id'),
+});
+
 function resolveWriteStatusCode(error: unknown): number {
     const candidate = error as { name?: string; code?: number; message?: string };
     if (candidate?.name === 'ValidationError' || candidate?.code === 11000 || candidate?.message === 'Invalid date') {
@@ -57,7 +69,14 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
         return;
     }
 
-    const normalizedDate = toUtcDayStart(input.date);
+    let normalizedDate: Date;
+    try {
+        normalizedDate = input.date ? toUtcDayStart(input.date) : await getUserToday(userId);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, resolveWriteStatusCode(error), getMongooseValidationMessage(error, 'Failed to save daily log'));
+        return;
+    }
     const healthSet: Record<string, unknown> = {};
 
     if (input.steps !== undefined) healthSet.steps = input.steps;
@@ -70,6 +89,10 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
     if (input.healthNotes !== undefined) healthSet.notes = input.healthNotes;
     healthSet.source = 'daily_log';
 
+    // A logged sleep session is the source of truth for the day's sleep duration.
+    const sleepFields = input.sleep ? buildSleepSessionFields(input.sleep, normalizedDate) : null;
+    if (sleepFields) healthSet.sleepHours = sleepFields.durationHours;
+
     const moodSet: Record<string, unknown> = {
         mood: input.mood,
         energyLevel: input.energyLevel,
@@ -81,10 +104,19 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
     const session = await mongoose.startSession();
     let savedHealth: Awaited<ReturnType<typeof HealthEntry.findOneAndUpdate>> | null = null;
     let savedMood: Awaited<ReturnType<typeof MoodEntry.findOneAndUpdate>> | null = null;
+    let savedSleep: Awaited<ReturnType<typeof SleepSession.findOneAndReplace>> | null = null;
+    const batchId = newRevisionBatchId();
+    let revisionCount = 0;
 
     try {
         await session.withTransaction(async () => {
-            savedHealth = await HealthEntry.findOneAndUpdate(
+            revisionCount = 0;
+            const [previousHealth, previousMood] = await Promise.all([
+                HealthEntry.findOne({ userId, date: normalizedDate }).session(session).lean(),
+                MoodEntry.findOne({ userId, date: normalizedDate }).session(session).lean(),
+            ]);
+
+            const health = await HealthEntry.findOneAndUpdate(
                 { userId, date: normalizedDate },
                 {
                     $set: healthSet,
@@ -102,7 +134,7 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
                 }
             );
 
-            savedMood = await MoodEntry.findOneAndUpdate(
+            const mood = await MoodEntry.findOneAndUpdate(
                 { userId, date: normalizedDate },
                 {
                     $set: moodSet,
@@ -119,6 +151,31 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
                     setDefaultsOnInsert: true,
                 }
             );
+
+            savedHealth = health;
+            savedMood = mood;
+
+            let sleepChange: BatchSleepChange | null = null;
+            if (sleepFields) {
+                const previousSleep = await SleepSession.findOne({ userId, date: normalizedDate }).session(session).lean();
+                const sleep = await SleepSession.findOneAndReplace(
+                    { userId, date: normalizedDate },
+                    { ...sleepFields, userId, source: 'daily_log' },
+                    { session, new: true, upsert: true, runValidators: true }
+                );
+                savedSleep = sleep;
+                if (sleep) sleepChange = { sessionId: sleep._id, before: previousSleep };
+            }
+
+            // The sleep change rides on whichever revision of this save gets recorded first.
+            const revisionBase = { userId, source: 'daily_log' as const, batchId };
+            if (await recordRevision({ ...revisionBase, entryType: 'health', before: previousHealth, after: health, sleep: sleepChange }, session)) {
+                revisionCount += 1;
+                sleepChange = null;
+            }
+            if (await recordRevision({ ...revisionBase, entryType: 'mood', before: previousMood, after: mood, sleep: sleepChange }, session)) {
+                revisionCount += 1;
+            }
         });
     } catch (error: unknown) {
         const statusCode = resolveWriteStatusCode(error);
@@ -133,12 +190,48 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
         sendError(res, 500, 'Daily log save failed');
         return;
     }
+    await syncStreaks(userId, [normalizedDate]);
+    await syncProgress(userId);
 
     sendSuccess(res, {
         date: normalizedDate.toISOString().slice(0, 10),
         health: savedHealth,
         mood: savedMood,
+        sleep: savedSleep,
+        revisionBatchId: revisionCount > 0 ? batchId : null,
     });
 });
 
+// POST /api/daily-log/undo — revert one save using the revisionBatchId it returned
+router.post('/undo', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, undoSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const result = await undoRevisionBatch(userId, input.batchId);
+        if (!result.ok) {
+            sendError(res, result.status, result.message);
+            return;
+        }
+        const [date] = result.dates;
+        await syncStreaks(userId, [date]);
+        await syncProgress(userId);
+
+        const [health, mood, sleep] = await Promise.all([
+            HealthEntry.findOne({ userId, date }).lean(),
+            MoodEntry.findOne({ userId, date }).lean(),
+            SleepSession.findOne({ userId, date }).lean(),
+        ]);
+        sendSuccess(res, { date: date.toISOString().slice(0, 10), health, mood, sleep });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
 export default router;
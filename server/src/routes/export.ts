@@ -0,0 +1,110 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { getUtcDayKey, shiftUtcDays, toUtcDayStart } from '../lib/dateUtils';
+import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseQuery } from '../lib/validation';
+import { buildUserDataArchive, loadUserDataExport } from '../services/dataExportService';
+import { loadFhirBundle } from '../services/fhirExportService';
+
+const router = Router();
+router.use(authenticate);
+
+const exportQuerySchema = z.object({
+    format: z.enum(['zip', 'json']).default('zip'),
+});
+
+const FHIR_MAX_RANGE_DAYS = 366;
+const dayKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const fhirQuerySchema = z.object({
+    from: dayKeySchema.optional(),
+    to: dayKeySchema.optional(),
+});
+
+// GET /api/export?format=zip|json
+// zip: downloadable archive (manifest + JSON/CSV + avatar media). json: same records inline, media by reference.
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, exportQuerySchema, req.query);
+    if (!query) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const exportData = await loadUserDataExport(userId);
+        if (!exportData) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+
+        if (query.format === 'json') {
+            sendSuccess(res, exportData);
+            return;
+        }
+
+        const archive = await buildUserDataArchive(exportData);
+        const filename = `health-twin-export-${getUtcDayKey(new Date())}.zip`;
+        res.status(200);
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        res.setHeader('Content-Length', String(archive.length));
+        res.setHeader('Cache-Control', 'no-store');
+        res.end(archive);
+    } catch (error: unknown) {
+        console.error('Data export error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// GET /api/export/fhir?from=YYYY-MM-DD&to=YYYY-MM-DD
+// FHIR R4 collection Bundle (Patient + Observations). Defaults to the last 30 days.
+router.get('/fhir', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, fhirQuerySchema, req.query);
+    if (!query) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    let from: Date;
+    let to: Date;
+    try {
+        to = toUtcDayStart(query.to);
+        from = query.from ? toUtcDayStart(query.from) : shiftUtcDays(to, -29);
+    } catch {
+        sendError(res, 400, 'Invalid date range');
+        return;
+    }
+    if (from > to) {
+        sendError(res, 400, '"from" must be on or before "to"');
+        return;
+    }
+    if (shiftUtcDays(from, FHIR_MAX_RANGE_DAYS) <= to) {
+        sendError(res, 400, `Date range cannot exceed ${FHIR_MAX_RANGE_DAYS} days`);
+        return;
+    }
+
+    try {
+        const baseUrl = `${req.protocol}://${req.get('host')}${req.baseUrl}/fhir`;
+        const bundle = await loadFhirBundle(userId, { from, to }, baseUrl);
+        if (!bundle) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+
+        // FHIR clients expect the bare Bundle, not the { success, data } envelope.
+        res.status(200);
+        res.setHeader('Content-Type', 'application/fhir+json; charset=utf-8');
+        res.setHeader('Cache-Control', 'no-store');
+        res.send(JSON.stringify(bundle));
+    } catch (error: unknown) {
+        console.error('FHIR export error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
@@ -0,0 +1,291 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import Friendship from '../models/Friendship';
+import User from '../models/User';
+import { FriendFeedDto, FriendInviteDto, SharingSettingsDto } from '../contracts/api';
+import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { shiftUtcDays } from '../lib/dateUtils';
+import { parseBody, parseParams, parseQuery } from '../lib/validation';
+import {
+    findFriendshipBetween,
+    friendCodeSchema,
+    friendFeedQuerySchema,
+    friendInviteSchema,
+    generateInviteCode,
+    incomingInviteFilter,
+    INVITE_CODE_TTL_DAYS,
+    loadFriendFeed,
+    loadFriends,
+    MAX_FRIENDS,
+    MAX_PENDING_INVITES,
+    resolveSharing,
+    sharingUpdateSchema,
+} from '../services/friendService';
+
+const router = Router();
+router.use(authenticate);
+
+const idParamSchema = z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid friendship id'),
+});
+
+const ALREADY_FRIENDS_MESSAGE = 'You are already friends or have a pending invite with this person';
+
+async function hasRoomForFriend(userId: string): Promise<boolean> {
+    const count = await Friendship.countDocuments({
+        status: 'accepted',
+        $or: [{ requesterId: userId }, { addresseeId: userId }],
+    });
+    return count < MAX_FRIENDS;
+}
+
+// GET /api/friends — friends, pending invites both ways and this user's sharing settings
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const friends = await loadFriends(userId);
+        if (!friends) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+        sendSuccess(res, friends);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// GET /api/friends/feed?weeks=4 — weekly summaries friends chose to share
+router.get('/feed', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, friendFeedQuerySchema, req.query);
+    if (!query) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const payload: FriendFeedDto = { items: await loadFriendFeed(userId, query.weeks) };
+        sendSuccess(res, payload);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// PUT /api/friends/sharing — choose which weekly aggregates friends can see
+router.put('/sharing', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, sharingUpdateSchema, req.body);
+    if (!input) return;
+
+    try {
+        const $set = Object.fromEntries(Object.entries(input).map(([key, value]) => [`sharing.${key}`, value]));
+        const user = await User.findByIdAndUpdate(req.userId, { $set }, { new: true }).select('sharing').lean();
+        if (!user) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+        const payload: SharingSettingsDto = resolveSharing(user.sharing);
+        sendSuccess(res, payload);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/friends/invites — invite by email, or create a one-time code when no email is given
+router.post('/invites', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, friendInviteSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const user = await User.findById(userId).select('email').lean();
+        if (!user) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+        const pending = await Friendship.countDocuments({ requesterId: userId, status: 'pending' });
+        if (pending >= MAX_PENDING_INVITES) {
+            sendError(res, 400, `You can have up to ${MAX_PENDING_INVITES} pending invites`);
+            return;
+        }
+
+        let addresseeId: string | null = null;
+        if (input.email) {
+            if (input.email === user.email) {
+                sendError(res, 400, 'You cannot invite yourself');
+                return;
+            }
+            // Unverified accounts get an email invite, which they can see once they verify.
+            const invitee = await User.findOne({ email: input.email, emailVerifiedAt: { $ne: null } }).select('_id').lean();
+            addresseeId = invitee ? String(invitee._id) : null;
+            const duplicate = addresseeId
+                ? await findFriendshipBetween(userId, addresseeId)
+                : await Friendship.findOne({ requesterId: userId, inviteEmail: input.email, status: 'pending' });
+            if (duplicate) {
+                sendError(res, 409, ALREADY_FRIENDS_MESSAGE);
+                return;
+            }
+        }
+
+        const friendship = await Friendship.create({
+            requesterId: userId,
+            addresseeId,
+            inviteEmail: input.email ?? null,
+            inviteCode: input.email ? null : generateInviteCode(),
+            expiresAt: input.email ? null : shiftUtcDays(new Date(), INVITE_CODE_TTL_DAYS),
+        });
+        const payload: FriendInviteDto = {
+            id: String(friendship._id),
+            direction: 'outgoing',
+            name: null,
+            email: friendship.inviteEmail,
+            code: friendship.inviteCode,
+            expiresAt: friendship.expiresAt ? friendship.expiresAt.toISOString() : null,
+            createdAt: friendship.createdAt.toISOString(),
+        };
+        sendSuccess(res, payload, 201);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/friends/join — redeem an invite code
+router.post('/join', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, friendCodeSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const invite = await Friendship.findOne({
+            inviteCode: input.code,
+            status: 'pending',
+            expiresAt: { $gt: new Date() },
+        });
+        if (!invite) {
+            sendError(res, 404, 'Invite code not found or expired');
+            return;
+        }
+        if (String(invite.requesterId) === userId) {
+            sendError(res, 400, 'You cannot redeem your own invite code');
+            return;
+        }
+        if (await findFriendshipBetween(userId, String(invite.requesterId))) {
+            sendError(res, 409, ALREADY_FRIENDS_MESSAGE);
+            return;
+        }
+        if (!(await hasRoomForFriend(userId))) {
+            sendError(res, 400, `You can have up to ${MAX_FRIENDS} friends`);
+            return;
+        }
+
+        // Matching on the code again keeps two people from redeeming it at the same time.
+        const accepted = await Friendship.findOneAndUpdate(
+            { _id: invite._id, inviteCode: input.code, status: 'pending' },
+            { $set: { addresseeId: userId, status: 'accepted', acceptedAt: new Date(), inviteCode: null, expiresAt: null } },
+            { new: true }
+        );
+        if (!accepted) {
+            sendError(res, 404, 'Invite code not found or expired');
+            return;
+        }
+        sendSuccess(res, await loadFriends(userId));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/friends/:id/accept — accept an incoming invite
+router.post('/:id/accept', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const user = await User.findById(userId).select('email emailVerifiedAt').lean();
+        if (!user) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+        const invite = await Friendship.findOne({ _id: params.id, ...incomingInviteFilter(userId, user) });
+        if (!invite) {
+            sendError(res, 404, 'Invite not found');
+            return;
+        }
+        const existing = await findFriendshipBetween(userId, String(invite.requesterId));
+        if (existing && String(existing._id) !== String(invite._id)) {
+            sendError(res, 409, ALREADY_FRIENDS_MESSAGE);
+            return;
+        }
+        if (!(await hasRoomForFriend(userId))) {
+            sendError(res, 400, `You can have up to ${MAX_FRIENDS} friends`);
+            return;
+        }
+
+        invite.set({ addresseeId: userId, status: 'accepted', acceptedAt: new Date() });
+        await invite.save();
+        sendSuccess(res, await loadFriends(userId));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/friends/:id — decline or cancel an invite, or remove a friend
+router.delete('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const user = await User.findById(userId).select('email emailVerifiedAt').lean();
+        if (!user) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+        const friendship = await Friendship.findOneAndDelete({
+            _id: params.id,
+            $or: [
+                { requesterId: userId },
+                { addresseeId: userId },
+                incomingInviteFilter(userId, user),
+            ],
+        });
+        if (!friendship) {
+            sendError(res, 404, 'Friend not found');
+            return;
+        }
+        sendSuccess(res, { message: 'Deleted' });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
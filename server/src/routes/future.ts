@@ -5,7 +5,7 @@ import HealthEntry from '../models/HealthEntry';
 import MoodEntry from '../models/MoodEntry';
 import { Avatar } from '../models/Avatar';
 import { AvatarAnimation } from '../models/AvatarAnimation';
-import { getUtcDayKey, shiftUtcDays, toUtcDayStart } from '../lib/dateUtils';
+import { getUtcDayKey, shiftUtcDays } from '../lib/dateUtils';
 import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
 import { parseQuery, QUERY_LIMITS } from '../lib/validation';
 import {
@@ -17,6 +17,7 @@ import {
     ensureMediaRefFromValue,
     resolveMediaUrlForClient,
 } from '../services/mediaStoreService';
+import { getUserToday } from '../services/timeZoneService';
 
 type FutureState = 'happy' | 'sad' | 'sleepy' | 'calm';
 
@@ -223,7 +224,7 @@ router.get('/insight', async (req: AuthRequest, res: Response): Promise<void> =>
             return;
         }
 
-        const today = toUtcDayStart();
+        const today = await getUserToday(userId);
         const since = shiftUtcDays(today, -(query.days - 1));
         const tomorrow = shiftUtcDays(today, 1);
 
@@ -0,0 +1,65 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import UserGoals from '../models/UserGoals';
+import { getErrorMessage, getMongooseValidationMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseBody } from '../lib/validation';
+import { syncProgress } from '../services/progressService';
+import { buildGoalsUpdate, buildUserGoalsDto, goalsUpdateSchema } from '../services/goalService';
+
+const router = Router();
+router.use(authenticate);
+
+// GET /api/goals — effective daily targets, the defaults and which ones the user changed
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        const stored = await UserGoals.findOne({ userId: req.userId }).lean();
+        sendSuccess(res, buildUserGoalsDto(stored));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// PUT /api/goals — set one or more targets; `null` resets a goal to its default
+router.put('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, goalsUpdateSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const { $set, $unset } = buildGoalsUpdate(input);
+        const stored = await UserGoals.findOneAndUpdate(
+            { userId },
+            {
+                $set,
+                ...(Object.keys($unset).length > 0 ? { $unset } : {}),
+                $setOnInsert: { userId },
+            },
+            { new: true, upsert: true, runValidators: true }
+        ).lean();
+        await syncProgress(userId);
+        sendSuccess(res, buildUserGoalsDto(stored));
+    } catch (error: unknown) {
+        console.error(error);
+        const statusCode = (error as { name?: string })?.name === 'ValidationError' ? 400 : 500;
+        sendError(res, statusCode, getMongooseValidationMessage(error, 'Failed to save goals'));
+    }
+});
+
+// DELETE /api/goals — reset every goal to the defaults
+router.delete('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        await UserGoals.deleteOne({ userId: req.userId });
+        if (req.userId) await syncProgress(req.userId);
+        sendSuccess(res, buildUserGoalsDto(null));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
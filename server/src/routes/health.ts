@@ -1,16 +1,40 @@
 import { Router, Response } from 'express';
 import { z } from 'zod';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { handleUpload, limitUploadBytes } from '../middleware/upload';
 import HealthEntry from '../models/HealthEntry';
-import MoodEntry from '../models/MoodEntry';
 import { getUtcDayRange, shiftUtcDays, toUtcDayStart } from '../lib/dateUtils';
 import { getErrorMessage, getMongooseValidationMessage, sendError, sendSuccess } from '../lib/apiResponse';
 import { parseBody, parseParams, parseQuery, QUERY_LIMITS } from '../lib/validation';
+import {
+    importEntries,
+    importRequestSchema,
+    importUpload,
+    loadImportRecords,
+} from '../services/entryImportService';
+import { aggregateAppleHealthExport } from '../services/appleHealthImportService';
+import { clearDemoData, seedDemoWeek } from '../services/demoDataService';
+import { importDeviceHealthDays } from '../services/deviceImportService';
+import {
+    aggregateGoogleFitTakeout,
+    MAX_TAKEOUT_BYTES,
+    MAX_TAKEOUT_FILES,
+    takeoutUpload,
+} from '../services/googleFitImportService';
+import { syncProgress } from '../services/progressService';
+import {
+    loadEntryRevisions,
+    recordRevision,
+    restoreRevision,
+    revisionListQuerySchema,
+    revisionParamSchema,
+} from '../services/revisionService';
+import { syncStreaks } from '../services/streakService';
+import { getUserToday } from '../services/timeZoneService';
+import { moveToTrash } from '../services/trashService';
 
 const router = Router();
 router.use(authenticate);
-const DEMO_HEALTH_NOTE_PATTERN = /^Demo entry day/i;
-const DEMO_MOOD_NOTE_PATTERN = /^Demo mood day/i;
 
 const dateInputSchema = z.union([z.string(), z.date()]);
 const todayQuerySchema = z.object({
@@ -68,6 +92,10 @@ const healthUpdateSchema = z.object({
     'At least one updatable field is required'
 );
 
+const deviceImportQuerySchema = z.object({
+    dryRun: z.enum(['true', 'false', '1', '0']).default('false').transform((value) => value === 'true' || value === '1'),
+});
+
 function resolveWriteStatusCode(error: unknown): number {
     const candidate = error as { name?: string; code?: number; message?: string };
     if (candidate?.name === 'ValidationError' || candidate?.code === 11000 || candidate?.message === 'Invalid date') {
@@ -82,7 +110,7 @@ router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
     if (!query) return;
 
     try {
-        const todayUtc = toUtcDayStart();
+        const todayUtc = await getUserToday(req.userId);
         const since = shiftUtcDays(todayUtc, -(query.days - 1));
         const entries = await HealthEntry.find({
             userId: req.userId,
@@ -101,7 +129,7 @@ router.get('/today', async (req: AuthRequest, res: Response): Promise<void> => {
     if (!query) return;
 
     try {
-        const { start, end } = getUtcDayRange(query.date);
+        const { start, end } = getUtcDayRange(query.date ?? await getUserToday(req.userId));
         const entry = await HealthEntry.findOne({
             userId: req.userId,
             date: { $gte: start, $lt: end },
@@ -119,7 +147,7 @@ router.get('/history', async (req: AuthRequest, res: Response): Promise<void> =>
     if (!query) return;
 
     try {
-        const todayUtc = toUtcDayStart();
+        const todayUtc = await getUserToday(req.userId);
         const since = shiftUtcDays(todayUtc, -(query.limit - 1));
         const entries = await HealthEntry.find({
             userId: req.userId,
@@ -141,89 +169,7 @@ router.post('/seed-demo', async (req: AuthRequest, res: Response): Promise<void>
             return;
         }
 
-        const moods = ['happy', 'energetic', 'neutral', 'tired', 'stressed', 'sad'] as const;
-
-        // Weekly Report window is "last 7 days before today": [today-7, today-1]
-        // Keep today's Daily Log intact so dashboard avatar continues to work.
-        const todayUtc = toUtcDayStart();
-        const startWindow = shiftUtcDays(todayUtc, -7);
-
-        await Promise.all([
-            HealthEntry.deleteMany({
-                userId,
-                date: { $gte: startWindow, $lt: todayUtc },
-                $or: [
-                    { source: 'seed_demo' },
-                    { notes: DEMO_HEALTH_NOTE_PATTERN },
-                ],
-            }),
-            MoodEntry.deleteMany({
-                userId,
-                date: { $gte: startWindow, $lt: todayUtc },
-                $or: [
-                    { source: 'seed_demo' },
-                    { notes: DEMO_MOOD_NOTE_PATTERN },
-                ],
-            }),
-        ]);
-
-        const healthWrites = [];
-        const moodWrites = [];
-
-        // Seed exactly 7 days ending yesterday.
-        for (let offset = 7; offset >= 1; offset -= 1) {
-            const date = shiftUtcDays(todayUtc, -offset);
-            const dayNumber = 8 - offset; // 1..7
-
-            healthWrites.push(
-                HealthEntry.findOneAndUpdate(
-                    { userId, date },
-                    {
-                        $set: {
-                            steps: 5000 + Math.floor(Math.random() * 7000),
-                            activeMinutes: 15 + Math.floor(Math.random() * 75),
-                            sleepHours: +(5 + Math.random() * 4).toFixed(1),
-                            waterLitres: +(1.5 + Math.random() * 1.5).toFixed(1),
-                            heartRate: 60 + Math.floor(Math.random() * 30),
-                            energyScore: 40 + Math.floor(Math.random() * 60),
-                            weight: +(70 + Math.random() * 5).toFixed(1),
-                            notes: `Demo entry day ${dayNumber}`,
-                            source: 'seed_demo',
-                        },
-                        $setOnInsert: { userId, date },
-                    },
-                    { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
-                )
-            );
-
-            moodWrites.push(
-                MoodEntry.findOneAndUpdate(
-                    { userId, date },
-                    {
-                        $set: {
-                            mood: moods[Math.floor(Math.random() * moods.length)],
-                            energyLevel: 4 + Math.floor(Math.random() * 7),
-                            stressLevel: 1 + Math.floor(Math.random() * 6),
-                            notes: `Demo mood day ${dayNumber}`,
-                            source: 'seed_demo',
-                        },
-                        $setOnInsert: { userId, date },
-                    },
-                    { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
-                )
-            );
-        }
-
-        await Promise.all([
-            Promise.all(healthWrites),
-            Promise.all(moodWrites),
-        ]);
-
-        sendSuccess(res, {
-            message: '7 days of demo data seeded successfully',
-            healthEntries: 7,
-            moodEntries: 7,
-        });
+        sendSuccess(res, await seedDemoWeek(userId));
     } catch (error: unknown) {
         console.error('Seed demo error:', error);
         sendError(res, 500, 'Server error during seeding');
@@ -239,41 +185,114 @@ router.delete('/seed-demo', async (req: AuthRequest, res: Response): Promise<voi
             return;
         }
 
-        const [healthDeleted, moodDeleted] = await Promise.all([
-            HealthEntry.deleteMany({
-                userId,
-                $or: [
-                    { source: 'seed_demo' },
-                    { notes: DEMO_HEALTH_NOTE_PATTERN },
-                ],
-            }),
-            MoodEntry.deleteMany({
-                userId,
-                $or: [
-                    { source: 'seed_demo' },
-                    { notes: DEMO_MOOD_NOTE_PATTERN },
-                ],
-            }),
-        ]);
-
-        sendSuccess(res, {
-            message: 'Seeded demo data cleared successfully',
-            healthEntriesDeleted: healthDeleted.deletedCount ?? 0,
-            moodEntriesDeleted: moodDeleted.deletedCount ?? 0,
-        });
+        sendSuccess(res, await clearDemoData(userId));
     } catch (error: unknown) {
         console.error('Clear seed demo error:', error);
         sendError(res, 500, 'Server error during seeded data cleanup');
     }
 });
 
+// POST /api/health/import — bulk CSV/JSON import (multipart `file` or JSON body)
+// `dryRun` validates and reports per-row errors without writing; `onConflict` is skip | overwrite | merge.
+router.post('/import', handleUpload(importUpload.single('file')), async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, importRequestSchema, req.body ?? {});
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    let records: ReturnType<typeof loadImportRecords>;
+    try {
+        records = loadImportRecords(input, req.file);
+    } catch (error: unknown) {
+        sendError(res, 400, getErrorMessage(error, 'Could not read import payload'));
+        return;
+    }
+
+    try {
+        const result = await importEntries(userId, 'health', records, input);
+        if (!input.dryRun) {
+            await syncStreaks(userId);
+            await syncProgress(userId);
+        }
+        sendSuccess(res, result);
+    } catch (error: unknown) {
+        console.error('Health import error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/health/import/apple-health?dryRun=true
+// Body is the raw Apple Health export.xml (Content-Type: application/xml), parsed as a stream.
+router.post('/import/apple-health', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, deviceImportQuerySchema, req.query);
+    if (!query) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+    if (!req.is(['application/xml', 'text/xml', 'application/octet-stream'])) {
+        sendError(res, 415, 'Upload export.xml as the raw request body with Content-Type application/xml');
+        return;
+    }
+
+    try {
+        const aggregate = await aggregateAppleHealthExport(req);
+        const result = await importDeviceHealthDays(userId, 'apple_health', aggregate, query.dryRun);
+        if (!query.dryRun) {
+            await syncStreaks(userId);
+            await syncProgress(userId);
+        }
+        sendSuccess(res, result);
+    } catch (error: unknown) {
+        console.error('Apple Health import error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/health/import/google-fit?dryRun=true
+// Multipart `files`: Takeout Fit "Daily Summaries.csv", per-day YYYY-MM-DD.csv buckets and/or session JSON files.
+router.post('/import/google-fit', limitUploadBytes(MAX_TAKEOUT_BYTES), handleUpload(takeoutUpload.array('files', MAX_TAKEOUT_FILES)), async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, deviceImportQuerySchema, req.query);
+    if (!query) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+    const files = Array.isArray(req.files) ? req.files : [];
+    if (files.length === 0) {
+        sendError(res, 400, 'Upload at least one Google Fit Takeout file in the `files` field');
+        return;
+    }
+
+    try {
+        const aggregate = aggregateGoogleFitTakeout(files.map((file) => ({
+            name: file.originalname,
+            content: file.buffer.toString('utf8'),
+        })));
+        const result = await importDeviceHealthDays(userId, 'google_fit', aggregate, query.dryRun);
+        if (!query.dryRun) {
+            await syncStreaks(userId);
+            await syncProgress(userId);
+        }
+        sendSuccess(res, result);
+    } catch (error: unknown) {
+        console.error('Google Fit import error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
 // POST /api/health — create/update today entry
 router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
     const input = parseBody(res, healthUpsertSchema, req.body);
     if (!input) return;
 
     try {
-        const normalizedDate = toUtcDayStart(input.date);
+        const normalizedDate = input.date ? toUtcDayStart(input.date) : await getUserToday(req.userId);
 
         const setFields: Record<string, unknown> = {};
         if (input.steps !== undefined) setFields.steps = input.steps;
@@ -286,6 +305,7 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
         if (input.notes !== undefined) setFields.notes = input.notes;
         setFields.source = 'health_api';
 
+        const previous = await HealthEntry.findOne({ userId: req.userId, date: normalizedDate }).lean();
         const entry = await HealthEntry.findOneAndUpdate(
             { userId: req.userId, date: normalizedDate },
             {
@@ -302,6 +322,11 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
                 setDefaultsOnInsert: true,
             }
         );
+        if (req.userId) {
+            await recordRevision({ userId: req.userId, entryType: 'health', source: 'health_api', before: previous, after: entry });
+            await syncStreaks(req.userId, [normalizedDate]);
+            await syncProgress(req.userId);
+        }
 
         sendSuccess(res, entry);
     } catch (error: unknown) {
@@ -320,6 +345,7 @@ router.put('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
     if (!body) return;
 
     try {
+        const previous = await HealthEntry.findOne({ _id: params.id, userId: req.userId }).lean();
         const entry = await HealthEntry.findOneAndUpdate(
             { _id: params.id, userId: req.userId },
             { ...body, source: 'health_api' },
@@ -329,6 +355,11 @@ router.put('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
             sendError(res, 404, 'Entry not found');
             return;
         }
+        if (req.userId) {
+            await recordRevision({ userId: req.userId, entryType: 'health', source: 'health_api', before: previous, after: entry });
+            await syncStreaks(req.userId, [entry.date]);
+            await syncProgress(req.userId);
+        }
         sendSuccess(res, entry);
     } catch (error: unknown) {
         console.error(error);
@@ -336,17 +367,66 @@ router.put('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
     }
 });
 
-// DELETE /api/health/:id
+// GET /api/health/:id/revisions?limit=50 — who changed what and when, newest first
+router.get('/:id/revisions', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+    const query = parseQuery(res, revisionListQuerySchema, req.query);
+    if (!query) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        sendSuccess(res, await loadEntryRevisions(userId, 'health', params.id, query.limit));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/health/:id/revisions/:revisionId/restore — put the entry back as it was before that revision
+router.post('/:id/revisions/:revisionId/restore', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, revisionParamSchema, req.params);
+    if (!params) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const result = await restoreRevision(userId, 'health', params.id, params.revisionId);
+        if (!result.ok) {
+            sendError(res, result.status, result.message);
+            return;
+        }
+        await syncStreaks(userId, result.dates);
+        await syncProgress(userId);
+        sendSuccess(res, await HealthEntry.findOne({ _id: params.id, userId }));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/health/:id — moves the entry to the trash
 router.delete('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
     const params = parseParams(res, idParamSchema, req.params);
     if (!params) return;
 
     try {
-        const entry = await HealthEntry.findOneAndDelete({ _id: params.id, userId: req.userId });
+        const entry = req.userId ? await moveToTrash(req.userId, 'health', params.id) : null;
         if (!entry) {
             sendError(res, 404, 'Entry not found');
             return;
         }
+        if (req.userId) {
+            await syncStreaks(req.userId, [entry.date]);
+            await syncProgress(req.userId);
+        }
         sendSuccess(res, { message: 'Deleted' });
     } catch (error: unknown) {
         console.error(error);
@@ -0,0 +1,149 @@
+import { Router, Response } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import Meal, { SUGGESTED_MEAL_TAGS } from '../models/Meal';
+import { shiftUtcDays } from '../lib/dateUtils';
+import { getErrorMessage, getMongooseValidationMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseBody, parseParams, parseQuery, QUERY_LIMITS } from '../lib/validation';
+import { mealDay, mealInputSchema, mealUpdateSchema, normalizeMealTag, resolveMealTags } from '../services/mealService';
+import { getUserToday } from '../services/timeZoneService';
+import { moveToTrash } from '../services/trashService';
+
+const router = Router();
+router.use(authenticate);
+
+const listQuerySchema = z.object({
+    days: z.coerce
+        .number()
+        .int()
+        .min(QUERY_LIMITS.days.min)
+        .max(QUERY_LIMITS.days.max)
+        .default(QUERY_LIMITS.days.default),
+    tag: z.string().trim().max(40).optional(),
+});
+
+const idParamSchema = z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid meal id'),
+});
+
+function sendWriteError(res: Response, error: unknown): void {
+    console.error(error);
+    const statusCode = (error as { name?: string })?.name === 'ValidationError' ? 400 : 500;
+    sendError(res, statusCode, getMongooseValidationMessage(error, 'Failed to save meal'));
+}
+
+// GET /api/meals?days=30&tag=high_sugar — meals (newest first)
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, listQuerySchema, req.query);
+    if (!query) return;
+
+    try {
+        const since = shiftUtcDays(await getUserToday(req.userId), -(query.days - 1));
+        const filter: Record<string, unknown> = { userId: req.userId, date: { $gte: since } };
+        if (query.tag) filter.tags = normalizeMealTag(query.tag);
+        const meals = await Meal.find(filter).sort({ eatenAt: -1 });
+        sendSuccess(res, meals);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// GET /api/meals/tags — suggested tags plus the user's own, most used first
+router.get('/tags', async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const used = await Meal.aggregate<{ _id: string; count: number }>([
+            { $match: { userId: new mongoose.Types.ObjectId(userId) } },
+            { $unwind: '$tags' },
+            { $group: { _id: '$tags', count: { $sum: 1 } } },
+            { $sort: { count: -1, _id: 1 } },
+        ]);
+        const counts = new Map(used.map((item) => [item._id, item.count]));
+        const tags = [...new Set([...used.map((item) => item._id), ...SUGGESTED_MEAL_TAGS])]
+            .map((tag) => ({ tag, count: counts.get(tag) ?? 0 }));
+        sendSuccess(res, tags);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/meals — log a meal; late_meal/high_sugar are added automatically when they apply
+router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, mealInputSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const meal = await Meal.create({
+            ...input,
+            userId,
+            date: mealDay(input.eatenAt, input.utcOffsetMinutes),
+            tags: resolveMealTags(input),
+            source: 'meal_api',
+        });
+        sendSuccess(res, meal, 201);
+    } catch (error: unknown) {
+        sendWriteError(res, error);
+    }
+});
+
+// PUT /api/meals/:id — edit a meal; day and derived tags are recomputed
+router.put('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+    const input = parseBody(res, mealUpdateSchema, req.body);
+    if (!input) return;
+
+    try {
+        const meal = await Meal.findOne({ _id: params.id, userId: req.userId });
+        if (!meal) {
+            sendError(res, 404, 'Meal not found');
+            return;
+        }
+
+        meal.set(input);
+        meal.date = mealDay(meal.eatenAt, meal.utcOffsetMinutes);
+        meal.tags = resolveMealTags({
+            eatenAt: meal.eatenAt,
+            utcOffsetMinutes: meal.utcOffsetMinutes,
+            macros: meal.macros,
+            tags: input.tags ?? meal.tags,
+        });
+        await meal.save();
+        sendSuccess(res, meal);
+    } catch (error: unknown) {
+        sendWriteError(res, error);
+    }
+});
+
+// DELETE /api/meals/:id — moves the meal to the trash
+router.delete('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+
+    try {
+        const meal = req.userId ? await moveToTrash(req.userId, 'meal', params.id) : null;
+        if (!meal) {
+            sendError(res, 404, 'Meal not found');
+            return;
+        }
+        sendSuccess(res, { message: 'Deleted' });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
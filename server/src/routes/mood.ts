@@ -1,10 +1,27 @@
 import { Router, Response } from 'express';
 import { z } from 'zod';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { handleUpload } from '../middleware/upload';
 import MoodEntry from '../models/MoodEntry';
 import { getUtcDayRange, shiftUtcDays, toUtcDayStart } from '../lib/dateUtils';
 import { getErrorMessage, getMongooseValidationMessage, sendError, sendSuccess } from '../lib/apiResponse';
 import { parseBody, parseParams, parseQuery, QUERY_LIMITS } from '../lib/validation';
+import {
+    importEntries,
+    importRequestSchema,
+    importUpload,
+    loadImportRecords,
+} from '../services/entryImportService';
+import { syncProgress } from '../services/progressService';
+import {
+    loadEntryRevisions,
+    recordRevision,
+    restoreRevision,
+    revisionListQuerySchema,
+    revisionParamSchema,
+} from '../services/revisionService';
+import { getUserToday } from '../services/timeZoneService';
+import { moveToTrash } from '../services/trashService';
 
 const router = Router();
 router.use(authenticate);
@@ -65,7 +82,7 @@ router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
     if (!query) return;
 
     try {
-        const todayUtc = toUtcDayStart();
+        const todayUtc = await getUserToday(req.userId);
         const since = shiftUtcDays(todayUtc, -(query.days - 1));
 
         const entries = await MoodEntry.find({
@@ -86,7 +103,7 @@ router.get('/today', async (req: AuthRequest, res: Response): Promise<void> => {
     if (!query) return;
 
     try {
-        const { start, end } = getUtcDayRange(query.date);
+        const { start, end } = getUtcDayRange(query.date ?? await getUserToday(req.userId));
         const entry = await MoodEntry.findOne({
             userId: req.userId,
             date: { $gte: start, $lt: end },
@@ -105,7 +122,7 @@ router.get('/history', async (req: AuthRequest, res: Response): Promise<void> =>
     if (!query) return;
 
     try {
-        const todayUtc = toUtcDayStart();
+        const todayUtc = await getUserToday(req.userId);
         const since = shiftUtcDays(todayUtc, -(query.limit - 1));
 
         const entries = await MoodEntry.find({
@@ -120,13 +137,43 @@ router.get('/history', async (req: AuthRequest, res: Response): Promise<void> =>
     }
 });
 
+// POST /api/mood/import — bulk CSV/JSON import (multipart `file` or JSON body)
+// `dryRun` validates and reports per-row errors without writing; `onConflict` is skip | overwrite | merge.
+router.post('/import', handleUpload(importUpload.single('file')), async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, importRequestSchema, req.body ?? {});
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    let records: ReturnType<typeof loadImportRecords>;
+    try {
+        records = loadImportRecords(input, req.file);
+    } catch (error: unknown) {
+        sendError(res, 400, getErrorMessage(error, 'Could not read import payload'));
+        return;
+    }
+
+    try {
+        const result = await importEntries(userId, 'mood', records, input);
+        if (!input.dryRun) await syncProgress(userId);
+        sendSuccess(res, result);
+    } catch (error: unknown) {
+        console.error('Mood import error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
 // POST /api/mood
 router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
     const input = parseBody(res, moodCreateSchema, req.body);
     if (!input) return;
 
     try {
-        const normalizedDate = toUtcDayStart(input.date);
+        const normalizedDate = input.date ? toUtcDayStart(input.date) : await getUserToday(req.userId);
+        const previous = await MoodEntry.findOne({ userId: req.userId, date: normalizedDate }).lean();
         const entry = await MoodEntry.findOneAndUpdate(
             { userId: req.userId, date: normalizedDate },
             {
@@ -149,6 +196,10 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
                 setDefaultsOnInsert: true,
             }
         );
+        if (req.userId) {
+            await recordRevision({ userId: req.userId, entryType: 'mood', source: 'mood_api', before: previous, after: entry });
+            await syncProgress(req.userId);
+        }
 
         sendSuccess(res, entry);
     } catch (error: unknown) {
@@ -167,6 +218,7 @@ router.put('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
     if (!body) return;
 
     try {
+        const previous = await MoodEntry.findOne({ _id: params.id, userId: req.userId }).lean();
         const entry = await MoodEntry.findOneAndUpdate(
             { _id: params.id, userId: req.userId },
             { ...body, source: 'mood_api' },
@@ -176,6 +228,10 @@ router.put('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
             sendError(res, 404, 'Entry not found');
             return;
         }
+        if (req.userId) {
+            await recordRevision({ userId: req.userId, entryType: 'mood', source: 'mood_api', before: previous, after: entry });
+            await syncProgress(req.userId);
+        }
         sendSuccess(res, entry);
     } catch (error: unknown) {
         console.error(error);
@@ -183,17 +239,62 @@ router.put('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
     }
 });
 
-// DELETE /api/mood/:id
+// GET /api/mood/:id/revisions?limit=50 — who changed what and when, newest first
+router.get('/:id/revisions', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+    const query = parseQuery(res, revisionListQuerySchema, req.query);
+    if (!query) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        sendSuccess(res, await loadEntryRevisions(userId, 'mood', params.id, query.limit));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/mood/:id/revisions/:revisionId/restore — put the entry back as it was before that revision
+router.post('/:id/revisions/:revisionId/restore', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, revisionParamSchema, req.params);
+    if (!params) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const result = await restoreRevision(userId, 'mood', params.id, params.revisionId);
+        if (!result.ok) {
+            sendError(res, result.status, result.message);
+            return;
+        }
+        await syncProgress(userId);
+        sendSuccess(res, await MoodEntry.findOne({ _id: params.id, userId }));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/mood/:id — moves the entry to the trash
 router.delete('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
     const params = parseParams(res, idParamSchema, req.params);
     if (!params) return;
 
     try {
-        const entry = await MoodEntry.findOneAndDelete({ _id: params.id, userId: req.userId });
+        const entry = req.userId ? await moveToTrash(req.userId, 'mood', params.id) : null;
         if (!entry) {
             sendError(res, 404, 'Entry not found');
             return;
         }
+        if (req.userId) await syncProgress(req.userId);
         sendSuccess(res, { message: 'Deleted' });
     } catch (error: unknown) {
         console.error(error);
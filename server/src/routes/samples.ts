@@ -0,0 +1,111 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { SAMPLE_METRICS, SampleMetric } from '../models/HealthSample';
+import { toUtcDayStart } from '../lib/dateUtils';
+import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseBody, parseQuery } from '../lib/validation';
+import { ingestHealthSamples, loadIntradayDay } from '../services/intradaySampleService';
+import { syncProgress } from '../services/progressService';
+import { syncStreaks } from '../services/streakService';
+import { getUserToday } from '../services/timeZoneService';
+
+const router = Router();
+router.use(authenticate);
+
+const MAX_SAMPLES_PER_REQUEST = 5000;
+
+// Upper bound for a single sample; daily totals are clamped separately by the rollup.
+const SAMPLE_VALUE_LIMITS: Record<SampleMetric, { min: number; max: number }> = {
+    heart_rate: { min: 20, max: 260 },
+    steps: { min: 0, max: 100000 },
+    active_minutes: { min: 0, max: 1440 },
+    water: { min: 0, max: 20 },
+};
+
+const metricSchema = z.enum(SAMPLE_METRICS as [SampleMetric, ...SampleMetric[]]);
+
+const sampleSchema = z.object({
+    metric: metricSchema,
+    start: z.coerce.date(),
+    end: z.coerce.date().optional(),
+    value: z.coerce.number(),
+    sourceName: z.string().trim().max(120).optional(),
+}).superRefine((sample, ctx) => {
+    if (Number.isNaN(sample.start.getTime())) {
+        ctx.addIssue({ code: 'custom', path: ['start'], message: 'Invalid date' });
+        return;
+    }
+    if (sample.end && (Number.isNaN(sample.end.getTime()) || sample.end < sample.start)) {
+        ctx.addIssue({ code: 'custom', path: ['end'], message: 'end must be a date on or after start' });
+    }
+    const limits = SAMPLE_VALUE_LIMITS[sample.metric];
+    if (!Number.isFinite(sample.value) || sample.value < limits.min || sample.value > limits.max) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['value'],
+            message: `${sample.metric} must be between ${limits.min} and ${limits.max}`,
+        });
+    }
+});
+
+const ingestBodySchema = z.object({
+    samples: z.array(sampleSchema).min(1).max(MAX_SAMPLES_PER_REQUEST),
+});
+
+const intradayQuerySchema = z.object({
+    date: z.string().trim().optional(),
+    metric: metricSchema.optional(),
+});
+
+// POST /api/health/samples — store timestamped samples and re-roll the touched days
+router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const body = parseBody(res, ingestBodySchema, req.body);
+    if (!body) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const result = await ingestHealthSamples(userId, body.samples);
+        await syncStreaks(userId, result.days.map((day) => toUtcDayStart(day.date)));
+        await syncProgress(userId);
+        sendSuccess(res, result, 201);
+    } catch (error: unknown) {
+        console.error('Sample ingest error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// GET /api/health/samples?date=YYYY-MM-DD&metric=heart_rate — intraday drill-down for one local day (default today)
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, intradayQuerySchema, req.query);
+    if (!query) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    let day: Date | null = null;
+    if (query.date) {
+        try {
+            day = toUtcDayStart(query.date);
+        } catch {
+            sendError(res, 400, 'Invalid date');
+            return;
+        }
+    }
+
+    try {
+        day = day ?? await getUserToday(userId);
+        sendSuccess(res, await loadIntradayDay(userId, day, query.metric));
+    } catch (error: unknown) {
+        console.error('Intraday load error:', error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
@@ -2,8 +2,11 @@ import { Router, Response } from 'express';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import HealthEntry from '../models/HealthEntry';
 import MoodEntry from '../models/MoodEntry';
-import { shiftUtcDays, toUtcDayStart } from '../lib/dateUtils';
+import { shiftUtcDays } from '../lib/dateUtils';
 import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { syncProgress } from '../services/progressService';
+import { syncStreaks } from '../services/streakService';
+import { getUserToday } from '../services/timeZoneService';
 
 const router = Router();
 router.use(authenticate);
@@ -28,8 +31,9 @@ router.post('/demo', async (req: AuthRequest, res: Response): Promise<void> => {
         const healthDocs = [];
         const moodDocs = [];
 
+        const today = await getUserToday(userId);
         for (let i = 6; i >= 0; i--) {
-            const date = shiftUtcDays(toUtcDayStart(), -i);
+            const date = shiftUtcDays(today, -i);
 
             healthDocs.push({
                 userId,
@@ -56,6 +60,8 @@ router.post('/demo', async (req: AuthRequest, res: Response): Promise<void> => {
             HealthEntry.insertMany(healthDocs),
             MoodEntry.insertMany(moodDocs),
         ]);
+        await syncStreaks(userId);
+        await syncProgress(userId);
 
         sendSuccess(res, {
             message: '7 days of demo data seeded successfully',
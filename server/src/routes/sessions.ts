@@ -0,0 +1,75 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import AuthSession from '../models/AuthSession';
+import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseParams } from '../lib/validation';
+import {
+    revokeSession,
+    revokeUserSessions,
+    sessionIdParamSchema,
+    toDeviceSessionDto,
+} from '../services/sessionService';
+
+const router = Router();
+router.use(authenticate);
+
+// GET /api/auth/sessions — signed-in devices, most recently seen first
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const sessions = await AuthSession.find({ userId, expiresAt: { $gt: new Date() } })
+            .sort({ lastSeenAt: -1 })
+            .lean();
+        sendSuccess(res, sessions.map((session) => toDeviceSessionDto(session, req.sessionId)));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/auth/sessions/:id — sign one device out
+router.delete('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, sessionIdParamSchema, req.params);
+    if (!params) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const revoked = await revokeSession(userId, params.id);
+        if (!revoked) {
+            sendError(res, 404, 'Session not found');
+            return;
+        }
+        sendSuccess(res, { message: 'Session revoked' });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/auth/sessions — sign out every other device
+router.delete('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const revoked = await revokeUserSessions(userId, req.sessionId);
+        sendSuccess(res, { message: 'Other sessions revoked', revoked });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
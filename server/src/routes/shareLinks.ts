@@ -0,0 +1,104 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import ShareLink from '../models/ShareLink';
+import { CreatedShareLinkDto } from '../contracts/api';
+import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { shiftUtcDays, toUtcDayStart } from '../lib/dateUtils';
+import { parseBody, parseParams } from '../lib/validation';
+import { buildApiUrl } from '../services/mediaStoreService';
+import {
+    activeShareLinkFilter,
+    createShareLinkSchema,
+    generateShareToken,
+    MAX_ACTIVE_SHARE_LINKS,
+    toShareLinkDto,
+} from '../services/shareLinkService';
+
+const router = Router();
+router.use(authenticate);
+
+const idParamSchema = z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid share link id'),
+});
+
+// GET /api/share-links — active (unexpired, unrevoked) links, newest first
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const links = await ShareLink.find(activeShareLinkFilter(userId)).sort({ createdAt: -1 }).lean();
+        sendSuccess(res, links.map(toShareLinkDto));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/share-links — create a link; the token is only ever returned here
+router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, createShareLinkSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const active = await ShareLink.countDocuments(activeShareLinkFilter(userId));
+        if (active >= MAX_ACTIVE_SHARE_LINKS) {
+            sendError(res, 400, `You can have up to ${MAX_ACTIVE_SHARE_LINKS} active share links`);
+            return;
+        }
+
+        const { token, tokenHash, tokenPrefix } = generateShareToken();
+        const link = await ShareLink.create({
+            userId,
+            label: input.label,
+            tokenHash,
+            tokenPrefix,
+            scope: input.scope,
+            from: toUtcDayStart(input.from),
+            to: toUtcDayStart(input.to),
+            expiresAt: shiftUtcDays(new Date(), input.expiresInDays),
+        });
+        const payload: CreatedShareLinkDto = {
+            ...toShareLinkDto(link),
+            token,
+            url: buildApiUrl(req, `/api/shared/${token}/summary`),
+        };
+        sendSuccess(res, payload, 201);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/share-links/:id — revoke a link; its token stops working immediately
+router.delete('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+
+    try {
+        const link = await ShareLink.findOneAndUpdate(
+            { _id: params.id, userId: req.userId, revokedAt: null },
+            { $set: { revokedAt: new Date() } },
+            { new: true }
+        );
+        if (!link) {
+            sendError(res, 404, 'Share link not found');
+            return;
+        }
+        sendSuccess(res, { message: 'Revoked' });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+import { Router, Response } from 'express';
+import { authenticateShareLink, ShareRequest } from '../middleware/auth';
+import User from '../models/User';
+import { SharedLinkInfoDto } from '../contracts/api';
+import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { getUtcDayKey } from '../lib/dateUtils';
+import { parseQuery } from '../lib/validation';
+import { loadAnalyticsSummary } from '../services/analyticsService';
+import { resolveShareWindow, sharedSummaryQuerySchema } from '../services/shareLinkService';
+import { getUserToday } from '../services/timeZoneService';
+
+// Read-only endpoints for share-link holders. No JWT: the token in the path is the credential.
+const router = Router();
+
+// GET /api/shared/:token — who shared what, for how long
+router.get('/:token', authenticateShareLink, async (req: ShareRequest, res: Response): Promise<void> => {
+    const link = req.shareLink;
+    if (!link) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const owner = await User.findById(link.userId).select('name').lean();
+        if (!owner) {
+            sendError(res, 404, 'Share link not found');
+            return;
+        }
+        const payload: SharedLinkInfoDto = {
+            ownerName: owner.name,
+            label: link.label,
+            scope: { health: link.scope.health, mood: link.scope.mood, notes: link.scope.notes },
+            from: getUtcDayKey(link.from),
+            to: getUtcDayKey(link.to),
+            expiresAt: link.expiresAt.toISOString(),
+        };
+        sendSuccess(res, payload);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// GET /api/shared/:token/summary?days=30 — same shape as /api/analytics/summary, limited to the link's scope and range
+router.get('/:token/summary', authenticateShareLink, async (req: ShareRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, sharedSummaryQuerySchema, req.query);
+    if (!query) return;
+    const link = req.shareLink;
+    if (!link) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const userId = String(link.userId);
+        const window = resolveShareWindow(link, await getUserToday(userId), query.days);
+        if (!window) {
+            sendError(res, 404, 'The shared date range has not started yet');
+            return;
+        }
+        sendSuccess(res, await loadAnalyticsSummary(userId, window.until, window.days, link.scope));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
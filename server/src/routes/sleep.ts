@@ -0,0 +1,110 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import HealthEntry from '../models/HealthEntry';
+import SleepSession from '../models/SleepSession';
+import { shiftUtcDays } from '../lib/dateUtils';
+import { getErrorMessage, getMongooseValidationMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseBody, parseParams, parseQuery, QUERY_LIMITS } from '../lib/validation';
+import { buildSleepSessionFields, sleepSessionInputSchema, summarizeSleepTiming } from '../services/sleepSessionService';
+import { syncProgress } from '../services/progressService';
+import { recordRevision } from '../services/revisionService';
+import { syncStreaks } from '../services/streakService';
+import { getUserToday } from '../services/timeZoneService';
+import { moveToTrash, syncAfterTrashChange } from '../services/trashService';
+
+const router = Router();
+router.use(authenticate);
+
+const daysQuerySchema = z.object({
+    days: z.coerce
+        .number()
+        .int()
+        .min(QUERY_LIMITS.days.min)
+        .max(QUERY_LIMITS.days.max)
+        .default(QUERY_LIMITS.days.default),
+});
+
+const idParamSchema = z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid session id'),
+});
+
+// GET /api/sleep?days=30 — sessions (newest first) plus timing summary
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, daysQuerySchema, req.query);
+    if (!query) return;
+
+    try {
+        const since = shiftUtcDays(await getUserToday(req.userId), -(query.days - 1));
+        const sessions = await SleepSession.find({ userId: req.userId, date: { $gte: since } }).sort({ date: -1 });
+        sendSuccess(res, { sessions, summary: summarizeSleepTiming(sessions) });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/sleep — create/replace the session for its wake day and derive sleepHours
+router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, sleepSessionInputSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const fields = buildSleepSessionFields(input);
+        const session = await SleepSession.findOneAndReplace(
+            { userId, date: fields.date },
+            { ...fields, userId, source: 'sleep_api' },
+            { new: true, upsert: true, runValidators: true }
+        );
+
+        const previous = await HealthEntry.findOne({ userId, date: fields.date }).lean();
+        const entry = await HealthEntry.findOneAndUpdate(
+            { userId, date: fields.date },
+            {
+                $set: { sleepHours: fields.durationHours },
+                $setOnInsert: { userId, date: fields.date, source: 'health_api' },
+            },
+            { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+        ).lean();
+        await recordRevision({ userId, entryType: 'health', source: 'health_api', before: previous, after: entry });
+        await syncStreaks(userId, [fields.date]);
+        await syncProgress(userId);
+
+        sendSuccess(res, session);
+    } catch (error: unknown) {
+        console.error(error);
+        const statusCode = (error as { name?: string })?.name === 'ValidationError' ? 400 : 500;
+        sendError(res, statusCode, getMongooseValidationMessage(error, 'Failed to save sleep session'));
+    }
+});
+
+// DELETE /api/sleep/:id — moves the session to the trash and clears the day's derived sleepHours
+router.delete('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const session = await moveToTrash(userId, 'sleep', params.id);
+        if (!session) {
+            sendError(res, 404, 'Sleep session not found');
+            return;
+        }
+        await syncAfterTrashChange(userId, 'sleep', session.date);
+        sendSuccess(res, { message: 'Deleted' });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
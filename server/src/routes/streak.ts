@@ -1,64 +1,61 @@
 import { Router, Response } from 'express';
+import { z } from 'zod';
 import { authenticate, AuthRequest } from '../middleware/auth';
-import HealthEntry from '../models/HealthEntry';
-import { toUtcDayStart } from '../lib/dateUtils';
+import { STREAK_KINDS, StreakKind } from '../models/Streak';
+import { StreakHistoryDto } from '../contracts/api';
 import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseQuery } from '../lib/validation';
+import {
+    buildStreakDataDto,
+    buildStreakHistory,
+    loadStreakContext,
+    loadStreakStates,
+} from '../services/streakService';
 
 const router = Router();
 router.use(authenticate);
 
-// GET /api/streak
-router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
-    try {
-        const entries = await HealthEntry.find({ userId: req.userId })
-            .sort({ date: -1 })
-            .select('date');
-
-        if (!entries.length) {
-            sendSuccess(res, { currentStreak: 0, longestStreak: 0, lastLogDate: null });
-            return;
-        }
-
-        // Build streak by checking consecutive days
-        const dates = entries.map(e => {
-            return toUtcDayStart(e.date).getTime();
-        });
-
-        const unique = [...new Set(dates)].sort((a, b) => b - a);
-        const DAY = 86400000;
-
-        let longestStreak = 1;
-        let streak = 1;
+const historyQuerySchema = z.object({
+    kind: z.enum(STREAK_KINDS as [StreakKind, ...StreakKind[]]).default('logging'),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
 
-        for (let i = 1; i < unique.length; i++) {
-            if (unique[i - 1] - unique[i] === DAY) {
-                streak++;
-                longestStreak = Math.max(longestStreak, streak);
-            } else {
-                streak = 1;
-            }
-        }
+// GET /api/streak — logging streak (top level), freezes and per-metric streaks
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
 
-        // Count only the latest consecutive segment (from newest log backward).
-        let latestSegment = 1;
-        for (let i = 1; i < unique.length; i++) {
-            if (unique[i - 1] - unique[i] === DAY) {
-                latestSegment++;
-            } else {
-                break;
-            }
-        }
+    try {
+        const { todayKey, bridgeDays } = await loadStreakContext(userId);
+        const states = await loadStreakStates(userId, bridgeDays);
+        sendSuccess(res, buildStreakDataDto(states, todayKey, bridgeDays));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
 
-        // Check if streak is still active (last entry today or yesterday)
-        const today = toUtcDayStart();
-        const diffFromToday = today.getTime() - unique[0];
-        const currentStreak = diffFromToday <= DAY ? latestSegment : 0;
+// GET /api/streak/history?kind=logging&limit=20 — finished streaks, newest first
+router.get('/history', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, historyQuerySchema, req.query);
+    if (!query) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
 
-        sendSuccess(res, {
-            currentStreak,
-            longestStreak,
-            lastLogDate: new Date(unique[0]).toISOString(),
-        });
+    try {
+        const { bridgeDays } = await loadStreakContext(userId);
+        const states = await loadStreakStates(userId, bridgeDays);
+        const payload: StreakHistoryDto = {
+            kind: query.kind,
+            runs: buildStreakHistory(states[query.kind], query.limit),
+        };
+        sendSuccess(res, payload);
     } catch (error: unknown) {
         console.error(error);
         sendError(res, 500, getErrorMessage(error));
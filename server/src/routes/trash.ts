@@ -0,0 +1,91 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import TrashItem from '../models/TrashItem';
+import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseParams, parseQuery } from '../lib/validation';
+import {
+    restoreFromTrash,
+    syncAfterTrashChange,
+    toTrashItemDto,
+    trashIdParamSchema,
+    trashListQuerySchema,
+} from '../services/trashService';
+
+const router = Router();
+router.use(authenticate);
+
+// GET /api/trash?kind=health — deleted entries still inside the retention period, newest first
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, trashListQuerySchema, req.query);
+    if (!query) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const items = await TrashItem.find({ userId, ...(query.kind ? { kind: query.kind } : {}) })
+            .sort({ deletedAt: -1 })
+            .lean();
+        sendSuccess(res, items.map(toTrashItemDto));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/trash/:id/restore — put the entry back where it was
+router.post('/:id/restore', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, trashIdParamSchema, req.params);
+    if (!params) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const result = await restoreFromTrash(userId, params.id);
+        if (!result.ok) {
+            sendError(res, result.status, result.message);
+            return;
+        }
+        await syncAfterTrashChange(userId, result.kind, result.date);
+        sendSuccess(res, { message: 'Restored', kind: result.kind, date: result.date.toISOString().slice(0, 10) });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/trash/:id — delete one item for good
+router.delete('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, trashIdParamSchema, req.params);
+    if (!params) return;
+
+    try {
+        const item = await TrashItem.findOneAndDelete({ _id: params.id, userId: req.userId });
+        if (!item) {
+            sendError(res, 404, 'Trash item not found');
+            return;
+        }
+        sendSuccess(res, { message: 'Deleted permanently' });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// DELETE /api/trash — empty the trash
+router.delete('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        const result = await TrashItem.deleteMany({ userId: req.userId });
+        sendSuccess(res, { message: 'Trash emptied', deleted: result.deletedCount });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
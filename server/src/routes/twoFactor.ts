@@ -0,0 +1,190 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { sendRateLimited } from '../middleware/rateLimit';
+import User from '../models/User';
+import { TwoFactorRecoveryCodesDto, TwoFactorSetupDto } from '../contracts/api';
+import { getErrorMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseBody } from '../lib/validation';
+import { clearFailedAttempts, getLockoutRemainingMs, recordFailedAttempt } from '../services/rateLimitService';
+import {
+    beginTwoFactorSetup,
+    checkSecondFactor,
+    confirmTwoFactorSetup,
+    disableTwoFactor,
+    disableTwoFactorSchema,
+    regenerateRecoveryCodes,
+    toTwoFactorStatusDto,
+    twoFactorAttemptKey,
+    twoFactorCodeSchema,
+} from '../services/twoFactorService';
+
+const router = Router();
+router.use(authenticate);
+
+// Wrong passwords and codes answer 400/403, not 401, so the client does not take them for an
+// expired access token. They count against the same per-account lockout as the 2FA sign-in.
+function sendLockedOut(res: Response, remainingMs: number): void {
+    const remainingMinutes = Math.ceil(remainingMs / 60000);
+    sendRateLimited(
+        res,
+        remainingMs,
+        `Too many failed attempts. Try again in ${remainingMinutes} minute${remainingMinutes === 1 ? '' : 's'}.`
+    );
+}
+
+async function rejectAttempt(res: Response, attemptKey: string, status: number, message: string): Promise<void> {
+    const lockRemainingMs = await recordFailedAttempt(attemptKey, new Date());
+    if (lockRemainingMs > 0) {
+        sendLockedOut(res, lockRemainingMs);
+    } else {
+        sendError(res, status, message);
+    }
+}
+
+// GET /api/auth/2fa — whether 2FA is on and how many recovery codes are left
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const user = await User.findById(userId).select('twoFactor');
+        if (!user) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+        sendSuccess(res, toTwoFactorStatusDto(user.twoFactor));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/auth/2fa/setup — new secret and otpauth:// URI for an authenticator app
+router.post('/setup', async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const user = await User.findById(userId).select('email twoFactor.enabled');
+        if (!user) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+        if (user.twoFactor?.enabled) {
+            sendError(res, 409, 'Two-factor authentication is already enabled');
+            return;
+        }
+
+        const payload: TwoFactorSetupDto = await beginTwoFactorSetup(user);
+        sendSuccess(res, payload);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/auth/2fa/enable — confirm setup with a code; recovery codes are returned only here
+router.post('/enable', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, twoFactorCodeSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const recoveryCodes = await confirmTwoFactorSetup(userId, input.code);
+        if (!recoveryCodes) {
+            sendError(res, 400, 'Invalid code. Start setup again if the code keeps failing.');
+            return;
+        }
+        const payload: TwoFactorRecoveryCodesDto = { recoveryCodes };
+        sendSuccess(res, payload);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/auth/2fa/disable — needs the password and a current or recovery code
+router.post('/disable', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, disableTwoFactorSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const attemptKey = twoFactorAttemptKey(userId);
+        const activeLockRemainingMs = await getLockoutRemainingMs(attemptKey, new Date());
+        if (activeLockRemainingMs > 0) {
+            sendLockedOut(res, activeLockRemainingMs);
+            return;
+        }
+
+        const user = await User.findById(userId);
+        if (!user) {
+            sendError(res, 404, 'User not found');
+            return;
+        }
+        if (!(await user.comparePassword(input.password))) {
+            await rejectAttempt(res, attemptKey, 403, 'Password is incorrect');
+            return;
+        }
+
+        const result = await checkSecondFactor(userId, input.code);
+        if (!result.ok) {
+            await rejectAttempt(res, attemptKey, result.status, result.message);
+            return;
+        }
+        await clearFailedAttempts(attemptKey);
+        await disableTwoFactor(userId);
+        sendSuccess(res, { message: 'Two-factor authentication turned off' });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/auth/2fa/recovery-codes — replace all recovery codes after confirming a code
+router.post('/recovery-codes', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, twoFactorCodeSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const attemptKey = twoFactorAttemptKey(userId);
+        const activeLockRemainingMs = await getLockoutRemainingMs(attemptKey, new Date());
+        if (activeLockRemainingMs > 0) {
+            sendLockedOut(res, activeLockRemainingMs);
+            return;
+        }
+
+        const result = await checkSecondFactor(userId, input.code);
+        if (!result.ok) {
+            await rejectAttempt(res, attemptKey, result.status, result.message);
+            return;
+        }
+        await clearFailedAttempts(attemptKey);
+        const payload: TwoFactorRecoveryCodesDto = { recoveryCodes: await regenerateRecoveryCodes(userId) };
+        sendSuccess(res, payload);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
@@ -0,0 +1,166 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import Workout from '../models/Workout';
+import { shiftUtcDays } from '../lib/dateUtils';
+import { getErrorMessage, getMongooseValidationMessage, sendError, sendSuccess } from '../lib/apiResponse';
+import { parseBody, parseParams, parseQuery, QUERY_LIMITS } from '../lib/validation';
+import {
+    rollupWorkoutDay,
+    summarizeWorkouts,
+    workoutDay,
+    workoutInputSchema,
+    workoutTypeSchema,
+    workoutUpdateSchema,
+} from '../services/workoutService';
+import { syncProgress } from '../services/progressService';
+import { syncStreaks } from '../services/streakService';
+import { getUserToday } from '../services/timeZoneService';
+import { moveToTrash } from '../services/trashService';
+
+const router = Router();
+router.use(authenticate);
+
+const daysQuerySchema = z.object({
+    days: z.coerce
+        .number()
+        .int()
+        .min(QUERY_LIMITS.days.min)
+        .max(QUERY_LIMITS.days.max)
+        .default(QUERY_LIMITS.days.default),
+});
+
+const listQuerySchema = daysQuerySchema.extend({
+    type: workoutTypeSchema.optional(),
+});
+
+const idParamSchema = z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workout id'),
+});
+
+function sendWriteError(res: Response, error: unknown): void {
+    console.error(error);
+    const statusCode = (error as { name?: string })?.name === 'ValidationError' ? 400 : 500;
+    sendError(res, statusCode, getMongooseValidationMessage(error, 'Failed to save workout'));
+}
+
+// GET /api/workouts?days=30&type=run — workouts (newest first)
+router.get('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, listQuerySchema, req.query);
+    if (!query) return;
+
+    try {
+        const since = shiftUtcDays(await getUserToday(req.userId), -(query.days - 1));
+        const filter: Record<string, unknown> = { userId: req.userId, date: { $gte: since } };
+        if (query.type) filter.type = query.type;
+        const workouts = await Workout.find(filter).sort({ startTime: -1 });
+        sendSuccess(res, workouts);
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// GET /api/workouts/summary?days=30 — frequency, minutes and type mix
+router.get('/summary', async (req: AuthRequest, res: Response): Promise<void> => {
+    const query = parseQuery(res, daysQuerySchema, req.query);
+    if (!query) return;
+
+    try {
+        const since = shiftUtcDays(await getUserToday(req.userId), -(query.days - 1));
+        const workouts = await Workout.find({ userId: req.userId, date: { $gte: since } }).lean();
+        sendSuccess(res, summarizeWorkouts(workouts, query.days));
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+// POST /api/workouts — log a workout and roll its minutes into the day's activeMinutes
+router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
+    const input = parseBody(res, workoutInputSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const workout = await Workout.create({
+            ...input,
+            userId,
+            date: workoutDay(input.startTime, input.utcOffsetMinutes),
+            source: 'workout_api',
+        });
+        await rollupWorkoutDay(userId, workout.date);
+        await syncStreaks(userId, [workout.date]);
+        await syncProgress(userId);
+        sendSuccess(res, workout, 201);
+    } catch (error: unknown) {
+        sendWriteError(res, error);
+    }
+});
+
+// PUT /api/workouts/:id — edit a workout; re-rolls both days if it moved
+router.put('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+    const input = parseBody(res, workoutUpdateSchema, req.body);
+    if (!input) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const workout = await Workout.findOne({ _id: params.id, userId });
+        if (!workout) {
+            sendError(res, 404, 'Workout not found');
+            return;
+        }
+
+        const previousDate = workout.date;
+        workout.set(input);
+        workout.date = workoutDay(workout.startTime, workout.utcOffsetMinutes);
+        await workout.save();
+
+        await rollupWorkoutDay(userId, workout.date);
+        if (previousDate.getTime() !== workout.date.getTime()) {
+            await rollupWorkoutDay(userId, previousDate);
+        }
+        await syncStreaks(userId, [workout.date]);
+        await syncProgress(userId);
+        sendSuccess(res, workout);
+    } catch (error: unknown) {
+        sendWriteError(res, error);
+    }
+});
+
+// DELETE /api/workouts/:id — moves the workout to the trash and takes its minutes back out
+router.delete('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
+    const params = parseParams(res, idParamSchema, req.params);
+    if (!params) return;
+    const userId = req.userId;
+    if (!userId) {
+        sendError(res, 401, 'Unauthorized');
+        return;
+    }
+
+    try {
+        const workout = await moveToTrash(userId, 'workout', params.id);
+        if (!workout) {
+            sendError(res, 404, 'Workout not found');
+            return;
+        }
+        await rollupWorkoutDay(userId, workout.date);
+        await syncProgress(userId);
+        sendSuccess(res, { message: 'Deleted' });
+    } catch (error: unknown) {
+        console.error(error);
+        sendError(res, 500, getErrorMessage(error));
+    }
+});
+
+export default router;
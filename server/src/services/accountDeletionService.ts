@@ -0,0 +1,90 @@
+import User from '../models/User';
+import HealthEntry from '../models/HealthEntry';
+import HealthSample from '../models/HealthSample';
+import MoodEntry from '../models/MoodEntry';
+import SleepSession from '../models/SleepSession';
+import Workout from '../models/Workout';
+import Meal from '../models/Meal';
+import CustomMetric from '../models/CustomMetric';
+import CustomMetricValue from '../models/CustomMetricValue';
+import UserGoals from '../models/UserGoals';
+import Streak from '../models/Streak';
+import UserAchievement from '../models/UserAchievement';
+import Challenge from '../models/Challenge';
+import Friendship from '../models/Friendship';
+import ShareLink from '../models/ShareLink';
+import EntryRevision from '../models/EntryRevision';
+import TrashItem from '../models/TrashItem';
+import AuthSession from '../models/AuthSession';
+import AccountToken from '../models/AccountToken';
+import OutboxEmail from '../models/OutboxEmail';
+import { Avatar } from '../models/Avatar';
+import { AvatarAnimation } from '../models/AvatarAnimation';
+import WeeklyAnalysisCache from '../models/WeeklyAnalysisCache';
+import { shiftUtcDays } from '../lib/dateUtils';
+
+/**
+ * Account deletion with a grace window. `DELETE /api/auth/me` only schedules the deletion;
+ * signing in before `deletionScheduledFor` offers to cancel it. A periodic sweep then removes
+ * the user and every per-user collection for accounts whose window has passed.
+ */
+
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function scheduleDeletionFields(now = new Date()): { deletionRequestedAt: Date; deletionScheduledFor: Date } {
+    return { deletionRequestedAt: now, deletionScheduledFor: shiftUtcDays(now, ACCOUNT_DELETION_GRACE_DAYS) };
+}
+
+export async function deleteUserData(userId: string): Promise<boolean> {
+    const deletedUser = await User.findByIdAndDelete(userId);
+    if (!deletedUser) return false;
+
+    await Promise.all([
+        HealthEntry.deleteMany({ userId }),
+        HealthSample.deleteMany({ userId }),
+        MoodEntry.deleteMany({ userId }),
+        SleepSession.deleteMany({ userId }),
+        Workout.deleteMany({ userId }),
+        Meal.deleteMany({ userId }),
+        CustomMetric.deleteMany({ userId }),
+        CustomMetricValue.deleteMany({ userId }),
+        UserGoals.deleteMany({ userId }),
+        Streak.deleteMany({ userId }),
+        UserAchievement.deleteMany({ userId }),
+        Challenge.deleteMany({ userId }),
+        Friendship.deleteMany({ $or: [{ requesterId: userId }, { addresseeId: userId }] }),
+        ShareLink.deleteMany({ userId }),
+        EntryRevision.deleteMany({ userId }),
+        TrashItem.deleteMany({ userId }),
+        AuthSession.deleteMany({ userId }),
+        AccountToken.deleteMany({ userId }),
+        OutboxEmail.deleteMany({ to: deletedUser.email }),
+        Avatar.deleteMany({ userId }),
+        AvatarAnimation.deleteMany({ userId }),
+        WeeklyAnalysisCache.deleteMany({ userId }),
+    ]);
+    return true;
+}
+
+/** Deletes every account whose grace window has passed; returns how many were removed. */
+export async function purgeDueAccounts(now = new Date()): Promise<number> {
+    const due = await User.find({ deletionScheduledFor: { $lte: now } }).select('_id').lean();
+    let purged = 0;
+    for (const user of due) {
+        if (await deleteUserData(String(user._id))) purged += 1;
+    }
+    return purged;
+}
+
+export function startAccountPurgeSchedule(): void {
+    const run = () => {
+        purgeDueAccounts()
+            .then((purged) => {
+                if (purged > 0) console.log(`🗑️ Purged ${purged} account(s) past their deletion grace window`);
+            })
+            .catch((error: unknown) => console.error('Account purge error:', error));
+    };
+    run();
+    setInterval(run, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,51 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    buildAccountTokenEmail,
+    hashAccountToken,
+    resetPasswordSchema,
+    verifyEmailSchema,
+} from './accountTokenService';
+import { createFileTransport, getMailTransport, setMailTransport } from './mailService';
+
+const recipient = { _id: 'user-1', name: 'Amira', email: 'amira@example.com' };
+const token = 'Zk3q'.repeat(10) + 'abc';
+
+test('account token emails carry the code and how long it lasts', () => {
+    const reset = buildAccountTokenEmail('password_reset', recipient, token);
+    assert.equal(reset.to, 'amira@example.com');
+    assert.equal(reset.template, 'password_reset');
+    assert.match(reset.text, new RegExp(token));
+    assert.match(reset.text, /within 30 minutes/);
+
+    const verify = buildAccountTokenEmail('email_verification', recipient, token);
+    assert.match(verify.subject, /Confirm your HealthTwin email/);
+    assert.match(verify.text, /within 2 days/);
+    assert.notEqual(hashAccountToken(token), token);
+});
+
+test('reset and verification need a well-formed code', () => {
+    assert.equal(resetPasswordSchema.safeParse({ token, newPassword: 'long-enough' }).success, true);
+    assert.equal(resetPasswordSchema.safeParse({ token, newPassword: 'short' }).success, false);
+    assert.equal(resetPasswordSchema.safeParse({ email: 'amira@example.com', newPassword: 'long-enough' }).success, false);
+    assert.equal(verifyEmailSchema.safeParse({ token: `${token}!` }).success, false);
+});
+
+test('the file transport appends one JSON line per message', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    const file = path.join(dir, 'nested', 'outbox.jsonl');
+    setMailTransport(createFileTransport(file));
+    try {
+        await getMailTransport().send(buildAccountTokenEmail('password_reset', recipient, token));
+        await getMailTransport().send(buildAccountTokenEmail('email_verification', recipient, token));
+        const lines = (await fs.readFile(file, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+        assert.deepEqual(lines.map((line) => line.template), ['password_reset', 'email_verification']);
+        assert.equal(typeof lines[0].createdAt, 'string');
+    } finally {
+        setMailTransport(null);
+        await fs.rm(dir, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import AccountToken, { AccountTokenPurpose, IAccountToken } from '../models/AccountToken';
+import { MailMessage, sendMail } from './mailService';
+
+/**
+ * Single-use, time-limited tokens delivered by email, shared by password reset and email
+ * verification. Issuing a token replaces any unused one for the same purpose, only a
+ * SHA-256 is stored, and consuming marks it used in the same update that finds it.
+ */
+
+export const ACCOUNT_TOKEN_TTL_MINUTES: Record<AccountTokenPurpose, number> = {
+    password_reset: 30,
+    email_verification: 48 * 60,
+};
+export const ACCOUNT_TOKEN_RESEND_COOLDOWN_SECONDS = 60;
+const TOKEN_BYTES = 32;
+
+const emailSchema = z.string().trim().email('Invalid email format').transform((value) => value.toLowerCase());
+const accountTokenSchema = z.string().trim().regex(/^[A-Za-z0-9_-]{43}$/, 'Invalid or expired code');
+
+export const forgotPasswordSchema = z.object({
+    email: emailSchema,
+});
+
+export const resetPasswordSchema = z.object({
+    token: accountTokenSchema,
+    newPassword: z.string().min(8, 'New password must be at least 8 characters'),
+});
+
+export const verifyEmailSchema = z.object({
+    token: accountTokenSchema,
+});
+
+interface TokenRecipient {
+    _id: unknown;
+    name: string;
+    email: string;
+}
+
+export function hashAccountToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function formatTtl(minutes: number): string {
+    if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} day${minutes === 24 * 60 ? '' : 's'}`;
+    if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+    return `${minutes} minutes`;
+}
+
+export function buildAccountTokenEmail(purpose: AccountTokenPurpose, recipient: TokenRecipient, token: string): MailMessage {
+    const ttl = formatTtl(ACCOUNT_TOKEN_TTL_MINUTES[purpose]);
+    if (purpose === 'password_reset') {
+        return {
+            to: recipient.email,
+            template: purpose,
+            subject: 'Reset your HealthTwin password',
+            text: [
+                `Hi ${recipient.name},`,
+                '',
+                'Someone asked to reset the password for your HealthTwin account.',
+                `Enter this code in the app within ${ttl} to choose a new password:`,
+                '',
+                token,
+                '',
+                'If this was not you, ignore this email. Your password has not changed.',
+            ].join('\n'),
+        };
+    }
+    return {
+        to: recipient.email,
+        template: purpose,
+        subject: 'Confirm your HealthTwin email address',
+        text: [
+            `Hi ${recipient.name},`,
+            '',
+            `Welcome to HealthTwin. Enter this code in Settings within ${ttl} to confirm your email address:`,
+            '',
+            token,
+        ].join('\n'),
+    };
+}
+
+/**
+ * Issues a new token and emails it. Returns false without sending when a token for the same
+ * purpose went out less than ACCOUNT_TOKEN_RESEND_COOLDOWN_SECONDS ago.
+ */
+export async function sendAccountToken(
+    recipient: TokenRecipient,
+    purpose: AccountTokenPurpose,
+    now = new Date()
+): Promise<boolean> {
+    const cooldownStart = new Date(now.getTime() - ACCOUNT_TOKEN_RESEND_COOLDOWN_SECONDS * 1000);
+    const recent = await AccountToken.exists({
+        userId: recipient._id,
+        purpose,
+        usedAt: null,
+        createdAt: { $gt: cooldownStart },
+    });
+    if (recent) return false;
+
+    await AccountToken.deleteMany({ userId: recipient._id, purpose, usedAt: null });
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    await AccountToken.create({
+        userId: recipient._id,
+        purpose,
+        tokenHash: hashAccountToken(token),
+        email: recipient.email,
+        expiresAt: new Date(now.getTime() + ACCOUNT_TOKEN_TTL_MINUTES[purpose] * 60 * 1000),
+    });
+    await sendMail(buildAccountTokenEmail(purpose, recipient, token));
+    return true;
+}
+
+/** Marks the token used and returns it; null when unknown, expired, already used or for another purpose. */
+export async function consumeAccountToken(
+    token: string,
+    purpose: AccountTokenPurpose,
+    now = new Date()
+): Promise<IAccountToken | null> {
+    return AccountToken.findOneAndUpdate(
+        { tokenHash: hashAccountToken(token), purpose, usedAt: null, expiresAt: { $gt: now } },
+        { $set: { usedAt: now } },
+        { new: true }
+    );
+}
@@ -0,0 +1,103 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_DAILY_GOALS } from '../models/UserGoals';
+import { AchievementEvaluation, AchievementRule } from '../lib/achievementRules';
+import { applyAchievementProgress, buildAchievementsDto } from './achievementService';
+
+const rules: AchievementRule[] = [
+    {
+        id: 'logged_days',
+        name: 'Dedicated Logger',
+        description: 'Log health data on {target} days',
+        icon: '📅',
+        category: 'milestone',
+        metric: 'logged',
+        aggregation: 'count',
+        window: 'all',
+        comparator: 'gte',
+        tiers: { bronze: 7, silver: 14, gold: 30 },
+    },
+    {
+        id: 'step_master',
+        name: 'Step Master',
+        description: 'Walk {target} steps in a day',
+        icon: '👟',
+        category: 'activity',
+        metric: 'steps',
+        aggregation: 'max',
+        window: 'all',
+        comparator: 'gte',
+        tiers: { bronze: { goal: 'steps', times: 1 } },
+    },
+];
+
+const evaluation = (id: string, current: number | null, tier: AchievementEvaluation['tier']): AchievementEvaluation => ({
+    id,
+    current,
+    thresholds: {},
+    tier,
+});
+
+test('applyAchievementProgress records every tier reached and keeps first unlock dates', () => {
+    const first = applyAchievementProgress(
+        rules,
+        [evaluation('logged_days', 15, 'silver'), evaluation('step_master', 4000, null)],
+        [],
+        DEFAULT_DAILY_GOALS,
+        new Date('2026-03-01T09:00:00.000Z')
+    );
+    assert.deepEqual(first.newlyUnlocked, [
+        { achievementId: 'logged_days', tier: 'bronze' },
+        { achievementId: 'logged_days', tier: 'silver' },
+    ]);
+    assert.equal(first.records[0].tier, 'silver');
+    assert.equal(first.records[0].target, 30);
+
+    // Deleting entries later does not take tiers back, nor move their dates.
+    const second = applyAchievementProgress(
+        rules,
+        [evaluation('logged_days', 2, null), evaluation('step_master', 4000, null)],
+        first.records,
+        DEFAULT_DAILY_GOALS,
+        new Date('2026-03-05T09:00:00.000Z')
+    );
+    assert.deepEqual(second.newlyUnlocked, []);
+    assert.equal(second.records[0].current, 2);
+    assert.equal(second.records[0].unlockedAt?.toISOString(), '2026-03-01T09:00:00.000Z');
+});
+
+test('buildAchievementsDto phrases badges for the next tier and reports progress', () => {
+    const { records } = applyAchievementProgress(
+        rules,
+        [evaluation('logged_days', 10, 'bronze'), evaluation('step_master', 7500, null)],
+        [],
+        DEFAULT_DAILY_GOALS,
+        new Date('2026-03-01T09:00:00.000Z')
+    );
+    const dto = buildAchievementsDto(rules, records, { ...DEFAULT_DAILY_GOALS, steps: 9000 });
+    const [logged, steps] = dto.badges;
+
+    assert.equal(dto.unlockedCount, 1);
+    assert.deepEqual(dto.tierCounts, { bronze: 1, silver: 0, gold: 0 });
+    assert.equal(logged.description, 'Log health data on 14 days');
+    assert.deepEqual([logged.tier, logged.nextTier, logged.current, logged.target, logged.percent], ['bronze', 'silver', 10, 14, 71]);
+    assert.deepEqual(logged.tiers.map((tier) => [tier.tier, tier.threshold, tier.unlockedAt]), [
+        ['bronze', 7, '2026-03-01T09:00:00.000Z'],
+        ['silver', 14, null],
+        ['gold', 30, null],
+    ]);
+    assert.equal(steps.description, 'Walk 9,000 steps in a day');
+    assert.deepEqual([steps.unlocked, steps.unlockedAt, steps.percent], [false, null, 83]);
+});
+
+test('buildAchievementsDto reads records stored before tiers existed as bronze unlocks', () => {
+    const dto = buildAchievementsDto(rules, [{
+        achievementId: 'logged_days',
+        unlockedAt: new Date('2026-02-01T00:00:00.000Z'),
+        current: 8,
+        target: 7,
+    }], DEFAULT_DAILY_GOALS);
+    assert.equal(dto.badges[0].tier, 'bronze');
+    assert.equal(dto.badges[0].unlockedAt, '2026-02-01T00:00:00.000Z');
+    assert.equal(dto.badges[1].current, null);
+});
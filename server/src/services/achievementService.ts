@@ -0,0 +1,232 @@
+import HealthEntry from '../models/HealthEntry';
+import MoodEntry from '../models/MoodEntry';
+import UserAchievement, { ACHIEVEMENT_TIERS, AchievementTier, IAchievementUnlock } from '../models/UserAchievement';
+import UserGoals, { DailyGoals } from '../models/UserGoals';
+import Workout from '../models/Workout';
+import { AchievementDto, AchievementsDto, AchievementTierStatusDto } from '../contracts/api';
+import {
+    AchievementEvaluation,
+    AchievementRule,
+    AchievementSources,
+    evaluateAchievementRules,
+    parseAchievementRules,
+    progressPercent,
+    resolveThreshold,
+} from '../lib/achievementRules';
+import achievementConfig from '../config/achievements.json';
+import { resolveGoals } from './goalService';
+
+/**
+ * Achievements are defined in `config/achievements.json` and evaluated by the rules engine
+ * after entries are saved (and when goals change). Progress is stored per user and rule.
+ * Each tier's unlock date is set the first time its threshold is met and is kept even if
+ * the data later drops back, so an edit or delete never takes a badge away.
+ */
+
+export const ACHIEVEMENT_RULES: AchievementRule[] = parseAchievementRules(achievementConfig);
+
+export interface AchievementRecord {
+    achievementId: string;
+    tier: AchievementTier | null;
+    unlocks: IAchievementUnlock[];
+    unlockedAt: Date | null;
+    current: number | null;
+    target: number;
+}
+
+export interface AchievementUnlock {
+    achievementId: string;
+    tier: AchievementTier;
+}
+
+function definedTiers(rule: AchievementRule): AchievementTier[] {
+    return ACHIEVEMENT_TIERS.filter((tier) => rule.tiers[tier] !== undefined);
+}
+
+// Records written before tiers existed only have `unlockedAt`, which was the bronze unlock.
+function storedUnlocks(record?: Partial<AchievementRecord>): IAchievementUnlock[] {
+    if (record?.unlocks && record.unlocks.length > 0) return record.unlocks;
+    return record?.unlockedAt ? [{ tier: 'bronze', unlockedAt: record.unlockedAt }] : [];
+}
+
+function firstUnlockDate(unlocks: IAchievementUnlock[]): Date | null {
+    if (unlocks.length === 0) return null;
+    return new Date(Math.min(...unlocks.map((unlock) => new Date(unlock.unlockedAt).getTime())));
+}
+
+function highestTier(unlocks: IAchievementUnlock[]): AchievementTier | null {
+    const unlocked = new Set(unlocks.map((unlock) => unlock.tier));
+    return [...ACHIEVEMENT_TIERS].reverse().find((tier) => unlocked.has(tier)) ?? null;
+}
+
+/** The first tier not yet unlocked, or null once the rule is complete. */
+function nextTier(rule: AchievementRule, unlocks: IAchievementUnlock[]): AchievementTier | null {
+    const unlocked = new Set(unlocks.map((unlock) => unlock.tier));
+    return definedTiers(rule).find((tier) => !unlocked.has(tier)) ?? null;
+}
+
+function targetFor(rule: AchievementRule, tier: AchievementTier | null, goals: DailyGoals): number {
+    const tiers = definedTiers(rule);
+    const threshold = rule.tiers[tier ?? tiers[tiers.length - 1]];
+    return threshold === undefined ? 0 : resolveThreshold(threshold, goals);
+}
+
+/**
+ * Merges fresh evaluations into what is stored: tiers keep their first unlock date, and
+ * tiers met for the first time unlock at `now` (lower tiers included, so a jump straight
+ * to gold also records bronze and silver).
+ */
+export function applyAchievementProgress(
+    rules: AchievementRule[],
+    evaluations: AchievementEvaluation[],
+    stored: Array<Partial<AchievementRecord> & { achievementId: string }>,
+    goals: DailyGoals,
+    now = new Date()
+): { records: AchievementRecord[]; newlyUnlocked: AchievementUnlock[] } {
+    const storedById = new Map(stored.map((record) => [record.achievementId, record]));
+    const evaluationById = new Map(evaluations.map((evaluation) => [evaluation.id, evaluation]));
+    const newlyUnlocked: AchievementUnlock[] = [];
+
+    const records = rules.map((rule) => {
+        const evaluation = evaluationById.get(rule.id);
+        const unlocks = [...storedUnlocks(storedById.get(rule.id))];
+        const metIndex = evaluation?.tier ? ACHIEVEMENT_TIERS.indexOf(evaluation.tier) : -1;
+        for (const tier of definedTiers(rule)) {
+            if (ACHIEVEMENT_TIERS.indexOf(tier) > metIndex || unlocks.some((unlock) => unlock.tier === tier)) continue;
+            unlocks.push({ tier, unlockedAt: now });
+            newlyUnlocked.push({ achievementId: rule.id, tier });
+        }
+        unlocks.sort((a, b) => ACHIEVEMENT_TIERS.indexOf(a.tier) - ACHIEVEMENT_TIERS.indexOf(b.tier));
+
+        return {
+            achievementId: rule.id,
+            tier: highestTier(unlocks),
+            unlocks,
+            unlockedAt: firstUnlockDate(unlocks),
+            current: evaluation?.current ?? null,
+            target: targetFor(rule, nextTier(rule, unlocks), goals),
+        };
+    });
+    return { records, newlyUnlocked };
+}
+
+function formatTarget(value: number): string {
+    return Number.isInteger(value) ? value.toLocaleString('en-US') : value.toFixed(1);
+}
+
+export function buildAchievementsDto(
+    rules: AchievementRule[],
+    records: Array<Partial<AchievementRecord> & { achievementId: string }>,
+    goals: DailyGoals
+): AchievementsDto {
+    const recordById = new Map(records.map((record) => [record.achievementId, record]));
+    const badges: AchievementDto[] = rules.map((rule) => {
+        const record = recordById.get(rule.id);
+        const unlocks = storedUnlocks(record);
+        const unlockedAtByTier = new Map(unlocks.map((unlock) => [unlock.tier, new Date(unlock.unlockedAt)]));
+        const upcoming = nextTier(rule, unlocks);
+        const target = targetFor(rule, upcoming, goals);
+        const current = record?.current ?? null;
+        const firstUnlock = firstUnlockDate(unlocks);
+        const tiers: AchievementTierStatusDto[] = definedTiers(rule).map((tier) => ({
+            tier,
+            threshold: targetFor(rule, tier, goals),
+            unlockedAt: unlockedAtByTier.get(tier)?.toISOString() ?? null,
+        }));
+
+        return {
+            id: rule.id,
+            name: rule.name,
+            description: rule.description.replace('{target}', formatTarget(target)),
+            icon: rule.icon,
+            category: rule.category,
+            tier: highestTier(unlocks),
+            nextTier: upcoming,
+            tiers,
+            unlocked: unlocks.length > 0,
+            unlockedAt: firstUnlock ? firstUnlock.toISOString() : null,
+            current,
+            target,
+            percent: upcoming ? progressPercent(current, target, rule.comparator) : 100,
+        };
+    });
+
+    const tierCounts = Object.fromEntries(ACHIEVEMENT_TIERS.map((tier) => [
+        tier,
+        badges.filter((badge) => badge.tiers.some((status) => status.tier === tier && status.unlockedAt)).length,
+    ])) as Record<AchievementTier, number>;
+
+    return {
+        badges,
+        unlockedCount: badges.filter((badge) => badge.unlocked).length,
+        totalBadges: badges.length,
+        tierCounts,
+    };
+}
+
+async function loadAchievementSources(userId: string): Promise<AchievementSources> {
+    const [healthEntries, moodEntries, workouts] = await Promise.all([
+        HealthEntry.find({ userId }).select('date steps sleepHours waterLitres activeMinutes energyScore').lean(),
+        MoodEntry.find({ userId }).select('date mood stressLevel').lean(),
+        Workout.find({ userId }).select('date type durationMinutes').lean(),
+    ]);
+    return { healthEntries, moodEntries, workouts };
+}
+
+/** Re-evaluates every rule and stores the result; returns the tiers unlocked by this call. */
+export async function refreshAchievements(
+    userId: string,
+    now = new Date()
+): Promise<{ records: AchievementRecord[]; newlyUnlocked: AchievementUnlock[] }> {
+    const [sources, storedGoals, stored] = await Promise.all([
+        loadAchievementSources(userId),
+        UserGoals.findOne({ userId }).lean(),
+        UserAchievement.find({ userId }).select('achievementId unlocks unlockedAt').lean<AchievementRecord[]>(),
+    ]);
+    const goals = resolveGoals(storedGoals);
+    const evaluations = evaluateAchievementRules(ACHIEVEMENT_RULES, sources, goals);
+    const result = applyAchievementProgress(ACHIEVEMENT_RULES, evaluations, stored, goals, now);
+
+    await UserAchievement.bulkWrite(result.records.map((record) => ({
+        updateOne: {
+            filter: { userId, achievementId: record.achievementId },
+            update: {
+                $set: {
+                    tier: record.tier,
+                    unlocks: record.unlocks,
+                    unlockedAt: record.unlockedAt,
+                    current: record.current,
+                    target: record.target,
+                },
+            },
+            upsert: true,
+        },
+    })));
+    return result;
+}
+
+/** Stored progress, evaluated first for users (or rules) that have never been evaluated. */
+export async function loadAchievements(userId: string): Promise<AchievementRecord[]> {
+    const stored = await UserAchievement.find({ userId })
+        .select('achievementId tier unlocks unlockedAt current target')
+        .lean<AchievementRecord[]>();
+    const storedIds = new Set(stored.map((record) => record.achievementId));
+    if (ACHIEVEMENT_RULES.some((rule) => !storedIds.has(rule.id))) {
+        return (await refreshAchievements(userId)).records;
+    }
+    return stored;
+}
+
+/**
+ * Evaluates achievements after a write. Achievements are derived data, so a failure is
+ * logged rather than failing the write that triggered it.
+ */
+export async function syncAchievements(userId: string): Promise<AchievementUnlock[]> {
+    try {
+        const { newlyUnlocked } = await refreshAchievements(userId);
+        return newlyUnlocked;
+    } catch (error: unknown) {
+        console.warn('[Achievement] Update failed:', error);
+        return [];
+    }
+}
@@ -0,0 +1,67 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import {
+    ADMIN_SEARCH_LIMIT,
+    adminAuditQuerySchema,
+    adminUserSearchSchema,
+    buildUserSearchFilter,
+    toAdminAuditEntryDto,
+    toAdminUserSummaryDto,
+} from './adminService';
+
+test('buildUserSearchFilter matches ids exactly and treats other input as literal text', () => {
+    const id = new mongoose.Types.ObjectId();
+    assert.deepEqual(buildUserSearchFilter(String(id)), { _id: id });
+    assert.deepEqual(buildUserSearchFilter('   '), {});
+
+    const filter = buildUserSearchFilter('a.b+c@example.com') as { $or: Array<{ email?: RegExp; name?: RegExp }> };
+    const pattern = filter.$or[0].email as RegExp;
+    assert.equal(pattern.test('A.B+C@Example.com'), true);
+    assert.equal(pattern.test('axb+c@example.com'), false);
+    assert.equal(filter.$or[1].name, pattern);
+});
+
+test('toAdminUserSummaryDto reports account state without credentials', () => {
+    const dto = toAdminUserSummaryDto({
+        _id: new mongoose.Types.ObjectId(),
+        name: 'Amira',
+        email: 'amira@example.com',
+        createdAt: new Date('2026-01-05T09:00:00.000Z'),
+        emailVerifiedAt: new Date('2026-01-05T09:10:00.000Z'),
+        twoFactor: { enabled: true },
+        deletionScheduledFor: null,
+        password: 'hash',
+    } as Parameters<typeof toAdminUserSummaryDto>[0]);
+    assert.equal(dto.role, 'user');
+    assert.equal(dto.emailVerified, true);
+    assert.equal(dto.twoFactorEnabled, true);
+    assert.equal(dto.createdAt, '2026-01-05T09:00:00.000Z');
+    assert.equal('password' in dto, false);
+});
+
+test('admin queries cap their limits and audit entries report their outcome', () => {
+    assert.equal(adminUserSearchSchema.parse({}).limit, ADMIN_SEARCH_LIMIT.default);
+    assert.equal(adminUserSearchSchema.safeParse({ limit: '1000' }).success, false);
+    assert.equal(adminAuditQuerySchema.safeParse({ targetUserId: 'not-an-id' }).success, false);
+
+    const adminId = new mongoose.Types.ObjectId();
+    const entry = toAdminAuditEntryDto({
+        _id: new mongoose.Types.ObjectId(),
+        adminId,
+        action: 'avatar.reset',
+        targetUserId: null,
+        details: {},
+        ip: '10.0.0.1',
+        outcome: 'failed',
+        result: null,
+        error: 'Connection reset',
+        completedAt: new Date('2026-02-01T12:00:01.000Z'),
+        createdAt: new Date('2026-02-01T12:00:00.000Z'),
+    });
+    assert.equal(entry.adminId, String(adminId));
+    assert.equal(entry.targetUserId, null);
+    assert.equal(entry.outcome, 'failed');
+    assert.equal(entry.error, 'Connection reset');
+    assert.equal(entry.completedAt, '2026-02-01T12:00:01.000Z');
+});
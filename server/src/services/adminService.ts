@@ -0,0 +1,247 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import User, { IUser } from '../models/User';
+import AdminAuditLog, { AdminAuditOutcome, IAdminAuditLog } from '../models/AdminAuditLog';
+import HealthEntry from '../models/HealthEntry';
+import HealthSample from '../models/HealthSample';
+import MoodEntry from '../models/MoodEntry';
+import SleepSession from '../models/SleepSession';
+import Workout from '../models/Workout';
+import Meal from '../models/Meal';
+import CustomMetric from '../models/CustomMetric';
+import TrashItem from '../models/TrashItem';
+import AuthSession from '../models/AuthSession';
+import { Avatar } from '../models/Avatar';
+import { AvatarAnimation } from '../models/AvatarAnimation';
+import WeeklyAnalysisCache from '../models/WeeklyAnalysisCache';
+import {
+    AdminAiCacheClearDto,
+    AdminAuditEntryDto,
+    AdminAvatarResetDto,
+    AdminUserDataCountsDto,
+    AdminUserSummaryDto,
+} from '../contracts/api';
+import { getErrorMessage } from '../lib/apiResponse';
+import { DEMO_HEALTH_NOTE_PATTERN, DEMO_MOOD_NOTE_PATTERN } from './demoDataService';
+
+/**
+ * Support tooling behind `/api/admin`, replacing one-off scripts run against the database.
+ * Admins can look users up and see how much data they hold, but not read the entries
+ * themselves. Every call runs through `auditAdminAction`, which logs it to `adminauditlogs`
+ * before it runs and records the outcome once it finishes.
+ */
+
+export const ADMIN_SEARCH_LIMIT = { min: 1, max: 100, default: 20 } as const;
+export const ADMIN_AUDIT_LIMIT = { min: 1, max: 200, default: 50 } as const;
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user id');
+
+export const adminUserSearchSchema = z.object({
+    q: z.string().trim().max(200).optional(),
+    limit: z.coerce.number().int().min(ADMIN_SEARCH_LIMIT.min).max(ADMIN_SEARCH_LIMIT.max).default(ADMIN_SEARCH_LIMIT.default),
+});
+
+export const adminUserParamSchema = z.object({
+    id: objectIdSchema,
+});
+
+export const adminAuditQuerySchema = z.object({
+    targetUserId: objectIdSchema.optional(),
+    action: z.string().trim().max(60).optional(),
+    limit: z.coerce.number().int().min(ADMIN_AUDIT_LIMIT.min).max(ADMIN_AUDIT_LIMIT.max).default(ADMIN_AUDIT_LIMIT.default),
+});
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** A 24-hex query matches that id exactly; anything else is a case-insensitive name/email substring. */
+export function buildUserSearchFilter(query?: string): Record<string, unknown> {
+    const term = query?.trim();
+    if (!term) return {};
+    if (objectIdSchema.safeParse(term).success) return { _id: new mongoose.Types.ObjectId(term) };
+
+    const pattern = new RegExp(escapeRegex(term), 'i');
+    return { $or: [{ email: pattern }, { name: pattern }] };
+}
+
+type AdminUserSource = Pick<IUser, 'name' | 'email' | 'createdAt'> & {
+    _id: unknown;
+    role?: IUser['role'] | null;
+    emailVerifiedAt?: Date | null;
+    twoFactor?: { enabled: boolean } | null;
+    deletionScheduledFor?: Date | null;
+};
+
+export function toAdminUserSummaryDto(user: AdminUserSource): AdminUserSummaryDto {
+    return {
+        id: String(user._id),
+        name: user.name,
+        email: user.email,
+        role: user.role ?? 'user',
+        emailVerified: Boolean(user.emailVerifiedAt),
+        twoFactorEnabled: Boolean(user.twoFactor?.enabled),
+        deletionScheduledFor: user.deletionScheduledFor ? user.deletionScheduledFor.toISOString() : null,
+        createdAt: user.createdAt.toISOString(),
+    };
+}
+
+const ADMIN_USER_FIELDS = 'name email role emailVerifiedAt twoFactor.enabled deletionScheduledFor createdAt';
+
+export async function searchUsers(query: string | undefined, limit: number): Promise<AdminUserSummaryDto[]> {
+    const users = await User.find(buildUserSearchFilter(query))
+        .select(ADMIN_USER_FIELDS)
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .lean();
+    return users.map(toAdminUserSummaryDto);
+}
+
+export async function findAdminUser(userId: string): Promise<AdminUserSummaryDto | null> {
+    const user = await User.findById(userId).select(ADMIN_USER_FIELDS).lean();
+    return user ? toAdminUserSummaryDto(user) : null;
+}
+
+export async function countUserData(userId: string, now = new Date()): Promise<AdminUserDataCountsDto> {
+    const demoHealth = { userId, $or: [{ source: 'seed_demo' }, { notes: DEMO_HEALTH_NOTE_PATTERN }] };
+    const demoMood = { userId, $or: [{ source: 'seed_demo' }, { notes: DEMO_MOOD_NOTE_PATTERN }] };
+
+    const [
+        healthEntries,
+        moodEntries,
+        demoHealthEntries,
+        demoMoodEntries,
+        sleepSessions,
+        workouts,
+        meals,
+        healthSamples,
+        customMetrics,
+        trashItems,
+        activeSessions,
+        avatars,
+        avatarAnimations,
+        aiCacheEntries,
+    ] = await Promise.all([
+        HealthEntry.countDocuments({ userId }),
+        MoodEntry.countDocuments({ userId }),
+        HealthEntry.countDocuments(demoHealth),
+        MoodEntry.countDocuments(demoMood),
+        SleepSession.countDocuments({ userId }),
+        Workout.countDocuments({ userId }),
+        Meal.countDocuments({ userId }),
+        HealthSample.countDocuments({ userId }),
+        CustomMetric.countDocuments({ userId }),
+        TrashItem.countDocuments({ userId }),
+        AuthSession.countDocuments({ userId, expiresAt: { $gt: now } }),
+        Avatar.countDocuments({ userId }),
+        AvatarAnimation.countDocuments({ userId }),
+        WeeklyAnalysisCache.countDocuments({ userId }),
+    ]);
+
+    return {
+        healthEntries,
+        moodEntries,
+        demoHealthEntries,
+        demoMoodEntries,
+        sleepSessions,
+        workouts,
+        meals,
+        healthSamples,
+        customMetrics,
+        trashItems,
+        activeSessions,
+        avatars,
+        avatarAnimations,
+        aiCacheEntries,
+    };
+}
+
+/** Drops the base avatar and its state videos so the user goes through avatar setup again. */
+export async function resetAvatarGeneration(userId: string): Promise<AdminAvatarResetDto> {
+    const [avatars, animations] = await Promise.all([
+        Avatar.deleteMany({ userId }),
+        AvatarAnimation.deleteMany({ userId }),
+    ]);
+    return { avatarsDeleted: avatars.deletedCount ?? 0, animationsDeleted: animations.deletedCount ?? 0 };
+}
+
+/** Forgets cached weekly analyses; the next request generates a fresh one. */
+export async function clearAiCache(userId: string): Promise<AdminAiCacheClearDto> {
+    const result = await WeeklyAnalysisCache.deleteMany({ userId });
+    return { entriesDeleted: result.deletedCount ?? 0 };
+}
+
+export interface AdminActionInput {
+    adminId: string;
+    action: string;
+    targetUserId?: string | null;
+    details?: Record<string, unknown>;
+    ip?: string | null;
+}
+
+/**
+ * Logs the action as pending, runs it and completes the entry with the outcome: `run`
+ * resolving to null means the target was not found, and a throw is recorded and rethrown.
+ * `summarize` picks what goes into `result`; it defaults to the result itself.
+ */
+export async function auditAdminAction<T extends object>(
+    input: AdminActionInput,
+    run: () => Promise<T | null>,
+    summarize: (result: T) => Record<string, unknown> = (result) => ({ ...result } as Record<string, unknown>)
+): Promise<T | null> {
+    const entry = await AdminAuditLog.create({
+        adminId: input.adminId,
+        action: input.action,
+        targetUserId: input.targetUserId ?? null,
+        details: input.details ?? {},
+        ip: input.ip ?? null,
+    });
+    const complete = (outcome: AdminAuditOutcome, fields: { result?: Record<string, unknown>; error?: string } = {}) =>
+        AdminAuditLog.updateOne(
+            { _id: entry._id },
+            { $set: { outcome, result: fields.result ?? null, error: fields.error ?? null, completedAt: new Date() } }
+        );
+
+    let result: T | null;
+    try {
+        result = await run();
+    } catch (error: unknown) {
+        await complete('failed', { error: getErrorMessage(error) }).catch((logError: unknown) => console.error(logError));
+        throw error;
+    }
+    await complete(result ? 'succeeded' : 'not_found', result ? { result: summarize(result) } : {});
+    return result;
+}
+
+type AuditSource = Pick<
+    IAdminAuditLog,
+    'adminId' | 'action' | 'targetUserId' | 'details' | 'ip' | 'outcome' | 'result' | 'error' | 'completedAt' | 'createdAt'
+> & { _id: unknown };
+
+export function toAdminAuditEntryDto(entry: AuditSource): AdminAuditEntryDto {
+    return {
+        id: String(entry._id),
+        adminId: String(entry.adminId),
+        action: entry.action,
+        targetUserId: entry.targetUserId ? String(entry.targetUserId) : null,
+        details: entry.details ?? {},
+        ip: entry.ip ?? null,
+        outcome: entry.outcome ?? 'pending',
+        result: entry.result ?? null,
+        error: entry.error ?? null,
+        completedAt: entry.completedAt ? entry.completedAt.toISOString() : null,
+        createdAt: entry.createdAt.toISOString(),
+    };
+}
+
+export async function listAdminActions(
+    filter: { targetUserId?: string; action?: string },
+    limit: number
+): Promise<AdminAuditEntryDto[]> {
+    const query: Record<string, unknown> = {};
+    if (filter.targetUserId) query.targetUserId = filter.targetUserId;
+    if (filter.action) query.action = filter.action;
+
+    const entries = await AdminAuditLog.find(query).sort({ createdAt: -1 }).limit(limit).lean();
+    return entries.map(toAdminAuditEntryDto);
+}
@@ -0,0 +1,119 @@
+import HealthEntry from '../models/HealthEntry';
+import MoodEntry from '../models/MoodEntry';
+import SleepSession from '../models/SleepSession';
+import { AnalyticsHealthPointDto, AnalyticsMoodPointDto, AnalyticsSummaryDto, MoodType } from '../contracts/api';
+import { shiftUtcDays } from '../lib/dateUtils';
+import { SleepTimingInput, summarizeSleepTiming } from './sleepSessionService';
+
+/**
+ * The `/api/analytics/summary` payload. Share links serve the same shape with a narrower
+ * scope: sections outside it come back empty, as if nothing had been logged, and notes are
+ * dropped from the timelines unless the scope includes them.
+ */
+
+export interface AnalyticsScope {
+    health: boolean;      // Health entries and sleep timing
+    mood: boolean;
+    notes: boolean;
+}
+
+export const FULL_ANALYTICS_SCOPE: AnalyticsScope = { health: true, mood: true, notes: true };
+
+type SummaryHealthEntry = {
+    date: Date;
+    steps: number;
+    activeMinutes?: number;
+    sleepHours: number;
+    waterLitres: number;
+    heartRate: number;
+    restingHeartRate?: number;
+    energyScore?: number | null;
+    weight?: number;
+    notes?: string;
+};
+type SummaryMoodEntry = { date: Date; mood: MoodType; energyLevel: number; stressLevel: number; notes?: string };
+
+export interface AnalyticsSummaryInput {
+    days: number;
+    since: Date;
+    until: Date;
+    healthEntries: SummaryHealthEntry[];
+    moodEntries: SummaryMoodEntry[];
+    sleepSessions: SleepTimingInput[];
+}
+
+function toHealthPoint(entry: SummaryHealthEntry, includeNotes: boolean): AnalyticsHealthPointDto {
+    return {
+        date: entry.date.toISOString(),
+        steps: entry.steps,
+        activeMinutes: entry.activeMinutes,
+        sleepHours: entry.sleepHours,
+        waterLitres: entry.waterLitres,
+        heartRate: entry.heartRate,
+        restingHeartRate: entry.restingHeartRate,
+        energyScore: entry.energyScore,
+        weight: entry.weight,
+        ...(includeNotes && entry.notes !== undefined ? { notes: entry.notes } : {}),
+    };
+}
+
+function toMoodPoint(entry: SummaryMoodEntry, includeNotes: boolean): AnalyticsMoodPointDto {
+    return {
+        date: entry.date.toISOString(),
+        mood: entry.mood,
+        energyLevel: entry.energyLevel,
+        stressLevel: entry.stressLevel,
+        ...(includeNotes && entry.notes !== undefined ? { notes: entry.notes } : {}),
+    };
+}
+
+export function buildAnalyticsSummary(
+    input: AnalyticsSummaryInput,
+    scope: AnalyticsScope = FULL_ANALYTICS_SCOPE
+): AnalyticsSummaryDto {
+    const healthEntries = scope.health ? input.healthEntries : [];
+    const moodEntries = scope.mood ? input.moodEntries : [];
+
+    const count = healthEntries.length;
+    const avgSteps = count ? Math.round(healthEntries.reduce((sum, entry) => sum + entry.steps, 0) / count) : 0;
+    const avgSleep = count ? +(healthEntries.reduce((sum, entry) => sum + entry.sleepHours, 0) / count).toFixed(1) : 0;
+    const avgWater = count ? +(healthEntries.reduce((sum, entry) => sum + entry.waterLitres, 0) / count).toFixed(1) : 0;
+    const avgHR = count ? Math.round(healthEntries.reduce((sum, entry) => sum + entry.heartRate, 0) / count) : 0;
+
+    const moodCount = moodEntries.length;
+    const avgEnergy = moodCount ? +(moodEntries.reduce((sum, entry) => sum + entry.energyLevel, 0) / moodCount).toFixed(1) : 0;
+    const avgStress = moodCount ? +(moodEntries.reduce((sum, entry) => sum + entry.stressLevel, 0) / moodCount).toFixed(1) : 0;
+
+    const moodDist: Record<string, number> = {};
+    moodEntries.forEach((entry) => {
+        moodDist[entry.mood] = (moodDist[entry.mood] || 0) + 1;
+    });
+
+    return {
+        period: { days: input.days, from: input.since.toISOString(), to: input.until.toISOString() },
+        health: { count, avgSteps, avgSleep, avgWater, avgHR },
+        mood: { count: moodCount, avgEnergy, avgStress, distribution: moodDist },
+        sleep: summarizeSleepTiming(scope.health ? input.sleepSessions : []),
+        healthTimeline: healthEntries.map((entry) => toHealthPoint(entry, scope.notes)),
+        moodTimeline: moodEntries.map((entry) => toMoodPoint(entry, scope.notes)),
+    };
+}
+
+/** Summary of the `days` days ending on `until` (a day key Date in the user's calendar, normally today). */
+export async function loadAnalyticsSummary(
+    userId: string,
+    until: Date,
+    days: number,
+    scope: AnalyticsScope = FULL_ANALYTICS_SCOPE
+): Promise<AnalyticsSummaryDto> {
+    const since = shiftUtcDays(until, -(days - 1));
+    const range = { $gte: since, $lt: shiftUtcDays(until, 1) };
+
+    const [healthEntries, moodEntries, sleepSessions] = await Promise.all([
+        scope.health ? HealthEntry.find({ userId, date: range }).sort({ date: 1 }).lean() : Promise.resolve([]),
+        scope.mood ? MoodEntry.find({ userId, date: range }).sort({ date: 1 }).lean() : Promise.resolve([]),
+        scope.health ? SleepSession.find({ userId, date: range }).sort({ date: 1 }).lean() : Promise.resolve([]),
+    ]);
+
+    return buildAnalyticsSummary({ days, since, until, healthEntries, moodEntries, sleepSessions }, scope);
+}
@@ -0,0 +1,39 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateAppleHealthExport, parseAppleDate } from './appleHealthImportService';
+
+const EXPORT_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<HealthData locale="en_US">
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" startDate="2026-03-01 08:00:00 -0500" endDate="2026-03-01 08:30:00 -0500" value="3000"/>
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="iPhone" unit="count" startDate="2026-03-01 18:00:00 -0500" endDate="2026-03-01 18:30:00 -0500" value="2500"/>
+ <Record type="HKQuantityTypeIdentifierStepCount" sourceName="Apple Watch" unit="count" startDate="2026-03-01 08:00:00 -0500" endDate="2026-03-01 08:30:00 -0500" value="2900"/>
+ <Record type="HKQuantityTypeIdentifierHeartRate" sourceName="Apple Watch" unit="count/min" startDate="2026-03-01 09:00:00 -0500" endDate="2026-03-01 09:00:00 -0500" value="60">
+  <MetadataEntry key="HKMetadataKeyHeartRateMotionContext" value="1"/>
+ </Record>
+ <Record type="HKQuantityTypeIdentifierHeartRate" sourceName="Apple Watch" unit="count/min" startDate="2026-03-01 12:00:00 -0500" endDate="2026-03-01 12:00:00 -0500" value="80"/>
+ <Record type="HKQuantityTypeIdentifierBodyMass" sourceName="Scale" unit="lb" startDate="2026-03-01 07:00:00 -0500" endDate="2026-03-01 07:00:00 -0500" value="160"/>
+ <Record type="HKQuantityTypeIdentifierDietaryWater" sourceName="WaterMinder" unit="mL" startDate="2026-03-01 10:00:00 -0500" endDate="2026-03-01 10:00:00 -0500" value="750"/>
+ <Record type="HKCategoryTypeIdentifierSleepAnalysis" sourceName="Apple Watch" startDate="2026-03-01 23:00:00 -0500" endDate="2026-03-02 06:30:00 -0500" value="HKCategoryValueSleepAnalysisAsleepCore"/>
+ <Record type="HKQuantityTypeIdentifierFlightsClimbed" sourceName="iPhone" unit="count" startDate="2026-03-02 09:00:00 -0500" endDate="2026-03-02 09:00:00 -0500" value="3"/>
+</HealthData>`;
+
+async function* chunked(text: string, size: number): AsyncGenerator<Buffer> {
+    for (let i = 0; i < text.length; i += size) {
+        yield Buffer.from(text.slice(i, i + size));
+    }
+}
+
+test('parseAppleDate understands the export timestamp format', () => {
+    assert.equal(parseAppleDate('2026-03-01 23:00:00 -0500')?.toISOString(), '2026-03-02T04:00:00.000Z');
+});
+
+test('aggregateAppleHealthExport builds daily entries across chunk boundaries', async () => {
+    const result = await aggregateAppleHealthExport(chunked(EXPORT_XML, 37));
+
+    assert.equal(result.recordsRead, 9);
+    assert.equal(result.recordsUsed, 8);
+    assert.deepEqual(result.days.map((day) => ({ ...day, date: day.date.toISOString().slice(0, 10) })), [
+        { date: '2026-03-01', steps: 5500, heartRate: 70, weight: 72.6, waterLitres: 0.75 },
+        { date: '2026-03-02', sleepHours: 7.5 },
+    ]);
+});
@@ -0,0 +1,259 @@
+import { StringDecoder } from 'string_decoder';
+import { toUtcDayStart } from '../lib/dateUtils';
+import { DeviceImportAggregate, ImportedHealthDay } from './deviceImportService';
+
+/**
+ * Apple Health export.xml importer.
+ *
+ * The export can be several hundred MB, so the body is scanned as a stream: only the
+ * opening `<Record ...>` tags are parsed and everything else is discarded as it passes.
+ * Records are aggregated per calendar day (the local date Apple writes in `startDate`,
+ * which matches the app's local day keys).
+ */
+
+const STEP_TYPE = 'HKQuantityTypeIdentifierStepCount';
+const SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+const HEART_RATE_TYPE = 'HKQuantityTypeIdentifierHeartRate';
+const BODY_MASS_TYPE = 'HKQuantityTypeIdentifierBodyMass';
+const WATER_TYPE = 'HKQuantityTypeIdentifierDietaryWater';
+const SUPPORTED_TYPES = new Set([STEP_TYPE, SLEEP_TYPE, HEART_RATE_TYPE, BODY_MASS_TYPE, WATER_TYPE]);
+
+const RECORD_TAG = '<Record ';
+
+export interface AppleHealthRecord {
+    type: string;
+    value?: string;
+    unit?: string;
+    sourceName?: string;
+    startDate: string;
+    endDate: string;
+}
+
+interface DayAccumulator {
+    stepsBySource: Map<string, number>;
+    asleepMinutesBySource: Map<string, number>;
+    inBedMinutesBySource: Map<string, number>;
+    heartRateSum: number;
+    heartRateCount: number;
+    weightKg?: number;
+    weightAt?: number;
+    waterLitres: number;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&apos;': '\'',
+};
+
+function decodeXmlEntities(value: string): string {
+    return value.replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity] ?? entity);
+}
+
+function parseRecordTag(tag: string): AppleHealthRecord | null {
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([A-Za-z_][\w.-]*)="([^"]*)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = attributePattern.exec(tag)) !== null) {
+        attributes[match[1]] = decodeXmlEntities(match[2]);
+    }
+    if (!attributes.type || !attributes.startDate || !attributes.endDate) return null;
+    return {
+        type: attributes.type,
+        value: attributes.value,
+        unit: attributes.unit,
+        sourceName: attributes.sourceName,
+        startDate: attributes.startDate,
+        endDate: attributes.endDate,
+    };
+}
+
+// Apple writes "2024-01-15 07:58:00 -0500"; convert to an ISO string Date can parse.
+export function parseAppleDate(value: string): Date | null {
+    const match = value.trim().match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-])(\d{2})(\d{2})$/);
+    const parsed = match
+        ? new Date(`${match[1]}T${match[2]}${match[3]}${match[4]}:${match[5]}`)
+        : new Date(value);
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function toKilograms(value: number, unit?: string): number | null {
+    if (unit === 'kg') return value;
+    if (unit === 'lb') return value * 0.45359237;
+    if (unit === 'g') return value / 1000;
+    if (unit === 'st') return value * 6.35029318;
+    return null;
+}
+
+function toLitres(value: number, unit?: string): number | null {
+    if (unit === 'mL') return value / 1000;
+    if (unit === 'L') return value;
+    if (unit === 'fl_oz_us') return value * 0.0295735;
+    if (unit === 'fl_oz_imp') return value * 0.0284131;
+    return null;
+}
+
+function addToSource(map: Map<string, number>, source: string, amount: number): void {
+    map.set(source, (map.get(source) ?? 0) + amount);
+}
+
+// iPhone and Apple Watch both record steps/sleep for the same period; summing every
+// source double-counts, so each day uses the single source that recorded the most.
+function maxSourceTotal(map: Map<string, number>): number {
+    let max = 0;
+    for (const total of map.values()) max = Math.max(max, total);
+    return max;
+}
+
+function round(value: number, digits: number): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+export function createAppleHealthAggregator() {
+    const days = new Map<string, DayAccumulator>();
+    let recordsRead = 0;
+    let recordsUsed = 0;
+
+    const getDay = (dayKey: string): DayAccumulator => {
+        let day = days.get(dayKey);
+        if (!day) {
+            day = {
+                stepsBySource: new Map(),
+                asleepMinutesBySource: new Map(),
+                inBedMinutesBySource: new Map(),
+                heartRateSum: 0,
+                heartRateCount: 0,
+                waterLitres: 0,
+            };
+            days.set(dayKey, day);
+        }
+        return day;
+    };
+
+    const addRecord = (record: AppleHealthRecord): void => {
+        recordsRead += 1;
+        if (!SUPPORTED_TYPES.has(record.type)) return;
+
+        const start = parseAppleDate(record.startDate);
+        const end = parseAppleDate(record.endDate);
+        if (!start || !end) return;
+        const source = record.sourceName ?? 'unknown';
+        const numericValue = Number(record.value);
+
+        if (record.type === SLEEP_TYPE) {
+            const minutes = (end.getTime() - start.getTime()) / 60000;
+            if (minutes <= 0) return;
+            // Sleep belongs to the morning it ends on.
+            const day = getDay(record.endDate.slice(0, 10));
+            if (record.value === 'HKCategoryValueSleepAnalysisInBed') {
+                addToSource(day.inBedMinutesBySource, source, minutes);
+            } else if (record.value?.startsWith('HKCategoryValueSleepAnalysisAsleep')) {
+                addToSource(day.asleepMinutesBySource, source, minutes);
+            } else {
+                return;
+            }
+            recordsUsed += 1;
+            return;
+        }
+
+        if (!Number.isFinite(numericValue)) return;
+        const day = getDay(record.startDate.slice(0, 10));
+
+        if (record.type === STEP_TYPE) {
+            addToSource(day.stepsBySource, source, numericValue);
+        } else if (record.type === HEART_RATE_TYPE) {
+            day.heartRateSum += numericValue;
+            day.heartRateCount += 1;
+        } else if (record.type === BODY_MASS_TYPE) {
+            const kg = toKilograms(numericValue, record.unit);
+            if (kg === null) return;
+            // Keep the latest weigh-in of the day.
+            if (day.weightAt === undefined || start.getTime() >= day.weightAt) {
+                day.weightKg = kg;
+                day.weightAt = start.getTime();
+            }
+        } else if (record.type === WATER_TYPE) {
+            const litres = toLitres(numericValue, record.unit);
+            if (litres === null) return;
+            day.waterLitres += litres;
+        }
+        recordsUsed += 1;
+    };
+
+    const finish = (): DeviceImportAggregate => {
+        const result: ImportedHealthDay[] = [];
+        for (const [dayKey, day] of days.entries()) {
+            let date: Date;
+            try {
+                date = toUtcDayStart(dayKey);
+            } catch {
+                continue;
+            }
+
+            const entry: ImportedHealthDay = { date };
+            const steps = maxSourceTotal(day.stepsBySource);
+            if (steps > 0) entry.steps = Math.min(300000, Math.round(steps));
+
+            const asleep = maxSourceTotal(day.asleepMinutesBySource);
+            const sleepMinutes = asleep > 0 ? asleep : maxSourceTotal(day.inBedMinutesBySource);
+            if (sleepMinutes > 0) entry.sleepHours = Math.min(24, round(sleepMinutes / 60, 1));
+
+            if (day.heartRateCount > 0) {
+                entry.heartRate = Math.min(260, Math.round(day.heartRateSum / day.heartRateCount));
+            }
+            if (day.weightKg !== undefined) entry.weight = Math.min(500, round(day.weightKg, 1));
+            if (day.waterLitres > 0) entry.waterLitres = Math.min(20, round(day.waterLitres, 2));
+
+            if (Object.keys(entry).length > 1) result.push(entry);
+        }
+        result.sort((a, b) => a.date.getTime() - b.date.getTime());
+        return { days: result, recordsRead, recordsUsed };
+    };
+
+    return { addRecord, finish };
+}
+
+/**
+ * Streams an export.xml body, pulling out `<Record>` opening tags while keeping only the
+ * unfinished tail of the current chunk in memory.
+ */
+export async function aggregateAppleHealthExport(
+    stream: AsyncIterable<Buffer | string>
+): Promise<DeviceImportAggregate> {
+    const aggregator = createAppleHealthAggregator();
+    const decoder = new StringDecoder('utf8');
+    let buffer = '';
+
+    const drain = () => {
+        let cursor = 0;
+        for (;;) {
+            const start = buffer.indexOf(RECORD_TAG, cursor);
+            if (start === -1) {
+                // Keep a possible partial "<Record " at the very end of the chunk.
+                cursor = Math.max(cursor, buffer.length - RECORD_TAG.length);
+                break;
+            }
+            const end = buffer.indexOf('>', start);
+            if (end === -1) {
+                cursor = start;
+                break;
+            }
+            const record = parseRecordTag(buffer.slice(start + RECORD_TAG.length, end));
+            if (record) aggregator.addRecord(record);
+            cursor = end + 1;
+        }
+        buffer = buffer.slice(cursor);
+    };
+
+    for await (const chunk of stream) {
+        buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+        drain();
+    }
+    buffer += decoder.end();
+    drain();
+
+    return aggregator.finish();
+}
@@ -0,0 +1,69 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_DAILY_GOALS } from '../models/UserGoals';
+import { buildMetricSamples } from '../lib/achievementRules';
+import { rankWeakestMetrics } from '../lib/wellnessEngine';
+import {
+    buildChallengeFields,
+    CHALLENGE_TEMPLATES,
+    evaluateChallenge,
+    getChallengeWeek,
+    selectChallengeTemplates,
+} from './challengeService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+const template = (id: string) => CHALLENGE_TEMPLATES.find((item) => item.id === id)!;
+
+test('selectChallengeTemplates follows the weakest metrics and rotates templates by week', () => {
+    const lastWeek = [
+        { steps: 11000, sleepHours: 5, waterLitres: 2.5 },
+        { steps: 9500, sleepHours: 6, waterLitres: 1 },
+    ];
+    const ranking = rankWeakestMetrics(lastWeek, [{ type: 'run', durationMinutes: 30 }], DEFAULT_DAILY_GOALS);
+    assert.deepEqual(ranking, ['workouts', 'sleep', 'water', 'steps']);
+
+    const week12 = selectChallengeTemplates(CHALLENGE_TEMPLATES, ranking, '2026-W12');
+    const week13 = selectChallengeTemplates(CHALLENGE_TEMPLATES, ranking, '2026-W13');
+    assert.deepEqual(week12.map((item) => item.focus), ['workouts', 'sleep']);
+    assert.notDeepEqual(week12.map((item) => item.id), week13.map((item) => item.id));
+
+    // Without workout data the ranking skips workouts, and the remaining focuses still fill in.
+    assert.deepEqual(
+        selectChallengeTemplates(CHALLENGE_TEMPLATES, ['water'], '2026-W12').map((item) => item.focus),
+        ['water', 'sleep']
+    );
+});
+
+test('buildChallengeFields resolves goal-based values into the description', () => {
+    const fields = buildChallengeFields(template('steps_days'), { ...DEFAULT_DAILY_GOALS, steps: 10000 });
+    assert.equal(fields.description, 'Hit 8,000 steps on 5 days');
+    assert.deepEqual(fields.where, { comparator: 'gte', value: 8000 });
+    assert.equal(fields.target, 5);
+
+    const sleep = buildChallengeFields(template('sleep_average'), { ...DEFAULT_DAILY_GOALS, sleepHours: 8 });
+    assert.equal(sleep.target, 7.6);
+    assert.equal(sleep.description, 'Average 7.6h of sleep this week (5+ nights logged)');
+});
+
+test('evaluateChallenge counts only the challenge week and respects minimum samples', () => {
+    const week = getChallengeWeek(day('2026-03-09'));
+    assert.deepEqual(week, { from: '2026-03-09', to: '2026-03-15' });
+
+    const samples = buildMetricSamples({
+        healthEntries: [
+            { date: day('2026-03-08'), steps: 12000, sleepHours: 9 },   // Previous Sunday
+            { date: day('2026-03-09'), steps: 9000, sleepHours: 8 },
+            { date: day('2026-03-10'), steps: 7000, sleepHours: 8 },
+            { date: day('2026-03-11'), steps: 8500, sleepHours: 7.5 },
+            { date: day('2026-03-12'), steps: 8000, sleepHours: 8 },
+        ],
+        moodEntries: [],
+        workouts: [],
+    });
+    const steps = buildChallengeFields(template('steps_days'), DEFAULT_DAILY_GOALS);
+    assert.deepEqual(evaluateChallenge(steps, samples, week), { current: 3, completed: false });
+
+    const sleep = buildChallengeFields(template('sleep_average'), DEFAULT_DAILY_GOALS);
+    assert.deepEqual(evaluateChallenge(sleep, samples, week), { current: null, completed: false });
+    assert.deepEqual(evaluateChallenge({ ...sleep, minSamples: 4 }, samples, week), { current: 7.9, completed: true });
+});
@@ -0,0 +1,279 @@
+import { z } from 'zod';
+import Challenge, { CHALLENGE_FOCUSES, ChallengeFocus, IChallenge, IChallengeFilter } from '../models/Challenge';
+import HealthEntry from '../models/HealthEntry';
+import MoodEntry from '../models/MoodEntry';
+import UserGoals, { DailyGoals, DEFAULT_DAILY_GOALS } from '../models/UserGoals';
+import Workout from '../models/Workout';
+import { ChallengeDto, WeeklyChallengesDto } from '../contracts/api';
+import {
+    ACHIEVEMENT_AGGREGATIONS,
+    ACHIEVEMENT_METRICS,
+    AchievementAggregation,
+    AchievementMetric,
+    achievementComparatorSchema,
+    achievementThresholdSchema,
+    buildMetricSamples,
+    compareValue,
+    DayRange,
+    evaluateMetric,
+    MetricSamples,
+    parseRuleConfig,
+    progressPercent,
+    resolveThreshold,
+} from '../lib/achievementRules';
+import { diffUtcDays, getIsoWeekKey, getIsoWeekStart, getUtcDayKey, shiftUtcDays } from '../lib/dateUtils';
+import { rankWeakestMetrics } from '../lib/wellnessEngine';
+import challengeConfig from '../config/challenges.json';
+import { resolveGoals } from './goalService';
+import { getUserToday } from './timeZoneService';
+
+/**
+ * Weekly challenges run Monday to Sunday in the user's time zone. The first write or read of
+ * a week assigns `CHALLENGES_PER_WEEK` challenges from `config/challenges.json`, one for
+ * each of the weakest metrics over the previous 7 days (ranked the same way as the weekly
+ * wellness analysis), rotating through that metric's templates week by week. Progress is
+ * re-evaluated from entries after each write, using the achievement rules engine with the
+ * week as its range. Last week's challenges stay open for late logging until this week ends.
+ */
+
+export const CHALLENGES_PER_WEEK = 2;
+const HISTORY_WEEKS = { min: 1, max: 52, default: 12 };
+
+const challengeTemplateSchema = z.object({
+    id: z.string().regex(/^[a-z0-9_]+$/, 'id must be lowercase letters, digits or underscores'),
+    focus: z.enum(CHALLENGE_FOCUSES as [ChallengeFocus, ...ChallengeFocus[]]),
+    title: z.string().trim().min(1).max(60),
+    // `{target}` and `{value}` (the `where` threshold) are filled in at assignment.
+    description: z.string().trim().min(1).max(160),
+    icon: z.string().min(1).max(8),
+    metric: z.enum(ACHIEVEMENT_METRICS as [AchievementMetric, ...AchievementMetric[]]),
+    aggregation: z.enum(ACHIEVEMENT_AGGREGATIONS as [AchievementAggregation, ...AchievementAggregation[]]),
+    where: z.object({ comparator: achievementComparatorSchema, value: achievementThresholdSchema }).optional(),
+    minSamples: z.number().int().min(1).max(7).default(1),
+    comparator: achievementComparatorSchema,
+    target: achievementThresholdSchema,
+});
+
+const challengeTemplatesSchema = z.array(challengeTemplateSchema)
+    .refine((templates) => new Set(templates.map((template) => template.id)).size === templates.length, 'Challenge ids must be unique')
+    .refine(
+        (templates) => CHALLENGE_FOCUSES.every((focus) => templates.some((template) => template.focus === focus)),
+        'Every focus needs at least one challenge'
+    );
+
+export type ChallengeTemplate = z.infer<typeof challengeTemplateSchema>;
+
+export const CHALLENGE_TEMPLATES: ChallengeTemplate[] = parseRuleConfig(challengeTemplatesSchema, challengeConfig, 'challenge templates');
+
+export const challengeHistoryQuerySchema = z.object({
+    weeks: z.coerce.number().int().min(HISTORY_WEEKS.min).max(HISTORY_WEEKS.max).default(HISTORY_WEEKS.default),
+});
+
+// The resolved rule a challenge is evaluated with; stored on the challenge at assignment.
+export interface ChallengeFields {
+    templateId: string;
+    focus: ChallengeFocus;
+    title: string;
+    description: string;
+    icon: string;
+    metric: AchievementMetric;
+    aggregation: AchievementAggregation;
+    where: IChallengeFilter | null;
+    minSamples: number;
+    comparator: 'gte' | 'lte';
+    target: number;
+}
+
+type StoredChallenge = Pick<IChallenge, 'weekKey' | 'weekStart' | 'current' | 'completedAt'>
+    & Omit<ChallengeFields, 'metric' | 'aggregation'>
+    & { _id: unknown; metric: string; aggregation: string };
+
+function formatValue(value: number): string {
+    return Number.isInteger(value) ? value.toLocaleString('en-US') : value.toFixed(1);
+}
+
+/**
+ * Templates for the weakest focuses first, one per focus; focuses the ranking left out
+ * (workouts with no workout data) fill in behind. The week number rotates each focus's templates.
+ */
+export function selectChallengeTemplates(
+    templates: ChallengeTemplate[],
+    ranking: ChallengeFocus[],
+    weekKey: string,
+    count = CHALLENGES_PER_WEEK
+): ChallengeTemplate[] {
+    const weekNumber = Number(weekKey.slice(-2)) || 0;
+    const focuses = [...new Set([...ranking, ...CHALLENGE_FOCUSES])];
+    return focuses.slice(0, count).flatMap((focus) => {
+        const options = templates.filter((template) => template.focus === focus);
+        return options.length > 0 ? [options[weekNumber % options.length]] : [];
+    });
+}
+
+export function buildChallengeFields(template: ChallengeTemplate, goals: DailyGoals): ChallengeFields {
+    const target = resolveThreshold(template.target, goals);
+    const where = template.where
+        ? { comparator: template.where.comparator, value: resolveThreshold(template.where.value, goals) }
+        : null;
+    return {
+        templateId: template.id,
+        focus: template.focus,
+        title: template.title,
+        description: template.description
+            .replace('{target}', formatValue(target))
+            .replace('{value}', where ? formatValue(where.value) : ''),
+        icon: template.icon,
+        metric: template.metric,
+        aggregation: template.aggregation,
+        where,
+        minSamples: template.minSamples,
+        comparator: template.comparator,
+        target,
+    };
+}
+
+export function getChallengeWeek(weekStart: Date): DayRange {
+    return { from: getUtcDayKey(weekStart), to: getUtcDayKey(shiftUtcDays(weekStart, 6)) };
+}
+
+export function evaluateChallenge(
+    challenge: Pick<ChallengeFields, 'metric' | 'aggregation' | 'where' | 'minSamples' | 'comparator' | 'target'>,
+    samples: MetricSamples,
+    week: DayRange
+): { current: number | null; completed: boolean } {
+    // `where` is already resolved to a number, so the goals passed here are never read.
+    const current = evaluateMetric({
+        aggregation: challenge.aggregation,
+        where: challenge.where ?? undefined,
+        window: { rollingDays: 7, minSamples: challenge.minSamples },
+        comparator: challenge.comparator,
+    }, samples[challenge.metric], DEFAULT_DAILY_GOALS, week);
+    return { current, completed: current !== null && compareValue(current, challenge.comparator, challenge.target) };
+}
+
+export function buildChallengeDto(challenge: StoredChallenge): ChallengeDto {
+    const week = getChallengeWeek(challenge.weekStart);
+    return {
+        id: String(challenge._id),
+        templateId: challenge.templateId,
+        focus: challenge.focus,
+        title: challenge.title,
+        description: challenge.description,
+        icon: challenge.icon,
+        weekKey: challenge.weekKey,
+        weekStart: week.from,
+        weekEnd: week.to,
+        current: challenge.current ?? null,
+        target: challenge.target,
+        percent: challenge.completedAt
+            ? 100
+            : progressPercent(challenge.current ?? null, challenge.target, challenge.comparator),
+        completed: challenge.completedAt !== null && challenge.completedAt !== undefined,
+        completedAt: challenge.completedAt ? new Date(challenge.completedAt).toISOString() : null,
+    };
+}
+
+async function loadSamples(userId: string, from: Date, to: Date): Promise<MetricSamples> {
+    const range = { $gte: from, $lte: to };
+    const [healthEntries, moodEntries, workouts] = await Promise.all([
+        HealthEntry.find({ userId, date: range }).select('date steps sleepHours waterLitres activeMinutes energyScore').lean(),
+        MoodEntry.find({ userId, date: range }).select('date mood stressLevel').lean(),
+        Workout.find({ userId, date: range }).select('date type durationMinutes').lean(),
+    ]);
+    return buildMetricSamples({ healthEntries, moodEntries, workouts });
+}
+
+/** Assigns this week's challenges if the week has none yet. */
+export async function assignWeeklyChallenges(userId: string, today: Date): Promise<void> {
+    const weekStart = getIsoWeekStart(today);
+    const weekKey = getIsoWeekKey(weekStart);
+    if (await Challenge.exists({ userId, weekKey })) return;
+
+    const from = shiftUtcDays(today, -7);
+    const to = shiftUtcDays(today, -1);
+    const [healthEntries, workouts, storedGoals] = await Promise.all([
+        HealthEntry.find({ userId, date: { $gte: from, $lte: to } }).select('steps sleepHours waterLitres').lean(),
+        Workout.find({ userId, date: { $gte: from, $lte: to } }).select('type durationMinutes').lean(),
+        UserGoals.findOne({ userId }).lean(),
+    ]);
+    const goals = resolveGoals(storedGoals);
+    const ranking = rankWeakestMetrics(healthEntries, workouts, goals);
+    const templates = selectChallengeTemplates(CHALLENGE_TEMPLATES, ranking, weekKey);
+
+    // Upserts keep two concurrent first writes of the week from assigning twice.
+    // userId, weekKey and templateId come from the filter on insert.
+    await Challenge.bulkWrite(templates.map((template) => {
+        const { templateId, ...fields } = buildChallengeFields(template, goals);
+        return {
+            updateOne: {
+                filter: { userId, weekKey, templateId },
+                update: { $setOnInsert: { weekStart, ...fields } },
+                upsert: true,
+            },
+        };
+    }));
+}
+
+/** Re-evaluates this week's and last week's challenges; completion is never taken back. */
+export async function refreshChallenges(userId: string, today: Date, now = new Date()): Promise<void> {
+    const since = shiftUtcDays(getIsoWeekStart(today), -7);
+    const challenges = await Challenge.find({ userId, weekStart: { $gte: since } }).lean<StoredChallenge[]>();
+    if (challenges.length === 0) return;
+
+    const samples = await loadSamples(userId, since, today);
+    const updates = challenges.flatMap((challenge) => {
+        const { current, completed } = evaluateChallenge({
+            ...challenge,
+            metric: challenge.metric as AchievementMetric,
+            aggregation: challenge.aggregation as AchievementAggregation,
+        }, samples, getChallengeWeek(challenge.weekStart));
+        const completedAt = challenge.completedAt ?? (completed ? now : null);
+        if (current === challenge.current && completedAt === challenge.completedAt) return [];
+        return [{ updateOne: { filter: { _id: challenge._id }, update: { $set: { current, completedAt } } } }];
+    });
+    if (updates.length > 0) await Challenge.bulkWrite(updates);
+}
+
+/**
+ * Assigns and re-evaluates challenges after a write. Challenges are derived data, so a
+ * failure is logged rather than failing the write that triggered it.
+ */
+export async function syncChallenges(userId: string): Promise<void> {
+    try {
+        const today = await getUserToday(userId);
+        await assignWeeklyChallenges(userId, today);
+        await refreshChallenges(userId, today);
+    } catch (error: unknown) {
+        console.warn('[Challenge] Update failed:', error);
+    }
+}
+
+export async function loadWeeklyChallenges(userId: string): Promise<WeeklyChallengesDto> {
+    const today = await getUserToday(userId);
+    await assignWeeklyChallenges(userId, today);
+    await refreshChallenges(userId, today);
+
+    const weekStart = getIsoWeekStart(today);
+    const weekKey = getIsoWeekKey(weekStart);
+    const [challenges, completedTotal] = await Promise.all([
+        Challenge.find({ userId, weekKey }).sort({ createdAt: 1, templateId: 1 }).lean<StoredChallenge[]>(),
+        Challenge.countDocuments({ userId, completedAt: { $ne: null } }),
+    ]);
+    const week = getChallengeWeek(weekStart);
+    return {
+        weekKey,
+        weekStart: week.from,
+        weekEnd: week.to,
+        daysLeft: diffUtcDays(today, week.to) + 1,
+        challenges: challenges.map(buildChallengeDto),
+        completedTotal,
+    };
+}
+
+export async function loadChallengeHistory(userId: string, weeks: number, today: Date): Promise<ChallengeDto[]> {
+    const since = shiftUtcDays(getIsoWeekStart(today), -7 * (weeks - 1));
+    const challenges = await Challenge.find({ userId, weekStart: { $gte: since } })
+        .sort({ weekStart: -1, templateId: 1 })
+        .lean<StoredChallenge[]>();
+    return challenges.map(buildChallengeDto);
+}
@@ -0,0 +1,43 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateDailyValue, customMetricDefinitionSchema, parseCustomMetricValue } from './customMetricService';
+
+test('customMetricDefinitionSchema fills type-specific defaults', () => {
+    assert.deepEqual(customMetricDefinitionSchema.parse({ name: 'Coffee', unit: 'cups', valueType: 'numeric' }), {
+        name: 'Coffee',
+        unit: 'cups',
+        valueType: 'numeric',
+        aggregation: 'sum',
+    });
+    assert.deepEqual(customMetricDefinitionSchema.parse({ name: 'Focus', valueType: 'scale', scaleMax: 10 }), {
+        name: 'Focus',
+        valueType: 'scale',
+        aggregation: 'average',
+        scaleMin: 1,
+        scaleMax: 10,
+    });
+    assert.equal(customMetricDefinitionSchema.parse({ name: 'Meditated', valueType: 'boolean' }).aggregation, 'max');
+    assert.equal(customMetricDefinitionSchema.safeParse({ name: 'Bad', valueType: 'scale', scaleMin: 5, scaleMax: 5 }).success, false);
+});
+
+test('parseCustomMetricValue enforces the metric type', () => {
+    assert.deepEqual(parseCustomMetricValue({ valueType: 'boolean' }, true), { value: 1 });
+    assert.deepEqual(parseCustomMetricValue({ valueType: 'boolean' }, 0), { value: 0 });
+    assert.ok('error' in parseCustomMetricValue({ valueType: 'boolean' }, 2));
+    assert.deepEqual(parseCustomMetricValue({ valueType: 'scale', scaleMin: 1, scaleMax: 5 }, 4), { value: 4 });
+    assert.ok('error' in parseCustomMetricValue({ valueType: 'scale', scaleMin: 1, scaleMax: 5 }, 4.5));
+    assert.ok('error' in parseCustomMetricValue({ valueType: 'scale', scaleMin: 1, scaleMax: 5 }, 6));
+    assert.deepEqual(parseCustomMetricValue({ valueType: 'numeric' }, 2.5), { value: 2.5 });
+    assert.ok('error' in parseCustomMetricValue({ valueType: 'numeric' }, true));
+});
+
+test('aggregateDailyValue combines a day of logs', () => {
+    const logs = [2, 1, 3];
+    assert.equal(aggregateDailyValue(logs, 'sum'), 6);
+    assert.equal(aggregateDailyValue(logs, 'average'), 2);
+    assert.equal(aggregateDailyValue(logs, 'max'), 3);
+    assert.equal(aggregateDailyValue(logs, 'min'), 1);
+    assert.equal(aggregateDailyValue(logs, 'last'), 3);
+    assert.equal(aggregateDailyValue([1, 2], 'average'), 1.5);
+    assert.equal(aggregateDailyValue([], 'sum'), 0);
+});
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import CustomMetricValue, { ICustomMetricLog } from '../models/CustomMetricValue';
+import {
+    CUSTOM_METRIC_AGGREGATIONS,
+    CUSTOM_METRIC_VALUE_TYPES,
+    CustomMetricAggregation,
+    CustomMetricValueType,
+    ICustomMetric,
+} from '../models/CustomMetric';
+
+/**
+ * User-defined metrics (caffeine cups, screen time, meditation minutes, …).
+ *
+ * Each metric has a value type and a daily aggregation. Every log is kept on the day's
+ * document and the aggregated `value` is recomputed on write, so Analytics can read one
+ * number per metric per day just like a `HealthEntry` field.
+ */
+
+export const MAX_CUSTOM_METRICS = 20;
+const NUMERIC_LIMIT = 1_000_000;
+const MAX_LOGS_PER_DAY = 100;
+
+const DEFAULT_AGGREGATION: Record<CustomMetricValueType, CustomMetricAggregation> = {
+    numeric: 'sum',
+    boolean: 'max',   // Any "yes" makes the day a yes
+    scale: 'average',
+};
+
+const DEFAULT_SCALE = { min: 1, max: 5 };
+
+const nameSchema = z.string().trim().min(1).max(40);
+const unitSchema = z.string().trim().max(20);
+const aggregationSchema = z.enum(CUSTOM_METRIC_AGGREGATIONS as [CustomMetricAggregation, ...CustomMetricAggregation[]]);
+
+export const customMetricDefinitionSchema = z.object({
+    name: nameSchema,
+    unit: unitSchema.optional(),
+    valueType: z.enum(CUSTOM_METRIC_VALUE_TYPES as [CustomMetricValueType, ...CustomMetricValueType[]]),
+    aggregation: aggregationSchema.optional(),
+    scaleMin: z.coerce.number().int().min(-100).max(100).optional(),
+    scaleMax: z.coerce.number().int().min(-100).max(100).optional(),
+}).superRefine((value, ctx) => {
+    if (value.valueType !== 'scale') return;
+    const min = value.scaleMin ?? DEFAULT_SCALE.min;
+    const max = value.scaleMax ?? DEFAULT_SCALE.max;
+    if (min >= max) {
+        ctx.addIssue({ code: 'custom', path: ['scaleMax'], message: 'scaleMax must be greater than scaleMin' });
+    }
+}).transform((value) => {
+    const definition: {
+        name: string;
+        unit?: string;
+        valueType: CustomMetricValueType;
+        aggregation: CustomMetricAggregation;
+        scaleMin?: number;
+        scaleMax?: number;
+    } = {
+        name: value.name,
+        valueType: value.valueType,
+        aggregation: value.aggregation ?? DEFAULT_AGGREGATION[value.valueType],
+    };
+    if (value.unit) definition.unit = value.unit;
+    if (value.valueType === 'scale') {
+        definition.scaleMin = value.scaleMin ?? DEFAULT_SCALE.min;
+        definition.scaleMax = value.scaleMax ?? DEFAULT_SCALE.max;
+    }
+    return definition;
+});
+
+// The value type and scale are fixed once created so stored values keep their meaning.
+export const customMetricUpdateSchema = z.object({
+    name: nameSchema.optional(),
+    unit: unitSchema.optional(),
+    aggregation: aggregationSchema.optional(),
+    archived: z.boolean().optional(),
+}).refine((value) => Object.keys(value).length > 0, 'Provide at least one field to update');
+
+export const customMetricLogSchema = z.object({
+    date: z.string().trim().optional(),
+    value: z.union([z.boolean(), z.coerce.number()]),
+    mode: z.enum(['add', 'replace']).default('add'),
+});
+
+export type CustomMetricDefinition = z.infer<typeof customMetricDefinitionSchema>;
+export type CustomMetricLogMode = z.infer<typeof customMetricLogSchema>['mode'];
+
+type MetricShape = Pick<ICustomMetric, 'valueType' | 'scaleMin' | 'scaleMax'>;
+
+/** Validates a raw log against the metric's type; booleans become 0/1. */
+export function parseCustomMetricValue(metric: MetricShape, raw: number | boolean): { value: number } | { error: string } {
+    if (metric.valueType === 'boolean') {
+        if (typeof raw === 'boolean') return { value: raw ? 1 : 0 };
+        return raw === 0 || raw === 1 ? { value: raw } : { error: 'Value must be true or false' };
+    }
+    if (typeof raw !== 'number' || !Number.isFinite(raw)) {
+        return { error: 'Value must be a number' };
+    }
+    if (metric.valueType === 'scale') {
+        const min = metric.scaleMin ?? DEFAULT_SCALE.min;
+        const max = metric.scaleMax ?? DEFAULT_SCALE.max;
+        if (!Number.isInteger(raw) || raw < min || raw > max) {
+            return { error: `Value must be a whole number from ${min} to ${max}` };
+        }
+        return { value: raw };
+    }
+    if (Math.abs(raw) > NUMERIC_LIMIT) {
+        return { error: `Value must be between -${NUMERIC_LIMIT} and ${NUMERIC_LIMIT}` };
+    }
+    return { value: raw };
+}
+
+export function aggregateDailyValue(values: number[], aggregation: CustomMetricAggregation): number {
+    if (values.length === 0) return 0;
+    let result: number;
+    switch (aggregation) {
+        case 'sum':
+            result = values.reduce((sum, value) => sum + value, 0);
+            break;
+        case 'average':
+            result = values.reduce((sum, value) => sum + value, 0) / values.length;
+            break;
+        case 'max':
+            result = Math.max(...values);
+            break;
+        case 'min':
+            result = Math.min(...values);
+            break;
+        case 'last':
+            result = values[values.length - 1];
+            break;
+    }
+    return Math.round(result * 100) / 100;
+}
+
+export async function logCustomMetricValue(
+    metric: ICustomMetric,
+    day: Date,
+    value: number,
+    mode: CustomMetricLogMode
+) {
+    const existing = await CustomMetricValue.findOne({ metricId: metric._id, date: day }).lean();
+    const log: ICustomMetricLog = { value, loggedAt: new Date() };
+    const logs = mode === 'replace' || !existing
+        ? [log]
+        : [...existing.logs, log].slice(-MAX_LOGS_PER_DAY);
+
+    return CustomMetricValue.findOneAndUpdate(
+        { metricId: metric._id, date: day },
+        {
+            $set: { logs, value: aggregateDailyValue(logs.map((item) => item.value), metric.aggregation) },
+            $setOnInsert: { userId: metric.userId, metricId: metric._id, date: day },
+        },
+        { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+}
+
+/** Re-applies a changed aggregation to every stored day of the metric. */
+export async function reaggregateCustomMetric(metric: ICustomMetric): Promise<number> {
+    const days = await CustomMetricValue.find({ metricId: metric._id }).select('logs').lean();
+    if (days.length === 0) return 0;
+    await CustomMetricValue.bulkWrite(days.map((day) => ({
+        updateOne: {
+            filter: { _id: day._id },
+            update: { $set: { value: aggregateDailyValue(day.logs.map((item) => item.value), metric.aggregation) } },
+        },
+    })));
+    return days.length;
+}
@@ -0,0 +1,341 @@
+import User from '../models/User';
+import HealthEntry from '../models/HealthEntry';
+import HealthSample from '../models/HealthSample';
+import MoodEntry from '../models/MoodEntry';
+import SleepSession from '../models/SleepSession';
+import Workout from '../models/Workout';
+import Meal from '../models/Meal';
+import CustomMetric from '../models/CustomMetric';
+import CustomMetricValue from '../models/CustomMetricValue';
+import UserGoals from '../models/UserGoals';
+import Streak from '../models/Streak';
+import UserAchievement from '../models/UserAchievement';
+import Challenge from '../models/Challenge';
+import Friendship from '../models/Friendship';
+import ShareLink from '../models/ShareLink';
+import EntryRevision from '../models/EntryRevision';
+import TrashItem from '../models/TrashItem';
+import AuthSession from '../models/AuthSession';
+import WeeklyAnalysisCache from '../models/WeeklyAnalysisCache';
+import { Avatar } from '../models/Avatar';
+import { AvatarAnimation } from '../models/AvatarAnimation';
+import { DataExportFileDto, DataExportManifestDto, DataExportMediaDto } from '../contracts/api';
+import { toCsv } from '../lib/csv';
+import { getUtcDayKey } from '../lib/dateUtils';
+import { createZipArchive, ZipEntry } from '../lib/zipArchive';
+import {
+    extensionFromMimeType,
+    fileIdFromMediaRef,
+    isMediaRef,
+    readMediaByRef,
+} from './mediaStoreService';
+
+type ExportRecord = Record<string, unknown>;
+
+export interface UserDataExport {
+    manifest: DataExportManifestDto;
+    data: {
+        profile: ExportRecord;
+        healthEntries: ExportRecord[];
+        healthSamples: ExportRecord[];
+        moodEntries: ExportRecord[];
+        sleepSessions: ExportRecord[];
+        workouts: ExportRecord[];
+        meals: ExportRecord[];
+        customMetrics: ExportRecord[];
+        customMetricValues: ExportRecord[];
+        goals: ExportRecord[];
+        streaks: ExportRecord[];
+        achievements: ExportRecord[];
+        challenges: ExportRecord[];
+        friendships: ExportRecord[];
+        shareLinks: ExportRecord[];
+        entryRevisions: ExportRecord[];
+        trash: ExportRecord[];
+        sessions: ExportRecord[];
+        weeklyAnalyses: ExportRecord[];
+        avatars: ExportRecord[];
+        avatarAnimations: ExportRecord[];
+    };
+}
+
+interface ExportTable {
+    key: keyof Omit<UserDataExport['data'], 'profile'>;
+    basename: string;
+    csvColumns?: string[];
+}
+
+const EXPORT_FORMAT = 'health-twin-export';
+const EXPORT_VERSION = 1;
+
+const EXPORT_TABLES: ExportTable[] = [
+    {
+        key: 'healthEntries',
+        basename: 'health_entries',
+        csvColumns: [
+            'date', 'steps', 'activeMinutes', 'sleepHours', 'waterLitres', 'heartRate',
+            'energyScore', 'weight', 'notes', 'source', 'createdAt', 'updatedAt',
+        ],
+    },
+    {
+        key: 'healthSamples',
+        basename: 'health_samples',
+        csvColumns: ['metric', 'start', 'end', 'value', 'sourceName', 'createdAt'],
+    },
+    {
+        key: 'moodEntries',
+        basename: 'mood_entries',
+        csvColumns: ['date', 'mood', 'energyLevel', 'stressLevel', 'notes', 'source', 'createdAt', 'updatedAt'],
+    },
+    {
+        key: 'sleepSessions',
+        basename: 'sleep_sessions',
+        csvColumns: [
+            'date', 'bedtime', 'wakeTime', 'utcOffsetMinutes', 'awakenings', 'quality',
+            'durationHours', 'source', 'createdAt', 'updatedAt',
+        ],
+    },
+    {
+        key: 'workouts',
+        basename: 'workouts',
+        csvColumns: [
+            'date', 'type', 'startTime', 'durationMinutes', 'perceivedExertion', 'distanceKm',
+            'avgHeartRate', 'notes', 'source', 'createdAt', 'updatedAt',
+        ],
+    },
+    {
+        key: 'meals',
+        basename: 'meals',
+        csvColumns: ['date', 'mealType', 'eatenAt', 'description', 'tags', 'source', 'createdAt', 'updatedAt'],
+    },
+    {
+        key: 'customMetrics',
+        basename: 'custom_metrics',
+        csvColumns: ['_id', 'name', 'unit', 'valueType', 'aggregation', 'scaleMin', 'scaleMax', 'archived', 'createdAt'],
+    },
+    {
+        key: 'customMetricValues',
+        basename: 'custom_metric_values',
+        csvColumns: ['metricId', 'date', 'value', 'createdAt', 'updatedAt'],
+    },
+    {
+        key: 'goals',
+        basename: 'goals',
+        csvColumns: ['steps', 'sleepHours', 'waterLitres', 'activeMinutes', 'stressMax', 'updatedAt'],
+    },
+    {
+        key: 'streaks',
+        basename: 'streaks',
+        csvColumns: ['kind', 'longest', 'freezesAvailable', 'freezesUsed', 'updatedAt'],
+    },
+    {
+        key: 'achievements',
+        basename: 'achievements',
+        csvColumns: ['achievementId', 'tier', 'unlockedAt', 'current', 'target', 'updatedAt'],
+    },
+    {
+        key: 'challenges',
+        basename: 'challenges',
+        csvColumns: ['weekKey', 'templateId', 'focus', 'title', 'description', 'target', 'current', 'completedAt'],
+    },
+    {
+        key: 'friendships',
+        basename: 'friendships',
+        csvColumns: ['requesterId', 'addresseeId', 'inviteEmail', 'status', 'acceptedAt', 'createdAt'],
+    },
+    {
+        key: 'shareLinks',
+        basename: 'share_links',
+        csvColumns: ['label', 'tokenPrefix', 'from', 'to', 'expiresAt', 'revokedAt', 'lastUsedAt', 'createdAt'],
+    },
+    {
+        key: 'entryRevisions',
+        basename: 'entry_revisions',
+        csvColumns: ['entryType', 'date', 'source', 'changedBy', 'batchId', 'changedFields', 'createdAt'],
+    },
+    {
+        key: 'trash',
+        basename: 'trash',
+        csvColumns: ['kind', 'date', 'originalId', 'deletedAt', 'purgeAt'],
+    },
+    {
+        key: 'sessions',
+        basename: 'sessions',
+        csvColumns: ['deviceName', 'platform', 'userAgent', 'ip', 'createdAt', 'lastSeenAt', 'expiresAt'],
+    },
+    {
+        key: 'weeklyAnalyses',
+        basename: 'weekly_analyses',
+        csvColumns: ['weekKey', 'narrative', 'tips', 'predictedOutcome', 'createdAt'],
+    },
+    { key: 'avatars', basename: 'avatars' },
+    { key: 'avatarAnimations', basename: 'avatar_animations' },
+];
+
+function withDayKey(entry: ExportRecord): ExportRecord {
+    return entry.date instanceof Date ? { ...entry, date: getUtcDayKey(entry.date) } : entry;
+}
+
+function collectMediaRefs(data: UserDataExport['data']): DataExportMediaDto[] {
+    const refs: DataExportMediaDto[] = [];
+    const push = (value: unknown, usedBy: string) => {
+        if (typeof value === 'string' && isMediaRef(value) && !refs.some((item) => item.ref === value)) {
+            refs.push({ ref: value, usedBy, path: null });
+        }
+    };
+
+    push(data.profile.profileImage, 'profile.profileImage');
+    data.avatars.forEach((avatar) => push(avatar.avatarImageUrl, `avatars.${String(avatar._id)}`));
+    data.avatarAnimations.forEach((animation) => (
+        push(animation.videoUrl, `avatar_animations.${String(animation.stateType)}`)
+    ));
+    return refs;
+}
+
+/**
+ * Loads every record owned by the user. Binary media stays referenced by `media://` ref;
+ * `buildUserDataArchive` resolves those refs into archive files.
+ */
+export async function loadUserDataExport(userId: string): Promise<UserDataExport | null> {
+    const [
+        user,
+        healthEntries,
+        healthSamples,
+        moodEntries,
+        sleepSessions,
+        workouts,
+        meals,
+        customMetrics,
+        customMetricValues,
+        goals,
+        streaks,
+        achievements,
+        challenges,
+        friendships,
+        shareLinks,
+        entryRevisions,
+        trash,
+        sessions,
+        weeklyAnalyses,
+        avatars,
+        avatarAnimations,
+    ] = await Promise.all([
+        User.findById(userId).select('-password -twoFactor.secret -twoFactor.pendingSecret -twoFactor.recoveryCodeHashes -twoFactor.lastUsedStep').lean(),
+        HealthEntry.find({ userId }).sort({ date: 1 }).lean(),
+        HealthSample.find({ userId }).sort({ start: 1 }).lean(),
+        MoodEntry.find({ userId }).sort({ date: 1 }).lean(),
+        SleepSession.find({ userId }).sort({ date: 1 }).lean(),
+        Workout.find({ userId }).sort({ startTime: 1 }).lean(),
+        Meal.find({ userId }).sort({ eatenAt: 1 }).lean(),
+        CustomMetric.find({ userId }).sort({ createdAt: 1 }).lean(),
+        CustomMetricValue.find({ userId }).sort({ date: 1 }).lean(),
+        UserGoals.find({ userId }).lean(),
+        Streak.find({ userId }).sort({ kind: 1 }).lean(),
+        UserAchievement.find({ userId }).sort({ achievementId: 1 }).lean(),
+        Challenge.find({ userId }).sort({ weekStart: 1, templateId: 1 }).lean(),
+        Friendship.find({ $or: [{ requesterId: userId }, { addresseeId: userId }] })
+            .select('-inviteCode')
+            .sort({ createdAt: 1 })
+            .lean(),
+        ShareLink.find({ userId }).select('-tokenHash').sort({ createdAt: 1 }).lean(),
+        EntryRevision.find({ userId }).sort({ createdAt: 1 }).lean(),
+        TrashItem.find({ userId }).sort({ deletedAt: 1 }).lean(),
+        AuthSession.find({ userId }).select('-refreshTokenHash -previousTokenHash').sort({ createdAt: 1 }).lean(),
+        WeeklyAnalysisCache.find({ userId }).sort({ createdAt: 1 }).lean(),
+        Avatar.find({ userId }).sort({ createdAt: 1 }).lean(),
+        AvatarAnimation.find({ userId }).sort({ stateType: 1 }).lean(),
+    ]);
+    if (!user) return null;
+
+    const data: UserDataExport['data'] = {
+        profile: user as unknown as ExportRecord,
+        healthEntries: (healthEntries as unknown as ExportRecord[]).map(withDayKey),
+        healthSamples: healthSamples as unknown as ExportRecord[],
+        moodEntries: (moodEntries as unknown as ExportRecord[]).map(withDayKey),
+        sleepSessions: (sleepSessions as unknown as ExportRecord[]).map(withDayKey),
+        workouts: (workouts as unknown as ExportRecord[]).map(withDayKey),
+        meals: (meals as unknown as ExportRecord[]).map(withDayKey),
+        customMetrics: customMetrics as unknown as ExportRecord[],
+        customMetricValues: (customMetricValues as unknown as ExportRecord[]).map(withDayKey),
+        goals: goals as unknown as ExportRecord[],
+        streaks: streaks as unknown as ExportRecord[],
+        achievements: achievements as unknown as ExportRecord[],
+        challenges: challenges as unknown as ExportRecord[],
+        friendships: friendships as unknown as ExportRecord[],
+        shareLinks: (shareLinks as unknown as ExportRecord[]).map((link) => ({
+            ...link,
+            from: getUtcDayKey(link.from as Date),
+            to: getUtcDayKey(link.to as Date),
+        })),
+        entryRevisions: entryRevisions.map((revision) => ({
+            ...withDayKey(revision as unknown as ExportRecord),
+            changedFields: revision.changes.map((change) => change.field).join(' '),
+        })),
+        trash: (trash as unknown as ExportRecord[]).map(withDayKey),
+        sessions: sessions as unknown as ExportRecord[],
+        weeklyAnalyses: weeklyAnalyses as unknown as ExportRecord[],
+        avatars: avatars as ExportRecord[],
+        avatarAnimations: avatarAnimations as ExportRecord[],
+    };
+
+    const counts: Record<string, number> = {};
+    EXPORT_TABLES.forEach((table) => {
+        counts[table.key] = data[table.key].length;
+    });
+
+    return {
+        manifest: {
+            format: EXPORT_FORMAT,
+            version: EXPORT_VERSION,
+            exportedAt: new Date().toISOString(),
+            user: { id: String(user._id), email: user.email },
+            counts,
+            files: [],
+            media: collectMediaRefs(data),
+        },
+        data,
+    };
+}
+
+/**
+ * Packs the export into a ZIP: `manifest.json`, one JSON file per collection, CSV copies of
+ * tabular collections and the GridFS media files under `media/`.
+ */
+export async function buildUserDataArchive(exportData: UserDataExport): Promise<Buffer> {
+    const entries: ZipEntry[] = [];
+    const files: DataExportFileDto[] = [];
+    const addFile = (path: string, contentType: string, content: Buffer | string, records?: number) => {
+        entries.push({ name: path, data: content });
+        files.push({
+            path,
+            contentType,
+            bytes: typeof content === 'string' ? Buffer.byteLength(content, 'utf8') : content.length,
+            ...(records !== undefined ? { records } : {}),
+        });
+    };
+
+    addFile('profile.json', 'application/json', JSON.stringify(exportData.data.profile, null, 2));
+    for (const table of EXPORT_TABLES) {
+        const records = exportData.data[table.key];
+        addFile(`${table.basename}.json`, 'application/json', JSON.stringify(records, null, 2), records.length);
+        if (table.csvColumns) {
+            addFile(`${table.basename}.csv`, 'text/csv', toCsv(table.csvColumns, records), records.length);
+        }
+    }
+
+    const media = await Promise.all(exportData.manifest.media.map(async (item): Promise<DataExportMediaDto> => {
+        try {
+            const file = await readMediaByRef(item.ref);
+            const path = `media/${fileIdFromMediaRef(item.ref)}.${extensionFromMimeType(file.mimeType)}`;
+            addFile(path, file.mimeType, file.buffer);
+            return { ...item, path, contentType: file.mimeType, bytes: file.length };
+        } catch (error: unknown) {
+            console.warn(`[Export] Skipping unreadable media ${item.ref}:`, error);
+            return item;
+        }
+    }));
+
+    const manifest: DataExportManifestDto = { ...exportData.manifest, files, media };
+    entries.unshift({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+    return createZipArchive(entries);
+}
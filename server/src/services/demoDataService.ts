@@ -0,0 +1,132 @@
+import HealthEntry from '../models/HealthEntry';
+import MoodEntry from '../models/MoodEntry';
+import { ClearSeedDemoResultDto, SeedDemoResultDto } from '../contracts/api';
+import { shiftUtcDays } from '../lib/dateUtils';
+import { syncProgress } from './progressService';
+import { syncStreaks } from './streakService';
+import { getUserToday } from './timeZoneService';
+
+/**
+ * Demo data for trying the app: a week of health and mood entries ending yesterday, marked
+ * `source: 'seed_demo'` so they can be removed without touching real entries. Older demo rows
+ * from before the `source` field are recognised by their notes.
+ */
+
+export const DEMO_HEALTH_NOTE_PATTERN = /^Demo entry day/i;
+export const DEMO_MOOD_NOTE_PATTERN = /^Demo mood day/i;
+const DEMO_MOODS = ['happy', 'energetic', 'neutral', 'tired', 'stressed', 'sad'] as const;
+
+/** Replaces last week's demo rows with fresh ones; today's Daily Log is left alone. */
+export async function seedDemoWeek(userId: string): Promise<SeedDemoResultDto> {
+    // Weekly Report window is "last 7 days before today": [today-7, today-1]
+    // Keep today's Daily Log intact so dashboard avatar continues to work.
+    const todayUtc = await getUserToday(userId);
+    const startWindow = shiftUtcDays(todayUtc, -7);
+
+    await Promise.all([
+        HealthEntry.deleteMany({
+            userId,
+            date: { $gte: startWindow, $lt: todayUtc },
+            $or: [
+                { source: 'seed_demo' },
+                { notes: DEMO_HEALTH_NOTE_PATTERN },
+            ],
+        }),
+        MoodEntry.deleteMany({
+            userId,
+            date: { $gte: startWindow, $lt: todayUtc },
+            $or: [
+                { source: 'seed_demo' },
+                { notes: DEMO_MOOD_NOTE_PATTERN },
+            ],
+        }),
+    ]);
+
+    const healthWrites = [];
+    const moodWrites = [];
+
+    // Seed exactly 7 days ending yesterday.
+    for (let offset = 7; offset >= 1; offset -= 1) {
+        const date = shiftUtcDays(todayUtc, -offset);
+        const dayNumber = 8 - offset; // 1..7
+
+        healthWrites.push(
+            HealthEntry.findOneAndUpdate(
+                { userId, date },
+                {
+                    $set: {
+                        steps: 5000 + Math.floor(Math.random() * 7000),
+                        activeMinutes: 15 + Math.floor(Math.random() * 75),
+                        sleepHours: +(5 + Math.random() * 4).toFixed(1),
+                        waterLitres: +(1.5 + Math.random() * 1.5).toFixed(1),
+                        heartRate: 60 + Math.floor(Math.random() * 30),
+                        energyScore: 40 + Math.floor(Math.random() * 60),
+                        weight: +(70 + Math.random() * 5).toFixed(1),
+                        notes: `Demo entry day ${dayNumber}`,
+                        source: 'seed_demo',
+                    },
+                    $setOnInsert: { userId, date },
+                },
+                { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+            )
+        );
+
+        moodWrites.push(
+            MoodEntry.findOneAndUpdate(
+                { userId, date },
+                {
+                    $set: {
+                        mood: DEMO_MOODS[Math.floor(Math.random() * DEMO_MOODS.length)],
+                        energyLevel: 4 + Math.floor(Math.random() * 7),
+                        stressLevel: 1 + Math.floor(Math.random() * 6),
+                        notes: `Demo mood day ${dayNumber}`,
+                        source: 'seed_demo',
+                    },
+                    $setOnInsert: { userId, date },
+                },
+                { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+            )
+        );
+    }
+
+    await Promise.all([
+        Promise.all(healthWrites),
+        Promise.all(moodWrites),
+    ]);
+    await syncStreaks(userId);
+    await syncProgress(userId);
+
+    return {
+        message: '7 days of demo data seeded successfully',
+        healthEntries: 7,
+        moodEntries: 7,
+    };
+}
+
+/** Removes demo rows only; entries the user logged themselves stay. */
+export async function clearDemoData(userId: string): Promise<ClearSeedDemoResultDto> {
+    const [healthDeleted, moodDeleted] = await Promise.all([
+        HealthEntry.deleteMany({
+            userId,
+            $or: [
+                { source: 'seed_demo' },
+                { notes: DEMO_HEALTH_NOTE_PATTERN },
+            ],
+        }),
+        MoodEntry.deleteMany({
+            userId,
+            $or: [
+                { source: 'seed_demo' },
+                { notes: DEMO_MOOD_NOTE_PATTERN },
+            ],
+        }),
+    ]);
+    await syncStreaks(userId);
+    await syncProgress(userId);
+
+    return {
+        message: 'Seeded demo data cleared successfully',
+        healthEntriesDeleted: healthDeleted.deletedCount ?? 0,
+        moodEntriesDeleted: moodDeleted.deletedCount ?? 0,
+    };
+}
@@ -0,0 +1,99 @@
+import mongoose from 'mongoose';
+import HealthEntry from '../models/HealthEntry';
+import { DeviceImportProvider, DeviceImportResultDto } from '../contracts/api';
+import { getUtcDayKey } from '../lib/dateUtils';
+import { recordImportRevisions } from './revisionService';
+
+/**
+ * Shared write path for wearable/phone exports (Apple Health, Google Fit).
+ * Importers aggregate their records into one `ImportedHealthDay` per UTC day key and hand
+ * them here; days the user logged manually through the Daily Log are never overwritten.
+ */
+
+const DEVICE_SOURCE = 'health_api' as const;
+const DAILY_LOG_SOURCE = 'daily_log' as const;
+
+export interface ImportedHealthDay {
+    date: Date;
+    steps?: number;
+    activeMinutes?: number;
+    sleepHours?: number;
+    heartRate?: number;
+    weight?: number;
+    waterLitres?: number;
+}
+
+export interface DeviceImportAggregate {
+    days: ImportedHealthDay[];
+    recordsRead: number;
+    recordsUsed: number;
+    warnings?: string[];
+}
+
+export async function importDeviceHealthDays(
+    userId: string,
+    provider: DeviceImportProvider,
+    aggregate: DeviceImportAggregate,
+    dryRun: boolean
+): Promise<DeviceImportResultDto> {
+    const days = [...aggregate.days].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const existing = days.length > 0
+        ? await HealthEntry.find({ userId, date: { $in: days.map((day) => day.date) } }).lean()
+        : [];
+    const sourceByDay = new Map(existing.map((entry) => [getUtcDayKey(entry.date), entry.source ?? null]));
+
+    let created = 0;
+    let updated = 0;
+    let skippedDailyLog = 0;
+    const writes: ImportedHealthDay[] = [];
+
+    for (const day of days) {
+        const dayKey = getUtcDayKey(day.date);
+        if (!sourceByDay.has(dayKey)) {
+            created += 1;
+            writes.push(day);
+        } else if (sourceByDay.get(dayKey) === DAILY_LOG_SOURCE) {
+            skippedDailyLog += 1;
+        } else {
+            updated += 1;
+            writes.push(day);
+        }
+    }
+
+    if (!dryRun && writes.length > 0) {
+        const ownerId = new mongoose.Types.ObjectId(userId);
+        await HealthEntry.bulkWrite(
+            writes.map(({ date, ...metrics }) => ({
+                updateOne: {
+                    // Guard against a Daily Log save landing between the read and this write.
+                    filter: { userId: ownerId, date, source: { $ne: DAILY_LOG_SOURCE } },
+                    update: {
+                        $set: { ...metrics, source: DEVICE_SOURCE },
+                        $setOnInsert: { userId: ownerId, date },
+                    },
+                    upsert: true,
+                },
+            })),
+            { ordered: false }
+        ).catch((error: { code?: number }) => {
+            // A duplicate key here means a Daily Log entry appeared for that day; skip it.
+            if (error?.code !== 11000) throw error;
+        });
+        const written = await HealthEntry.find({ userId, date: { $in: writes.map((day) => day.date) } }).lean();
+        await recordImportRevisions(userId, 'health', DEVICE_SOURCE, existing, written);
+    }
+
+    return {
+        provider,
+        dryRun,
+        recordsRead: aggregate.recordsRead,
+        recordsUsed: aggregate.recordsUsed,
+        daysFound: days.length,
+        created,
+        updated,
+        skippedDailyLog,
+        firstDay: days.length > 0 ? getUtcDayKey(days[0].date) : null,
+        lastDay: days.length > 0 ? getUtcDayKey(days[days.length - 1].date) : null,
+        warnings: aggregate.warnings ?? [],
+    };
+}
@@ -0,0 +1,35 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { loadImportRecords, prepareImportRows } from './entryImportService';
+
+test('loadImportRecords parses quoted CSV cells with spreadsheet headers', () => {
+    const records = loadImportRecords(
+        { dryRun: true, onConflict: 'skip', csv: 'Date,Steps,Notes\r\n2026-03-01,8000,"Walk, then ""rest"""\r\n' },
+    );
+    assert.deepEqual(records, [{ Date: '2026-03-01', Steps: '8000', Notes: 'Walk, then "rest"' }]);
+});
+
+test('prepareImportRows maps column aliases and normalizes dates to UTC midnight', () => {
+    const { prepared, errors } = prepareImportRows('health', [
+        { Day: '2026-03-01T21:30:00.000Z', 'Sleep (h)': '7.5', HR: '64' },
+    ]);
+    assert.equal(errors.length, 0);
+    assert.equal(prepared[0].date.toISOString(), '2026-03-01T00:00:00.000Z');
+    assert.deepEqual(prepared[0].fields, { sleepHours: 7.5, heartRate: 64 });
+});
+
+test('prepareImportRows reports per-row validation errors and duplicate days', () => {
+    const { prepared, errors } = prepareImportRows('mood', [
+        { date: '2026-03-01', mood: 'Happy', energy: '7', stress: '3' },
+        { date: 'not-a-date', mood: 'happy', energy: '7', stress: '3' },
+        { date: '2026-03-01', mood: 'calm', energy: '5', stress: '11' },
+        { date: '2026-03-01', mood: 'calm', energy: '5', stress: '2' },
+    ]);
+    assert.equal(prepared.length, 1);
+    assert.equal(prepared[0].fields.mood, 'happy');
+    assert.deepEqual(errors.map((error) => [error.row, error.field]), [
+        [2, 'date'],
+        [3, 'stressLevel'],
+        [4, 'date'],
+    ]);
+});
@@ -0,0 +1,321 @@
+import mongoose from 'mongoose';
+import multer from 'multer';
+import { z } from 'zod';
+import HealthEntry from '../models/HealthEntry';
+import MoodEntry from '../models/MoodEntry';
+import { EntryImportResultDto, ImportConflictPolicy, ImportRowErrorDto } from '../contracts/api';
+import { zodErrorDetails } from '../lib/apiResponse';
+import { parseCsvRecords } from '../lib/csv';
+import { getUtcDayKey, toUtcDayStart } from '../lib/dateUtils';
+import { recordImportRevisions } from './revisionService';
+
+export type ImportKind = 'health' | 'mood';
+type ImportRecord = Record<string, unknown>;
+
+interface ImportableEntry {
+    userId: mongoose.Types.ObjectId;
+    date: Date;
+}
+
+interface PreparedRow {
+    row: number;
+    date: Date;
+    fields: Record<string, unknown>;
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+const IMPORT_SOURCE = 'import' as const;
+
+export const importUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 10 * 1024 * 1024 }, // 10MB max
+});
+
+const booleanFlagSchema = z.union([z.boolean(), z.string()]).transform((value) => (
+    typeof value === 'boolean'
+        ? value
+        : ['true', '1', 'yes'].includes(value.trim().toLowerCase())
+));
+
+export const importRequestSchema = z.object({
+    format: z.enum(['csv', 'json']).optional(),
+    dryRun: booleanFlagSchema.default(false),
+    onConflict: z.enum(['skip', 'overwrite', 'merge']).default('skip'),
+    csv: z.string().optional(),
+    rows: z.array(z.record(z.string(), z.unknown())).optional(),
+});
+
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+
+const importDateSchema = z.union([z.string().trim().min(1), z.number()]).transform((value, ctx) => {
+    try {
+        return toUtcDayStart(typeof value === 'number' ? new Date(value) : value);
+    } catch {
+        ctx.addIssue({ code: 'custom', message: 'Invalid date' });
+        return z.NEVER;
+    }
+});
+
+const healthRowSchema = z.object({
+    date: importDateSchema,
+    steps: z.coerce.number().int().min(0).max(300000).optional(),
+    activeMinutes: z.coerce.number().int().min(0).max(1440).optional(),
+    sleepHours: z.coerce.number().min(0).max(24).optional(),
+    waterLitres: z.coerce.number().min(0).max(20).optional(),
+    heartRate: z.coerce.number().int().min(0).max(260).optional(),
+    energyScore: z.coerce.number().min(0).max(100).optional(),
+    weight: z.coerce.number().min(0).max(500).optional(),
+    notes: z.string().trim().max(2000).optional(),
+}).refine(
+    (value) => Object.keys(value).some((key) => key !== 'date'),
+    'At least one metric field must be provided'
+);
+
+const moodRowSchema = z.object({
+    date: importDateSchema,
+    mood: z.string().trim().toLowerCase().pipe(
+        z.enum(['happy', 'sad', 'stressed', 'tired', 'energetic', 'neutral', 'calm', 'anxious', 'excited'])
+    ),
+    energyLevel: z.coerce.number().int().min(1).max(10),
+    stressLevel: z.coerce.number().int().min(1).max(10),
+    notes: z.string().trim().max(2000).optional(),
+});
+
+// Spreadsheet headers are matched case- and punctuation-insensitively ("Sleep (h)" → "sleeph").
+const HEALTH_COLUMN_ALIASES: Record<string, string> = {
+    date: 'date',
+    day: 'date',
+    steps: 'steps',
+    stepcount: 'steps',
+    activeminutes: 'activeMinutes',
+    exerciseminutes: 'activeMinutes',
+    sleephours: 'sleepHours',
+    sleeph: 'sleepHours',
+    sleep: 'sleepHours',
+    waterlitres: 'waterLitres',
+    waterliters: 'waterLitres',
+    waterl: 'waterLitres',
+    water: 'waterLitres',
+    heartrate: 'heartRate',
+    hr: 'heartRate',
+    restingheartrate: 'heartRate',
+    energyscore: 'energyScore',
+    weight: 'weight',
+    weightkg: 'weight',
+    notes: 'notes',
+    note: 'notes',
+};
+
+const MOOD_COLUMN_ALIASES: Record<string, string> = {
+    date: 'date',
+    day: 'date',
+    mood: 'mood',
+    energylevel: 'energyLevel',
+    energy: 'energyLevel',
+    stresslevel: 'stressLevel',
+    stress: 'stressLevel',
+    notes: 'notes',
+    note: 'notes',
+};
+
+// Values applied on overwrite when a row leaves a metric out, so stale data does not survive.
+const OVERWRITE_DEFAULTS: Record<ImportKind, Record<string, unknown>> = {
+    health: { steps: 0, activeMinutes: 0, sleepHours: 0, waterLitres: 0, heartRate: 0, energyScore: null },
+    mood: {},
+};
+
+const OVERWRITE_CLEARABLE_FIELDS: Record<ImportKind, string[]> = {
+    health: ['weight', 'notes'],
+    mood: ['notes'],
+};
+
+function normalizeColumnName(column: string): string {
+    return column.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeRecord(record: ImportRecord, aliases: Record<string, string>): ImportRecord {
+    const normalized: ImportRecord = {};
+    for (const [column, value] of Object.entries(record)) {
+        const field = aliases[normalizeColumnName(column)];
+        if (!field || value === null || value === undefined) continue;
+        if (typeof value === 'string' && value.trim().length === 0) continue;
+        normalized[field] = value;
+    }
+    return normalized;
+}
+
+function entryModel(kind: ImportKind): mongoose.Model<ImportableEntry> {
+    const model = kind === 'health' ? HealthEntry : MoodEntry;
+    return model as unknown as mongoose.Model<ImportableEntry>;
+}
+
+function isJsonUpload(file: Express.Multer.File): boolean {
+    return file.mimetype.includes('json') || /\.json$/i.test(file.originalname);
+}
+
+/**
+ * Resolves the raw import rows from either a multipart `file` upload or the JSON body
+ * (`csv` text or a `rows` array). Throws a user-facing error for unreadable payloads.
+ */
+export function loadImportRecords(input: ImportRequest, file?: Express.Multer.File): ImportRecord[] {
+    let records: ImportRecord[];
+
+    if (file) {
+        const text = file.buffer.toString('utf8');
+        const format = input.format ?? (isJsonUpload(file) ? 'json' : 'csv');
+        records = format === 'json' ? parseJsonRecords(text) : parseCsvRecords(text);
+    } else if (input.rows) {
+        records = input.rows;
+    } else if (input.csv !== undefined) {
+        records = input.format === 'json' ? parseJsonRecords(input.csv) : parseCsvRecords(input.csv);
+    } else {
+        throw new Error('Provide a CSV/JSON file, a csv string or a rows array');
+    }
+
+    if (records.length === 0) {
+        throw new Error('Import contains no rows');
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+        throw new Error(`Import is limited to ${MAX_IMPORT_ROWS} rows per request`);
+    }
+    return records;
+}
+
+function parseJsonRecords(text: string): ImportRecord[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('Import file is not valid JSON');
+    }
+    const rows = Array.isArray(parsed)
+        ? parsed
+        : (typeof parsed === 'object' && parsed !== null && Array.isArray((parsed as { rows?: unknown }).rows))
+            ? (parsed as { rows: unknown[] }).rows
+            : null;
+    if (!rows || rows.some((row) => typeof row !== 'object' || row === null || Array.isArray(row))) {
+        throw new Error('JSON import must be an array of row objects');
+    }
+    return rows as ImportRecord[];
+}
+
+/**
+ * Validates raw rows against the entry schema. Row numbers are 1-based data rows
+ * (the CSV header line is not counted). Repeated days keep the first occurrence.
+ */
+export function prepareImportRows(
+    kind: ImportKind,
+    records: ImportRecord[]
+): { prepared: PreparedRow[]; errors: ImportRowErrorDto[] } {
+    const aliases = kind === 'health' ? HEALTH_COLUMN_ALIASES : MOOD_COLUMN_ALIASES;
+    const schema = kind === 'health' ? healthRowSchema : moodRowSchema;
+    const prepared: PreparedRow[] = [];
+    const errors: ImportRowErrorDto[] = [];
+    const firstRowByDay = new Map<string, number>();
+
+    records.forEach((record, index) => {
+        const row = index + 1;
+        const parsed = schema.safeParse(normalizeRecord(record, aliases));
+        if (!parsed.success) {
+            zodErrorDetails(parsed.error).forEach((detail) => errors.push({ row, ...detail }));
+            return;
+        }
+
+        const { date, ...fields } = parsed.data;
+        const dayKey = getUtcDayKey(date);
+        const firstRow = firstRowByDay.get(dayKey);
+        if (firstRow !== undefined) {
+            errors.push({ row, field: 'date', message: `Duplicate of row ${firstRow} (${dayKey})` });
+            return;
+        }
+        firstRowByDay.set(dayKey, row);
+        prepared.push({ row, date, fields });
+    });
+
+    return { prepared, errors };
+}
+
+function buildUpsertUpdate(
+    kind: ImportKind,
+    policy: ImportConflictPolicy,
+    userId: string,
+    row: PreparedRow
+): Record<string, unknown> {
+    const onInsert = { userId, date: row.date };
+
+    if (policy === 'skip') {
+        return { $setOnInsert: { ...onInsert, ...row.fields, source: IMPORT_SOURCE } };
+    }
+
+    if (policy === 'merge') {
+        return { $set: { ...row.fields, source: IMPORT_SOURCE }, $setOnInsert: onInsert };
+    }
+
+    const cleared = OVERWRITE_CLEARABLE_FIELDS[kind].filter((field) => row.fields[field] === undefined);
+    return {
+        $set: { ...OVERWRITE_DEFAULTS[kind], ...row.fields, source: IMPORT_SOURCE },
+        ...(cleared.length > 0
+            ? { $unset: Object.fromEntries(cleared.map((field) => [field, ''])) }
+            : {}),
+        $setOnInsert: onInsert,
+    };
+}
+
+export async function importEntries(
+    userId: string,
+    kind: ImportKind,
+    records: ImportRecord[],
+    options: { dryRun: boolean; onConflict: ImportConflictPolicy }
+): Promise<EntryImportResultDto> {
+    const { prepared, errors } = prepareImportRows(kind, records);
+    const model = entryModel(kind);
+
+    const existing = prepared.length > 0
+        ? await model.find({ userId, date: { $in: prepared.map((row) => row.date) } }).lean()
+        : [];
+    const existingDays = new Set(existing.map((entry) => getUtcDayKey(entry.date)));
+
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+    const writes: PreparedRow[] = [];
+
+    for (const row of prepared) {
+        if (!existingDays.has(getUtcDayKey(row.date))) {
+            created += 1;
+            writes.push(row);
+        } else if (options.onConflict === 'skip') {
+            skipped += 1;
+        } else {
+            updated += 1;
+            writes.push(row);
+        }
+    }
+
+    if (!options.dryRun && writes.length > 0) {
+        await model.bulkWrite(
+            writes.map((row) => ({
+                updateOne: {
+                    filter: { userId, date: row.date },
+                    update: buildUpsertUpdate(kind, options.onConflict, userId, row),
+                    upsert: true,
+                },
+            })),
+            { ordered: false }
+        );
+        const written = await model.find({ userId, date: { $in: writes.map((row) => row.date) } }).lean();
+        await recordImportRevisions(userId, kind, IMPORT_SOURCE, existing, written);
+    }
+
+    return {
+        kind,
+        dryRun: options.dryRun,
+        onConflict: options.onConflict,
+        totalRows: records.length,
+        validRows: prepared.length,
+        created,
+        updated,
+        skipped,
+        errors,
+    };
+}
@@ -0,0 +1,58 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildFhirBundle } from './fhirExportService';
+
+test('buildFhirBundle maps entries to a Patient and coded Observations', () => {
+    const bundle = buildFhirBundle({
+        user: { id: 'u1', name: 'Ada Lovelace', email: 'ada@example.com' },
+        healthEntries: [
+            { id: 'h2', date: new Date('2026-03-02T00:00:00.000Z'), steps: 0, sleepHours: 7.5, heartRate: 64 },
+            { id: 'h1', date: new Date('2026-03-01T00:00:00.000Z'), steps: 8000, sleepHours: 0, heartRate: 0, weight: 61.2 },
+        ],
+        moodEntries: [
+            { id: 'm1', date: new Date('2026-03-01T00:00:00.000Z'), mood: 'calm', energyLevel: 7, stressLevel: 3 },
+        ],
+        baseUrl: 'https://api.example.com/api/export/fhir/',
+        generatedAt: new Date('2026-03-03T12:00:00.000Z'),
+    });
+
+    assert.equal(bundle.resourceType, 'Bundle');
+    assert.equal(bundle.type, 'collection');
+    assert.equal(bundle.timestamp, '2026-03-03T12:00:00.000Z');
+    assert.equal(bundle.total, 8);
+
+    const [patientEntry, ...observationEntries] = bundle.entry;
+    assert.equal(patientEntry.fullUrl, 'https://api.example.com/api/export/fhir/Patient/u1');
+    assert.deepEqual(patientEntry.resource, {
+        resourceType: 'Patient',
+        id: 'u1',
+        identifier: [{ system: 'https://healthtwin.app/fhir/user-id', value: 'u1' }],
+        active: true,
+        name: [{ text: 'Ada Lovelace', family: 'Lovelace', given: ['Ada'] }],
+        telecom: [{ system: 'email', value: 'ada@example.com' }],
+    });
+
+    const summary = observationEntries.map(({ resource }) => {
+        assert.equal(resource.resourceType, 'Observation');
+        if (resource.resourceType !== 'Observation') throw new Error('unreachable');
+        assert.equal(resource.subject.reference, 'Patient/u1');
+        return [
+            resource.effectiveDateTime,
+            resource.code.coding[0].code,
+            resource.valueQuantity?.value ?? resource.valueInteger ?? resource.valueCodeableConcept?.coding[0].code,
+        ];
+    });
+    assert.deepEqual(summary, [
+        ['2026-03-01', '55423-8', 8000],
+        ['2026-03-01', '29463-7', 61.2],
+        ['2026-03-01', 'mood', 'calm'],
+        ['2026-03-01', 'energy-level', 7],
+        ['2026-03-01', 'stress-level', 3],
+        ['2026-03-02', '8867-4', 64],
+        ['2026-03-02', '93832-4', 7.5],
+    ]);
+
+    const steps = observationEntries[0].resource;
+    assert.ok(steps.resourceType === 'Observation');
+    assert.deepEqual(steps.valueQuantity, { value: 8000, unit: 'steps', system: 'http://unitsofmeasure.org', code: '{steps}' });
+});
@@ -0,0 +1,287 @@
+import User from '../models/User';
+import HealthEntry from '../models/HealthEntry';
+import MoodEntry from '../models/MoodEntry';
+import { getUtcDayKey, shiftUtcDays } from '../lib/dateUtils';
+
+/**
+ * FHIR R4 export for clinical partners.
+ *
+ * Each daily `HealthEntry` metric becomes a LOINC-coded `Observation`; each `MoodEntry`
+ * becomes survey-category observations (mood, energy, stress) using a local code system,
+ * since there is no LOINC code for the app's 1–10 self-ratings. Everything is returned as
+ * a `collection` Bundle whose first entry is the `Patient` derived from the user.
+ */
+
+const LOINC_SYSTEM = 'http://loinc.org';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const CHECKIN_SYSTEM = 'https://healthtwin.app/fhir/CodeSystem/daily-check-in';
+const MOOD_SYSTEM = 'https://healthtwin.app/fhir/CodeSystem/mood';
+const USER_ID_SYSTEM = 'https://healthtwin.app/fhir/user-id';
+
+export interface FhirCoding {
+    system: string;
+    code: string;
+    display?: string;
+}
+
+export interface FhirCodeableConcept {
+    coding: FhirCoding[];
+    text?: string;
+}
+
+export interface FhirQuantity {
+    value: number;
+    unit: string;
+    system: string;
+    code: string;
+}
+
+export interface FhirPatient {
+    resourceType: 'Patient';
+    id: string;
+    identifier: Array<{ system: string; value: string }>;
+    active: boolean;
+    name: Array<{ text: string; family?: string; given?: string[] }>;
+    telecom: Array<{ system: 'email'; value: string }>;
+}
+
+export interface FhirObservation {
+    resourceType: 'Observation';
+    id: string;
+    status: 'final';
+    category: FhirCodeableConcept[];
+    code: FhirCodeableConcept;
+    subject: { reference: string };
+    effectiveDateTime: string;
+    valueQuantity?: FhirQuantity;
+    valueInteger?: number;
+    valueCodeableConcept?: FhirCodeableConcept;
+    referenceRange?: Array<{ low: { value: number }; high: { value: number }; text: string }>;
+}
+
+export interface FhirBundle {
+    resourceType: 'Bundle';
+    type: 'collection';
+    timestamp: string;
+    total: number;
+    entry: Array<{ fullUrl: string; resource: FhirPatient | FhirObservation }>;
+}
+
+export interface FhirExportUser {
+    id: string;
+    name: string;
+    email: string;
+}
+
+export interface FhirExportHealthEntry {
+    id: string;
+    date: Date;
+    steps?: number;
+    sleepHours?: number;
+    heartRate?: number;
+    weight?: number;
+}
+
+export interface FhirExportMoodEntry {
+    id: string;
+    date: Date;
+    mood: string;
+    energyLevel: number;
+    stressLevel: number;
+}
+
+interface HealthMetricMapping {
+    field: keyof Omit<FhirExportHealthEntry, 'id' | 'date'>;
+    slug: string;
+    category: 'vital-signs' | 'activity';
+    loinc: FhirCoding;
+    unit: { unit: string; code: string };
+}
+
+const HEALTH_METRICS: HealthMetricMapping[] = [
+    {
+        field: 'steps',
+        slug: 'steps',
+        category: 'activity',
+        loinc: { system: LOINC_SYSTEM, code: '55423-8', display: 'Number of steps' },
+        unit: { unit: 'steps', code: '{steps}' },
+    },
+    {
+        field: 'heartRate',
+        slug: 'heart-rate',
+        category: 'vital-signs',
+        loinc: { system: LOINC_SYSTEM, code: '8867-4', display: 'Heart rate' },
+        unit: { unit: 'beats/minute', code: '/min' },
+    },
+    {
+        field: 'weight',
+        slug: 'body-weight',
+        category: 'vital-signs',
+        loinc: { system: LOINC_SYSTEM, code: '29463-7', display: 'Body weight' },
+        unit: { unit: 'kg', code: 'kg' },
+    },
+    {
+        field: 'sleepHours',
+        slug: 'sleep-duration',
+        category: 'activity',
+        loinc: { system: LOINC_SYSTEM, code: '93832-4', display: 'Sleep duration' },
+        unit: { unit: 'h', code: 'h' },
+    },
+];
+
+const CATEGORY_DISPLAY: Record<string, string> = {
+    'vital-signs': 'Vital Signs',
+    activity: 'Activity',
+    survey: 'Survey',
+};
+
+function categoryOf(code: string): FhirCodeableConcept[] {
+    return [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code, display: CATEGORY_DISPLAY[code] }] }];
+}
+
+function capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export function toFhirPatient(user: FhirExportUser): FhirPatient {
+    const parts = user.name.trim().split(/\s+/);
+    const name: FhirPatient['name'][number] = { text: user.name };
+    if (parts.length > 1) {
+        name.family = parts[parts.length - 1];
+        name.given = parts.slice(0, -1);
+    }
+    return {
+        resourceType: 'Patient',
+        id: user.id,
+        identifier: [{ system: USER_ID_SYSTEM, value: user.id }],
+        active: true,
+        name: [name],
+        telecom: [{ system: 'email', value: user.email }],
+    };
+}
+
+export function toHealthObservations(entry: FhirExportHealthEntry, patientRef: string): FhirObservation[] {
+    const effectiveDateTime = getUtcDayKey(entry.date);
+    const observations: FhirObservation[] = [];
+    for (const metric of HEALTH_METRICS) {
+        const value = entry[metric.field];
+        // HealthEntry defaults unset metrics to 0; a 0 reading is "not recorded", not a measurement.
+        if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) continue;
+        observations.push({
+            resourceType: 'Observation',
+            id: `${entry.id}-${metric.slug}`,
+            status: 'final',
+            category: categoryOf(metric.category),
+            code: { coding: [metric.loinc], text: metric.loinc.display },
+            subject: { reference: patientRef },
+            effectiveDateTime,
+            valueQuantity: { value, unit: metric.unit.unit, system: UCUM_SYSTEM, code: metric.unit.code },
+        });
+    }
+    return observations;
+}
+
+export function toMoodObservations(entry: FhirExportMoodEntry, patientRef: string): FhirObservation[] {
+    const base = {
+        resourceType: 'Observation' as const,
+        status: 'final' as const,
+        category: categoryOf('survey'),
+        subject: { reference: patientRef },
+        effectiveDateTime: getUtcDayKey(entry.date),
+    };
+    const scale = (label: string) => [{ low: { value: 1 }, high: { value: 10 }, text: `Self-rated ${label}, 1 (lowest) to 10 (highest)` }];
+
+    return [
+        {
+            ...base,
+            id: `${entry.id}-mood`,
+            code: { coding: [{ system: CHECKIN_SYSTEM, code: 'mood', display: 'Self-reported mood' }], text: 'How are you feeling today?' },
+            valueCodeableConcept: {
+                coding: [{ system: MOOD_SYSTEM, code: entry.mood, display: capitalize(entry.mood) }],
+                text: capitalize(entry.mood),
+            },
+        },
+        {
+            ...base,
+            id: `${entry.id}-energy`,
+            code: { coding: [{ system: CHECKIN_SYSTEM, code: 'energy-level', display: 'Self-reported energy level' }], text: 'How energetic do you feel today?' },
+            valueInteger: entry.energyLevel,
+            referenceRange: scale('energy'),
+        },
+        {
+            ...base,
+            id: `${entry.id}-stress`,
+            code: { coding: [{ system: CHECKIN_SYSTEM, code: 'stress-level', display: 'Self-reported stress level' }], text: 'How stressed do you feel today?' },
+            valueInteger: entry.stressLevel,
+            referenceRange: scale('stress'),
+        },
+    ];
+}
+
+export function buildFhirBundle(input: {
+    user: FhirExportUser;
+    healthEntries: FhirExportHealthEntry[];
+    moodEntries: FhirExportMoodEntry[];
+    baseUrl: string;
+    generatedAt?: Date;
+}): FhirBundle {
+    const patient = toFhirPatient(input.user);
+    const patientRef = `Patient/${patient.id}`;
+    const observations = [
+        ...input.healthEntries.flatMap((entry) => toHealthObservations(entry, patientRef)),
+        ...input.moodEntries.flatMap((entry) => toMoodObservations(entry, patientRef)),
+    ].sort((a, b) => a.effectiveDateTime.localeCompare(b.effectiveDateTime));
+
+    const baseUrl = input.baseUrl.replace(/\/+$/, '');
+    const entry: FhirBundle['entry'] = [
+        { fullUrl: `${baseUrl}/${patientRef}`, resource: patient },
+        ...observations.map((resource) => ({ fullUrl: `${baseUrl}/Observation/${resource.id}`, resource })),
+    ];
+
+    return {
+        resourceType: 'Bundle',
+        type: 'collection',
+        timestamp: (input.generatedAt ?? new Date()).toISOString(),
+        total: entry.length,
+        entry,
+    };
+}
+
+/**
+ * Loads the user's entries for [from, to] (UTC day starts, inclusive) and serializes them.
+ * Returns null when the user no longer exists.
+ */
+export async function loadFhirBundle(
+    userId: string,
+    range: { from: Date; to: Date },
+    baseUrl: string
+): Promise<FhirBundle | null> {
+    const dateFilter = { $gte: range.from, $lt: shiftUtcDays(range.to, 1) };
+    const [user, healthEntries, moodEntries] = await Promise.all([
+        User.findById(userId).select('name email').lean(),
+        HealthEntry.find({ userId, date: dateFilter }).select('date steps sleepHours heartRate weight').sort({ date: 1 }).lean(),
+        MoodEntry.find({ userId, date: dateFilter }).select('date mood energyLevel stressLevel').sort({ date: 1 }).lean(),
+    ]);
+    if (!user) return null;
+
+    return buildFhirBundle({
+        user: { id: String(user._id), name: user.name, email: user.email },
+        healthEntries: healthEntries.map((entry) => ({
+            id: String(entry._id),
+            date: entry.date,
+            steps: entry.steps,
+            sleepHours: entry.sleepHours,
+            heartRate: entry.heartRate,
+            weight: entry.weight,
+        })),
+        moodEntries: moodEntries.map((entry) => ({
+            id: String(entry._id),
+            date: entry.date,
+            mood: entry.mood,
+            energyLevel: entry.energyLevel,
+            stressLevel: entry.stressLevel,
+        })),
+        baseUrl,
+    });
+}
@@ -0,0 +1,79 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    buildFriendWeeks,
+    buildFriendWeekSummary,
+    DEFAULT_SHARING,
+    FriendActivity,
+    friendCodeSchema,
+    generateInviteCode,
+    incomingInviteFilter,
+} from './friendService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+const activity: FriendActivity = {
+    loggedDays: ['2026-03-09', '2026-03-10', '2026-03-11', '2026-03-12', '2026-03-13', '2026-03-14', '2026-03-15', '2026-03-17'],
+    sleep: [
+        { day: '2026-03-10', hours: 7 },
+        { day: '2026-03-11', hours: 8 },
+        { day: '2026-03-12', hours: 0 },
+        { day: '2026-03-17', hours: 6.5 },
+    ],
+    unlocks: [
+        { achievementId: 'first_log', tier: 'bronze', day: '2026-03-09' },
+        { achievementId: 'retired_badge', tier: 'gold', day: '2026-03-10' },
+    ],
+    bridgeDays: new Set(),
+};
+
+test('generateInviteCode produces codes the join schema accepts, in any case', () => {
+    const code = generateInviteCode();
+    assert.match(code, /^[A-HJ-NP-Z2-9]{8}$/);
+    assert.deepEqual(friendCodeSchema.parse({ code: ` ${code.toLowerCase()} ` }), { code });
+    assert.equal(friendCodeSchema.safeParse({ code: 'ABC' }).success, false);
+});
+
+test('buildFriendWeekSummary leaves out everything the friend does not share', () => {
+    const [week] = buildFriendWeeks(day('2026-03-18'), 1);
+    const summary = buildFriendWeekSummary(
+        { userId: 'u1', name: 'Sam', sharing: DEFAULT_SHARING },
+        week,
+        '2026-03-18',
+        activity
+    );
+    assert.deepEqual(summary, {
+        userId: 'u1',
+        name: 'Sam',
+        weekKey: '2026-W12',
+        weekStart: '2026-03-16',
+        weekEnd: '2026-03-22',
+    });
+});
+
+test('buildFriendWeekSummary reports the streak at week end, average sleep and that week\'s unlocks', () => {
+    const weeks = buildFriendWeeks(day('2026-03-18'), 2);
+    assert.deepEqual(weeks.map((week) => week.weekKey), ['2026-W12', '2026-W11']);
+
+    const friend = { userId: 'u1', name: 'Sam', sharing: { streak: true, averageSleep: true, achievements: true } };
+    const [current, previous] = weeks.map((week) => buildFriendWeekSummary(friend, week, '2026-03-18', activity));
+
+    // The freeze earned on day 7 covers the missed Monday, so the streak carries into this week.
+    assert.equal(previous.streak, 7);
+    assert.equal(current.streak, 8);
+
+    assert.equal(previous.averageSleepHours, 7.5);
+    assert.equal(previous.sleepNights, 2);
+    assert.equal(current.averageSleepHours, 6.5);
+
+    assert.deepEqual(previous.achievements?.map((badge) => [badge.id, badge.tier]), [['first_log', 'bronze']]);
+    assert.deepEqual(current.achievements, []);
+});
+
+test('incomingInviteFilter only matches email invites for a verified address', () => {
+    const unverified = incomingInviteFilter('u1', { email: 'sam@example.com', emailVerifiedAt: null });
+    assert.deepEqual(unverified, { status: 'pending', $or: [{ addresseeId: 'u1' }] });
+
+    const verified = incomingInviteFilter('u1', { email: 'sam@example.com', emailVerifiedAt: day('2026-03-01') });
+    assert.deepEqual(verified.$or, [{ addresseeId: 'u1' }, { addresseeId: null, inviteEmail: 'sam@example.com' }]);
+});
@@ -0,0 +1,303 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import Friendship, { IFriendship } from '../models/Friendship';
+import HealthEntry from '../models/HealthEntry';
+import User, { SharingSettings, TimeZoneChange } from '../models/User';
+import UserAchievement, { AchievementTier } from '../models/UserAchievement';
+import {
+    FriendAchievementDto,
+    FriendDto,
+    FriendInviteDto,
+    FriendsDto,
+    FriendWeekSummaryDto,
+    SharingSettingsDto,
+} from '../contracts/api';
+import { DayRange } from '../lib/achievementRules';
+import { getIsoWeekKey, getIsoWeekStart, getUtcDayKey, getZonedDayKey, shiftUtcDays, toUtcDayStart } from '../lib/dateUtils';
+import { ACHIEVEMENT_RULES } from './achievementService';
+import { getStreakStatus, replayStreak, STREAK_RULES } from './streakService';
+import { resolveTimeZone, travelSkippedDays } from './timeZoneService';
+
+/**
+ * Accountability partners. Friendships start as an invite, either to an email address
+ * (matched against the invitee's account, now or once they sign up) or as a short code
+ * that anyone can redeem once. Accepted friends see a weekly feed built from the
+ * aggregates each of them opted into in `User.sharing` — the logging streak, average
+ * sleep and newly unlocked badges. Entries, notes and raw values are never read into it.
+ */
+
+export const MAX_FRIENDS = 50;
+export const MAX_PENDING_INVITES = 20;
+export const INVITE_CODE_TTL_DAYS = 7;
+const INVITE_CODE_LENGTH = 8;
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // 32 symbols, no 0/O or 1/I
+const FEED_WEEKS = { min: 1, max: 12, default: 4 };
+
+export const DEFAULT_SHARING: SharingSettings = { streak: false, averageSleep: false, achievements: false };
+
+export const friendInviteSchema = z.object({
+    // Without an email the invite is a code to pass on however the user likes.
+    email: z.string().trim().email('Invalid email format').transform((value) => value.toLowerCase()).optional(),
+});
+
+export const friendCodeSchema = z.object({
+    code: z.string().trim().toUpperCase().regex(/^[A-Z2-9]{8}$/, 'Invite codes are 8 letters and digits'),
+});
+
+export const sharingUpdateSchema = z.object({
+    streak: z.boolean().optional(),
+    averageSleep: z.boolean().optional(),
+    achievements: z.boolean().optional(),
+}).refine((value) => Object.keys(value).length > 0, 'Provide at least one setting to update');
+
+export const friendFeedQuerySchema = z.object({
+    weeks: z.coerce.number().int().min(FEED_WEEKS.min).max(FEED_WEEKS.max).default(FEED_WEEKS.default),
+});
+
+type StoredFriendship = Pick<
+    IFriendship,
+    'requesterId' | 'addresseeId' | 'inviteEmail' | 'inviteCode' | 'status' | 'expiresAt' | 'acceptedAt' | 'createdAt'
+> & { _id: unknown };
+
+export interface FriendActivity {
+    loggedDays: string[];     // Every day with a health entry, for the streak replay
+    sleep: Array<{ day: string; hours: number }>;
+    unlocks: Array<{ achievementId: string; tier: AchievementTier; day: string }>;
+    bridgeDays: Set<string>;
+}
+
+export interface FriendWeek extends DayRange {
+    weekKey: string;
+}
+
+export function generateInviteCode(): string {
+    const bytes = crypto.randomBytes(INVITE_CODE_LENGTH);
+    return Array.from(bytes, (byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]).join('');
+}
+
+export function resolveSharing(stored?: Partial<SharingSettings> | null): SharingSettingsDto {
+    return { ...DEFAULT_SHARING, ...(stored ?? {}) };
+}
+
+function sharesAnything(sharing: SharingSettingsDto): boolean {
+    return sharing.streak || sharing.averageSleep || sharing.achievements;
+}
+
+/**
+ * Invites addressed to this user: by account, or by email before the account existed. Email
+ * invites only count once the address is verified, so registering someone else's address
+ * does not reveal what the inviter shares.
+ */
+export function incomingInviteFilter(
+    userId: string,
+    user: { email: string; emailVerifiedAt?: Date | null }
+): Record<string, unknown> {
+    const matches: Record<string, unknown>[] = [{ addresseeId: userId }];
+    if (user.emailVerifiedAt) matches.push({ addresseeId: null, inviteEmail: user.email });
+    return { status: 'pending', $or: matches };
+}
+
+export function findFriendshipBetween(userId: string, otherId: string) {
+    return Friendship.findOne({
+        $or: [
+            { requesterId: userId, addresseeId: otherId },
+            { requesterId: otherId, addresseeId: userId },
+        ],
+    });
+}
+
+/** Monday-to-Sunday weeks ending with the one containing `today`, newest first. */
+export function buildFriendWeeks(today: Date, weeks: number): FriendWeek[] {
+    const currentStart = getIsoWeekStart(today);
+    return Array.from({ length: weeks }, (_, index) => {
+        const weekStart = shiftUtcDays(currentStart, -7 * index);
+        return {
+            weekKey: getIsoWeekKey(weekStart),
+            from: getUtcDayKey(weekStart),
+            to: getUtcDayKey(shiftUtcDays(weekStart, 6)),
+        };
+    });
+}
+
+function roundOne(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/** One friend's week, limited to the aggregates they share. */
+export function buildFriendWeekSummary(
+    friend: { userId: string; name: string; sharing: SharingSettingsDto },
+    week: FriendWeek,
+    todayKey: string,
+    activity: FriendActivity
+): FriendWeekSummaryDto {
+    const summary: FriendWeekSummaryDto = {
+        userId: friend.userId,
+        name: friend.name,
+        weekKey: week.weekKey,
+        weekStart: week.from,
+        weekEnd: week.to,
+    };
+    const inWeek = (day: string) => day >= week.from && day <= week.to;
+
+    if (friend.sharing.streak) {
+        const asOf = week.to < todayKey ? week.to : todayKey;
+        const options = { freezes: STREAK_RULES.logging.freezes, bridgeDays: activity.bridgeDays };
+        const state = replayStreak(activity.loggedDays.filter((day) => day <= asOf), options);
+        summary.streak = getStreakStatus(state, asOf, options).currentStreak;
+    }
+
+    if (friend.sharing.averageSleep) {
+        const nights = activity.sleep.filter((night) => inWeek(night.day) && night.hours > 0);
+        summary.sleepNights = nights.length;
+        summary.averageSleepHours = nights.length > 0
+            ? roundOne(nights.reduce((sum, night) => sum + night.hours, 0) / nights.length)
+            : null;
+    }
+
+    if (friend.sharing.achievements) {
+        summary.achievements = activity.unlocks.flatMap((unlock): FriendAchievementDto[] => {
+            const rule = ACHIEVEMENT_RULES.find((item) => item.id === unlock.achievementId);
+            if (!rule || !inWeek(unlock.day)) return [];
+            return [{ id: rule.id, name: rule.name, icon: rule.icon, tier: unlock.tier }];
+        });
+    }
+
+    return summary;
+}
+
+function toFriendInviteDto(
+    friendship: StoredFriendship,
+    direction: FriendInviteDto['direction'],
+    names: Map<string, string>
+): FriendInviteDto {
+    const otherId = direction === 'incoming' ? friendship.requesterId : friendship.addresseeId;
+    return {
+        id: String(friendship._id),
+        direction,
+        name: otherId ? names.get(String(otherId)) ?? null : null,
+        email: direction === 'outgoing' ? friendship.inviteEmail : null,
+        code: direction === 'outgoing' ? friendship.inviteCode : null,
+        expiresAt: friendship.expiresAt ? friendship.expiresAt.toISOString() : null,
+        createdAt: friendship.createdAt.toISOString(),
+    };
+}
+
+function friendOf(friendship: StoredFriendship, userId: string): string {
+    return String(friendship.requesterId) === userId ? String(friendship.addresseeId) : String(friendship.requesterId);
+}
+
+export async function loadFriends(userId: string): Promise<FriendsDto | null> {
+    const user = await User.findById(userId).select('email emailVerifiedAt sharing').lean();
+    if (!user) return null;
+
+    const now = new Date();
+    const [friendships, incoming, outgoing] = await Promise.all([
+        Friendship.find({ status: 'accepted', $or: [{ requesterId: userId }, { addresseeId: userId }] })
+            .sort({ acceptedAt: 1 })
+            .lean<StoredFriendship[]>(),
+        Friendship.find(incomingInviteFilter(userId, user)).sort({ createdAt: -1 }).lean<StoredFriendship[]>(),
+        Friendship.find({
+            requesterId: userId,
+            status: 'pending',
+            $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+        }).sort({ createdAt: -1 }).lean<StoredFriendship[]>(),
+    ]);
+
+    const otherIds = new Set<string>();
+    friendships.forEach((friendship) => otherIds.add(friendOf(friendship, userId)));
+    incoming.forEach((friendship) => otherIds.add(String(friendship.requesterId)));
+    outgoing.forEach((friendship) => {
+        if (friendship.addresseeId) otherIds.add(String(friendship.addresseeId));
+    });
+    const users = await User.find({ _id: { $in: [...otherIds] } }).select('name').lean();
+    const names = new Map(users.map((other) => [String(other._id), other.name]));
+
+    const friends: FriendDto[] = friendships.flatMap((friendship) => {
+        const friendId = friendOf(friendship, userId);
+        const name = names.get(friendId);
+        if (!name) return [];
+        return [{
+            id: String(friendship._id),
+            userId: friendId,
+            name,
+            since: (friendship.acceptedAt ?? friendship.createdAt).toISOString(),
+        }];
+    });
+
+    return {
+        friends,
+        incoming: incoming.map((friendship) => toFriendInviteDto(friendship, 'incoming', names)),
+        outgoing: outgoing.map((friendship) => toFriendInviteDto(friendship, 'outgoing', names)),
+        sharing: resolveSharing(user.sharing),
+    };
+}
+
+async function loadFriendActivity(
+    friendId: string,
+    sharing: SharingSettingsDto,
+    since: Date,
+    timeZone: string,
+    timeZoneHistory: TimeZoneChange[]
+): Promise<FriendActivity> {
+    // Only the fields behind a shared aggregate are read; the streak replay needs every logged day.
+    const [entries, achievements] = await Promise.all([
+        sharing.streak || sharing.averageSleep
+            ? HealthEntry.find({ userId: friendId, ...(sharing.streak ? {} : { date: { $gte: since } }) })
+                .select('date sleepHours')
+                .lean()
+            : Promise.resolve([]),
+        sharing.achievements
+            ? UserAchievement.find({ userId: friendId, 'unlocks.unlockedAt': { $gte: shiftUtcDays(since, -1) } })
+                .select('achievementId unlocks')
+                .lean()
+            : Promise.resolve([]),
+    ]);
+
+    return {
+        loggedDays: sharing.streak ? entries.map((entry) => getUtcDayKey(entry.date)) : [],
+        sleep: entries.flatMap((entry) => (
+            entry.date >= since && typeof entry.sleepHours === 'number'
+                ? [{ day: getUtcDayKey(entry.date), hours: entry.sleepHours }]
+                : []
+        )),
+        unlocks: achievements.flatMap((achievement) => achievement.unlocks.map((unlock) => ({
+            achievementId: achievement.achievementId,
+            tier: unlock.tier,
+            day: getZonedDayKey(unlock.unlockedAt, timeZone),
+        }))),
+        bridgeDays: travelSkippedDays(timeZoneHistory),
+    };
+}
+
+/** Weekly summaries of every friend who shares something, newest week first. */
+export async function loadFriendFeed(userId: string, weeks: number): Promise<FriendWeekSummaryDto[]> {
+    const friendships = await Friendship.find({
+        status: 'accepted',
+        $or: [{ requesterId: userId }, { addresseeId: userId }],
+    }).lean<StoredFriendship[]>();
+    const friendIds = friendships.map((friendship) => friendOf(friendship, userId));
+    if (friendIds.length === 0) return [];
+
+    // Friends with a pending account deletion drop out of the feed until they cancel it.
+    const friends = await User.find({ _id: { $in: friendIds }, deletionScheduledFor: null })
+        .select('name sharing timeZone timeZoneHistory')
+        .lean();
+    const now = new Date();
+    const summaries = await Promise.all(friends.map(async (friend) => {
+        const sharing = resolveSharing(friend.sharing);
+        if (!sharesAnything(sharing)) return [];
+
+        // Weeks follow the friend's own calendar, like their streak does.
+        const timeZone = resolveTimeZone(friend);
+        const todayKey = getZonedDayKey(now, timeZone);
+        const friendWeeks = buildFriendWeeks(toUtcDayStart(todayKey), weeks);
+        const since = toUtcDayStart(friendWeeks[friendWeeks.length - 1].from);
+        const activity = await loadFriendActivity(String(friend._id), sharing, since, timeZone, friend.timeZoneHistory ?? []);
+        const profile = { userId: String(friend._id), name: friend.name, sharing };
+        return friendWeeks.map((week) => buildFriendWeekSummary(profile, week, todayKey, activity));
+    }));
+
+    return summaries.flat().sort((a, b) => (
+        a.weekStart !== b.weekStart ? (a.weekStart < b.weekStart ? 1 : -1) : a.name.localeCompare(b.name)
+    ));
+}
@@ -0,0 +1,25 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_DAILY_GOALS } from '../models/UserGoals';
+import { buildGoalsUpdate, buildUserGoalsDto, goalsUpdateSchema, resolveGoals } from './goalService';
+
+test('resolveGoals falls back to defaults for unset goals', () => {
+    assert.deepEqual(resolveGoals(null), DEFAULT_DAILY_GOALS);
+    assert.deepEqual(resolveGoals({ steps: 6000, sleepHours: null }), { ...DEFAULT_DAILY_GOALS, steps: 6000 });
+});
+
+test('buildUserGoalsDto lists only the goals the user changed', () => {
+    const dto = buildUserGoalsDto({ waterLitres: 2.5, stressMax: 5 });
+    assert.equal(dto.goals.waterLitres, 2.5);
+    assert.equal(dto.goals.steps, DEFAULT_DAILY_GOALS.steps);
+    assert.deepEqual(dto.customized, ['waterLitres', 'stressMax']);
+});
+
+test('goals update sets new targets and unsets goals reset with null', () => {
+    const input = goalsUpdateSchema.parse({ steps: 8000, sleepHours: null });
+    assert.deepEqual(buildGoalsUpdate(input), { $set: { steps: 8000 }, $unset: { sleepHours: '' } });
+
+    assert.equal(goalsUpdateSchema.safeParse({}).success, false);
+    assert.equal(goalsUpdateSchema.safeParse({ steps: 8000.5 }).success, false);
+    assert.equal(goalsUpdateSchema.safeParse({ sleepHours: 20 }).success, false);
+});
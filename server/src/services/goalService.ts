@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import UserGoals, { DAILY_GOAL_KEYS, DailyGoals, DEFAULT_DAILY_GOALS } from '../models/UserGoals';
+import { UserGoalsDto } from '../contracts/api';
+
+/**
+ * Per-user daily targets (steps, sleep, water, active minutes, stress ceiling). Only the
+ * goals a user changed are stored; everything else resolves to `DEFAULT_DAILY_GOALS`, so
+ * scoring, tips and badges behave exactly as before for users who never open the editor.
+ */
+
+type StoredGoals = Partial<Record<keyof DailyGoals, number | null>>;
+
+// `null` resets a single goal back to its default.
+const goalSchema = (min: number, max: number) => z.number().min(min).max(max).nullable().optional();
+
+export const goalsUpdateSchema = z.object({
+    steps: goalSchema(1000, 50000).refine((value) => value == null || Number.isInteger(value), 'steps must be a whole number'),
+    sleepHours: goalSchema(4, 12),
+    waterLitres: goalSchema(0.5, 6),
+    activeMinutes: goalSchema(5, 300),
+    stressMax: goalSchema(1, 10),
+}).refine((value) => Object.keys(value).length > 0, 'Provide at least one goal to update');
+
+export type GoalsUpdateInput = z.infer<typeof goalsUpdateSchema>;
+
+export function resolveGoals(stored?: StoredGoals | null): DailyGoals {
+    const goals = { ...DEFAULT_DAILY_GOALS };
+    for (const key of DAILY_GOAL_KEYS) {
+        const value = stored?.[key];
+        if (typeof value === 'number' && Number.isFinite(value)) goals[key] = value;
+    }
+    return goals;
+}
+
+export function buildUserGoalsDto(stored?: StoredGoals | null): UserGoalsDto {
+    return {
+        goals: resolveGoals(stored),
+        defaults: { ...DEFAULT_DAILY_GOALS },
+        customized: DAILY_GOAL_KEYS.filter((key) => typeof stored?.[key] === 'number'),
+    };
+}
+
+/** Splits an update into `$set` for new targets and `$unset` for goals reset to default. */
+export function buildGoalsUpdate(input: GoalsUpdateInput): { $set: Partial<DailyGoals>; $unset: Record<string, ''> } {
+    const $set: Partial<DailyGoals> = {};
+    const $unset: Record<string, ''> = {};
+    for (const key of DAILY_GOAL_KEYS) {
+        const value = input[key];
+        if (value === null) $unset[key] = '';
+        else if (value !== undefined) $set[key] = value;
+    }
+    return { $set, $unset };
+}
+
+export async function loadUserGoals(userId: string): Promise<DailyGoals> {
+    const stored = await UserGoals.findOne({ userId }).lean();
+    return resolveGoals(stored);
+}
@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateGoogleFitTakeout } from './googleFitImportService';
+
+test('aggregateGoogleFitTakeout prefers daily summaries, then buckets, then sessions', () => {
+    const result = aggregateGoogleFitTakeout([
+        {
+            name: 'Takeout/Fit/Daily activity metrics/Daily Summaries.csv',
+            content: 'Date,Move Minutes count,Step count,Average heart rate (bpm),Average weight (kg)\n'
+                + '2026-03-01,42,9120,71.4,70.25\n',
+        },
+        {
+            name: 'Takeout/Fit/Daily activity metrics/2026-03-02.csv',
+            content: 'Start time,End time,Move Minutes count,Step count,Average heart rate (bpm)\n'
+                + '08:00:00.000+00:00,08:15:00.000+00:00,10,1500,80\n'
+                + '08:15:00.000+00:00,08:30:00.000+00:00,5,700,90\n',
+        },
+        {
+            name: 'Takeout/Fit/All Sessions/2026-03-01T07_00_00Z_RUNNING.json',
+            content: JSON.stringify({
+                startTime: '2026-03-01T07:00:00.000Z',
+                endTime: '2026-03-01T07:30:00.000Z',
+                duration: '1800.000s',
+            }),
+        },
+        {
+            name: 'Takeout/Fit/All Sessions/2026-03-03T18_00_00Z_WALKING.json',
+            content: JSON.stringify({
+                startTime: '2026-03-03T18:00:00.000Z',
+                duration: '2400.000s',
+                aggregate: [{ metricName: 'com.google.step_count.delta', intValue: 3200 }],
+            }),
+        },
+        { name: 'Takeout/Fit/notes.txt', content: 'ignore me' },
+    ]);
+
+    assert.deepEqual(result.days.map((day) => ({ ...day, date: day.date.toISOString().slice(0, 10) })), [
+        { date: '2026-03-01', steps: 9120, activeMinutes: 42, heartRate: 71, weight: 70.3 },
+        { date: '2026-03-02', steps: 2200, activeMinutes: 15, heartRate: 85 },
+        { date: '2026-03-03', steps: 3200, activeMinutes: 40 },
+    ]);
+    assert.equal(result.recordsRead, 5);
+    assert.deepEqual(result.warnings, ['notes.txt: unsupported file type']);
+});
@@ -0,0 +1,226 @@
+import multer from 'multer';
+import { parseCsvRecords } from '../lib/csv';
+import { getUtcDayKey, toUtcDayStart } from '../lib/dateUtils';
+import { DeviceImportAggregate, ImportedHealthDay } from './deviceImportService';
+
+/**
+ * Google Takeout "Fit" importer.
+ *
+ * Understands the three shapes Takeout produces:
+ *   - `Daily activity metrics/Daily Summaries.csv` — one row per day with a `Date` column
+ *   - `Daily activity metrics/YYYY-MM-DD.csv`      — 15-minute buckets for that day
+ *   - `All Sessions/*.json`                         — one workout/activity session per file
+ * Per metric, the daily summary wins over buckets, and buckets win over sessions.
+ */
+
+// Takeout files are held in memory while parsing, so the whole upload is capped as well as each file.
+export const MAX_TAKEOUT_FILES = 1000;
+export const MAX_TAKEOUT_BYTES = 64 * 1024 * 1024;
+
+export const takeoutUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { files: MAX_TAKEOUT_FILES, fileSize: 10 * 1024 * 1024 },
+});
+
+export interface GoogleFitFile {
+    name: string;
+    content: string;
+}
+
+interface MetricTotals {
+    steps?: number;
+    activeMinutes?: number;
+    heartRate?: number;
+    weight?: number;
+}
+
+interface BucketTotals {
+    steps: number;
+    activeMinutes: number;
+    heartRateSum: number;
+    heartRateCount: number;
+    weight?: number;
+}
+
+interface FitDay {
+    summary: MetricTotals;
+    buckets?: BucketTotals;
+    sessionMinutes: number;
+    sessionSteps: number;
+}
+
+interface FitSession {
+    startTime?: string;
+    endTime?: string;
+    duration?: string;
+    aggregate?: Array<{ metricName?: string; intValue?: number; floatValue?: number }>;
+}
+
+// Takeout headers, normalized to lowercase alphanumerics ("Step count" → "stepcount").
+const COLUMN_TO_METRIC: Record<string, keyof MetricTotals> = {
+    stepcount: 'steps',
+    moveminutescount: 'activeMinutes',
+    activeminutes: 'activeMinutes',
+    averageheartratebpm: 'heartRate',
+    averageweightkg: 'weight',
+};
+
+const DAY_FILE_PATTERN = /(\d{4}-\d{2}-\d{2})\.csv$/i;
+
+function normalizeColumnName(column: string): string {
+    return column.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function readMetrics(record: Record<string, string>): { date?: string; metrics: MetricTotals } {
+    const metrics: MetricTotals = {};
+    let date: string | undefined;
+    for (const [column, raw] of Object.entries(record)) {
+        const key = normalizeColumnName(column);
+        if (key === 'date') {
+            date = raw;
+            continue;
+        }
+        const metric = COLUMN_TO_METRIC[key];
+        const value = Number(raw);
+        if (metric && Number.isFinite(value)) metrics[metric] = value;
+    }
+    return { date, metrics };
+}
+
+function parseSessionMinutes(session: FitSession, start: Date): number {
+    const activeMinutes = session.aggregate?.find((item) => item.metricName === 'com.google.active_minutes');
+    if (typeof activeMinutes?.intValue === 'number') return activeMinutes.intValue;
+
+    const durationSeconds = session.duration ? Number.parseFloat(session.duration) : Number.NaN;
+    if (Number.isFinite(durationSeconds)) return durationSeconds / 60;
+
+    const end = session.endTime ? new Date(session.endTime) : null;
+    if (end && !Number.isNaN(end.getTime())) return (end.getTime() - start.getTime()) / 60000;
+    return 0;
+}
+
+export function aggregateGoogleFitTakeout(files: GoogleFitFile[]): DeviceImportAggregate {
+    const days = new Map<string, FitDay>();
+    const warnings: string[] = [];
+    let recordsRead = 0;
+    let recordsUsed = 0;
+
+    const getDay = (date: Date): FitDay => {
+        const key = getUtcDayKey(date);
+        let day = days.get(key);
+        if (!day) {
+            day = { summary: {}, sessionMinutes: 0, sessionSteps: 0 };
+            days.set(key, day);
+        }
+        return day;
+    };
+
+    const safeDay = (input: string): Date | null => {
+        try {
+            return toUtcDayStart(input);
+        } catch {
+            return null;
+        }
+    };
+
+    for (const file of files) {
+        const baseName = file.name.split(/[\\/]/).pop() ?? file.name;
+
+        if (/\.json$/i.test(baseName)) {
+            let session: FitSession;
+            try {
+                session = JSON.parse(file.content) as FitSession;
+            } catch {
+                warnings.push(`${baseName}: not valid JSON`);
+                continue;
+            }
+            recordsRead += 1;
+            const start = session.startTime ? new Date(session.startTime) : null;
+            if (!start || Number.isNaN(start.getTime())) {
+                warnings.push(`${baseName}: not a Fit session (missing startTime)`);
+                continue;
+            }
+            const day = getDay(toUtcDayStart(start));
+            day.sessionMinutes += Math.max(0, parseSessionMinutes(session, start));
+            const steps = session.aggregate?.find((item) => item.metricName === 'com.google.step_count.delta');
+            if (typeof steps?.intValue === 'number') day.sessionSteps += steps.intValue;
+            recordsUsed += 1;
+            continue;
+        }
+
+        if (!/\.csv$/i.test(baseName)) {
+            warnings.push(`${baseName}: unsupported file type`);
+            continue;
+        }
+
+        let records: Array<Record<string, string>>;
+        try {
+            records = parseCsvRecords(file.content);
+        } catch (error: unknown) {
+            warnings.push(`${baseName}: ${error instanceof Error ? error.message : 'unreadable CSV'}`);
+            continue;
+        }
+
+        const dayFileMatch = baseName.match(DAY_FILE_PATTERN);
+        const hasDateColumn = records.some((record) => Object.keys(record).some((column) => normalizeColumnName(column) === 'date'));
+
+        if (hasDateColumn) {
+            for (const record of records) {
+                recordsRead += 1;
+                const { date, metrics } = readMetrics(record);
+                const dayStart = date ? safeDay(date) : null;
+                if (!dayStart || Object.keys(metrics).length === 0) continue;
+                Object.assign(getDay(dayStart).summary, metrics);
+                recordsUsed += 1;
+            }
+        } else if (dayFileMatch) {
+            const dayStart = safeDay(dayFileMatch[1]);
+            if (!dayStart) {
+                warnings.push(`${baseName}: invalid date in file name`);
+                continue;
+            }
+            const day = getDay(dayStart);
+            const buckets: BucketTotals = day.buckets ?? { steps: 0, activeMinutes: 0, heartRateSum: 0, heartRateCount: 0 };
+            for (const record of records) {
+                recordsRead += 1;
+                const { metrics } = readMetrics(record);
+                if (Object.keys(metrics).length === 0) continue;
+                buckets.steps += metrics.steps ?? 0;
+                buckets.activeMinutes += metrics.activeMinutes ?? 0;
+                if (metrics.heartRate !== undefined) {
+                    buckets.heartRateSum += metrics.heartRate;
+                    buckets.heartRateCount += 1;
+                }
+                if (metrics.weight !== undefined) buckets.weight = metrics.weight;
+                recordsUsed += 1;
+            }
+            day.buckets = buckets;
+        } else {
+            warnings.push(`${baseName}: no Date column and no YYYY-MM-DD file name`);
+        }
+    }
+
+    const result: ImportedHealthDay[] = [];
+    for (const [dayKey, day] of days.entries()) {
+        const buckets = day.buckets;
+        const steps = day.summary.steps
+            ?? (buckets && buckets.steps > 0 ? buckets.steps : undefined)
+            ?? (day.sessionSteps > 0 ? day.sessionSteps : undefined);
+        const activeMinutes = day.summary.activeMinutes
+            ?? (buckets && buckets.activeMinutes > 0 ? buckets.activeMinutes : undefined)
+            ?? (day.sessionMinutes > 0 ? day.sessionMinutes : undefined);
+        const heartRate = day.summary.heartRate
+            ?? (buckets && buckets.heartRateCount > 0 ? buckets.heartRateSum / buckets.heartRateCount : undefined);
+        const weight = day.summary.weight ?? buckets?.weight;
+
+        const entry: ImportedHealthDay = { date: toUtcDayStart(dayKey) };
+        if (steps !== undefined) entry.steps = Math.min(300000, Math.round(steps));
+        if (activeMinutes !== undefined) entry.activeMinutes = Math.min(1440, Math.round(activeMinutes));
+        if (heartRate !== undefined) entry.heartRate = Math.min(260, Math.round(heartRate));
+        if (weight !== undefined) entry.weight = Math.min(500, Math.round(weight * 10) / 10);
+        if (Object.keys(entry).length > 1) result.push(entry);
+    }
+    result.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    return { days: result, recordsRead, recordsUsed, warnings };
+}
@@ -0,0 +1,61 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildHourlySeries, groupSamplesByDay, rollupDaySamples, RollupSample } from './intradaySampleService';
+
+const at = (time: string) => new Date(`2026-03-01T${time}:00.000Z`);
+
+const SAMPLES: RollupSample[] = [
+    { metric: 'steps', start: at('08:00'), end: at('08:15'), value: 1200 },
+    { metric: 'steps', start: at('08:15'), end: at('08:30'), value: 800.4 },
+    { metric: 'steps', start: at('18:00'), end: at('18:15'), value: 3000 },
+    { metric: 'active_minutes', start: at('18:00'), end: at('18:30'), value: 25 },
+    { metric: 'water', start: at('09:00'), value: 0.25 },
+    { metric: 'water', start: at('13:00'), value: 0.5 },
+    ...[52, 55, 58, 60, 62, 70, 75, 80, 90, 110, 120, 130].map((value, index) => ({
+        metric: 'heart_rate' as const,
+        start: at(`${String(6 + index).padStart(2, '0')}:05`),
+        value,
+    })),
+];
+
+test('rollupDaySamples sums buckets, averages heart rate and estimates resting HR', () => {
+    assert.deepEqual(rollupDaySamples(SAMPLES), {
+        steps: 5000,
+        activeMinutes: 25,
+        waterLitres: 0.75,
+        heartRate: 80,
+        restingHeartRate: 52,
+    });
+    assert.deepEqual(rollupDaySamples([]), {});
+});
+
+test('buildHourlySeries buckets samples by UTC hour', () => {
+    const hourly = buildHourlySeries(SAMPLES);
+
+    assert.equal(hourly.length, 24);
+    assert.deepEqual(hourly[8], {
+        hour: 8,
+        steps: 2000,
+        activeMinutes: 0,
+        waterLitres: 0,
+        heartRateAvg: 58,
+        heartRateMin: 58,
+        heartRateMax: 58,
+    });
+    assert.equal(hourly[18].steps, 3000);
+    assert.equal(hourly[18].activeMinutes, 25);
+    assert.equal(hourly[3].heartRateAvg, null);
+});
+
+test('a late-evening sample west of UTC stays on its local day and hour', () => {
+    // 20:30 on 28 Feb in Los Angeles is already 1 March in UTC
+    const evening: RollupSample = { metric: 'steps', start: new Date('2026-03-01T04:30:00.000Z'), value: 900 };
+    const morning: RollupSample = { metric: 'steps', start: new Date('2026-03-01T16:00:00.000Z'), value: 400 };
+    const byDay = groupSamplesByDay([evening, morning], 'America/Los_Angeles');
+
+    assert.deepEqual(byDay.get('2026-02-28'), [evening]);
+    assert.deepEqual(byDay.get('2026-03-01'), [morning]);
+    assert.deepEqual(groupSamplesByDay([evening], 'UTC').get('2026-03-01'), [evening]);
+    assert.equal(buildHourlySeries([evening], 'America/Los_Angeles')[20].steps, 900);
+    assert.equal(buildHourlySeries([evening])[4].steps, 900);
+});
@@ -0,0 +1,257 @@
+import mongoose from 'mongoose';
+import HealthEntry from '../models/HealthEntry';
+import HealthSample, { SampleMetric } from '../models/HealthSample';
+import {
+    DailyRollupDto,
+    HealthSampleDto,
+    IntradayDayDto,
+    IntradayHourDto,
+    SampleIngestResultDto,
+} from '../contracts/api';
+import { getUtcDayKey, getZonedDayKey, getZonedHour, shiftUtcDays, toUtcDayStart, toZonedDayStart } from '../lib/dateUtils';
+import { recordImportRevisions } from './revisionService';
+import { loadUserTimeZone } from './timeZoneService';
+
+/**
+ * Intraday samples (heart rate readings, step buckets, …) and their daily rollups.
+ *
+ * Samples belong to the local day of their `start` in the user's time zone, so a late-evening
+ * reading counts toward the evening it was taken. After every ingest the touched days are
+ * recomputed from *all* of that day's samples, so re-sent or late readings converge on the
+ * same `HealthEntry` values. Days saved through the Daily Log are left untouched.
+ */
+
+const DEVICE_SOURCE = 'health_api' as const;
+const DAILY_LOG_SOURCE = 'daily_log' as const;
+
+// Resting HR ≈ mean of the lowest 10% of the day's readings (at least one reading).
+const RESTING_HR_FRACTION = 0.1;
+
+// Widest UTC offset in use (UTC+14 / UTC-12); local days are queried with this much slack.
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+export interface SampleInput {
+    metric: SampleMetric;
+    start: Date;
+    end?: Date;
+    value: number;
+    sourceName?: string;
+}
+
+export interface RollupSample {
+    metric: SampleMetric;
+    start: Date;
+    end?: Date;
+    value: number;
+}
+
+export type DayRollup = Omit<DailyRollupDto, 'date' | 'status'>;
+
+function round(value: number, digits: number): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+function sumOf(samples: RollupSample[], metric: SampleMetric): number | null {
+    const values = samples.filter((sample) => sample.metric === metric).map((sample) => sample.value);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+}
+
+export function rollupDaySamples(samples: RollupSample[]): DayRollup {
+    const rollup: DayRollup = {};
+
+    const steps = sumOf(samples, 'steps');
+    if (steps !== null) rollup.steps = Math.min(300000, Math.round(steps));
+    const activeMinutes = sumOf(samples, 'active_minutes');
+    if (activeMinutes !== null) rollup.activeMinutes = Math.min(1440, Math.round(activeMinutes));
+    const water = sumOf(samples, 'water');
+    if (water !== null) rollup.waterLitres = Math.min(20, round(water, 2));
+
+    const heartRates = samples
+        .filter((sample) => sample.metric === 'heart_rate')
+        .map((sample) => sample.value)
+        .sort((a, b) => a - b);
+    if (heartRates.length > 0) {
+        const mean = heartRates.reduce((sum, value) => sum + value, 0) / heartRates.length;
+        const lowest = heartRates.slice(0, Math.max(1, Math.floor(heartRates.length * RESTING_HR_FRACTION)));
+        rollup.heartRate = Math.min(260, Math.round(mean));
+        rollup.restingHeartRate = Math.min(260, Math.round(lowest.reduce((sum, value) => sum + value, 0) / lowest.length));
+    }
+
+    return rollup;
+}
+
+/** Groups samples by the "YYYY-MM-DD" local day of their `start` in `timeZone`. */
+export function groupSamplesByDay<T extends RollupSample>(samples: T[], timeZone: string): Map<string, T[]> {
+    const byDay = new Map<string, T[]>();
+    for (const sample of samples) {
+        const key = getZonedDayKey(sample.start, timeZone);
+        const bucket = byDay.get(key) ?? [];
+        bucket.push(sample);
+        byDay.set(key, bucket);
+    }
+    return byDay;
+}
+
+// UTC range that covers every instant of the local days `first`..`last` in any zone.
+function localDaysWindow(first: Date, last: Date): { $gte: Date; $lt: Date } {
+    return {
+        $gte: new Date(first.getTime() - MAX_UTC_OFFSET_MS),
+        $lt: new Date(shiftUtcDays(last, 1).getTime() + MAX_UTC_OFFSET_MS),
+    };
+}
+
+export function buildHourlySeries(samples: RollupSample[], timeZone = 'UTC'): IntradayHourDto[] {
+    const hours: IntradayHourDto[] = Array.from({ length: 24 }, (_, hour) => ({
+        hour,
+        steps: 0,
+        activeMinutes: 0,
+        waterLitres: 0,
+        heartRateAvg: null,
+        heartRateMin: null,
+        heartRateMax: null,
+    }));
+    const heartRateTotals = Array.from({ length: 24 }, () => ({ sum: 0, count: 0 }));
+
+    for (const sample of samples) {
+        const hour = getZonedHour(sample.start, timeZone);
+        const bucket = hours[hour];
+        if (sample.metric === 'steps') bucket.steps += sample.value;
+        else if (sample.metric === 'active_minutes') bucket.activeMinutes += sample.value;
+        else if (sample.metric === 'water') bucket.waterLitres += sample.value;
+        else if (sample.metric === 'heart_rate') {
+            heartRateTotals[hour].sum += sample.value;
+            heartRateTotals[hour].count += 1;
+            bucket.heartRateMin = bucket.heartRateMin === null ? sample.value : Math.min(bucket.heartRateMin, sample.value);
+            bucket.heartRateMax = bucket.heartRateMax === null ? sample.value : Math.max(bucket.heartRateMax, sample.value);
+        }
+    }
+
+    hours.forEach((bucket, hour) => {
+        const totals = heartRateTotals[hour];
+        bucket.steps = Math.round(bucket.steps);
+        bucket.activeMinutes = Math.round(bucket.activeMinutes);
+        bucket.waterLitres = round(bucket.waterLitres, 2);
+        bucket.heartRateAvg = totals.count > 0 ? Math.round(totals.sum / totals.count) : null;
+    });
+    return hours;
+}
+
+/**
+ * Recomputes the `HealthEntry` aggregates for the given local days (UTC midnight day keys)
+ * from the stored samples that fall on them in `timeZone`.
+ */
+export async function rollupHealthDays(userId: string, days: Date[], timeZone: string): Promise<DailyRollupDto[]> {
+    const dayStarts = [...new Map(days.map((day) => {
+        const start = toUtcDayStart(day);
+        return [start.getTime(), start];
+    })).values()].sort((a, b) => a.getTime() - b.getTime());
+    if (dayStarts.length === 0) return [];
+
+    const ownerId = new mongoose.Types.ObjectId(userId);
+    const [samples, existing] = await Promise.all([
+        HealthSample.find({
+            userId: ownerId,
+            start: localDaysWindow(dayStarts[0], dayStarts[dayStarts.length - 1]),
+        }).select('metric start end value').lean(),
+        HealthEntry.find({ userId: ownerId, date: { $in: dayStarts } }).lean(),
+    ]);
+
+    const samplesByDay = groupSamplesByDay(samples, timeZone);
+    const sourceByDay = new Map(existing.map((entry) => [getUtcDayKey(entry.date), entry.source ?? null]));
+
+    const results: DailyRollupDto[] = [];
+    const writes: Array<{ date: Date; rollup: DayRollup }> = [];
+    for (const date of dayStarts) {
+        const key = getUtcDayKey(date);
+        const rollup = rollupDaySamples(samplesByDay.get(key) ?? []);
+        if (Object.keys(rollup).length === 0) continue;
+
+        if (sourceByDay.get(key) === DAILY_LOG_SOURCE) {
+            results.push({ date: key, status: 'skipped_daily_log', ...rollup });
+            continue;
+        }
+        results.push({ date: key, status: sourceByDay.has(key) ? 'updated' : 'created', ...rollup });
+        writes.push({ date, rollup });
+    }
+
+    if (writes.length > 0) {
+        await HealthEntry.bulkWrite(
+            writes.map(({ date, rollup }) => ({
+                updateOne: {
+                    filter: { userId: ownerId, date, source: { $ne: DAILY_LOG_SOURCE } },
+                    update: {
+                        $set: { ...rollup, source: DEVICE_SOURCE },
+                        $setOnInsert: { userId: ownerId, date },
+                    },
+                    upsert: true,
+                },
+            })),
+            { ordered: false }
+        ).catch((error: { code?: number }) => {
+            // A Daily Log save raced this rollup; the manual entry wins.
+            if (error?.code !== 11000) throw error;
+        });
+        const written = await HealthEntry.find({ userId: ownerId, date: { $in: writes.map((write) => write.date) } }).lean();
+        await recordImportRevisions(userId, 'health', DEVICE_SOURCE, existing, written);
+    }
+
+    return results;
+}
+
+export async function ingestHealthSamples(userId: string, samples: SampleInput[]): Promise<SampleIngestResultDto> {
+    const ownerId = new mongoose.Types.ObjectId(userId);
+    const result = samples.length > 0
+        ? await HealthSample.bulkWrite(
+            samples.map((sample) => ({
+                updateOne: {
+                    filter: { userId: ownerId, metric: sample.metric, start: sample.start },
+                    update: {
+                        $set: {
+                            end: sample.end ?? sample.start,
+                            value: sample.value,
+                            ...(sample.sourceName ? { sourceName: sample.sourceName } : {}),
+                        },
+                        $setOnInsert: { userId: ownerId, metric: sample.metric, start: sample.start },
+                    },
+                    upsert: true,
+                },
+            })),
+            { ordered: false }
+        )
+        : null;
+
+    const timeZone = await loadUserTimeZone(userId);
+    const days = await rollupHealthDays(userId, samples.map((sample) => toZonedDayStart(sample.start, timeZone)), timeZone);
+    return {
+        received: samples.length,
+        inserted: result?.upsertedCount ?? 0,
+        replaced: result?.modifiedCount ?? 0,
+        days,
+    };
+}
+
+/** Samples of one local day (`date` as a UTC midnight day key) in the user's time zone. */
+export async function loadIntradayDay(userId: string, date: Date, metric?: SampleMetric): Promise<IntradayDayDto> {
+    const start = toUtcDayStart(date);
+    const timeZone = await loadUserTimeZone(userId);
+    const candidates = await HealthSample.find({
+        userId,
+        start: localDaysWindow(start, start),
+        ...(metric ? { metric } : {}),
+    }).select('metric start end value sourceName').sort({ start: 1 }).lean();
+    const samples = groupSamplesByDay(candidates, timeZone).get(getUtcDayKey(start)) ?? [];
+
+    return {
+        date: getUtcDayKey(start),
+        samples: samples.map((sample): HealthSampleDto => ({
+            metric: sample.metric,
+            start: sample.start.toISOString(),
+            end: sample.end.toISOString(),
+            value: sample.value,
+            ...(sample.sourceName ? { sourceName: sample.sourceName } : {}),
+        })),
+        hourly: buildHourlySeries(samples, timeZone),
+        rollup: rollupDaySamples(samples),
+    };
+}
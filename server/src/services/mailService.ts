@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import OutboxEmail from '../models/OutboxEmail';
+
+/**
+ * Outgoing mail behind a small transport interface. `MAIL_TRANSPORT` picks the transport:
+ * `outbox` (default) stores messages in the `outboxemails` collection and `file` appends
+ * them as JSON lines to `MAIL_OUTBOX_FILE`. A real provider plugs in through
+ * `setMailTransport` without touching the code that sends mail.
+ */
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    template: string;
+}
+
+export interface MailTransport {
+    name: string;
+    send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_OUTBOX_FILE = 'mail-outbox.jsonl';
+
+export const outboxTransport: MailTransport = {
+    name: 'outbox',
+    async send(message) {
+        await OutboxEmail.create(message);
+    },
+};
+
+export function createFileTransport(filePath: string): MailTransport {
+    return {
+        name: 'file',
+        async send(message) {
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            const line = JSON.stringify({ ...message, createdAt: new Date().toISOString() });
+            await fs.appendFile(filePath, `${line}\n`, 'utf8');
+        },
+    };
+}
+
+function transportFromEnv(): MailTransport {
+    const configured = (process.env.MAIL_TRANSPORT || 'outbox').trim().toLowerCase();
+    if (configured === 'file') {
+        return createFileTransport(path.resolve(process.env.MAIL_OUTBOX_FILE || DEFAULT_OUTBOX_FILE));
+    }
+    if (configured !== 'outbox') {
+        console.warn(`Unknown MAIL_TRANSPORT "${configured}", using the outbox collection`);
+    }
+    return outboxTransport;
+}
+
+let activeTransport: MailTransport | null = null;
+
+export function setMailTransport(transport: MailTransport | null): void {
+    activeTransport = transport;
+}
+
+export function getMailTransport(): MailTransport {
+    if (!activeTransport) activeTransport = transportFromEnv();
+    return activeTransport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+    await getMailTransport().send(message);
+}
@@ -0,0 +1,63 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { compareNextDayEnergy, mealDay, mealInputSchema, normalizeMealTag, resolveMealTags } from './mealService';
+
+test('normalizeMealTag folds spacing, case and punctuation', () => {
+    assert.equal(normalizeMealTag('High Sugar'), 'high_sugar');
+    assert.equal(normalizeMealTag('  late-meal! '), 'late_meal');
+    assert.equal(normalizeMealTag('__Spicy   food__'), 'spicy_food');
+});
+
+test('resolveMealTags derives late_meal and high_sugar from local time and sugar', () => {
+    // 03:30 UTC is 22:30 the previous evening at UTC-5.
+    const input = mealInputSchema.parse({
+        mealType: 'snack',
+        eatenAt: '2026-03-02T03:30:00.000Z',
+        utcOffsetMinutes: -300,
+        description: 'Ice cream',
+        macros: { sugarG: 30 },
+        tags: ['Dessert', 'dessert'],
+    });
+
+    assert.deepEqual(resolveMealTags(input), ['dessert', 'late_meal', 'high_sugar']);
+    assert.equal(mealDay(input.eatenAt, input.utcOffsetMinutes).toISOString(), '2026-03-01T00:00:00.000Z');
+    assert.deepEqual(resolveMealTags({ eatenAt: new Date('2026-03-02T12:00:00.000Z'), macros: { sugarG: 10 } }), []);
+});
+
+test('compareNextDayEnergy compares tagged days with untagged meal days', () => {
+    const day = (key: string) => new Date(`${key}T00:00:00.000Z`);
+    const meals = [
+        { date: day('2026-03-01'), tags: ['high_sugar'] },
+        { date: day('2026-03-01'), tags: ['home_cooked'] },
+        { date: day('2026-03-02'), tags: ['home_cooked'] },
+        { date: day('2026-03-03'), tags: ['high_sugar', 'late_meal'] },
+        { date: day('2026-03-04'), tags: ['home_cooked'] },
+        { date: day('2026-03-06'), tags: ['high_sugar'] }, // No mood on Mar 7: ignored
+    ];
+    const moods = [
+        { date: day('2026-03-02'), energyLevel: 5 },
+        { date: day('2026-03-03'), energyLevel: 8 },
+        { date: day('2026-03-04'), energyLevel: 4 },
+        { date: day('2026-03-05'), energyLevel: 9 },
+    ];
+
+    const result = compareNextDayEnergy(meals, moods, 30);
+    assert.equal(result.matchedDays, 4);
+    assert.equal(result.overallNextDayEnergy, 6.5);
+
+    const sugar = result.tags.find((item) => item.tag === 'high_sugar');
+    assert.deepEqual(sugar, {
+        tag: 'high_sugar',
+        days: 2,
+        avgNextDayEnergy: 4.5,
+        baselineDays: 2,
+        baselineEnergy: 8.5,
+        delta: -4,
+        enoughData: false,
+    });
+
+    const homeCooked = result.tags.find((item) => item.tag === 'home_cooked');
+    assert.equal(homeCooked?.days, 3);
+    assert.equal(homeCooked?.baselineEnergy, 4);
+    assert.equal(result.tags[0].tag, 'home_cooked');
+});
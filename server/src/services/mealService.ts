@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import { IMealMacros, MEAL_TYPES, MealType } from '../models/Meal';
+import { MealEnergyImpactDto, MealTagEnergyDto } from '../contracts/api';
+import { getUtcDayKey, shiftUtcDays, toUtcDayStart } from '../lib/dateUtils';
+import { localClockMinutes } from './sleepSessionService';
+
+/**
+ * Meal log: what was eaten, when, optional macros and free-form tags ("high sugar",
+ * "late meal", …), plus the next-day energy comparison used by Analytics.
+ *
+ * Tags are normalised to snake_case so "High Sugar" and "high-sugar" count as one tag.
+ * `late_meal` and `high_sugar` are also derived from the eating time and sugar grams, so
+ * the comparison works even when the user forgets to tag.
+ */
+
+const MAX_TAGS = 10;
+const LATE_MEAL_START_MINUTES = 21 * 60;
+const LATE_MEAL_END_MINUTES = 4 * 60;
+const HIGH_SUGAR_GRAMS = 25;
+// Tags need this many days on each side before a difference is worth showing.
+const MIN_COMPARISON_DAYS = 3;
+
+export function normalizeMealTag(tag: string): string {
+    return tag
+        .trim()
+        .toLowerCase()
+        .replace(/[\s-]+/g, '_')
+        .replace(/[^a-z0-9_]/g, '')
+        .replace(/_+/g, '_')
+        .replace(/^_|_$/g, '')
+        .slice(0, 32);
+}
+
+const macroSchema = (max: number) => z.coerce.number().min(0).max(max).optional();
+
+const mealFieldsSchema = z.object({
+    mealType: z.enum(MEAL_TYPES as [MealType, ...MealType[]]),
+    eatenAt: z.coerce.date().refine((value) => !Number.isNaN(value.getTime()), 'Invalid date'),
+    utcOffsetMinutes: z.coerce.number().int().min(-840).max(840),
+    description: z.string().trim().min(1, 'Describe the meal').max(500),
+    macros: z.object({
+        calories: macroSchema(10000),
+        proteinG: macroSchema(1000),
+        carbsG: macroSchema(1000),
+        fatG: macroSchema(1000),
+        sugarG: macroSchema(1000),
+    }).optional(),
+    tags: z.array(z.string().max(40)).max(MAX_TAGS).optional(),
+});
+
+export const mealInputSchema = mealFieldsSchema.extend({
+    utcOffsetMinutes: mealFieldsSchema.shape.utcOffsetMinutes.default(0),
+});
+
+// No defaults here: an omitted field keeps its stored value.
+export const mealUpdateSchema = mealFieldsSchema.partial().refine(
+    (value) => Object.keys(value).length > 0,
+    'Provide at least one field to update'
+);
+
+export type MealInput = z.infer<typeof mealInputSchema>;
+export type MealUpdate = z.infer<typeof mealUpdateSchema>;
+
+export interface MealTagInput {
+    eatenAt: Date;
+    utcOffsetMinutes?: number;
+    macros?: IMealMacros;
+    tags?: string[];
+}
+
+export function mealDay(eatenAt: Date, utcOffsetMinutes = 0): Date {
+    return toUtcDayStart(new Date(eatenAt.getTime() + utcOffsetMinutes * 60000));
+}
+
+/** User tags (normalised, de-duplicated) plus the tags implied by time and sugar. */
+export function resolveMealTags(meal: MealTagInput): string[] {
+    const tags = new Set((meal.tags ?? []).map(normalizeMealTag).filter((tag) => tag.length > 0));
+
+    const clock = localClockMinutes(meal.eatenAt, meal.utcOffsetMinutes ?? 0);
+    if (clock >= LATE_MEAL_START_MINUTES || clock < LATE_MEAL_END_MINUTES) tags.add('late_meal');
+    if ((meal.macros?.sugarG ?? 0) >= HIGH_SUGAR_GRAMS) tags.add('high_sugar');
+
+    return [...tags].slice(0, MAX_TAGS);
+}
+
+function round(value: number, digits: number): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+function meanOrNull(values: number[]): number | null {
+    return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length, 1) : null;
+}
+
+/**
+ * For each tag, compares the average `energyLevel` logged the day *after* a tagged meal
+ * with the day after meal-logged days without that tag. Only days that have both meals
+ * and a next-day mood entry take part.
+ */
+export function compareNextDayEnergy(
+    meals: Array<{ date: Date; tags: string[] }>,
+    moods: Array<{ date: Date; energyLevel: number }>,
+    days: number
+): MealEnergyImpactDto {
+    const energyByDay = new Map(moods.map((mood) => [getUtcDayKey(mood.date), mood.energyLevel]));
+
+    const tagsByDay = new Map<string, Set<string>>();
+    meals.forEach((meal) => {
+        const key = getUtcDayKey(meal.date);
+        const tags = tagsByDay.get(key) ?? new Set<string>();
+        meal.tags.forEach((tag) => tags.add(tag));
+        tagsByDay.set(key, tags);
+    });
+
+    const matched: Array<{ tags: Set<string>; nextDayEnergy: number }> = [];
+    tagsByDay.forEach((tags, key) => {
+        const nextDayEnergy = energyByDay.get(getUtcDayKey(shiftUtcDays(toUtcDayStart(key), 1)));
+        if (nextDayEnergy !== undefined) matched.push({ tags, nextDayEnergy });
+    });
+
+    const allTags = new Set<string>();
+    matched.forEach((day) => day.tags.forEach((tag) => allTags.add(tag)));
+
+    const tags: MealTagEnergyDto[] = [...allTags].map((tag) => {
+        const withTag = matched.filter((day) => day.tags.has(tag)).map((day) => day.nextDayEnergy);
+        const withoutTag = matched.filter((day) => !day.tags.has(tag)).map((day) => day.nextDayEnergy);
+        const avgNextDayEnergy = meanOrNull(withTag) ?? 0;
+        const baselineEnergy = meanOrNull(withoutTag);
+        return {
+            tag,
+            days: withTag.length,
+            avgNextDayEnergy,
+            baselineDays: withoutTag.length,
+            baselineEnergy,
+            delta: baselineEnergy === null ? null : round(avgNextDayEnergy - baselineEnergy, 1),
+            enoughData: withTag.length >= MIN_COMPARISON_DAYS && withoutTag.length >= MIN_COMPARISON_DAYS,
+        };
+    });
+    tags.sort((a, b) => b.days - a.days || a.tag.localeCompare(b.tag));
+
+    return {
+        days,
+        matchedDays: matched.length,
+        overallNextDayEnergy: meanOrNull(matched.map((day) => day.nextDayEnergy)),
+        tags,
+    };
+}
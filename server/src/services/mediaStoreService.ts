@@ -23,7 +23,7 @@ function sanitizeExtension(ext: string): string {
     return ext.replace(/[^a-z0-9]/gi, '').toLowerCase();
 }
 
-function extensionFromMimeType(mimeType: string): string {
+export function extensionFromMimeType(mimeType: string): string {
     const normalized = mimeType.trim().toLowerCase();
     if (normalized === 'image/png') return 'png';
     if (normalized === 'image/jpeg' || normalized === 'image/jpg') return 'jpg';
@@ -80,14 +80,19 @@ export function fileIdFromMediaRef(mediaRef: string): string | null {
     return fileId;
 }
 
-export function buildMediaUrl(req: express.Request, fileId: string): string {
+/** Absolute URL of an API path as the client reached this server (honours proxy headers). */
+export function buildApiUrl(req: express.Request, path: string): string {
     const protocol = normalizeProto(req.headers['x-forwarded-proto'], req.protocol || 'http');
     const host = req.get('host');
     if (host && host.trim().length > 0) {
-        return `${protocol}://${host}/api/media/${fileId}`;
+        return `${protocol}://${host}${path}`;
     }
     const port = process.env.PORT || '4000';
-    return `http://localhost:${port}/api/media/${fileId}`;
+    return `http://localhost:${port}${path}`;
+}
+
+export function buildMediaUrl(req: express.Request, fileId: string): string {
+    return buildApiUrl(req, `/api/media/${fileId}`);
 }
 
 export function resolveMediaUrlForClient(
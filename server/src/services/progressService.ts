@@ -0,0 +1,11 @@
+import { syncAchievements } from './achievementService';
+import { syncChallenges } from './challengeService';
+
+/**
+ * Progress derived from every kind of entry: achievements and weekly challenges. Call after
+ * any entry or goal write. Each part logs its own failures, so this never throws.
+ */
+export async function syncProgress(userId: string): Promise<void> {
+    await syncAchievements(userId);
+    await syncChallenges(userId);
+}
@@ -0,0 +1,84 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    clearFailedAttemptsMatching,
+    createMemoryRateLimitStore,
+    getLockoutRemainingMs,
+    LOGIN_LOCKOUT_MS,
+    LOGIN_MAX_ATTEMPTS,
+    recordFailedAttempt,
+    recordFailedAttemptFrom,
+    setRateLimitStore,
+} from './rateLimitService';
+
+test('a counter window starts at the first hit and restarts once it ends', async () => {
+    const store = createMemoryRateLimitStore();
+    const start = new Date('2026-03-01T10:00:00Z');
+
+    const first = await store.increment('api:ip:1.2.3.4', 60_000, start);
+    const second = await store.increment('api:ip:1.2.3.4', 60_000, new Date(start.getTime() + 59_000));
+    assert.deepEqual([first.count, second.count], [1, 2]);
+    assert.equal(second.resetAt.toISOString(), '2026-03-01T10:01:00.000Z');
+
+    const later = await store.increment('api:ip:1.2.3.4', 60_000, new Date(start.getTime() + 60_000));
+    assert.equal(later.count, 1);
+    assert.equal(later.resetAt.toISOString(), '2026-03-01T10:02:00.000Z');
+    assert.equal((await store.increment('api:ip:5.6.7.8', 60_000, start)).count, 1);
+});
+
+test('failed attempts lock the key at the limit, then the lock lapses', async () => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    try {
+        const now = new Date('2026-03-01T10:00:00Z');
+        const key = 'login:amira@example.com::1.2.3.4';
+        for (let attempt = 1; attempt < LOGIN_MAX_ATTEMPTS; attempt += 1) {
+            assert.equal(await recordFailedAttempt(key, now), 0);
+        }
+        assert.equal(await getLockoutRemainingMs(key, now), 0);
+
+        assert.equal(await recordFailedAttempt(key, now), LOGIN_LOCKOUT_MS);
+        assert.equal(await getLockoutRemainingMs(key, new Date(now.getTime() + 60_000)), LOGIN_LOCKOUT_MS - 60_000);
+        assert.equal(await getLockoutRemainingMs(key, new Date(now.getTime() + LOGIN_LOCKOUT_MS)), 0);
+        // The counter restarted with the lock, so the next failure does not lock again
+        assert.equal(await recordFailedAttempt(key, new Date(now.getTime() + LOGIN_LOCKOUT_MS)), 0);
+
+        // A wider budget takes its own limit
+        assert.equal(await recordFailedAttempt('login-email:amira@example.com', now, 2), 0);
+        assert.equal(await recordFailedAttempt('login-email:amira@example.com', now, 2), LOGIN_LOCKOUT_MS);
+    } finally {
+        setRateLimitStore(null);
+    }
+});
+
+test('clearing by prefix unlocks every IP for one email only', async () => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    try {
+        const now = new Date('2026-03-01T10:00:00Z');
+        const keys = ['login:amira@example.com::1.1.1.1', 'login:amira@example.com::2.2.2.2', 'login:omar@example.com::1.1.1.1'];
+        for (const key of keys) {
+            for (let attempt = 0; attempt < LOGIN_MAX_ATTEMPTS; attempt += 1) await recordFailedAttempt(key, now);
+        }
+
+        await clearFailedAttemptsMatching('login:amira@example.com::');
+        const remaining = await Promise.all(keys.map((key) => getLockoutRemainingMs(key, now)));
+        assert.deepEqual(remaining, [0, 0, LOGIN_LOCKOUT_MS]);
+    } finally {
+        setRateLimitStore(null);
+    }
+});
+
+test('a per-source budget only counts each source once per window', async () => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    try {
+        const now = new Date('2026-03-01T10:00:00Z');
+        const key = 'login-email:amira@example.com';
+        for (let attempt = 0; attempt < 10; attempt += 1) {
+            assert.equal(await recordFailedAttemptFrom(key, '1.1.1.1', now, 2), 0);
+        }
+        assert.equal(await getLockoutRemainingMs(key, now), 0);
+
+        assert.equal(await recordFailedAttemptFrom(key, '2.2.2.2', now, 2), LOGIN_LOCKOUT_MS);
+    } finally {
+        setRateLimitStore(null);
+    }
+});
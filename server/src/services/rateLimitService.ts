@@ -0,0 +1,195 @@
+import RateLimitCounter from '../models/RateLimitCounter';
+
+/**
+ * Request budgets and failed-attempt lockouts kept in a shared store, so limits hold across
+ * restarts and server instances. `RATE_LIMIT_STORE` picks the store: `mongo` (default) keeps
+ * counters in the `ratelimitcounters` collection and `memory` keeps them in this process,
+ * which suits a single instance or tests. Each counter's window starts at its first hit.
+ */
+
+export interface RateLimitCounterState {
+    count: number;
+    resetAt: Date;
+}
+
+export interface RateLimitStore {
+    name: string;
+    /** Counts one hit, starting a new window of `windowMs` if the last one has ended. */
+    increment(key: string, windowMs: number, now: Date): Promise<RateLimitCounterState>;
+    get(key: string, now: Date): Promise<RateLimitCounterState | null>;
+    set(key: string, state: RateLimitCounterState): Promise<void>;
+    reset(key: string): Promise<void>;
+    resetPrefix(prefix: string): Promise<void>;
+}
+
+export interface RateLimitBudget {
+    name: string;               // Key namespace, also reported in RateLimit-Policy
+    max: number;
+    windowMs: number;
+    by: 'ip' | 'user';          // `user` falls back to the IP on unauthenticated requests
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const RATE_LIMITS = {
+    api: { name: 'api', max: 600, windowMs: 15 * MINUTE_MS, by: 'ip' },
+    auth: { name: 'auth', max: 30, windowMs: 15 * MINUTE_MS, by: 'ip' },
+    accountEmail: { name: 'account-email', max: 5, windowMs: 60 * MINUTE_MS, by: 'ip' },
+    aiWeeklyAnalysis: { name: 'ai-weekly-analysis', max: 10, windowMs: 60 * MINUTE_MS, by: 'user' },
+    avatarSetup: { name: 'avatar-setup', max: 5, windowMs: 60 * MINUTE_MS, by: 'user' },
+} satisfies Record<string, RateLimitBudget>;
+
+export const LOGIN_WINDOW_MS = 15 * MINUTE_MS;
+export const LOGIN_LOCKOUT_MS = 10 * MINUTE_MS;
+export const LOGIN_MAX_ATTEMPTS = 5;
+// Distinct IPs failing for one email; catches guessing spread across many addresses
+// without letting one IP lock the account for everyone else.
+export const LOGIN_EMAIL_MAX_IPS = 20;
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export const mongoRateLimitStore: RateLimitStore = {
+    name: 'mongo',
+    async increment(key, windowMs, now) {
+        const nextResetAt = new Date(now.getTime() + windowMs);
+        const windowOpen = { $gt: ['$resetAt', now] };
+        const update = [{
+            $set: {
+                count: { $cond: [windowOpen, { $add: ['$count', 1] }, 1] },
+                resetAt: { $cond: [windowOpen, '$resetAt', nextResetAt] },
+            },
+        }];
+        const run = () => RateLimitCounter.findOneAndUpdate({ key }, update, { upsert: true, new: true }).lean();
+        let counter;
+        try {
+            counter = await run();
+        } catch (error: unknown) {
+            // Two first hits raced to insert the same key; the loser retries as an update.
+            if ((error as { code?: number })?.code !== 11000) throw error;
+            counter = await run();
+        }
+        if (!counter) throw new Error('Rate limit counter was not saved');
+        return { count: counter.count, resetAt: counter.resetAt };
+    },
+    async get(key, now) {
+        const counter = await RateLimitCounter.findOne({ key, resetAt: { $gt: now } }).lean();
+        return counter ? { count: counter.count, resetAt: counter.resetAt } : null;
+    },
+    async set(key, state) {
+        await RateLimitCounter.updateOne({ key }, { $set: state }, { upsert: true });
+    },
+    async reset(key) {
+        await RateLimitCounter.deleteOne({ key });
+    },
+    async resetPrefix(prefix) {
+        await RateLimitCounter.deleteMany({ key: { $regex: `^${escapeRegex(prefix)}` } });
+    },
+};
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+    const counters = new Map<string, RateLimitCounterState>();
+    let lastSweepMs = 0;
+
+    function sweep(nowMs: number): void {
+        if (nowMs - lastSweepMs < MINUTE_MS) return;
+        lastSweepMs = nowMs;
+        for (const [key, state] of counters.entries()) {
+            if (state.resetAt.getTime() <= nowMs) counters.delete(key);
+        }
+    }
+
+    return {
+        name: 'memory',
+        async increment(key, windowMs, now) {
+            sweep(now.getTime());
+            const existing = counters.get(key);
+            const next = existing && existing.resetAt > now
+                ? { count: existing.count + 1, resetAt: existing.resetAt }
+                : { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+            counters.set(key, next);
+            return { ...next };
+        },
+        async get(key, now) {
+            const existing = counters.get(key);
+            return existing && existing.resetAt > now ? { ...existing } : null;
+        },
+        async set(key, state) {
+            counters.set(key, { ...state });
+        },
+        async reset(key) {
+            counters.delete(key);
+        },
+        async resetPrefix(prefix) {
+            for (const key of counters.keys()) {
+                if (key.startsWith(prefix)) counters.delete(key);
+            }
+        },
+    };
+}
+
+function storeFromEnv(): RateLimitStore {
+    const configured = (process.env.RATE_LIMIT_STORE || 'mongo').trim().toLowerCase();
+    if (configured === 'memory') return createMemoryRateLimitStore();
+    if (configured !== 'mongo') {
+        console.warn(`Unknown RATE_LIMIT_STORE "${configured}", using MongoDB`);
+    }
+    return mongoRateLimitStore;
+}
+
+let activeStore: RateLimitStore | null = null;
+
+export function setRateLimitStore(store: RateLimitStore | null): void {
+    activeStore = store;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+    if (!activeStore) activeStore = storeFromEnv();
+    return activeStore;
+}
+
+/** Milliseconds left on the lockout for `key` (e.g. `login:<email>::<ip>`), or 0. */
+export async function getLockoutRemainingMs(key: string, now = new Date()): Promise<number> {
+    const lock = await getRateLimitStore().get(`lock:${key}`, now);
+    return lock ? Math.max(0, lock.resetAt.getTime() - now.getTime()) : 0;
+}
+
+/**
+ * Counts a failure; the `maxAttempts`-th within LOGIN_WINDOW_MS locks `key` for
+ * LOGIN_LOCKOUT_MS. Returns the lockout left, 0 while still under the limit.
+ */
+export async function recordFailedAttempt(key: string, now = new Date(), maxAttempts = LOGIN_MAX_ATTEMPTS): Promise<number> {
+    const store = getRateLimitStore();
+    const failures = await store.increment(`fail:${key}`, LOGIN_WINDOW_MS, now);
+    if (failures.count < maxAttempts) return 0;
+
+    await store.set(`lock:${key}`, { count: failures.count, resetAt: new Date(now.getTime() + LOGIN_LOCKOUT_MS) });
+    await store.reset(`fail:${key}`);
+    return LOGIN_LOCKOUT_MS;
+}
+
+/**
+ * Like `recordFailedAttempt`, but only the first failure from each `source` within
+ * LOGIN_WINDOW_MS counts, so the limit is a number of distinct sources.
+ */
+export async function recordFailedAttemptFrom(
+    key: string,
+    source: string,
+    now = new Date(),
+    maxSources = LOGIN_MAX_ATTEMPTS
+): Promise<number> {
+    const seen = await getRateLimitStore().increment(`fail:${key}::from:${source}`, LOGIN_WINDOW_MS, now);
+    return seen.count === 1 ? recordFailedAttempt(key, now, maxSources) : 0;
+}
+
+export async function clearFailedAttempts(key: string): Promise<void> {
+    const store = getRateLimitStore();
+    await Promise.all([store.reset(`fail:${key}`), store.reset(`lock:${key}`)]);
+}
+
+/** Forgets failures and lockouts for every key starting with `prefix`, e.g. all IPs for one email. */
+export async function clearFailedAttemptsMatching(prefix: string): Promise<void> {
+    const store = getRateLimitStore();
+    await Promise.all([store.resetPrefix(`fail:${prefix}`), store.resetPrefix(`lock:${prefix}`)]);
+}
@@ -0,0 +1,59 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildRestoreUpdate, buildRevision, diffSnapshots, snapshotEntry } from './revisionService';
+
+const date = new Date('2026-03-10T00:00:00.000Z');
+const base = { _id: 'entry-1', userId: 'user-1', date };
+
+test('diffSnapshots lists only the editable fields that changed', () => {
+    const before = snapshotEntry('health', { ...base, steps: 4000, sleepHours: 7, workoutMinutes: 30, source: 'health_api' });
+    const after = snapshotEntry('health', { ...base, steps: 9000, sleepHours: 7, notes: 'Long walk', workoutMinutes: 45, source: 'daily_log' });
+
+    assert.deepEqual(diffSnapshots('health', before, after), [
+        { field: 'steps', from: 4000, to: 9000 },
+        { field: 'notes', from: null, to: 'Long walk' },
+    ]);
+    assert.equal(after?.source, 'daily_log');
+    assert.equal(after && 'workoutMinutes' in after, false);
+});
+
+test('buildRevision skips saves that change nothing but always records a new entry', () => {
+    const entry = { ...base, mood: 'calm', energyLevel: 6, stressLevel: 3 };
+    assert.equal(buildRevision({ userId: 'user-1', entryType: 'mood', source: 'mood_api', before: entry, after: { ...entry } }), null);
+
+    const created = buildRevision({ userId: 'user-1', entryType: 'mood', source: 'daily_log', batchId: 'batch-1', before: null, after: entry });
+    assert.ok(created);
+    assert.equal(created.before, null);
+    assert.equal(created.changedBy, 'user-1');
+    assert.equal(created.batchId, 'batch-1');
+    assert.equal(created.sleepSessionId, null);
+
+    const previousSleep = { _id: 'sleep-1', date, durationHours: 6.5 };
+    const withSleep = buildRevision({
+        userId: 'user-1', entryType: 'mood', source: 'daily_log', batchId: 'batch-1', before: null, after: entry,
+        sleep: { sessionId: 'sleep-1', before: previousSleep },
+    });
+    assert.equal(withSleep?.sleepSessionId, 'sleep-1');
+    assert.equal(withSleep?.sleepBefore, previousSleep);
+
+    const sleepOnly = buildRevision({
+        userId: 'user-1', entryType: 'mood', source: 'daily_log', batchId: 'batch-2', before: entry, after: { ...entry },
+        sleep: { sessionId: 'sleep-1', before: previousSleep },
+    });
+    assert.deepEqual(sleepOnly?.changes, []);
+    assert.equal(sleepOnly?.sleepSessionId, 'sleep-1');
+    assert.deepEqual(created.changes, [
+        { field: 'mood', from: null, to: 'calm' },
+        { field: 'energyLevel', from: null, to: 6 },
+        { field: 'stressLevel', from: null, to: 3 },
+    ]);
+});
+
+test('buildRestoreUpdate sets recorded values and unsets fields that were empty', () => {
+    const snapshot = snapshotEntry('health', { ...base, steps: 4000, sleepHours: 7, waterLitres: 2, heartRate: 60, energyScore: null, source: 'health_api' });
+    assert.ok(snapshot);
+    assert.deepEqual(buildRestoreUpdate('health', snapshot), {
+        $set: { steps: 4000, sleepHours: 7, waterLitres: 2, heartRate: 60, source: 'health_api' },
+        $unset: { activeMinutes: '', energyScore: '', weight: '', notes: '' },
+    });
+});
@@ -0,0 +1,332 @@
+import crypto from 'crypto';
+import mongoose, { ClientSession } from 'mongoose';
+import { z } from 'zod';
+import EntryRevision, {
+    EntrySnapshot,
+    IEntryRevision,
+    IRevisionChange,
+    RevisionEntryType,
+    RevisionSource,
+} from '../models/EntryRevision';
+import HealthEntry from '../models/HealthEntry';
+import MoodEntry from '../models/MoodEntry';
+import SleepSession from '../models/SleepSession';
+import { EntryRevisionDto } from '../contracts/api';
+import { getUtcDayKey } from '../lib/dateUtils';
+
+/**
+ * Revision log for health and mood entries. Every save that changes a user-editable field
+ * records which fields changed, the entry before and after, who made the change and where
+ * it came from. Restoring writes a revision's `before` snapshot back; undoing a Daily Log
+ * save does the same for every entry of that save, removes entries the save created and
+ * puts back the sleep session the save replaced.
+ */
+
+export const EDITABLE_FIELDS: Record<RevisionEntryType, readonly string[]> = {
+    health: ['steps', 'activeMinutes', 'sleepHours', 'waterLitres', 'heartRate', 'energyScore', 'weight', 'notes'],
+    mood: ['mood', 'energyLevel', 'stressLevel', 'notes'],
+};
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid id');
+
+export const revisionListQuerySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const revisionParamSchema = z.object({
+    id: objectIdSchema,
+    revisionId: objectIdSchema,
+});
+
+// `source` is kept so a restore also restores who owns the day (device imports skip Daily Log days).
+const SNAPSHOT_EXTRA_FIELDS = ['source'] as const;
+
+export type RevisionActionResult =
+    | { ok: true; dates: Date[] }
+    | { ok: false; status: 400 | 404 | 409; message: string };
+
+interface RevisableEntry {
+    _id: unknown;
+    userId: unknown;
+    date: Date;
+}
+
+export interface RevisionInput {
+    userId: string;
+    changedBy?: string;
+    entryType: RevisionEntryType;
+    source: RevisionSource;
+    batchId?: string | null;
+    before: RevisableEntry | null;
+    after: RevisableEntry | null;
+    sleep?: BatchSleepChange | null;
+}
+
+/** The sleep session a Daily Log save wrote, and the stored document it replaced. */
+export interface BatchSleepChange {
+    sessionId: unknown;
+    before: object | null;
+}
+
+function entryModel(entryType: RevisionEntryType): mongoose.Model<RevisableEntry> {
+    const model = entryType === 'health' ? HealthEntry : MoodEntry;
+    return model as unknown as mongoose.Model<RevisableEntry>;
+}
+
+function snapshotValue(value: unknown): string | number | null {
+    return typeof value === 'number' || typeof value === 'string' ? value : null;
+}
+
+export function snapshotEntry(entryType: RevisionEntryType, entry: object | null): EntrySnapshot | null {
+    if (!entry) return null;
+    const record = entry as Record<string, unknown>;
+    return Object.fromEntries(
+        [...EDITABLE_FIELDS[entryType], ...SNAPSHOT_EXTRA_FIELDS].map((field) => [field, snapshotValue(record[field])])
+    );
+}
+
+export function diffSnapshots(
+    entryType: RevisionEntryType,
+    before: EntrySnapshot | null,
+    after: EntrySnapshot | null
+): IRevisionChange[] {
+    return EDITABLE_FIELDS[entryType].flatMap((field) => {
+        const from = before?.[field] ?? null;
+        const to = after?.[field] ?? null;
+        return from === to ? [] : [{ field, from, to }];
+    });
+}
+
+/**
+ * The revision document for a save, or null when no editable field changed. A save that
+ * also wrote a sleep session is always recorded so undoing it can put the session back.
+ */
+export function buildRevision(input: RevisionInput): Record<string, unknown> | null {
+    const entry = input.after ?? input.before;
+    if (!entry) return null;
+    const before = snapshotEntry(input.entryType, input.before);
+    const after = snapshotEntry(input.entryType, input.after);
+    const changes = diffSnapshots(input.entryType, before, after);
+    // Creating or removing an entry is always a revision, even with default values.
+    if (changes.length === 0 && before && after && !input.sleep) return null;
+
+    return {
+        userId: input.userId,
+        changedBy: input.changedBy ?? input.userId,
+        entryType: input.entryType,
+        entryId: entry._id,
+        date: entry.date,
+        source: input.source,
+        batchId: input.batchId ?? null,
+        changes,
+        before,
+        after,
+        sleepSessionId: input.sleep?.sessionId ?? null,
+        sleepBefore: input.sleep?.before ?? null,
+    };
+}
+
+export function buildRestoreUpdate(entryType: RevisionEntryType, snapshot: EntrySnapshot): Record<string, unknown> {
+    const set: Record<string, unknown> = {};
+    const unset: Record<string, ''> = {};
+    for (const field of [...EDITABLE_FIELDS[entryType], ...SNAPSHOT_EXTRA_FIELDS]) {
+        const value = snapshot[field] ?? null;
+        if (value === null) unset[field] = '';
+        else set[field] = value;
+    }
+    return Object.keys(unset).length > 0 ? { $set: set, $unset: unset } : { $set: set };
+}
+
+export function newRevisionBatchId(): string {
+    return crypto.randomUUID();
+}
+
+export async function recordRevision(input: RevisionInput, session?: ClientSession): Promise<boolean> {
+    const revision = buildRevision(input);
+    if (!revision) return false;
+    await EntryRevision.create([revision], { session });
+    return true;
+}
+
+/** Records one revision per changed day for a bulk import, matching entries by day. */
+export async function recordImportRevisions(
+    userId: string,
+    entryType: RevisionEntryType,
+    source: RevisionSource,
+    beforeEntries: RevisableEntry[],
+    afterEntries: RevisableEntry[]
+): Promise<number> {
+    const beforeByDay = new Map(beforeEntries.map((entry) => [getUtcDayKey(entry.date), entry]));
+    const revisions = afterEntries.flatMap((after) => {
+        const revision = buildRevision({
+            userId,
+            entryType,
+            source,
+            before: beforeByDay.get(getUtcDayKey(after.date)) ?? null,
+            after,
+        });
+        return revision ? [revision] : [];
+    });
+    if (revisions.length > 0) await EntryRevision.insertMany(revisions, { ordered: false });
+    return revisions.length;
+}
+
+export function toEntryRevisionDto(revision: Pick<
+    IEntryRevision,
+    'entryType' | 'source' | 'batchId' | 'changes' | 'before' | 'after' | 'date' | 'createdAt'
+> & { _id: unknown; entryId: unknown; changedBy: unknown }): EntryRevisionDto {
+    return {
+        id: String(revision._id),
+        entryType: revision.entryType,
+        entryId: String(revision.entryId),
+        date: getUtcDayKey(revision.date),
+        source: revision.source,
+        changedBy: String(revision.changedBy),
+        batchId: revision.batchId ?? null,
+        changes: revision.changes.map((change) => ({ field: change.field, from: change.from ?? null, to: change.to ?? null })),
+        before: revision.before ?? null,
+        after: revision.after ?? null,
+        createdAt: revision.createdAt.toISOString(),
+    };
+}
+
+export async function loadEntryRevisions(
+    userId: string,
+    entryType: RevisionEntryType,
+    entryId: string,
+    limit: number
+): Promise<EntryRevisionDto[]> {
+    const revisions = await EntryRevision.find({ userId, entryType, entryId })
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit)
+        .lean();
+    return revisions.map(toEntryRevisionDto);
+}
+
+async function isLatestRevision(revision: IEntryRevision, session?: ClientSession): Promise<boolean> {
+    const latest = await EntryRevision.findOne({
+        userId: revision.userId,
+        entryType: revision.entryType,
+        entryId: revision.entryId,
+    }).sort({ createdAt: -1, _id: -1 }).select('_id').session(session ?? null);
+    return String(latest?._id) === String(revision._id);
+}
+
+/** Writes `snapshot` back to the entry (or removes it when null) and records that as a revision. */
+async function applySnapshot(
+    revision: IEntryRevision,
+    snapshot: EntrySnapshot | null,
+    source: RevisionSource,
+    changedBy: string,
+    session: ClientSession
+): Promise<boolean> {
+    const model = entryModel(revision.entryType);
+    const filter = { _id: revision.entryId, userId: revision.userId };
+    const before = await model.findOne(filter).session(session).lean();
+    if (!before) return false;
+
+    const after = snapshot
+        ? await model.findOneAndUpdate(filter, buildRestoreUpdate(revision.entryType, snapshot), {
+            new: true,
+            runValidators: true,
+            session,
+        }).lean()
+        : null;
+    if (!snapshot) await model.deleteOne(filter).session(session);
+
+    await recordRevision({
+        userId: String(revision.userId),
+        changedBy,
+        entryType: revision.entryType,
+        source,
+        before,
+        after,
+    }, session);
+    return true;
+}
+
+/** Puts an entry back the way it was before `revisionId`. */
+export async function restoreRevision(
+    userId: string,
+    entryType: RevisionEntryType,
+    entryId: string,
+    revisionId: string,
+    changedBy = userId
+): Promise<RevisionActionResult> {
+    const revision = await EntryRevision.findOne({ _id: revisionId, userId, entryType, entryId });
+    if (!revision) return { ok: false, status: 404, message: 'Revision not found' };
+    if (!revision.before) {
+        return { ok: false, status: 400, message: 'This revision created the entry; delete the entry instead' };
+    }
+    const snapshot = revision.before;
+
+    const session = await mongoose.startSession();
+    let restored = false;
+    try {
+        await session.withTransaction(async () => {
+            restored = await applySnapshot(revision, snapshot, 'restore', changedBy, session);
+        });
+    } finally {
+        await session.endSession();
+    }
+    return restored
+        ? { ok: true, dates: [revision.date] }
+        : { ok: false, status: 404, message: 'Entry not found' };
+}
+
+// The session the save wrote must still be there, unchanged since the save.
+async function isSleepUnchangedSince(revision: IEntryRevision, session: ClientSession): Promise<boolean> {
+    const current = await SleepSession.findOne({ _id: revision.sleepSessionId, userId: revision.userId })
+        .select('updatedAt')
+        .session(session)
+        .lean<{ updatedAt: Date } | null>();
+    return Boolean(current && current.updatedAt <= revision.createdAt);
+}
+
+async function restoreSleepSession(revision: IEntryRevision, session: ClientSession): Promise<void> {
+    const filter = { _id: revision.sleepSessionId, userId: revision.userId };
+    if (revision.sleepBefore) {
+        await SleepSession.replaceOne(filter, revision.sleepBefore, { session, timestamps: false });
+    } else {
+        await SleepSession.deleteOne(filter).session(session);
+    }
+}
+
+/**
+ * Reverts every entry of one Daily Log save, as long as nothing has changed them since.
+ * Entries the save created are removed, and so is a sleep session it created; a sleep
+ * session it replaced is put back.
+ */
+export async function undoRevisionBatch(
+    userId: string,
+    batchId: string,
+    changedBy = userId
+): Promise<RevisionActionResult> {
+    const revisions = await EntryRevision.find({ userId, batchId, source: 'daily_log' });
+    if (revisions.length === 0) return { ok: false, status: 404, message: 'Nothing to undo for this save' };
+
+    const session = await mongoose.startSession();
+    let result: RevisionActionResult = { ok: true, dates: revisions.map((revision) => revision.date) };
+    try {
+        await session.withTransaction(async () => {
+            const sleepRevision = revisions.find((revision) => revision.sleepSessionId);
+            for (const revision of revisions) {
+                if (!await isLatestRevision(revision, session)) {
+                    result = { ok: false, status: 409, message: 'This log was changed after that save; restore from its history instead' };
+                    return;
+                }
+            }
+            if (sleepRevision && !await isSleepUnchangedSince(sleepRevision, session)) {
+                result = { ok: false, status: 409, message: 'This sleep session was changed after that save; edit it instead' };
+                return;
+            }
+            for (const revision of revisions) {
+                await applySnapshot(revision, revision.before, 'undo', changedBy, session);
+            }
+            if (sleepRevision) await restoreSleepSession(sleepRevision, session);
+        });
+    } finally {
+        await session.endSession();
+    }
+    return result;
+}
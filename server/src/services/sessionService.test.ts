@@ -0,0 +1,52 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import {
+    ACCESS_TOKEN_TTL_SECONDS,
+    createAccessToken,
+    describeDevice,
+    hashRefreshToken,
+    refreshTokenSchema,
+    toDeviceSessionDto,
+} from './sessionService';
+
+test('createAccessToken carries the session id and expires after the access TTL', () => {
+    const now = new Date();
+    const { token, expiresAt } = createAccessToken('user-1', 'session-1', 'test-secret', now);
+    const decoded = jwt.verify(token, 'test-secret') as { userId: string; sid: string; iat: number; exp: number };
+    assert.equal(decoded.userId, 'user-1');
+    assert.equal(decoded.sid, 'session-1');
+    assert.equal(decoded.exp - decoded.iat, ACCESS_TOKEN_TTL_SECONDS);
+    assert.equal(expiresAt.getTime() - now.getTime(), ACCESS_TOKEN_TTL_SECONDS * 1000);
+});
+
+test('describeDevice names browsers and falls back to the platform', () => {
+    const chromeMac = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36';
+    const safariIphone = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1';
+    assert.equal(describeDevice('web', chromeMac), 'Chrome on macOS');
+    assert.equal(describeDevice('web', safariIphone), 'Safari on iOS');
+    assert.equal(describeDevice('android', 'okhttp/4.9.2'), 'Android device');
+    assert.equal(describeDevice('unknown', null), 'Unknown device');
+});
+
+test('refresh tokens are validated by shape and only their hash is exposed to storage', () => {
+    const token = 'a'.repeat(43);
+    assert.equal(refreshTokenSchema.safeParse({ refreshToken: token }).success, true);
+    assert.equal(refreshTokenSchema.safeParse({ refreshToken: 'short' }).success, false);
+    assert.match(hashRefreshToken(token), /^[0-9a-f]{64}$/);
+
+    const id = new mongoose.Types.ObjectId();
+    const session = {
+        _id: id,
+        deviceName: 'Pixel 8',
+        platform: 'android' as const,
+        userAgent: null,
+        ip: '10.0.0.2',
+        createdAt: new Date('2026-05-01T08:00:00.000Z'),
+        lastSeenAt: new Date('2026-05-02T09:30:00.000Z'),
+    };
+    assert.equal(toDeviceSessionDto(session, String(id)).current, true);
+    assert.equal(toDeviceSessionDto(session, undefined).current, false);
+    assert.equal(toDeviceSessionDto(session).lastSeenAt, '2026-05-02T09:30:00.000Z');
+});
@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import AuthSession, { IAuthSession, SessionPlatform } from '../models/AuthSession';
+import { AuthTokensDto, DeviceSessionDto } from '../contracts/api';
+import { shiftUtcDays } from '../lib/dateUtils';
+
+/**
+ * Device sessions. Signing in creates an `authsessions` document and returns a 15-minute
+ * access JWT (carrying the session id as `sid`) plus a refresh token. Refreshing rotates the
+ * refresh token; presenting one that was already rotated out means it was copied, so the
+ * whole session is revoked. Access tokens are checked against their session on every
+ * request, so revoking a session signs that device out at once.
+ */
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+export const MAX_SESSIONS_PER_USER = 20;
+const TOKEN_BYTES = 32;
+
+export const sessionDeviceSchema = z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    platform: z.enum(['ios', 'android', 'web']).optional(),
+});
+
+export const refreshTokenSchema = z.object({
+    refreshToken: z.string().regex(/^[A-Za-z0-9_-]{43}$/, 'Invalid refresh token'),
+});
+
+export const sessionIdParamSchema = z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid session id'),
+});
+
+export interface SessionClientInfo {
+    device?: z.infer<typeof sessionDeviceSchema>;
+    userAgent?: string | null;
+    ip?: string | null;
+}
+
+export type SessionRefreshResult =
+    | { ok: true; userId: string; tokens: AuthTokensDto }
+    | { ok: false; status: 401; message: string };
+
+type StoredSession = Pick<
+    IAuthSession,
+    'deviceName' | 'platform' | 'userAgent' | 'ip' | 'createdAt' | 'lastSeenAt'
+> & { _id: unknown };
+
+export function hashRefreshToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateRefreshToken(): { token: string; tokenHash: string } {
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    return { token, tokenHash: hashRefreshToken(token) };
+}
+
+export function createAccessToken(
+    userId: string,
+    sessionId: string,
+    secret: string,
+    now = new Date()
+): { token: string; expiresAt: Date } {
+    const token = jwt.sign({ userId, sid: sessionId }, secret, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+    return { token, expiresAt: new Date(now.getTime() + ACCESS_TOKEN_TTL_SECONDS * 1000) };
+}
+
+/** A readable name when the app does not send one, e.g. "Chrome on macOS". */
+export function describeDevice(platform: SessionPlatform, userAgent: string | null | undefined): string {
+    const ua = userAgent ?? '';
+    const browser = [['Edg/', 'Edge'], ['Firefox/', 'Firefox'], ['Chrome/', 'Chrome'], ['Safari/', 'Safari']]
+        .find(([marker]) => ua.includes(marker))?.[1];
+    const os = [['iPhone', 'iOS'], ['iPad', 'iPadOS'], ['Android', 'Android'], ['Mac OS X', 'macOS'], ['Windows', 'Windows'], ['Linux', 'Linux']]
+        .find(([marker]) => ua.includes(marker))?.[1];
+    if (browser && os) return `${browser} on ${os}`;
+    if (platform === 'ios') return 'iOS device';
+    if (platform === 'android') return 'Android device';
+    if (platform === 'web') return 'Web browser';
+    return os ?? 'Unknown device';
+}
+
+export function toDeviceSessionDto(session: StoredSession, currentSessionId?: string): DeviceSessionDto {
+    const id = String(session._id);
+    return {
+        id,
+        deviceName: session.deviceName,
+        platform: session.platform,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        createdAt: session.createdAt.toISOString(),
+        lastSeenAt: session.lastSeenAt.toISOString(),
+        current: id === currentSessionId,
+    };
+}
+
+/** Creates a session for a successful sign-in; null when JWT_SECRET is not configured. */
+export async function startSession(
+    userId: string,
+    client: SessionClientInfo,
+    now = new Date()
+): Promise<AuthTokensDto | null> {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) return null;
+
+    const platform: SessionPlatform = client.device?.platform ?? 'unknown';
+    const refresh = generateRefreshToken();
+    const session = await AuthSession.create({
+        userId,
+        refreshTokenHash: refresh.tokenHash,
+        deviceName: client.device?.name ?? describeDevice(platform, client.userAgent),
+        platform,
+        userAgent: client.userAgent?.slice(0, 300) ?? null,
+        ip: client.ip ?? null,
+        lastSeenAt: now,
+        expiresAt: shiftUtcDays(now, REFRESH_TOKEN_TTL_DAYS),
+    });
+
+    // Keep the list manageable: the least recently seen sessions beyond the cap are signed out.
+    const stale = await AuthSession.find({ userId })
+        .sort({ lastSeenAt: -1 })
+        .skip(MAX_SESSIONS_PER_USER)
+        .select('_id')
+        .lean();
+    if (stale.length > 0) await AuthSession.deleteMany({ _id: { $in: stale.map((doc) => doc._id) } });
+
+    const access = createAccessToken(userId, String(session._id), secret, now);
+    return { token: access.token, refreshToken: refresh.token, accessTokenExpiresAt: access.expiresAt.toISOString() };
+}
+
+/** Swaps a refresh token for a new token pair. A replayed, rotated-out token ends the session. */
+export async function refreshSession(
+    refreshToken: string,
+    client: Pick<SessionClientInfo, 'userAgent' | 'ip'>,
+    now = new Date()
+): Promise<SessionRefreshResult> {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) throw new Error('JWT secret is not configured');
+
+    const tokenHash = hashRefreshToken(refreshToken);
+    const next = generateRefreshToken();
+    const session = await AuthSession.findOneAndUpdate(
+        { refreshTokenHash: tokenHash, expiresAt: { $gt: now } },
+        {
+            $set: {
+                refreshTokenHash: next.tokenHash,
+                previousTokenHash: tokenHash,
+                lastSeenAt: now,
+                expiresAt: shiftUtcDays(now, REFRESH_TOKEN_TTL_DAYS),
+                ...(client.ip ? { ip: client.ip } : {}),
+            },
+        },
+        { new: true }
+    );
+
+    if (!session) {
+        const replayed = await AuthSession.findOneAndDelete({ previousTokenHash: tokenHash });
+        if (replayed) {
+            console.warn(`Refresh token reuse on session ${String(replayed._id)}; session revoked`);
+            return { ok: false, status: 401, message: 'Session revoked — please sign in again' };
+        }
+        return { ok: false, status: 401, message: 'Session expired — please sign in again' };
+    }
+
+    const userId = String(session.userId);
+    const access = createAccessToken(userId, String(session._id), secret, now);
+    return {
+        ok: true,
+        userId,
+        tokens: { token: access.token, refreshToken: next.token, accessTokenExpiresAt: access.expiresAt.toISOString() },
+    };
+}
+
+/** Whether `sessionId` is an unexpired session of `userId`; revoked sessions are deleted. */
+export async function isSessionActive(userId: string, sessionId: string, now = new Date()): Promise<boolean> {
+    if (!sessionIdParamSchema.shape.id.safeParse(sessionId).success) return false;
+    const session = await AuthSession.exists({ _id: sessionId, userId, expiresAt: { $gt: now } });
+    return session !== null;
+}
+
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const deleted = await AuthSession.findOneAndDelete({ _id: sessionId, userId });
+    return deleted !== null;
+}
+
+/** Signs the user out everywhere, or everywhere except `keepSessionId`. */
+export async function revokeUserSessions(userId: string, keepSessionId?: string): Promise<number> {
+    const result = await AuthSession.deleteMany({
+        userId,
+        ...(keepSessionId ? { _id: { $ne: keepSessionId } } : {}),
+    });
+    return result.deletedCount;
+}
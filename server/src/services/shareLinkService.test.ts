@@ -0,0 +1,60 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildAnalyticsSummary } from './analyticsService';
+import {
+    createShareLinkSchema,
+    generateShareToken,
+    hashShareToken,
+    resolveShareWindow,
+    shareTokenSchema,
+} from './shareLinkService';
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+test('generateShareToken returns a URL-safe token whose hash is what gets stored', () => {
+    const { token, tokenHash, tokenPrefix } = generateShareToken();
+    assert.equal(shareTokenSchema.safeParse({ token }).success, true);
+    assert.equal(tokenHash, hashShareToken(token));
+    assert.notEqual(tokenHash, token);
+    assert.equal(token.startsWith(tokenPrefix), true);
+    assert.notEqual(generateShareToken().token, token);
+});
+
+test('createShareLinkSchema needs a data scope and an ordered, bounded range', () => {
+    const parsed = createShareLinkSchema.parse({ label: 'Coach', scope: {}, from: '2026-01-01', to: '2026-03-31' });
+    assert.deepEqual(parsed.scope, { health: true, mood: false, notes: false });
+    assert.equal(parsed.expiresInDays, 7);
+
+    const base = { label: 'Coach', from: '2026-01-01', to: '2026-01-31' };
+    assert.equal(createShareLinkSchema.safeParse({ ...base, scope: { health: false, notes: true } }).success, false);
+    assert.equal(createShareLinkSchema.safeParse({ ...base, scope: {}, to: '2025-12-31' }).success, false);
+    assert.equal(createShareLinkSchema.safeParse({ ...base, scope: {}, to: '2027-06-01' }).success, false);
+    assert.equal(createShareLinkSchema.safeParse({ ...base, scope: {}, expiresInDays: 365 }).success, false);
+});
+
+test('shared summaries stay inside the link range and scope', () => {
+    const link = { from: day('2026-03-01'), to: day('2026-03-31') };
+    assert.deepEqual(resolveShareWindow(link, day('2026-03-10')), { until: day('2026-03-10'), days: 10 });
+    assert.deepEqual(resolveShareWindow(link, day('2026-04-20'), 7), { until: day('2026-03-31'), days: 7 });
+    assert.deepEqual(resolveShareWindow(link, day('2026-04-20'), 90), { until: day('2026-03-31'), days: 31 });
+    assert.equal(resolveShareWindow(link, day('2026-02-27')), null);
+
+    const summary = buildAnalyticsSummary({
+        days: 2,
+        since: day('2026-03-09'),
+        until: day('2026-03-10'),
+        healthEntries: [
+            { date: day('2026-03-09'), steps: 8000, sleepHours: 7, waterLitres: 2, heartRate: 60, notes: 'Knee hurt' },
+            { date: day('2026-03-10'), steps: 10000, sleepHours: 8, waterLitres: 2.5, heartRate: 64 },
+        ],
+        moodEntries: [{ date: day('2026-03-10'), mood: 'happy', energyLevel: 7, stressLevel: 3, notes: 'Private' }],
+        sleepSessions: [],
+    }, { health: true, mood: false, notes: false });
+
+    assert.deepEqual(summary.health, { count: 2, avgSteps: 9000, avgSleep: 7.5, avgWater: 2.3, avgHR: 62 });
+    assert.deepEqual(summary.mood, { count: 0, avgEnergy: 0, avgStress: 0, distribution: {} });
+    assert.deepEqual(summary.moodTimeline, []);
+    assert.equal(summary.healthTimeline.some((entry) => 'notes' in entry), false);
+    assert.deepEqual(Object.keys(summary.healthTimeline[0]).filter((key) => ['_id', 'userId', 'source'].includes(key)), []);
+    assert.equal(summary.period.to, '2026-03-10T00:00:00.000Z');
+});
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import ShareLink, { IShareLink } from '../models/ShareLink';
+import User from '../models/User';
+import { ShareLinkDto } from '../contracts/api';
+import { diffUtcDays, getUtcDayKey, toUtcDayStart } from '../lib/dateUtils';
+
+/**
+ * Read-only share links for coaches and clinicians. A link carries a random token that
+ * stands in for a login on the `/api/shared/:token` endpoints, limited to a scope (health,
+ * mood, notes), a date range and an expiry, and can be revoked at any time. Only a SHA-256
+ * of the token is stored, so a database leak does not leak working links.
+ */
+
+export const MAX_ACTIVE_SHARE_LINKS = 10;
+export const MAX_SHARE_EXPIRY_DAYS = 90;
+const MAX_SHARE_RANGE_DAYS = 366;
+const TOKEN_BYTES = 32;
+const TOKEN_PREFIX_LENGTH = 6;
+
+const dayKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+export const createShareLinkSchema = z.object({
+    label: z.string().trim().min(1, 'Give the link a name').max(60),
+    scope: z.object({
+        health: z.boolean().default(true),
+        mood: z.boolean().default(false),
+        notes: z.boolean().default(false),
+    }).refine((scope) => scope.health || scope.mood, 'Share health metrics, mood or both'),
+    from: dayKeySchema,
+    to: dayKeySchema,
+    expiresInDays: z.number().int().min(1).max(MAX_SHARE_EXPIRY_DAYS).default(7),
+}).refine((input) => input.from <= input.to, { message: 'from must be on or before to', path: ['to'] })
+    .refine(
+        (input) => diffUtcDays(input.from, input.to) < MAX_SHARE_RANGE_DAYS,
+        { message: `A link can cover at most ${MAX_SHARE_RANGE_DAYS} days`, path: ['to'] }
+    );
+
+export const shareTokenSchema = z.object({
+    token: z.string().regex(/^[A-Za-z0-9_-]{43}$/, 'Invalid share token'),
+});
+
+export const sharedSummaryQuerySchema = z.object({
+    // Defaults to the link's whole range; never reaches outside it.
+    days: z.coerce.number().int().min(1).max(MAX_SHARE_RANGE_DAYS).optional(),
+});
+
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>;
+
+type StoredShareLink = Pick<
+    IShareLink,
+    'label' | 'tokenPrefix' | 'scope' | 'from' | 'to' | 'expiresAt' | 'revokedAt' | 'lastUsedAt' | 'createdAt'
+> & { _id: unknown };
+
+export function hashShareToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function generateShareToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    return { token, tokenHash: hashShareToken(token), tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH) };
+}
+
+export function activeShareLinkFilter(userId: string, now = new Date()): Record<string, unknown> {
+    return { userId, revokedAt: null, expiresAt: { $gt: now } };
+}
+
+/**
+ * The summary window for a link: the last `days` days of its range that have started,
+ * ending today at the latest. Null while the range is still in the future.
+ */
+export function resolveShareWindow(
+    link: Pick<IShareLink, 'from' | 'to'>,
+    today: Date,
+    days?: number
+): { until: Date; days: number } | null {
+    const until = link.to < today ? toUtcDayStart(link.to) : today;
+    const available = diffUtcDays(link.from, until) + 1;
+    if (available < 1) return null;
+    return { until, days: days ? Math.min(days, available) : available };
+}
+
+export function toShareLinkDto(link: StoredShareLink): ShareLinkDto {
+    return {
+        id: String(link._id),
+        label: link.label,
+        tokenPrefix: link.tokenPrefix,
+        scope: { health: link.scope.health, mood: link.scope.mood, notes: link.scope.notes },
+        from: getUtcDayKey(link.from),
+        to: getUtcDayKey(link.to),
+        expiresAt: link.expiresAt.toISOString(),
+        lastUsedAt: link.lastUsedAt ? link.lastUsedAt.toISOString() : null,
+        createdAt: link.createdAt.toISOString(),
+    };
+}
+
+/** The active link for a token, recording the visit; null when unknown, expired or revoked. */
+/** Links stop working while their owner's account deletion is pending and resume if it is cancelled. */
+export async function findActiveShareLink(token: string, now = new Date()): Promise<IShareLink | null> {
+    const filter = { tokenHash: hashShareToken(token), revokedAt: null, expiresAt: { $gt: now } };
+    const link = await ShareLink.findOne(filter).select('userId').lean();
+    if (!link || !await User.exists({ _id: link.userId, deletionScheduledFor: null })) return null;
+
+    return ShareLink.findOneAndUpdate(filter, { $set: { lastUsedAt: now } }, { new: true });
+}
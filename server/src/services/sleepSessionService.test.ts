@@ -0,0 +1,55 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    buildSleepSessionFields,
+    computeSleepDurationHours,
+    sleepSessionInputSchema,
+    summarizeSleepTiming,
+} from './sleepSessionService';
+
+test('computeSleepDurationHours prefers stages, then subtracts awake minutes', () => {
+    const bedtime = new Date('2026-03-01T23:00:00.000Z');
+    const wakeTime = new Date('2026-03-02T07:00:00.000Z');
+
+    assert.equal(computeSleepDurationHours({ bedtime, wakeTime }), 8);
+    assert.equal(computeSleepDurationHours({ bedtime, wakeTime, stages: { awakeMinutes: 45 } }), 7.3);
+    assert.equal(
+        computeSleepDurationHours({ bedtime, wakeTime, stages: { lightMinutes: 240, deepMinutes: 90, remMinutes: 96 } }),
+        7.1
+    );
+});
+
+test('buildSleepSessionFields assigns the session to the local wake day', () => {
+    // 01:30 UTC on Mar 2 is still Mar 1 at UTC-5.
+    const input = sleepSessionInputSchema.parse({
+        bedtime: '2026-03-01T17:00:00.000Z',
+        wakeTime: '2026-03-02T01:30:00.000Z',
+        utcOffsetMinutes: -300,
+        quality: 'good',
+    });
+    const fields = buildSleepSessionFields(input);
+
+    assert.equal(fields.date.toISOString(), '2026-03-01T00:00:00.000Z');
+    assert.equal(fields.durationHours, 8.5);
+    assert.equal(fields.awakenings, 0);
+    assert.equal(fields.quality, 'good');
+    assert.equal(sleepSessionInputSchema.safeParse({ bedtime: '2026-03-02T08:00:00Z', wakeTime: '2026-03-02T07:00:00Z' }).success, false);
+});
+
+test('summarizeSleepTiming averages clock times across midnight', () => {
+    const summary = summarizeSleepTiming([
+        { bedtime: new Date('2026-03-01T23:30:00.000Z'), wakeTime: new Date('2026-03-02T07:00:00.000Z'), durationHours: 7.5, awakenings: 1, quality: 'good' },
+        { bedtime: new Date('2026-03-03T00:30:00.000Z'), wakeTime: new Date('2026-03-03T08:00:00.000Z'), durationHours: 7.5, awakenings: 3, quality: 'fair' },
+        // Same clock times as above, recorded at UTC+2.
+        { bedtime: new Date('2026-03-03T21:30:00.000Z'), wakeTime: new Date('2026-03-04T05:30:00.000Z'), utcOffsetMinutes: 120, durationHours: 8, awakenings: 2 },
+    ]);
+
+    assert.equal(summary.sessions, 3);
+    assert.equal(summary.avgBedtime, '23:50');
+    assert.equal(summary.avgWakeTime, '07:30');
+    assert.equal(summary.bedtimeVariabilityMinutes, 28);
+    assert.equal(summary.avgDurationHours, 7.7);
+    assert.equal(summary.avgAwakenings, 2);
+    assert.deepEqual(summary.qualityDistribution, { poor: 0, fair: 1, good: 1, excellent: 0 });
+    assert.equal(summarizeSleepTiming([]).avgBedtime, null);
+});
@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import HealthEntry from '../models/HealthEntry';
+import SleepSession, { ISleepStages, SLEEP_QUALITIES, SleepQuality } from '../models/SleepSession';
+import { SleepTimingSummaryDto } from '../contracts/api';
+import { toUtcDayStart } from '../lib/dateUtils';
+import { recordRevision } from './revisionService';
+
+/**
+ * Sleep sessions: bedtime/wake time, awakenings, subjective quality and optional stages.
+ *
+ * A session belongs to the local day the user woke up on. Clock times are read with the
+ * device's UTC offset captured at save time, so "23:30" stays 23:30 for the user even
+ * though timestamps are stored in UTC.
+ */
+
+const MINUTES_PER_DAY = 1440;
+const MAX_SESSION_HOURS = 24;
+
+const stageMinutesSchema = z.coerce.number().min(0).max(MINUTES_PER_DAY).optional();
+
+export const sleepSessionInputSchema = z.object({
+    bedtime: z.coerce.date(),
+    wakeTime: z.coerce.date(),
+    utcOffsetMinutes: z.coerce.number().int().min(-840).max(840).default(0),
+    awakenings: z.coerce.number().int().min(0).max(100).default(0),
+    quality: z.enum(SLEEP_QUALITIES as [SleepQuality, ...SleepQuality[]]).optional(),
+    stages: z.object({
+        awakeMinutes: stageMinutesSchema,
+        lightMinutes: stageMinutesSchema,
+        deepMinutes: stageMinutesSchema,
+        remMinutes: stageMinutesSchema,
+    }).optional(),
+}).superRefine((value, ctx) => {
+    if (Number.isNaN(value.bedtime.getTime()) || Number.isNaN(value.wakeTime.getTime())) {
+        ctx.addIssue({ code: 'custom', path: ['bedtime'], message: 'bedtime and wakeTime must be valid dates' });
+        return;
+    }
+    const hours = (value.wakeTime.getTime() - value.bedtime.getTime()) / 3600000;
+    if (hours <= 0 || hours > MAX_SESSION_HOURS) {
+        ctx.addIssue({ code: 'custom', path: ['wakeTime'], message: `wakeTime must be after bedtime and within ${MAX_SESSION_HOURS}h` });
+    }
+});
+
+export type SleepSessionInput = z.infer<typeof sleepSessionInputSchema>;
+
+export interface SleepSessionFields {
+    date: Date;
+    bedtime: Date;
+    wakeTime: Date;
+    utcOffsetMinutes: number;
+    awakenings: number;
+    quality?: SleepQuality;
+    stages?: ISleepStages;
+    durationHours: number;
+}
+
+export interface SleepTimingInput {
+    bedtime: Date;
+    wakeTime: Date;
+    utcOffsetMinutes?: number;
+    awakenings?: number;
+    quality?: SleepQuality;
+    durationHours: number;
+}
+
+function round(value: number, digits: number): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Time asleep in hours. Uses the stage breakdown when a tracker provided one, otherwise
+ * time in bed minus any recorded awake minutes.
+ */
+export function computeSleepDurationHours(input: Pick<SleepSessionInput, 'bedtime' | 'wakeTime' | 'stages'>): number {
+    const inBedMinutes = Math.max(0, (input.wakeTime.getTime() - input.bedtime.getTime()) / 60000);
+    const stages = input.stages;
+    const asleepStageMinutes = (stages?.lightMinutes ?? 0) + (stages?.deepMinutes ?? 0) + (stages?.remMinutes ?? 0);
+
+    let asleepMinutes = inBedMinutes - (stages?.awakeMinutes ?? 0);
+    if (asleepStageMinutes > 0 && asleepStageMinutes <= inBedMinutes) {
+        asleepMinutes = asleepStageMinutes;
+    }
+    return Math.min(MAX_SESSION_HOURS, Math.max(0, round(asleepMinutes / 60, 1)));
+}
+
+export function localClockMinutes(date: Date, utcOffsetMinutes = 0): number {
+    const minutes = date.getUTCHours() * 60 + date.getUTCMinutes() + utcOffsetMinutes;
+    return ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+export function sleepSessionDay(wakeTime: Date, utcOffsetMinutes = 0): Date {
+    return toUtcDayStart(new Date(wakeTime.getTime() + utcOffsetMinutes * 60000));
+}
+
+export function buildSleepSessionFields(input: SleepSessionInput, date?: Date): SleepSessionFields {
+    const fields: SleepSessionFields = {
+        date: date ?? sleepSessionDay(input.wakeTime, input.utcOffsetMinutes),
+        bedtime: input.bedtime,
+        wakeTime: input.wakeTime,
+        utcOffsetMinutes: input.utcOffsetMinutes,
+        awakenings: input.awakenings,
+        durationHours: computeSleepDurationHours(input),
+    };
+    if (input.quality) fields.quality = input.quality;
+    if (input.stages) fields.stages = input.stages;
+    return fields;
+}
+
+function formatClock(minutes: number): string {
+    const rounded = Math.round(minutes) % MINUTES_PER_DAY;
+    return `${String(Math.floor(rounded / 60)).padStart(2, '0')}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+function mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+    const avg = mean(values);
+    return Math.sqrt(mean(values.map((value) => (value - avg) ** 2)));
+}
+
+/**
+ * Average clock time and its spread. Times are measured from `pivotMinutes` so values on
+ * either side of midnight (23:30 and 00:30 bedtimes) average to 00:00 rather than 12:00.
+ */
+function clockStats(minutes: number[], pivotMinutes: number): { average: string; variability: number } {
+    const shifted = minutes.map((value) => (value - pivotMinutes + MINUTES_PER_DAY) % MINUTES_PER_DAY);
+    return {
+        average: formatClock((mean(shifted) + pivotMinutes) % MINUTES_PER_DAY),
+        variability: Math.round(stdDev(shifted)),
+    };
+}
+
+/**
+ * Re-derives the day's `sleepHours` after its session was deleted or restored: the session's
+ * duration when there is one, otherwise the field is cleared. The change is recorded as a revision.
+ */
+export async function rollupSleepDay(userId: string, date: Date): Promise<void> {
+    const [sleep, previous] = await Promise.all([
+        SleepSession.findOne({ userId, date }).select('durationHours').lean(),
+        HealthEntry.findOne({ userId, date }).lean(),
+    ]);
+    if (!sleep && !previous) return;
+
+    const update = sleep
+        ? { $set: { sleepHours: sleep.durationHours }, $setOnInsert: { userId, date, source: 'health_api' } }
+        : { $unset: { sleepHours: '' } };
+    const entry = await HealthEntry.findOneAndUpdate({ userId, date }, update, {
+        new: true,
+        upsert: Boolean(sleep),
+        runValidators: true,
+        setDefaultsOnInsert: true,
+    }).lean();
+    await recordRevision({ userId, entryType: 'health', source: 'health_api', before: previous, after: entry });
+}
+
+export function summarizeSleepTiming(sessions: SleepTimingInput[]): SleepTimingSummaryDto {
+    const qualityDistribution = Object.fromEntries(SLEEP_QUALITIES.map((quality) => [quality, 0])) as Record<SleepQuality, number>;
+    sessions.forEach((session) => {
+        if (session.quality) qualityDistribution[session.quality] += 1;
+    });
+
+    if (sessions.length === 0) {
+        return {
+            sessions: 0,
+            avgBedtime: null,
+            avgWakeTime: null,
+            bedtimeVariabilityMinutes: null,
+            wakeTimeVariabilityMinutes: null,
+            avgDurationHours: 0,
+            avgAwakenings: 0,
+            qualityDistribution,
+        };
+    }
+
+    // Bedtimes cluster around midnight, wake times around the morning: pivot at noon/midnight.
+    const bedtime = clockStats(sessions.map((session) => localClockMinutes(session.bedtime, session.utcOffsetMinutes)), 12 * 60);
+    const wake = clockStats(sessions.map((session) => localClockMinutes(session.wakeTime, session.utcOffsetMinutes)), 0);
+
+    return {
+        sessions: sessions.length,
+        avgBedtime: bedtime.average,
+        avgWakeTime: wake.average,
+        bedtimeVariabilityMinutes: bedtime.variability,
+        wakeTimeVariabilityMinutes: wake.variability,
+        avgDurationHours: round(mean(sessions.map((session) => session.durationHours)), 1),
+        avgAwakenings: round(mean(sessions.map((session) => session.awakenings ?? 0)), 1),
+        qualityDistribution,
+    };
+}
@@ -0,0 +1,71 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    applyStreakDay,
+    buildStreakDataDto,
+    buildStreakHistory,
+    emptyStreakState,
+    getStreakStatus,
+    replayStreak,
+} from './streakService';
+
+const logging = { freezes: true, bridgeDays: new Set<string>() };
+const metric = { freezes: false, bridgeDays: new Set<string>() };
+
+function consecutiveDays(start: number, count: number): string[] {
+    return Array.from({ length: count }, (_, index) => `2026-03-${String(start + index).padStart(2, '0')}`);
+}
+
+test('replayStreak earns a freeze every 7 days and spends it on the next log after a missed day', () => {
+    const days = [...consecutiveDays(1, 7), '2026-03-09'];
+    const state = replayStreak(days, logging);
+    assert.equal(state.current?.length, 8);
+    assert.deepEqual(state.current?.frozenDays, ['2026-03-08']);
+    assert.equal(state.freezesAvailable, 0);
+    assert.equal(state.freezesUsed, 1);
+
+    // Metric streaks never use freezes, so the same gap ends the run and records it.
+    const sleep = replayStreak(days, metric);
+    assert.equal(sleep.current?.length, 1);
+    assert.equal(sleep.longest, 7);
+    assert.deepEqual(buildStreakHistory(sleep, 10), [
+        { startDate: '2026-03-01', endDate: '2026-03-07', length: 7, frozenDays: [] },
+    ]);
+});
+
+test('applyStreakDay matches a full replay and bridges days lost to travel', () => {
+    const days = ['2026-03-01', '2026-03-02', '2026-03-04', '2026-03-05'];
+    const incremental = days.reduce((state, day) => applyStreakDay(state, day, metric), emptyStreakState());
+    assert.deepEqual(incremental, replayStreak(days, metric));
+    assert.equal(incremental.current?.length, 2);
+
+    const travel = { freezes: false, bridgeDays: new Set(['2026-03-03']) };
+    const bridged = replayStreak(days, travel);
+    assert.equal(bridged.current?.length, 4);
+    assert.deepEqual(bridged.current?.frozenDays, []);
+});
+
+test('getStreakStatus reports active, frozen and broken runs against today', () => {
+    const state = replayStreak(consecutiveDays(1, 7), logging);
+    assert.equal(state.freezesAvailable, 1);
+    assert.deepEqual(getStreakStatus(state, '2026-03-08', logging), { status: 'active', currentStreak: 7 });
+    assert.deepEqual(getStreakStatus(state, '2026-03-09', logging), { status: 'frozen', currentStreak: 7 });
+    assert.deepEqual(getStreakStatus(state, '2026-03-10', logging), { status: 'broken', currentStreak: 0 });
+    assert.deepEqual(getStreakStatus(emptyStreakState(), '2026-03-10', logging), { status: 'none', currentStreak: 0 });
+
+    const dto = buildStreakDataDto({
+        logging: state,
+        sleep: replayStreak(consecutiveDays(5, 3), metric),
+        steps: emptyStreakState(),
+        water: emptyStreakState(),
+    }, '2026-03-08', new Set());
+    assert.equal(dto.currentStreak, 7);
+    assert.equal(dto.lastLogDate, '2026-03-07T00:00:00.000Z');
+    assert.equal(dto.freezesAvailable, 1);
+    assert.deepEqual(dto.streaks.map((streak) => [streak.kind, streak.currentStreak, streak.status]), [
+        ['logging', 7, 'active'],
+        ['sleep', 3, 'active'],
+        ['steps', 0, 'none'],
+        ['water', 0, 'none'],
+    ]);
+});
@@ -0,0 +1,321 @@
+import HealthEntry from '../models/HealthEntry';
+import Streak, { IStreakRun, STREAK_KINDS, StreakKind } from '../models/Streak';
+import User from '../models/User';
+import { StreakDataDto, StreakRunDto, StreakStatusDto, StreakSummaryDto } from '../contracts/api';
+import { diffUtcDays, getUtcDayKey, getZonedDayKey, shiftUtcDays, toUtcDayStart } from '../lib/dateUtils';
+import { resolveTimeZone, travelSkippedDays } from './timeZoneService';
+
+/**
+ * Streaks are stored per user and kind and advanced one day at a time as entries are saved,
+ * so reading them never rescans history. Only a write that lands on or before a streak's
+ * last counted day (an edit, delete, backfill or import) replays the user's entries, and
+ * the replay applies exactly the same steps, so both paths agree.
+ *
+ * The logging streak earns a freeze every `FREEZE_EARN_DAYS` counted days (at most
+ * `MAX_FREEZES` banked). When the next log follows missed days, freezes are spent to cover
+ * them if enough are banked. Days skipped by eastbound travel are bridged for every kind
+ * without spending anything.
+ */
+
+export const FREEZE_EARN_DAYS = 7;
+export const MAX_FREEZES = 2;
+const MAX_HISTORY_RUNS = 100;
+const MIN_HISTORY_LENGTH = 2; // One-day runs are not worth listing
+
+interface StreakDayValues {
+    steps?: number;
+    sleepHours?: number;
+    waterLitres?: number;
+}
+
+interface StreakRule {
+    label: string;
+    qualifies: (entry: StreakDayValues) => boolean;
+    freezes: boolean;
+}
+
+export const STREAK_RULES: Record<StreakKind, StreakRule> = {
+    logging: { label: 'Daily log', qualifies: () => true, freezes: true },
+    sleep: { label: '7h+ sleep', qualifies: (entry) => (entry.sleepHours ?? 0) >= 7, freezes: false },
+    steps: { label: '8k+ steps', qualifies: (entry) => (entry.steps ?? 0) >= 8000, freezes: false },
+    water: { label: '2L+ water', qualifies: (entry) => (entry.waterLitres ?? 0) >= 2, freezes: false },
+};
+
+// The engine works on "YYYY-MM-DD" keys; the model stores the same days as Dates.
+export interface StreakRun {
+    startDate: string;
+    endDate: string;
+    length: number;
+    frozenDays: string[];
+}
+
+export interface StreakState {
+    current: StreakRun | null;
+    longest: number;
+    freezesAvailable: number;
+    freezesUsed: number;
+    history: StreakRun[];
+}
+
+export interface StreakOptions {
+    freezes: boolean;
+    bridgeDays: Set<string>;
+}
+
+type StreakStates = Record<StreakKind, StreakState>;
+
+export function emptyStreakState(): StreakState {
+    return { current: null, longest: 0, freezesAvailable: 0, freezesUsed: 0, history: [] };
+}
+
+// Days strictly between two day keys that travel does not bridge.
+function missedDays(fromKey: string, toKey: string, bridgeDays: Set<string>): string[] {
+    const start = toUtcDayStart(fromKey);
+    const missed: string[] = [];
+    for (let offset = 1; offset < diffUtcDays(fromKey, toKey); offset += 1) {
+        const key = getUtcDayKey(shiftUtcDays(start, offset));
+        if (!bridgeDays.has(key)) missed.push(key);
+    }
+    return missed;
+}
+
+/** Advances `state` by one qualifying day. Days on or before the current run's end are ignored. */
+export function applyStreakDay(state: StreakState, dayKey: string, options: StreakOptions): StreakState {
+    const current = state.current;
+    if (current && dayKey <= current.endDate) return state;
+
+    const next: StreakState = { ...state, history: state.history };
+    let run: StreakRun;
+    if (!current) {
+        run = { startDate: dayKey, endDate: dayKey, length: 1, frozenDays: [] };
+    } else {
+        const missed = missedDays(current.endDate, dayKey, options.bridgeDays);
+        if (missed.length === 0) {
+            run = { ...current, endDate: dayKey, length: current.length + 1 };
+        } else if (options.freezes && missed.length <= state.freezesAvailable) {
+            next.freezesAvailable -= missed.length;
+            next.freezesUsed += missed.length;
+            run = {
+                ...current,
+                endDate: dayKey,
+                length: current.length + 1,
+                frozenDays: [...current.frozenDays, ...missed],
+            };
+        } else {
+            if (current.length >= MIN_HISTORY_LENGTH) {
+                next.history = [...state.history, current].slice(-MAX_HISTORY_RUNS);
+            }
+            run = { startDate: dayKey, endDate: dayKey, length: 1, frozenDays: [] };
+        }
+    }
+
+    if (options.freezes && run.length % FREEZE_EARN_DAYS === 0) {
+        next.freezesAvailable = Math.min(MAX_FREEZES, next.freezesAvailable + 1);
+    }
+    next.current = run;
+    next.longest = Math.max(state.longest, run.length);
+    return next;
+}
+
+export function replayStreak(dayKeys: string[], options: StreakOptions): StreakState {
+    return [...new Set(dayKeys)]
+        .sort()
+        .reduce((state, dayKey) => applyStreakDay(state, dayKey, options), emptyStreakState());
+}
+
+/**
+ * Whether the current run is still alive on `todayKey`. Missed days are only spent on the
+ * next log, so until then a run that enough freezes would cover reads as "frozen".
+ */
+export function getStreakStatus(
+    state: StreakState,
+    todayKey: string,
+    options: StreakOptions
+): { status: StreakStatusDto; currentStreak: number } {
+    const current = state.current;
+    if (!current) return { status: 'none', currentStreak: 0 };
+    if (current.endDate >= todayKey) return { status: 'active', currentStreak: current.length };
+
+    const missed = missedDays(current.endDate, todayKey, options.bridgeDays);
+    if (missed.length === 0) return { status: 'active', currentStreak: current.length };
+    if (options.freezes && missed.length <= state.freezesAvailable) {
+        return { status: 'frozen', currentStreak: current.length };
+    }
+    return { status: 'broken', currentStreak: 0 };
+}
+
+function toRunDto(run: StreakRun): StreakRunDto {
+    return { ...run, frozenDays: [...run.frozenDays] };
+}
+
+export function buildStreakDataDto(states: StreakStates, todayKey: string, bridgeDays: Set<string>): StreakDataDto {
+    const streaks: StreakSummaryDto[] = STREAK_KINDS.map((kind) => {
+        const state = states[kind];
+        const { status, currentStreak } = getStreakStatus(state, todayKey, {
+            freezes: STREAK_RULES[kind].freezes,
+            bridgeDays,
+        });
+        return {
+            kind,
+            label: STREAK_RULES[kind].label,
+            currentStreak,
+            longestStreak: state.longest,
+            status,
+            current: state.current ? toRunDto(state.current) : null,
+        };
+    });
+
+    const logging = states.logging;
+    return {
+        currentStreak: streaks.find((streak) => streak.kind === 'logging')?.currentStreak ?? 0,
+        longestStreak: logging.longest,
+        lastLogDate: logging.current ? toUtcDayStart(logging.current.endDate).toISOString() : null,
+        freezesAvailable: logging.freezesAvailable,
+        freezesUsed: logging.freezesUsed,
+        streaks,
+    };
+}
+
+export function buildStreakHistory(state: StreakState, limit: number): StreakRunDto[] {
+    return state.history.slice(-limit).reverse().map(toRunDto);
+}
+
+interface StoredStreak {
+    kind: StreakKind;
+    current?: IStreakRun | null;
+    longest?: number;
+    freezesAvailable?: number;
+    freezesUsed?: number;
+    history?: IStreakRun[];
+}
+
+function fromRunDoc(run: IStreakRun): StreakRun {
+    return {
+        startDate: getUtcDayKey(run.startDate),
+        endDate: getUtcDayKey(run.endDate),
+        length: run.length,
+        frozenDays: (run.frozenDays ?? []).map((day) => getUtcDayKey(day)),
+    };
+}
+
+function toRunDoc(run: StreakRun): IStreakRun {
+    return {
+        startDate: toUtcDayStart(run.startDate),
+        endDate: toUtcDayStart(run.endDate),
+        length: run.length,
+        frozenDays: run.frozenDays.map((day) => toUtcDayStart(day)),
+    };
+}
+
+function fromStreakDoc(doc: StoredStreak): StreakState {
+    return {
+        current: doc.current ? fromRunDoc(doc.current) : null,
+        longest: doc.longest ?? 0,
+        freezesAvailable: doc.freezesAvailable ?? 0,
+        freezesUsed: doc.freezesUsed ?? 0,
+        history: (doc.history ?? []).map(fromRunDoc),
+    };
+}
+
+export async function loadStreakContext(userId: string): Promise<{ todayKey: string; bridgeDays: Set<string> }> {
+    const user = await User.findById(userId).select('timeZone timeZoneHistory').lean();
+    return {
+        todayKey: getZonedDayKey(new Date(), resolveTimeZone(user)),
+        bridgeDays: travelSkippedDays(user?.timeZoneHistory ?? []),
+    };
+}
+
+async function saveStreakStates(userId: string, states: Partial<StreakStates>): Promise<void> {
+    const kinds = Object.keys(states) as StreakKind[];
+    if (kinds.length === 0) return;
+    await Streak.bulkWrite(kinds.map((kind) => {
+        const state = states[kind] as StreakState;
+        return {
+            updateOne: {
+                filter: { userId, kind },
+                update: {
+                    $set: {
+                        current: state.current ? toRunDoc(state.current) : null,
+                        longest: state.longest,
+                        freezesAvailable: state.freezesAvailable,
+                        freezesUsed: state.freezesUsed,
+                        history: state.history.map(toRunDoc),
+                    },
+                },
+                upsert: true,
+            },
+        };
+    }));
+}
+
+/** Replays every health entry; used for the first read and for out-of-order writes. */
+export async function rebuildStreaks(userId: string, bridgeDays: Set<string>): Promise<StreakStates> {
+    const entries = await HealthEntry.find({ userId }).select('date steps sleepHours waterLitres').lean();
+    const states = Object.fromEntries(STREAK_KINDS.map((kind) => {
+        const rule = STREAK_RULES[kind];
+        const dayKeys = entries.filter((entry) => rule.qualifies(entry)).map((entry) => getUtcDayKey(entry.date));
+        return [kind, replayStreak(dayKeys, { freezes: rule.freezes, bridgeDays })];
+    })) as StreakStates;
+    await saveStreakStates(userId, states);
+    return states;
+}
+
+export async function loadStreakStates(userId: string, bridgeDays: Set<string>): Promise<StreakStates> {
+    const docs = await Streak.find({ userId }).lean<StoredStreak[]>();
+    if (docs.length < STREAK_KINDS.length) return rebuildStreaks(userId, bridgeDays);
+    return Object.fromEntries(docs.map((doc) => [doc.kind, fromStreakDoc(doc)])) as StreakStates;
+}
+
+/**
+ * Brings stored streaks up to date after health entries for `days` were written or deleted;
+ * omit `days` after bulk changes to replay everything. Streaks are derived data, so a
+ * failure is logged rather than failing the write that triggered it.
+ */
+export async function syncStreaks(userId: string, days?: Date[]): Promise<void> {
+    try {
+        const { bridgeDays } = await loadStreakContext(userId);
+        if (!days) {
+            await rebuildStreaks(userId, bridgeDays);
+            return;
+        }
+
+        const dayStarts = days.map((day) => toUtcDayStart(day));
+        const [docs, entries] = await Promise.all([
+            Streak.find({ userId }).lean<StoredStreak[]>(),
+            HealthEntry.find({ userId, date: { $in: dayStarts } }).select('date steps sleepHours waterLitres').lean(),
+        ]);
+        if (docs.length < STREAK_KINDS.length) {
+            await rebuildStreaks(userId, bridgeDays);
+            return;
+        }
+
+        const entryByDay = new Map(entries.map((entry) => [getUtcDayKey(entry.date), entry]));
+        const dayKeys = [...new Set(dayStarts.map((day) => getUtcDayKey(day)))].sort();
+        const changed: Partial<StreakStates> = {};
+
+        for (const doc of docs) {
+            const rule = STREAK_RULES[doc.kind];
+            let state = fromStreakDoc(doc);
+            let advanced = false;
+            for (const dayKey of dayKeys) {
+                const entry = entryByDay.get(dayKey);
+                const qualifies = entry ? rule.qualifies(entry) : false;
+                const endDate = state.current?.endDate;
+                if (endDate && dayKey <= endDate) {
+                    // Re-saving the last counted day is the common case and changes nothing.
+                    if (dayKey === endDate && qualifies) continue;
+                    await rebuildStreaks(userId, bridgeDays);
+                    return;
+                }
+                if (!qualifies) continue;
+                state = applyStreakDay(state, dayKey, { freezes: rule.freezes, bridgeDays });
+                advanced = true;
+            }
+            if (advanced) changed[doc.kind] = state;
+        }
+
+        await saveStreakStates(userId, changed);
+    } catch (error: unknown) {
+        console.warn('[Streak] Update failed:', error);
+    }
+}
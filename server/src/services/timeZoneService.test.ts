@@ -0,0 +1,38 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildTimeZoneChange, resolveTimeZone, timeZoneUpdateSchema, travelSkippedDays } from './timeZoneService';
+
+test('resolveTimeZone falls back to UTC for missing or unknown zones', () => {
+    assert.equal(resolveTimeZone({ timeZone: 'America/New_York' }), 'America/New_York');
+    assert.equal(resolveTimeZone({ timeZone: 'Nowhere/Special' }), 'UTC');
+    assert.equal(resolveTimeZone(null), 'UTC');
+    assert.equal(timeZoneUpdateSchema.safeParse({ timeZone: 'Nowhere/Special' }).success, false);
+});
+
+test('buildTimeZoneChange records only new zones', () => {
+    const now = new Date('2026-03-01T12:00:00.000Z');
+    const first = buildTimeZoneChange({ timeZone: 'UTC', timeZoneHistory: [] }, 'UTC', now);
+    assert.deepEqual(first?.$push.timeZoneHistory.$each, [{ timeZone: 'UTC', since: now }]);
+
+    const history = [{ timeZone: 'Europe/London', since: now }];
+    assert.equal(buildTimeZoneChange({ timeZone: 'Europe/London', timeZoneHistory: history }, 'Europe/London', now), null);
+    assert.deepEqual(
+        buildTimeZoneChange({ timeZone: 'Europe/London', timeZoneHistory: history }, 'Asia/Tokyo', now)?.$set,
+        { timeZone: 'Asia/Tokyo' }
+    );
+});
+
+test('travelSkippedDays covers eastbound date jumps only', () => {
+    // 23:00 in Los Angeles on Mar 1 is already 16:00 on Mar 2 in Tokyo.
+    const eastbound = [
+        { timeZone: 'America/Los_Angeles', since: new Date('2026-02-20T00:00:00.000Z') },
+        { timeZone: 'Asia/Tokyo', since: new Date('2026-03-02T07:00:00.000Z') },
+    ];
+    assert.deepEqual([...travelSkippedDays(eastbound)], ['2026-03-01']);
+
+    const westbound = [
+        { timeZone: 'Asia/Tokyo', since: new Date('2026-02-20T00:00:00.000Z') },
+        { timeZone: 'America/Los_Angeles', since: new Date('2026-03-02T07:00:00.000Z') },
+    ];
+    assert.equal(travelSkippedDays(westbound).size, 0);
+});
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import User, { TimeZoneChange } from '../models/User';
+import {
+    diffUtcDays,
+    getUtcDayKey,
+    getZonedDayKey,
+    isValidTimeZone,
+    shiftUtcDays,
+    toUtcDayStart,
+    toZonedDayStart,
+} from '../lib/dateUtils';
+
+/**
+ * Day boundaries follow the user's IANA time zone, reported by the device. Day-keyed
+ * documents already hold the local calendar date the client saw, so the zone only decides
+ * which day is "today" on the server. Each change is appended to `timeZoneHistory` so a
+ * streak can tell a day lost to eastbound travel from a day the user skipped.
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+const MAX_TIME_ZONE_HISTORY = 50;
+
+export const timeZoneSchema = z
+    .string()
+    .trim()
+    .min(1)
+    .max(64)
+    .refine(isValidTimeZone, 'Unknown time zone');
+
+export const timeZoneUpdateSchema = z.object({
+    timeZone: timeZoneSchema,
+});
+
+interface ZonedUser {
+    timeZone?: string | null;
+    timeZoneHistory?: TimeZoneChange[] | null;
+}
+
+export function resolveTimeZone(user?: ZonedUser | null): string {
+    const timeZone = user?.timeZone;
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+export async function loadUserTimeZone(userId: string | undefined): Promise<string> {
+    if (!userId) return DEFAULT_TIME_ZONE;
+    const user = await User.findById(userId).select('timeZone').lean<ZonedUser | null>();
+    return resolveTimeZone(user);
+}
+
+/** The user's current local day, stored the same way as every `date` field (UTC midnight). */
+export async function getUserToday(userId: string | undefined, now = new Date()): Promise<Date> {
+    return toZonedDayStart(now, await loadUserTimeZone(userId));
+}
+
+/**
+ * Update that records a newly reported zone, or null when nothing changed. The first report
+ * starts the history without a predecessor, so it never excuses any days.
+ */
+export function buildTimeZoneChange(
+    user: ZonedUser,
+    timeZone: string,
+    now = new Date()
+): { $set: { timeZone: string }; $push: { timeZoneHistory: { $each: TimeZoneChange[]; $slice: number } } } | null {
+    const history = user.timeZoneHistory ?? [];
+    if (history.length > 0 && resolveTimeZone(user) === timeZone) return null;
+    return {
+        $set: { timeZone },
+        $push: { timeZoneHistory: { $each: [{ timeZone, since: now }], $slice: -MAX_TIME_ZONE_HISTORY } },
+    };
+}
+
+/**
+ * Calendar days skipped by eastbound zone changes: from the old zone's day at the moment of
+ * the switch up to (not including) the new zone's day. A westbound change repeats a date
+ * instead, which simply merges into the same day.
+ */
+export function travelSkippedDays(history: TimeZoneChange[]): Set<string> {
+    const skipped = new Set<string>();
+    for (let i = 1; i < history.length; i += 1) {
+        const previous = history[i - 1];
+        const change = history[i];
+        if (!isValidTimeZone(previous.timeZone) || !isValidTimeZone(change.timeZone)) continue;
+
+        const since = new Date(change.since);
+        const fromKey = getZonedDayKey(since, previous.timeZone);
+        const toKey = getZonedDayKey(since, change.timeZone);
+        const fromDay = toUtcDayStart(fromKey);
+        const days = diffUtcDays(fromKey, toKey);
+        for (let offset = 0; offset < days; offset += 1) {
+            skipped.add(getUtcDayKey(shiftUtcDays(fromDay, offset)));
+        }
+    }
+    return skipped;
+}
@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { describeTrashData, toTrashItemDto, trashListQuerySchema, TRASH_RETENTION_DAYS } from './trashService';
+import { ACCOUNT_DELETION_GRACE_DAYS, scheduleDeletionFields } from './accountDeletionService';
+
+test('describeTrashData summarises each kind from the stored fields it has', () => {
+    assert.equal(describeTrashData('health', { steps: 8000, sleepHours: 7, waterLitres: 0 }), '8,000 steps · 7h sleep');
+    assert.equal(describeTrashData('mood', { mood: 'calm', energyLevel: 6 }), 'calm · energy 6/10');
+    assert.equal(describeTrashData('sleep', { durationHours: 7.25, quality: 'good' }), '7.3h · good');
+    assert.equal(describeTrashData('workout', { type: 'run', durationMinutes: 30 }), 'run · 30 min');
+    assert.equal(describeTrashData('meal', {}), '');
+});
+
+test('toTrashItemDto exposes the day key and purge time, not the stored document', () => {
+    const deletedAt = new Date('2026-05-02T08:30:00.000Z');
+    const purgeAt = new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const originalId = new mongoose.Types.ObjectId();
+    const dto = toTrashItemDto({
+        _id: new mongoose.Types.ObjectId(),
+        kind: 'meal',
+        originalId,
+        date: new Date('2026-05-01T00:00:00.000Z'),
+        data: { mealType: 'lunch', description: 'Lentil soup', userId: 'secret' },
+        deletedAt,
+        purgeAt,
+    });
+    assert.equal(dto.originalId, String(originalId));
+    assert.equal(dto.date, '2026-05-01');
+    assert.equal(dto.summary, 'lunch · Lentil soup');
+    assert.equal(dto.purgeAt, '2026-06-01T08:30:00.000Z');
+    assert.equal('data' in dto, false);
+    assert.equal(trashListQuerySchema.safeParse({ kind: 'notes' }).success, false);
+});
+
+test('scheduleDeletionFields puts the deletion at the end of the grace window', () => {
+    const now = new Date('2026-05-02T08:30:00.000Z');
+    const { deletionRequestedAt, deletionScheduledFor } = scheduleDeletionFields(now);
+    assert.equal(deletionRequestedAt, now);
+    assert.equal(deletionScheduledFor.getTime() - now.getTime(), ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+});
@@ -0,0 +1,152 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import TrashItem, { ITrashItem, TRASH_KINDS, TrashKind } from '../models/TrashItem';
+import HealthEntry from '../models/HealthEntry';
+import MoodEntry from '../models/MoodEntry';
+import SleepSession from '../models/SleepSession';
+import Workout from '../models/Workout';
+import Meal from '../models/Meal';
+import { TrashItemDto } from '../contracts/api';
+import { getUtcDayKey, shiftUtcDays } from '../lib/dateUtils';
+import { syncProgress } from './progressService';
+import { rollupSleepDay } from './sleepSessionService';
+import { syncStreaks } from './streakService';
+import { rollupWorkoutDay } from './workoutService';
+
+/**
+ * Recoverable deletes. Deleting an entry moves the stored document into `trashitems`
+ * (in one transaction), where it stays for TRASH_RETENTION_DAYS before MongoDB's TTL
+ * monitor purges it. Restoring inserts the document back under its original id, so
+ * revision history and references pick up where they left off.
+ */
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export const trashListQuerySchema = z.object({
+    kind: z.enum(TRASH_KINDS as [TrashKind, ...TrashKind[]]).optional(),
+});
+
+export const trashIdParamSchema = z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid trash item id'),
+});
+
+interface TrashableEntry {
+    _id: mongoose.Types.ObjectId;
+    userId: mongoose.Types.ObjectId;
+    date: Date;
+}
+
+export type TrashRestoreResult =
+    | { ok: true; kind: TrashKind; date: Date }
+    | { ok: false; status: 404 | 409; message: string };
+
+function trashModel(kind: TrashKind): mongoose.Model<TrashableEntry> {
+    const models = { health: HealthEntry, mood: MoodEntry, sleep: SleepSession, workout: Workout, meal: Meal };
+    return models[kind] as unknown as mongoose.Model<TrashableEntry>;
+}
+
+function formatNumber(value: unknown, unit: string): string | null {
+    return typeof value === 'number' && value > 0 ? `${Math.round(value * 10) / 10}${unit}` : null;
+}
+
+/** One line describing a trashed entry, so the list reads without opening each item. */
+export function describeTrashData(kind: TrashKind, data: Record<string, unknown>): string {
+    const parts: Array<string | null> = (() => {
+        switch (kind) {
+            case 'health':
+                return [
+                    typeof data.steps === 'number' ? `${data.steps.toLocaleString('en-US')} steps` : null,
+                    formatNumber(data.sleepHours, 'h sleep'),
+                    formatNumber(data.waterLitres, 'L water'),
+                ];
+            case 'mood':
+                return [
+                    typeof data.mood === 'string' ? data.mood : null,
+                    typeof data.energyLevel === 'number' ? `energy ${data.energyLevel}/10` : null,
+                    typeof data.stressLevel === 'number' ? `stress ${data.stressLevel}/10` : null,
+                ];
+            case 'sleep':
+                return [formatNumber(data.durationHours, 'h'), typeof data.quality === 'string' ? data.quality : null];
+            case 'workout':
+                return [typeof data.type === 'string' ? data.type : null, formatNumber(data.durationMinutes, ' min')];
+            case 'meal':
+                return [typeof data.mealType === 'string' ? data.mealType : null, typeof data.description === 'string' ? data.description : null];
+        }
+    })();
+    return parts.filter((part): part is string => part !== null).join(' · ');
+}
+
+export function toTrashItemDto(item: Pick<ITrashItem, 'kind' | 'date' | 'data' | 'deletedAt' | 'purgeAt'> & {
+    _id: unknown;
+    originalId: unknown;
+}): TrashItemDto {
+    return {
+        id: String(item._id),
+        kind: item.kind,
+        originalId: String(item.originalId),
+        date: getUtcDayKey(item.date),
+        summary: describeTrashData(item.kind, item.data),
+        deletedAt: item.deletedAt.toISOString(),
+        purgeAt: item.purgeAt.toISOString(),
+    };
+}
+
+/** Deletes the entry and keeps it in the trash; returns what was deleted, or null when not found. */
+export async function moveToTrash(
+    userId: string,
+    kind: TrashKind,
+    id: string,
+    now = new Date()
+): Promise<TrashableEntry | null> {
+    const model = trashModel(kind);
+    const session = await mongoose.startSession();
+    let deleted: TrashableEntry | null = null;
+    try {
+        await session.withTransaction(async () => {
+            deleted = await model.findOneAndDelete({ _id: id, userId }, { session }).lean<TrashableEntry>();
+            if (!deleted) return;
+            await TrashItem.create([{
+                userId,
+                kind,
+                originalId: deleted._id,
+                date: deleted.date,
+                data: deleted,
+                deletedAt: now,
+                purgeAt: shiftUtcDays(now, TRASH_RETENTION_DAYS),
+            }], { session });
+        });
+    } finally {
+        await session.endSession();
+    }
+    return deleted;
+}
+
+/** Puts a trashed entry back. Fails with 409 when the day already has a newer entry. */
+export async function restoreFromTrash(userId: string, trashId: string): Promise<TrashRestoreResult> {
+    const item = await TrashItem.findOne({ _id: trashId, userId }).lean();
+    if (!item) return { ok: false, status: 404, message: 'Trash item not found' };
+
+    const session = await mongoose.startSession();
+    try {
+        await session.withTransaction(async () => {
+            await trashModel(item.kind).collection.insertOne(item.data, { session });
+            await TrashItem.deleteOne({ _id: item._id }).session(session);
+        });
+    } catch (error: unknown) {
+        if ((error as { code?: number })?.code === 11000) {
+            return { ok: false, status: 409, message: 'A newer entry exists for that day; delete it first to restore this one' };
+        }
+        throw error;
+    } finally {
+        await session.endSession();
+    }
+    return { ok: true, kind: item.kind, date: item.date };
+}
+
+/** Re-derives what depends on an entry after it was deleted or restored. */
+export async function syncAfterTrashChange(userId: string, kind: TrashKind, date: Date): Promise<void> {
+    if (kind === 'sleep') await rollupSleepDay(userId, date);
+    if (kind === 'health' || kind === 'sleep') await syncStreaks(userId, [date]);
+    if (kind === 'workout') await rollupWorkoutDay(userId, date);
+    if (kind === 'health' || kind === 'mood' || kind === 'workout' || kind === 'sleep') await syncProgress(userId);
+}
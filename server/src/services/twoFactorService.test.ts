@@ -0,0 +1,53 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import {
+    createChallengeToken,
+    generateRecoveryCodes,
+    hashRecoveryCode,
+    openSecret,
+    readChallengeToken,
+    sealSecret,
+} from './twoFactorService';
+
+const JWT_SECRET = 'test-secret';
+
+test('sealed TOTP secrets round-trip and refuse tampering', () => {
+    const previous = process.env.JWT_SECRET;
+    process.env.JWT_SECRET = JWT_SECRET;
+    try {
+        const sealed = sealSecret('GEZDGNBVGY3TQOJQ');
+        assert.equal(sealed.includes('GEZDGNBVGY3TQOJQ'), false);
+        assert.notEqual(sealSecret('GEZDGNBVGY3TQOJQ'), sealed);
+        assert.equal(openSecret(sealed), 'GEZDGNBVGY3TQOJQ');
+
+        const [iv, tag, ciphertext] = sealed.split('.');
+        const flipped = `${ciphertext[0] === 'A' ? 'B' : 'A'}${ciphertext.slice(1)}`;
+        assert.throws(() => openSecret([iv, tag, flipped].join('.')));
+    } finally {
+        if (previous === undefined) delete process.env.JWT_SECRET;
+        else process.env.JWT_SECRET = previous;
+    }
+});
+
+test('recovery codes are unique, readable and hash the same however they are typed', () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    assert.equal(codes.length, 10);
+    assert.equal(new Set(codes).size, 10);
+    codes.forEach((code) => assert.match(code, /^[a-z2-9]{5}-[a-z2-9]{5}$/));
+    assert.equal(hashes[0], hashRecoveryCode(codes[0]));
+    assert.equal(hashRecoveryCode(` ${codes[0].toUpperCase().replace('-', ' ')} `), hashes[0]);
+});
+
+test('challenge tokens name the user but are not access tokens', () => {
+    const { token, expiresAt } = createChallengeToken('user-1', JWT_SECRET, new Date('2026-03-01T10:00:00Z'));
+    assert.equal(expiresAt.toISOString(), '2026-03-01T10:05:00.000Z');
+    assert.equal(readChallengeToken(token, JWT_SECRET), 'user-1');
+    assert.equal(readChallengeToken(token, 'other-secret'), null);
+
+    const decoded = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    assert.equal(decoded.userId, undefined);
+
+    const accessToken = jwt.sign({ userId: 'user-1', sid: 'session-1' }, JWT_SECRET);
+    assert.equal(readChallengeToken(accessToken, JWT_SECRET), null);
+});
@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import User, { TwoFactorSettings } from '../models/User';
+import { TwoFactorStatusDto } from '../contracts/api';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../lib/totp';
+
+/**
+ * Optional TOTP two-factor sign-in. Setup stores a pending secret that only becomes active
+ * once the user proves their authenticator app produces matching codes. Secrets are sealed
+ * with AES-256-GCM under a key derived from JWT_SECRET; recovery codes are stored as SHA-256
+ * and each works once. With 2FA on, a correct password only earns a short-lived challenge
+ * token, which is exchanged for a session together with a code.
+ */
+
+export const TOTP_ISSUER = 'HealthTwin';
+export const RECOVERY_CODE_COUNT = 10;
+export const CHALLENGE_TOKEN_TTL_SECONDS = 5 * 60;
+const CHALLENGE_PURPOSE = 'two_factor';
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export const secondFactorCodeSchema = z.string().trim().min(6, 'Enter the code from your authenticator app').max(20);
+
+export const twoFactorCodeSchema = z.object({
+    code: secondFactorCodeSchema,
+});
+
+export const disableTwoFactorSchema = z.object({
+    password: z.string().min(1, 'Password is required'),
+    code: secondFactorCodeSchema,
+});
+
+export type SecondFactorResult =
+    | { ok: true; method: 'totp' | 'recovery_code' }
+    | { ok: false; status: 400; message: string };
+
+function sealingKey(): Buffer {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) throw new Error('JWT secret is not configured');
+    return crypto.createHash('sha256').update(`two-factor:${secret}`).digest();
+}
+
+/** Encrypts a TOTP secret for storage as `iv.tag.ciphertext` (base64url). */
+export function sealSecret(plain: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', sealingKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+export function openSecret(sealed: string): string {
+    const [iv, tag, ciphertext] = sealed.split('.').map((part) => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', sealingKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/** Lower-cases and drops separators so "ABCDE-FGHJK" and "abcde fghjk" hash the same. */
+export function normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+export function hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/** Ten `xxxxx-xxxxx` codes without look-alike characters, plus the hashes to store. */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: count }, () => {
+        const chars = Array.from(crypto.randomBytes(10), (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+        return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+    });
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+export function toTwoFactorStatusDto(settings: TwoFactorSettings | undefined): TwoFactorStatusDto {
+    return {
+        enabled: Boolean(settings?.enabled),
+        enabledAt: settings?.enabled && settings.enabledAt ? settings.enabledAt.toISOString() : null,
+        recoveryCodesRemaining: settings?.enabled ? settings.recoveryCodeHashes.length : 0,
+    };
+}
+
+/** Starts (or restarts) enrollment; the returned secret is not used for sign-in until confirmed. */
+export async function beginTwoFactorSetup(user: { _id: unknown; email: string }): Promise<{ secret: string; otpauthUri: string }> {
+    const secret = generateTotpSecret();
+    await User.updateOne({ _id: user._id }, { $set: { 'twoFactor.pendingSecret': sealSecret(secret) } });
+    return { secret, otpauthUri: buildOtpauthUri({ issuer: TOTP_ISSUER, account: user.email, secret }) };
+}
+
+/** Confirms setup with a code from the pending secret and returns the recovery codes, or null. */
+export async function confirmTwoFactorSetup(
+    userId: string,
+    code: string,
+    now = new Date()
+): Promise<string[] | null> {
+    const user = await User.findById(userId).select('twoFactor');
+    const pending = user?.twoFactor?.pendingSecret;
+    if (!user || !pending || user.twoFactor.enabled) return null;
+
+    const step = verifyTotp(openSecret(pending), code, now);
+    if (step === null) return null;
+
+    const recovery = generateRecoveryCodes();
+    const updated = await User.updateOne(
+        { _id: userId, 'twoFactor.enabled': false, 'twoFactor.pendingSecret': pending },
+        {
+            $set: {
+                'twoFactor.enabled': true,
+                'twoFactor.secret': pending,
+                'twoFactor.pendingSecret': null,
+                'twoFactor.recoveryCodeHashes': recovery.hashes,
+                'twoFactor.enabledAt': now,
+                'twoFactor.lastUsedStep': step,
+            },
+        }
+    );
+    return updated.modifiedCount === 1 ? recovery.codes : null;
+}
+
+/** Failed-code counter shared by the 2FA sign-in step and the signed-in 2FA settings. */
+export function twoFactorAttemptKey(userId: string): string {
+    return `2fa:${userId}`;
+}
+
+/**
+ * Accepts either a current TOTP code or an unused recovery code. Both are spent in the same
+ * update that checks them, so a code cannot be replayed even by concurrent requests.
+ */
+export async function checkSecondFactor(userId: string, code: string, now = new Date()): Promise<SecondFactorResult> {
+    const user = await User.findById(userId).select('twoFactor');
+    if (!user?.twoFactor?.enabled || !user.twoFactor.secret) {
+        return { ok: false, status: 400, message: 'Two-factor authentication is not enabled' };
+    }
+
+    const trimmed = code.trim();
+    if (/^\d{6}$/.test(trimmed)) {
+        const step = verifyTotp(openSecret(user.twoFactor.secret), trimmed, now);
+        if (step !== null) {
+            const accepted = await User.updateOne(
+                {
+                    _id: userId,
+                    'twoFactor.enabled': true,
+                    $or: [{ 'twoFactor.lastUsedStep': null }, { 'twoFactor.lastUsedStep': { $lt: step } }],
+                },
+                { $set: { 'twoFactor.lastUsedStep': step } }
+            );
+            if (accepted.modifiedCount === 1) return { ok: true, method: 'totp' };
+        }
+        return { ok: false, status: 400, message: 'Invalid or expired code' };
+    }
+
+    const hash = hashRecoveryCode(trimmed);
+    const spent = await User.updateOne(
+        { _id: userId, 'twoFactor.enabled': true, 'twoFactor.recoveryCodeHashes': hash },
+        { $pull: { 'twoFactor.recoveryCodeHashes': hash } }
+    );
+    if (spent.modifiedCount === 1) return { ok: true, method: 'recovery_code' };
+    return { ok: false, status: 400, message: 'Invalid or expired code' };
+}
+
+/** Replaces every recovery code; the old ones stop working. */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const recovery = generateRecoveryCodes();
+    await User.updateOne({ _id: userId }, { $set: { 'twoFactor.recoveryCodeHashes': recovery.hashes } });
+    return recovery.codes;
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+    await User.updateOne(
+        { _id: userId },
+        {
+            $set: {
+                'twoFactor.enabled': false,
+                'twoFactor.secret': null,
+                'twoFactor.pendingSecret': null,
+                'twoFactor.recoveryCodeHashes': [],
+                'twoFactor.enabledAt': null,
+                'twoFactor.lastUsedStep': null,
+            },
+        }
+    );
+}
+
+/**
+ * Proof that the password step passed. It carries `sub` rather than `userId`, so
+ * `authenticate` never accepts it as an access token.
+ */
+export function createChallengeToken(
+    userId: string,
+    secret: string,
+    now = new Date()
+): { token: string; expiresAt: Date } {
+    const token = jwt.sign({ sub: userId, purpose: CHALLENGE_PURPOSE }, secret, { expiresIn: CHALLENGE_TOKEN_TTL_SECONDS });
+    return { token, expiresAt: new Date(now.getTime() + CHALLENGE_TOKEN_TTL_SECONDS * 1000) };
+}
+
+/** The user id behind a valid, unexpired challenge token; null otherwise. */
+export function readChallengeToken(token: string, secret: string): string | null {
+    try {
+        const decoded = jwt.verify(token, secret);
+        if (typeof decoded === 'string' || decoded.purpose !== CHALLENGE_PURPOSE) return null;
+        return typeof decoded.sub === 'string' ? decoded.sub : null;
+    } catch {
+        return null;
+    }
+}
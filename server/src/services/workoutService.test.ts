@@ -0,0 +1,50 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { nextActiveMinutes, summarizeWorkouts, workoutDay, workoutInputSchema } from './workoutService';
+
+test('nextActiveMinutes follows workouts unless another source recorded more', () => {
+    // No other source yet: workouts set the value, and edits/deletes move it.
+    assert.equal(nextActiveMinutes(0, 0, 45), 45);
+    assert.equal(nextActiveMinutes(45, 45, 30), 30);
+    assert.equal(nextActiveMinutes(30, 30, 0), 0);
+
+    // A tracker reported 80 active minutes: workouts only raise it.
+    assert.equal(nextActiveMinutes(80, 45, 60), 80);
+    assert.equal(nextActiveMinutes(80, 45, 95), 95);
+    assert.equal(nextActiveMinutes(80, 0, 2000), 1440);
+});
+
+test('workoutDay uses the local start day', () => {
+    const input = workoutInputSchema.parse({
+        type: 'run',
+        startTime: '2026-03-02T02:00:00.000Z',
+        utcOffsetMinutes: -300,
+        durationMinutes: '40',
+    });
+    assert.equal(input.durationMinutes, 40);
+    assert.equal(workoutDay(input.startTime, input.utcOffsetMinutes).toISOString(), '2026-03-01T00:00:00.000Z');
+});
+
+test('summarizeWorkouts reports frequency and type mix', () => {
+    const day = (key: string) => new Date(`${key}T00:00:00.000Z`);
+    const summary = summarizeWorkouts([
+        { date: day('2026-03-01'), type: 'run', durationMinutes: 30, perceivedExertion: 7, distanceKm: 5 },
+        { date: day('2026-03-01'), type: 'strength', durationMinutes: 45, perceivedExertion: 6 },
+        { date: day('2026-03-03'), type: 'run', durationMinutes: 60, distanceKm: 10.25 },
+        { date: day('2026-03-05'), type: 'yoga', durationMinutes: 20, perceivedExertion: 2 },
+    ], 14);
+
+    assert.equal(summary.count, 4);
+    assert.equal(summary.totalMinutes, 155);
+    assert.equal(summary.activeDays, 3);
+    assert.equal(summary.perWeek, 2);
+    assert.equal(summary.avgPerceivedExertion, 5);
+    assert.equal(summary.totalDistanceKm, 15.25);
+    assert.equal(summary.longestMinutes, 60);
+    assert.equal(summary.mostFrequentType, 'run');
+    assert.deepEqual(summary.byType.run, { count: 2, minutes: 90 });
+
+    const empty = summarizeWorkouts([], 7);
+    assert.equal(empty.mostFrequentType, null);
+    assert.equal(empty.avgPerceivedExertion, null);
+});
@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import HealthEntry from '../models/HealthEntry';
+import Workout, { WORKOUT_TYPES, WorkoutType } from '../models/Workout';
+import { WorkoutSummaryDto } from '../contracts/api';
+import { getUtcDayRange, toUtcDayStart } from '../lib/dateUtils';
+
+/**
+ * Workouts: typed training sessions with duration, exertion, distance and heart rate.
+ *
+ * A workout belongs to the local day it started on (device UTC offset at save time). After
+ * every write the day's logged minutes are rolled into `HealthEntry.activeMinutes`; the
+ * previous contribution is kept in `workoutMinutes` so edits and deletes can take it back
+ * out without clobbering a larger figure from a tracker or the Daily Log.
+ */
+
+const MAX_ACTIVE_MINUTES = 1440;
+
+export const workoutTypeSchema = z.enum(WORKOUT_TYPES as [WorkoutType, ...WorkoutType[]]);
+
+const workoutFieldsSchema = z.object({
+    type: workoutTypeSchema,
+    startTime: z.coerce.date().refine((value) => !Number.isNaN(value.getTime()), 'Invalid date'),
+    utcOffsetMinutes: z.coerce.number().int().min(-840).max(840),
+    durationMinutes: z.coerce.number().int().min(1).max(MAX_ACTIVE_MINUTES),
+    perceivedExertion: z.coerce.number().int().min(1).max(10).optional(),
+    distanceKm: z.coerce.number().min(0).max(1000).optional(),
+    avgHeartRate: z.coerce.number().int().min(20).max(260).optional(),
+    notes: z.string().trim().max(500).optional(),
+});
+
+export const workoutInputSchema = workoutFieldsSchema.extend({
+    utcOffsetMinutes: workoutFieldsSchema.shape.utcOffsetMinutes.default(0),
+});
+
+// No defaults here: an omitted field keeps its stored value.
+export const workoutUpdateSchema = workoutFieldsSchema.partial().refine(
+    (value) => Object.keys(value).length > 0,
+    'Provide at least one field to update'
+);
+
+export type WorkoutInput = z.infer<typeof workoutInputSchema>;
+export type WorkoutUpdate = z.infer<typeof workoutUpdateSchema>;
+
+export interface WorkoutSummaryInput {
+    date: Date;
+    type: WorkoutType;
+    durationMinutes: number;
+    perceivedExertion?: number;
+    distanceKm?: number;
+}
+
+function round(value: number, digits: number): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+export function workoutDay(startTime: Date, utcOffsetMinutes = 0): Date {
+    return toUtcDayStart(new Date(startTime.getTime() + utcOffsetMinutes * 60000));
+}
+
+/**
+ * New `activeMinutes` for a day after its workout total changes. When the current value is
+ * no larger than what workouts contributed last time, workouts are what set it and it
+ * follows the new total; otherwise another source recorded more and workouts only raise it.
+ */
+export function nextActiveMinutes(current: number, previousWorkoutMinutes: number, workoutMinutes: number): number {
+    const next = current <= previousWorkoutMinutes ? workoutMinutes : Math.max(current, workoutMinutes);
+    return Math.min(MAX_ACTIVE_MINUTES, Math.max(0, Math.round(next)));
+}
+
+export async function rollupWorkoutDay(userId: string, date: Date): Promise<number> {
+    const { start, end } = getUtcDayRange(date);
+    const [workouts, entry] = await Promise.all([
+        Workout.find({ userId, date: { $gte: start, $lt: end } }).select('durationMinutes').lean(),
+        HealthEntry.findOne({ userId, date: start }).select('activeMinutes workoutMinutes').lean(),
+    ]);
+    const workoutMinutes = Math.min(
+        MAX_ACTIVE_MINUTES,
+        workouts.reduce((sum, workout) => sum + workout.durationMinutes, 0)
+    );
+
+    if (!entry && workoutMinutes === 0) return 0;
+
+    const activeMinutes = nextActiveMinutes(entry?.activeMinutes ?? 0, entry?.workoutMinutes ?? 0, workoutMinutes);
+    await HealthEntry.findOneAndUpdate(
+        { userId, date: start },
+        {
+            $set: { activeMinutes, workoutMinutes },
+            $setOnInsert: { userId, date: start, source: 'health_api' },
+        },
+        { upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+    return activeMinutes;
+}
+
+export function summarizeWorkouts(workouts: WorkoutSummaryInput[], days: number): WorkoutSummaryDto {
+    const byType: WorkoutSummaryDto['byType'] = {};
+    const activeDays = new Set<number>();
+    let totalMinutes = 0;
+    let totalDistanceKm = 0;
+    let longestMinutes = 0;
+    const exertion: number[] = [];
+
+    workouts.forEach((workout) => {
+        const bucket = byType[workout.type] ?? { count: 0, minutes: 0 };
+        bucket.count += 1;
+        bucket.minutes += workout.durationMinutes;
+        byType[workout.type] = bucket;
+
+        activeDays.add(workout.date.getTime());
+        totalMinutes += workout.durationMinutes;
+        totalDistanceKm += workout.distanceKm ?? 0;
+        longestMinutes = Math.max(longestMinutes, workout.durationMinutes);
+        if (workout.perceivedExertion !== undefined) exertion.push(workout.perceivedExertion);
+    });
+
+    // Most sessions wins; ties go to the type with more minutes.
+    const ranked = (Object.entries(byType) as Array<[WorkoutType, { count: number; minutes: number }]>)
+        .sort((a, b) => b[1].count - a[1].count || b[1].minutes - a[1].minutes);
+
+    return {
+        days,
+        count: workouts.length,
+        totalMinutes,
+        activeDays: activeDays.size,
+        perWeek: days > 0 ? round((workouts.length / days) * 7, 1) : 0,
+        avgPerceivedExertion: exertion.length > 0
+            ? round(exertion.reduce((sum, value) => sum + value, 0) / exertion.length, 1)
+            : null,
+        totalDistanceKm: round(totalDistanceKm, 2),
+        byType,
+        mostFrequentType: ranked[0]?.[0] ?? null,
+        longestMinutes,
+    };
+}